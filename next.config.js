@@ -8,6 +8,10 @@ const nextConfig = {
       'cverdfxlzklzckwrvjmo.supabase.co' // Allow Supabase storage images
     ],
   },
+  experimental: {
+    // Native image decoding for server-side waste classification
+    serverComponentsExternalPackages: ['canvas'],
+  },
   // Temporarily disable type checking and linting for deployment
   typescript: {
     ignoreBuildErrors: true,
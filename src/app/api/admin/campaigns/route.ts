@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { campaignService, CampaignError, type CampaignErrorCode } from '@/services/campaignService';
+
+const CAMPAIGN_ERROR_STATUS: Record<CampaignErrorCode, number> = {
+  INVALID_CAMPAIGN: 400,
+  CAMPAIGN_NOT_FOUND: 404,
+  CAMPAIGN_ALREADY_STOPPED: 409
+};
+
+function errorResponse(error: unknown) {
+  if (error instanceof CampaignError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: CAMPAIGN_ERROR_STATUS[error.code] }
+    );
+  }
+  return null;
+}
+
+// GET - All campaigns with budget usage (?active=true for running and scheduled ones only)
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const campaigns = await campaignService.listCampaigns(searchParams.get('active') !== 'true');
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error('Error fetching campaigns:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a campaign:
+// { name, description?, startsAt, endsAt, geofence?: { lat, lng, radiusKm, label? },
+//   wasteCategories?, multiplier?, flatBonus?, budgetPoints?, createdBy? }
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json();
+    const campaign = await campaignService.createCampaign({
+      name: body.name,
+      description: body.description,
+      startsAt: body.startsAt,
+      endsAt: body.endsAt,
+      geofence: body.geofence,
+      wasteCategories: body.wasteCategories,
+      multiplier: body.multiplier,
+      flatBonus: body.flatBonus,
+      budgetPoints: body.budgetPoints,
+      createdBy: body.createdBy
+    });
+
+    return NextResponse.json({ success: true, campaign }, { status: 201 });
+  } catch (error) {
+    const response = errorResponse(error);
+    if (response) return response;
+
+    console.error('Error creating campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to create campaign' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Stop a campaign early: { campaignId, action: 'stop' }
+export async function PATCH(request: NextRequest) {
+  const user = await requireRole(request, ['admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { campaignId, action } = await request.json();
+
+    if (!campaignId || action !== 'stop') {
+      return NextResponse.json(
+        { error: "campaignId and action ('stop') are required" },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await campaignService.stopCampaign(String(campaignId));
+    return NextResponse.json({ success: true, campaign });
+  } catch (error) {
+    const response = errorResponse(error);
+    if (response) return response;
+
+    console.error('Error stopping campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to stop campaign' },
+      { status: 500 }
+    );
+  }
+}
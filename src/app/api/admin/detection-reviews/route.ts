@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { detectionModeration, ModerationError, type ModerationErrorCode } from '@/services/detectionModeration';
+import type { DetectionReviewStatus } from '@/types/moderation';
+
+const STATUSES: DetectionReviewStatus[] = ['open', 'confirmed', 'relabeled'];
+
+const MODERATION_ERROR_STATUS: Record<ModerationErrorCode, number> = {
+  REVIEW_NOT_FOUND: 404,
+  REVIEW_ALREADY_RESOLVED: 409,
+  INVALID_LABEL: 400
+};
+
+// GET - Detections awaiting a label, oldest first (?status=confirmed|relabeled for resolved ones),
+// or ?view=evaluation for classifier accuracy against the moderators' labels
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('view') === 'evaluation') {
+      const evaluation = await detectionModeration.getEvaluation();
+      return NextResponse.json({ evaluation });
+    }
+
+    const status = (searchParams.get('status') || 'open') as DetectionReviewStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const reviews = await detectionModeration.getQueue(status);
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching detection reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch detection reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Label a detection as the signed-in reviewer: { reviewId, label, note? }
+// The predicted category confirms it; any other category relabels it and re-estimates the points.
+export async function PATCH(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { reviewId, label, note } = await request.json();
+
+    if (!reviewId || typeof label !== 'string') {
+      return NextResponse.json(
+        { error: 'reviewId and label are required' },
+        { status: 400 }
+      );
+    }
+
+    const review = await detectionModeration.resolveReview(String(reviewId), label, user.id, note);
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    if (error instanceof ModerationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: MODERATION_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('Error resolving detection review:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve detection review' },
+      { status: 500 }
+    );
+  }
+}
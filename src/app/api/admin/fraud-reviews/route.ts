@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { fraudDetection, FraudReviewError, type FraudReviewErrorCode } from '@/services/fraudDetection';
+import type { FraudReviewStatus } from '@/types/fraud';
+
+const STATUSES: FraudReviewStatus[] = ['open', 'approved', 'rejected'];
+
+const REVIEW_ERROR_STATUS: Record<FraudReviewErrorCode, number> = {
+  REVIEW_NOT_FOUND: 404,
+  REVIEW_ALREADY_RESOLVED: 409
+};
+
+// GET - Review queue of suspicious submissions, oldest first (?status=approved|rejected for resolved ones)
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'open') as FraudReviewStatus;
+
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const reviews = await fraudDetection.getReviewQueue(status);
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching fraud reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fraud reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Resolve a review as the signed-in reviewer: { reviewId, decision: 'approve' | 'reject', note? }
+// Approving releases the held points to the normal settlement flow; rejecting forfeits them.
+export async function PATCH(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { reviewId, decision, note } = await request.json();
+
+    if (!reviewId || (decision !== 'approve' && decision !== 'reject')) {
+      return NextResponse.json(
+        { error: "reviewId and decision ('approve' or 'reject') are required" },
+        { status: 400 }
+      );
+    }
+
+    const review = await fraudDetection.resolveReview(String(reviewId), decision, user.id, note);
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    if (error instanceof FraudReviewError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: REVIEW_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('Error resolving fraud review:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve fraud review' },
+      { status: 500 }
+    );
+  }
+}
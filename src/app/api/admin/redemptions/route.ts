@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { rewardCatalog, RedemptionError } from '@/services/rewardCatalog';
+import type { RedemptionAction, RedemptionStatus } from '@/types/rewards';
+
+const ACTIONS: RedemptionAction[] = ['fulfill', 'cancel', 'refund'];
+
+// GET - List redemptions for fulfilment (filter by status or user)
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as RedemptionStatus | null;
+    const userEmail = searchParams.get('email');
+
+    const redemptions = await rewardCatalog.listRedemptions({
+      status: status || undefined,
+      userEmail: userEmail || undefined
+    });
+
+    return NextResponse.json({ redemptions });
+  } catch (error) {
+    console.error('Error fetching redemptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch redemptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Fulfill, cancel or refund a redemption
+export async function PATCH(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { redemptionId, action, note } = await request.json();
+
+    if (!redemptionId || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `redemptionId and action (${ACTIONS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    const redemption = await rewardCatalog.settleRedemption(String(redemptionId), action, note);
+
+    return NextResponse.json({
+      success: true,
+      redemption
+    });
+  } catch (error) {
+    if (error instanceof RedemptionError) {
+      const status = error.code === 'REDEMPTION_NOT_FOUND' ? 404 : 409;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+
+    console.error('Error updating redemption:', error);
+    return NextResponse.json(
+      { error: 'Failed to update redemption' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { userAccounts, AccountError, USER_ROLES, type AccountErrorCode } from '@/services/userAccounts';
+import type { UserRole } from '@/types/auth';
+
+const ACCOUNT_ERROR_STATUS: Record<AccountErrorCode, number> = {
+  INVALID_ACCOUNT: 400,
+  EMAIL_TAKEN: 409,
+  ACCOUNT_NOT_FOUND: 404
+};
+
+// GET - Accounts, newest first (?role= to filter)
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const role = searchParams.get('role') as UserRole | null;
+
+    if (role && !USER_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${USER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const accounts = await userAccounts.listAccounts(role || undefined);
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('Error fetching accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Grant a role: { email, role, collectorId? } (collectorId links collector accounts to their registry entry)
+export async function PATCH(request: NextRequest) {
+  const user = await requireRole(request, ['admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { email, role, collectorId } = await request.json();
+
+    if (!email || !role) {
+      return NextResponse.json(
+        { error: 'email and role are required' },
+        { status: 400 }
+      );
+    }
+
+    const account = await userAccounts.setRole(String(email), role, collectorId);
+    return NextResponse.json({ success: true, account });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ACCOUNT_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('Error updating account role:', error);
+    return NextResponse.json(
+      { error: 'Failed to update account role' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,104 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { requireRole } from '@/lib/auth';
+import { pointsLedger } from '@/services/pointsLedger';
+import { detectionVerification } from '@/services/detectionVerification';
+import { scoreDetectedItems } from '@/services/scoringPolicy';
+import { campaignService } from '@/services/campaignService';
+import { fraudDetection } from '@/services/fraudDetection';
+import { detectionModeration } from '@/services/detectionModeration';
+import { submissionImages, ImageUploadError, type ImageUploadErrorCode } from '@/services/submissionImages';
+import { decodeImagePixels } from '@/lib/imageDecoding';
+import { computeDHash } from '@/lib/perceptualHash';
+import type { ClientDetectedItem, ClientWasteAnalysis, ScoredDetectedItem, VerifiedDetectedItem } from '@/types/detection';
+import type { CampaignBonus } from '@/types/scoring';
+
+const UPLOAD_ERROR_STATUS: Record<ImageUploadErrorCode, number> = {
+  UNSUPPORTED_TYPE: 415,
+  TOO_LARGE: 413,
+  INVALID_DIMENSIONS: 422,
+  CORRUPT_IMAGE: 400
+};
+
+const MAX_ITEMS_PER_SUBMISSION = 20;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Items the user kept, in the image's pixel space; null when the payload is malformed
+function parseItems(raw: string): ClientDetectedItem[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed)) return null;
+
+  const items: ClientDetectedItem[] = [];
+  for (const item of parsed) {
+    const bbox = item?.bbox;
+    if (
+      typeof item?.className !== 'string' ||
+      typeof item?.wasteType !== 'string' ||
+      !isFiniteNumber(item?.confidence) ||
+      !isFiniteNumber(bbox?.x) || !isFiniteNumber(bbox?.y) ||
+      !isFiniteNumber(bbox?.width) || !isFiniteNumber(bbox?.height) ||
+      bbox.width <= 0 || bbox.height <= 0
+    ) {
+      return null;
+    }
+    items.push({
+      className: item.className.slice(0, 64),
+      wasteType: item.wasteType,
+      confidence: Math.min(1, Math.max(0, item.confidence)),
+      bbox: { x: bbox.x, y: bbox.y, width: bbox.width, height: bbox.height }
+    });
+  }
+  return items;
+}
 
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['citizen']);
+  if (user instanceof NextResponse) return user;
+
   try {
     const formData = await request.formData();
     const image = formData.get('image') as File;
     const clientAnalysisStr = formData.get('clientAnalysis') as string;
-    const userEmail = formData.get('userEmail') as string;
+    // Points always go to the signed-in citizen, never to an email the client names
+    const userEmail = user.email;
+    const locationStr = formData.get('location') as string | null;
+    const itemsStr = formData.get('items') as string | null;
     
-    if (!image) {
+    if (!(image instanceof Blob)) {
       return NextResponse.json(
         { error: 'No image provided' },
         { status: 400 }
       );
     }
 
-    if (!userEmail) {
+    // Without an item list the whole photo counts as one item
+    const clientItems = itemsStr ? parseItems(itemsStr) : [];
+    if (!clientItems) {
       return NextResponse.json(
-        { error: 'User email required' },
+        { error: 'items must be an array of { className, wasteType, confidence, bbox: { x, y, width, height } }' },
         { status: 400 }
       );
     }
+    if (clientItems.length > MAX_ITEMS_PER_SUBMISSION) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ITEMS_PER_SUBMISSION} items per submission` },
+        { status: 400 }
+      );
+    }
+
+    // Rejects bad uploads before any analysis runs
+    const storedImage = await submissionImages.save(image);
 
-    let clientAnalysis = null;
+    // The browser's analysis is only kept for comparison; scoring uses the server's own classification
+    let clientAnalysis: ClientWasteAnalysis | null = null;
     if (clientAnalysisStr) {
       try {
         clientAnalysis = JSON.parse(clientAnalysisStr);
@@ -31,28 +107,87 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Use client analysis if available, otherwise provide fallback
-    const result = clientAnalysis || {
-      wasteType: 'other',
-      detailedType: 'unknown',
-      confidence: 0.5,
-      quality: 'fair',
-      pointsEarned: 3,
-      recyclable: false
-    };
+    const pixels = await decodeImagePixels(image);
+    const server = await detectionVerification.classify(pixels);
+    const imageHash = pixels ? computeDHash(pixels) : null;
+
+    // Optional { lat, lng } so district campaigns can apply
+    let location: { lat: number; lng: number } | null = null;
+    if (locationStr) {
+      try {
+        const parsed = JSON.parse(locationStr);
+        if (typeof parsed?.lat === 'number' && typeof parsed?.lng === 'number') location = parsed;
+      } catch (parseError) {
+        console.warn('Failed to parse location:', parseError);
+      }
+    }
+
+    // Each kept item is classified from its own crop; the browser's categories are only compared.
+    // When the server's detector localizes objects, boxes must also match one of its detections
+    // to earn points; otherwise an item earns points when its crop could be classified.
+    const serverBoxes = clientItems.length > 0
+      ? await detectionVerification.detectBoxes(Buffer.from(await image.arrayBuffer()))
+      : null;
+    const verifiedItems: VerifiedDetectedItem[] = clientItems.length > 0
+      ? await detectionVerification.classifyItems(pixels, storedImage, clientItems, serverBoxes)
+      : [{
+          className: server.wasteType,
+          clientWasteType: clientAnalysis?.wasteType || server.wasteType,
+          wasteType: server.wasteType,
+          confidence: server.confidence,
+          quality: server.quality,
+          bbox: { x: 0, y: 0, width: storedImage.width, height: storedImage.height },
+          verified: server.verified,
+          confirmed: true
+        }];
+    const confirmedItems = verifiedItems.filter(item => item.confirmed);
+    if (confirmedItems.length < verifiedItems.length) {
+      console.warn(`⚠️ ${verifiedItems.length - confirmedItems.length} item(s) from ${userEmail} could not be confirmed by the server`);
+    }
+
+    // Campaigns target categories, so bonuses are looked up per item category
+    const bonusesByCategory = new Map<string, CampaignBonus[]>();
+    for (const item of confirmedItems) {
+      if (!bonusesByCategory.has(item.wasteType)) {
+        bonusesByCategory.set(item.wasteType, await campaignService.getBonuses({ wasteType: item.wasteType, location }));
+      }
+    }
+    const award = scoreDetectedItems(confirmedItems.map(item => ({
+      wasteType: item.wasteType,
+      quality: item.quality,
+      bonuses: bonusesByCategory.get(item.wasteType)
+    })));
+    // Unconfirmed items are kept for review but score nothing
+    const items: ScoredDetectedItem[] = verifiedItems.map(item => ({
+      ...item,
+      points: item.confirmed ? award.items[confirmedItems.indexOf(item)].points : 0
+    }));
+
+    // Compared once scored, against the same total the browser summed for the items it kept
+    const disagreement = clientAnalysis ? detectionVerification.compare(server, clientAnalysis, award.points) : null;
+    if (disagreement?.significant) {
+      console.warn(`⚠️ Client analysis disagrees with server for ${userEmail}:`, disagreement.reasons);
+    }
 
-    // Calculate additional points based on waste type
-    const pointsMultiplier = {
-      'plastic': 1.2,
-      'glass': 1.5,
-      'metal': 2.0,
-      'paper': 1.0,
-      'electronic': 2.5,
-      'organic': 0.8
+    // The highest-scoring item stands for the submission where one category is needed (pickup, trader matching)
+    const primary = items.reduce((best, item) => (item.points > best.points ? item : best));
+    const result = {
+      wasteType: primary.wasteType,
+      confidence: primary.confidence,
+      quality: primary.quality,
+      pointsEarned: award.points,
+      recyclable: server.recyclability >= 0.8
     };
 
-    const multiplier = pointsMultiplier[result.wasteType as keyof typeof pointsMultiplier] || 1.0;
-    result.pointsEarned = Math.round((result.pointsEarned || 3) * multiplier);
+    // Records the upload as well, so a parallel upload of the same photo is compared against this one
+    const assessment = await fraudDetection.assess({ userEmail, imageHashes: imageHash ? [imageHash] : [], location });
+    if (assessment.suspicious) {
+      console.warn(`🚩 Holding submission from ${userEmail} for review:`, assessment.signals.map(signal => signal.type));
+    }
+
+    // Uncertain classifications wait for a moderator to confirm the category
+    const moderationReasons = detectionModeration.triage(server);
+    const held = assessment.suspicious || moderationReasons.length > 0;
 
     // Store the detection in the database
     const { data: detectionData, error: detectionError } = await supabase
@@ -61,15 +196,25 @@ export async function POST(request: NextRequest) {
         user_email: userEmail,
         image_name: image.name,
         image_size: image.size,
+        image_url: storedImage.url,
+        thumbnail_url: storedImage.thumbnailUrl,
         waste_type: result.wasteType,
         confidence: result.confidence,
         quality: result.quality,
-        recyclability: result.recyclable ? 1.0 : 0.0,
-        contamination: 0.1, // Default low contamination
+        recyclability: server.recyclability,
+        contamination: server.contamination,
         points_earned: result.pointsEarned,
+        policy_version: award.policyVersion,
+        image_hash: imageHash,
+        location,
+        items,
+        vision_provider: server.provider,
         model_results: {
-          detailedType: result.detailedType,
-          originalAnalysis: clientAnalysis
+          serverAnalysis: server,
+          clientAnalysis,
+          disagreement,
+          fraudSignals: assessment.signals,
+          moderationReasons
         },
         accuracy_improvement: 0.35 // 35% improvement as advertised
       })
@@ -81,42 +226,84 @@ export async function POST(request: NextRequest) {
       // Continue anyway, don't fail the request
     }
 
-    // Update user points
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('points')
-      .eq('email', userEmail)
+    // Open a submission for the pickup; its points are only an estimate until a collector weighs it
+    const { data: submissionData, error: submissionError } = await supabase
+      .from('waste_submissions')
+      .insert({
+        user_id: user.id,
+        type: result.wasteType,
+        quality: result.quality,
+        points: result.pointsEarned,
+        ai_confidence: result.confidence,
+        image_url: storedImage.url,
+        thumbnail_url: storedImage.thumbnailUrl,
+        items
+      })
+      .select('id')
       .single();
 
-    if (userData) {
-      // Update existing user points
-      const { error: updateError } = await supabase
-        .from('users')
-        .update({ 
-          points: (userData.points || 0) + result.pointsEarned,
-          updated_at: new Date().toISOString()
-        })
-        .eq('email', userEmail);
-
-      if (updateError) {
-        console.error('Failed to update user points:', updateError);
-      } else {
-        console.log(`✅ Added ${result.pointsEarned} points to user ${userEmail}`);
-      }
-    } else if (userError?.code === 'PGRST116') {
-      // User doesn't exist, create them
-      const { error: createError } = await supabase
-        .from('users')
-        .insert({
-          email: userEmail,
-          points: result.pointsEarned,
-          name: userEmail.split('@')[0] // Use email prefix as name
+    if (submissionError) {
+      console.error('Failed to store submission:', submissionError);
+    }
+
+    // Hold the estimate as provisional points; collector verification settles the real amount.
+    // Suspicious or uncertain submissions are held back until every review on them is closed.
+    const submissionId: number | null = submissionData?.id ?? null;
+    const holdSource = submissionId !== null
+      ? { type: 'submission' as const, id: String(submissionId) }
+      : { type: 'detection' as const, id: detectionData?.id ? String(detectionData.id) : `${userEmail}-${Date.now()}` };
+
+    try {
+      await pointsLedger.recordProvisional({
+        userEmail,
+        points: result.pointsEarned,
+        policyVersion: award.policyVersion,
+        source: holdSource,
+        basis: { confidence: result.confidence, items: items.length, scoring: award.items.map(item => item.breakdown) },
+        note: items.length > 1 ? `AI estimate: ${items.length} items` : `AI estimate: ${result.wasteType}`,
+        held
+      });
+      console.log(`⏳ Holding ${result.pointsEarned} provisional points for ${userEmail} (${holdSource.type} ${holdSource.id})`);
+    } catch (ledgerError) {
+      console.error('Failed to hold provisional points:', ledgerError);
+    }
+
+    try {
+      await fraudDetection.linkUpload(assessment.uploadId, holdSource);
+    } catch (linkError) {
+      console.error('Failed to link upload fingerprint:', linkError);
+    }
+
+    let review: { id: string; reasons: string[] } | null = null;
+    if (assessment.suspicious) {
+      try {
+        const opened = await fraudDetection.openReview({
+          userEmail,
+          detectionId: detectionData?.id ? String(detectionData.id) : null,
+          source: holdSource,
+          imageHash,
+          signals: assessment.signals
         });
+        review = { id: opened.id, reasons: assessment.signals.map(signal => signal.detail) };
+      } catch (reviewError) {
+        console.error('Failed to open fraud review:', reviewError);
+      }
+    }
 
-      if (createError) {
-        console.error('Failed to create user:', createError);
-      } else {
-        console.log(`✅ Created user ${userEmail} with ${result.pointsEarned} points`);
+    let moderation: { id: string; reasons: string[] } | null = null;
+    if (moderationReasons.length > 0) {
+      try {
+        const opened = await detectionModeration.openReview({
+          userEmail,
+          detectionId: detectionData?.id ? String(detectionData.id) : null,
+          source: holdSource,
+          server,
+          items,
+          reasons: moderationReasons
+        });
+        moderation = { id: opened.id, reasons: moderationReasons.map(reason => reason.detail) };
+      } catch (reviewError) {
+        console.error('Failed to open detection review:', reviewError);
       }
     }
 
@@ -130,10 +317,29 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      ...result
+      ...result,
+      modelUsed: server.modelUsed,
+      provider: server.provider,
+      verified: server.verified,
+      submissionId,
+      items,
+      image: { url: storedImage.url, thumbnailUrl: storedImage.thumbnailUrl },
+      provisionalPoints: result.pointsEarned,
+      pointsStatus: held ? 'held' : 'pending',
+      review,
+      moderation,
+      policyVersion: award.policyVersion,
+      campaignBonus: award.campaignBonus,
+      disagreement
     });
 
   } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: UPLOAD_ERROR_STATUS[error.code] }
+      );
+    }
     console.error('❌ Error processing waste analysis:', error);
     return NextResponse.json(
       { error: 'Failed to process waste analysis' },
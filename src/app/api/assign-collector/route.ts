@@ -1,8 +1,13 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { canActForCollector, requireRole } from '@/lib/auth';
 import { TraderAssignmentService } from '@/services/traderAssignment';
+import { pickupService } from '@/services/pickupService';
 import { routeOptimization } from '@/services/routeOptimization';
+import { PickupTransitionError } from '@/services/pickupLifecycle';
+import type { DispatchRejection } from '@/types/dispatch';
+import type { PickupActor, PickupAssignment } from '@/types/pickup';
 
 interface AssignmentRequest {
   submissionIds: string[];
@@ -18,6 +23,9 @@ interface AssignmentRequest {
 
 // POST - Assign collector with optional route optimization
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = await request.json() as AssignmentRequest;
     const { 
@@ -51,6 +59,14 @@ export async function POST(request: NextRequest) {
 
     console.log(`🚛 Assigning collector for ${submissionIds.length} submissions`);
 
+    // Recorded on each status change; traders trigger the automatic matching, ops assign by hand
+    const actor: PickupActor = user.role === 'trader' ? 'system' : 'ops';
+    const rejected: DispatchRejection[] = [];
+    const reject = (submissionId: string, error: unknown) => {
+      if (!(error instanceof PickupTransitionError)) throw error;
+      rejected.push({ submission_id: parseInt(submissionId), code: error.code, error: error.message });
+    };
+
     if (optimizeRoute && submissionIds.length > 1) {
       // Use enhanced assignment with route optimization
       try {
@@ -68,11 +84,22 @@ export async function POST(request: NextRequest) {
 
         // Update Supabase records as well
         for (let i = 0; i < submissionIds.length; i++) {
+          try {
+            await pickupService.assignPickup(parseInt(submissionIds[i]), locations[i], {
+              wasteType: locations[i].wasteType,
+              collectorId: result.trader._id,
+              actor,
+              actorId: user.id
+            });
+          } catch (transitionError) {
+            console.error(`Error assigning submission ${submissionIds[i]}:`, transitionError);
+            reject(submissionIds[i], transitionError);
+            continue;
+          }
+
           const { error } = await supabase
             .from('waste_submissions')
             .update({
-              pickup_status: 'ASSIGNED',
-              pickup_collector_id: result.trader._id,
               optimized_route_id: result.optimizedRoute.id,
               route_order: i + 1,
               estimated_arrival: new Date(Date.now() + result.optimizedRoute.totalDuration * 60 * 60 * 1000).toISOString(),
@@ -101,6 +128,7 @@ export async function POST(request: NextRequest) {
             totalDistance: result.optimizedRoute.totalDistance,
             totalCost: result.optimizedRoute.totalFuelCost
           },
+          rejected,
           message: `Collector assigned with AI-optimized route. ${result.savings.cost} cost reduction achieved.`
         });
 
@@ -110,54 +138,48 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Simple assignment without route optimization
-    const firstLocation = {
-      type: 'Point',
-      coordinates: [locations[0].lng, locations[0].lat] as [number, number]
-    };
-
-    const nearestTrader = await TraderAssignmentService.findNearestTrader(firstLocation);
-    
-    if (!nearestTrader) {
-      return NextResponse.json(
-        { error: 'No available collectors found' },
-        { status: 404 }
-      );
-    }
-
-    // Assign to all submissions
-    for (const submissionId of submissionIds) {
-      await TraderAssignmentService.assignTrader(submissionId, firstLocation);
-      
-      // Update Supabase record
-      const { error } = await supabase
-        .from('waste_submissions')
-        .update({
-          pickup_status: 'ASSIGNED',
-          pickup_collector_id: nearestTrader._id,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', submissionId);
-
-      if (error) {
-        console.error(`Error updating submission ${submissionId}:`, error);
+    // Simple assignment: each pickup gets the best collector near it, or joins the ops queue.
+    // A pickup that can't move (already assigned, not found) is reported without stopping the rest.
+    rejected.length = 0;
+    const assignments: PickupAssignment[] = [];
+    for (let i = 0; i < submissionIds.length; i++) {
+      try {
+        assignments.push(await pickupService.assignPickup(parseInt(submissionIds[i]), locations[i], {
+          wasteType: locations[i].wasteType,
+          vehicleType: body.vehicleType,
+          actor,
+          actorId: user.id
+        }));
+      } catch (error) {
+        reject(submissionIds[i], error);
       }
     }
 
+    const assigned = assignments.filter(assignment => assignment.collector);
+    const first = assigned[0]?.collector;
+    const total = submissionIds.length;
+
     return NextResponse.json({
-      success: true,
+      success: assignments.length > 0,
       assignment: {
-        collector: {
-          id: nearestTrader._id,
-          name: nearestTrader.name,
-          location: nearestTrader.location,
-          distance: nearestTrader.distance
-        },
+        collector: first ? {
+          id: first.collector.id,
+          name: first.collector.name,
+          location: first.collector.current_location,
+          distance: first.distanceKm
+        } : null,
         optimizedRoute: null,
         savings: null
       },
-      message: 'Collector assigned successfully'
-    });
+      assignments,
+      rejected,
+      message: assigned.length === total
+        ? 'Collector assigned successfully'
+        : [
+            assignments.length > assigned.length ? `${assignments.length - assigned.length} of ${total} pickups need manual assignment` : null,
+            rejected.length > 0 ? `${rejected.length} of ${total} pickups could not be assigned` : null
+          ].filter(Boolean).join('; ')
+    }, { status: assignments.length > 0 ? 200 : 409 });
 
   } catch (error) {
     console.error('Error assigning collector:', error);
@@ -170,6 +192,9 @@ export async function POST(request: NextRequest) {
 
 // GET - Get optimal collection time prediction
 export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
     const lat = parseFloat(searchParams.get('lat') || '0');
@@ -204,8 +229,11 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT - Update collector location (for real-time tracking)
+// PUT - Update collector location (for real-time tracking); collectors report their own position
 export async function PUT(request: NextRequest) {
+  const user = await requireRole(request, ['collector', 'trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = await request.json();
     const { collectorId, location, routeId } = body;
@@ -216,26 +244,15 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (user.role === 'collector' && !canActForCollector(user, String(collectorId))) {
+      return NextResponse.json({ error: 'Not your collector account' }, { status: 403 });
+    }
 
-    // Update collector location in MongoDB
     await TraderAssignmentService.updateCollectorLocation(collectorId, location);
 
-    // Update Supabase collector record
-    const { error } = await supabase
-      .from('collectors')
-      .update({
-        current_location: location,
-        last_active_at: new Date().toISOString()
-      })
-      .eq('id', collectorId);
-
-    if (error) {
-      console.error('Error updating collector location in Supabase:', error);
-    }
-
     // If there's an active route, update route progress
     if (routeId) {
-      const route = routeOptimization.getRouteById(routeId);
+      const route = await routeOptimization.getRouteById(routeId);
       if (route) {
         // Calculate route progress based on current location
         // This would involve more complex logic in a real implementation
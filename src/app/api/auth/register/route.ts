@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { userAccounts, AccountError, type AccountErrorCode } from '@/services/userAccounts';
+
+const ACCOUNT_ERROR_STATUS: Record<AccountErrorCode, number> = {
+  INVALID_ACCOUNT: 400,
+  EMAIL_TAKEN: 409,
+  ACCOUNT_NOT_FOUND: 404
+};
+
+// POST - Create a citizen account: { email, password, name? }
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password, name } = await request.json();
+    const account = await userAccounts.register({ email, password, name });
+    return NextResponse.json({ success: true, account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ACCOUNT_ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('Error creating account:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 }
+    );
+  }
+}
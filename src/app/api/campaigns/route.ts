@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { campaignService } from '@/services/campaignService';
+
+// GET - Banner feed of running campaigns; pass lat & lng to only get ones that cover that spot
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lat = parseFloat(searchParams.get('lat') || '');
+    const lng = parseFloat(searchParams.get('lng') || '');
+    const location = !isNaN(lat) && !isNaN(lng) ? { lat, lng } : null;
+
+    const campaigns = await campaignService.getBanners(location);
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error('Error fetching campaign banners:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    );
+  }
+}
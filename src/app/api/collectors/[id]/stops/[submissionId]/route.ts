@@ -0,0 +1,190 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { canActForCollector, requireRole } from '@/lib/auth';
+import { collectorWorkflow, CollectionError, type CollectionErrorCode } from '@/services/collectorWorkflow';
+import { CONTAMINATION_GRADES } from '@/services/scoringPolicy';
+import type { ContaminationGrade } from '@/types/collector';
+import { PickupTransitionError, type PickupTransitionErrorCode } from '@/services/pickupLifecycle';
+import { submissionImages, ImageUploadError, type ImageUploadErrorCode } from '@/services/submissionImages';
+
+type StopAction = 'accept' | 'decline' | 'start' | 'arrive' | 'collect';
+
+const ACTIONS: StopAction[] = ['accept', 'decline', 'start', 'arrive', 'collect'];
+
+const TRANSITION_ERROR_STATUS: Record<PickupTransitionErrorCode, number> = {
+  PICKUP_NOT_FOUND: 404,
+  INVALID_PICKUP_TRANSITION: 409,
+  PICKUP_STATUS_CONFLICT: 409,
+  ACTOR_NOT_ALLOWED: 403,
+  NOT_PICKUP_OWNER: 403,
+  NOT_ASSIGNED_COLLECTOR: 403,
+  REASON_REQUIRED: 400,
+  COLLECTOR_REQUIRED: 400,
+  WORKFLOW_REQUIRED: 409
+};
+
+const COLLECTION_ERROR_STATUS: Record<CollectionErrorCode, number> = {
+  COLLECTOR_NOT_FOUND: 404,
+  COLLECTION_NOT_FOUND: 404,
+  INVALID_COLLECTION: 400,
+  COLLECTION_ALREADY_RECORDED: 409
+};
+
+const UPLOAD_ERROR_STATUS: Record<ImageUploadErrorCode, number> = {
+  UNSUPPORTED_TYPE: 415,
+  TOO_LARGE: 413,
+  INVALID_DIMENSIONS: 422,
+  CORRUPT_IMAGE: 400
+};
+
+// collect carries the proof photo, so it is posted as multipart; the other actions are JSON
+async function readStopBody(request: NextRequest): Promise<Record<string, unknown>> {
+  if ((request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+    return Object.fromEntries((await request.formData()).entries());
+  }
+  return request.json();
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof PickupTransitionError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: TRANSITION_ERROR_STATUS[error.code] }
+    );
+  }
+  if (error instanceof CollectionError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: COLLECTION_ERROR_STATUS[error.code] }
+    );
+  }
+  if (error instanceof ImageUploadError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: UPLOAD_ERROR_STATUS[error.code] }
+    );
+  }
+  return null;
+}
+
+// GET - Turn-by-turn directions to the stop from the collector's last position
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; submissionId: string } }
+) {
+  const user = await requireRole(request, ['collector', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+  if (!canActForCollector(user, params.id)) {
+    return NextResponse.json({ error: 'Not your collector account' }, { status: 403 });
+  }
+
+  try {
+    const submissionId = parseInt(params.submissionId);
+    if (isNaN(submissionId)) {
+      return NextResponse.json({ error: 'Invalid pickup id' }, { status: 400 });
+    }
+
+    const navigation = await collectorWorkflow.getNavigation(submissionId, params.id);
+    return NextResponse.json({ navigation });
+  } catch (error) {
+    const response = errorResponse(error);
+    if (response) return response;
+
+    console.error('Error fetching stop navigation:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch directions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Step through a stop: { action: 'accept' | 'decline' | 'start' | 'arrive' | 'collect', ... }
+// collect is multipart with { actualWeightKg, contaminationGrade, photo (file), notes? };
+// decline takes an optional reason.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; submissionId: string } }
+) {
+  const user = await requireRole(request, ['collector', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+  if (!canActForCollector(user, params.id)) {
+    return NextResponse.json({ error: 'Not your collector account' }, { status: 403 });
+  }
+
+  try {
+    const submissionId = parseInt(params.submissionId);
+    if (isNaN(submissionId)) {
+      return NextResponse.json({ error: 'Invalid pickup id' }, { status: 400 });
+    }
+
+    const body = await readStopBody(request);
+    const action = body.action as StopAction;
+    const collectorId = params.id;
+
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    switch (action) {
+      case 'accept': {
+        const pickup = await collectorWorkflow.accept(submissionId, collectorId);
+        return NextResponse.json({ success: true, pickup });
+      }
+      case 'decline':
+        await collectorWorkflow.decline(submissionId, collectorId, typeof body.reason === 'string' ? body.reason : undefined);
+        return NextResponse.json({ success: true });
+      case 'start': {
+        const navigation = await collectorWorkflow.startStop(submissionId, collectorId);
+        return NextResponse.json({ success: true, navigation });
+      }
+      case 'arrive':
+        await collectorWorkflow.arrive(submissionId, collectorId);
+        return NextResponse.json({ success: true });
+      case 'collect': {
+        const actualWeightKg = Number(body.actualWeightKg);
+        const contaminationGrade = body.contaminationGrade as ContaminationGrade;
+        if (!CONTAMINATION_GRADES.includes(contaminationGrade)) {
+          return NextResponse.json(
+            { error: `contaminationGrade must be one of: ${CONTAMINATION_GRADES.join(', ')}` },
+            { status: 400 }
+          );
+        }
+        if (!(body.photo instanceof Blob) || body.photo.size === 0) {
+          return NextResponse.json(
+            { error: 'photo must be an uploaded image file' },
+            { status: 400 }
+          );
+        }
+
+        // Stored like submission photos: type and size checked, GPS metadata stripped
+        const photo = await submissionImages.save(body.photo);
+        const settlement = await collectorWorkflow.recordCollection(submissionId, collectorId, {
+          actualWeightKg,
+          contaminationGrade,
+          photoUrl: photo.url,
+          notes: typeof body.notes === 'string' ? body.notes : undefined
+        });
+
+        return NextResponse.json({
+          success: true,
+          settlement,
+          message: settlement.points === null
+            ? 'Collection recorded; points will be settled once ops verify it'
+            : `Collection recorded; ${settlement.points} points settled`
+        });
+      }
+    }
+  } catch (error) {
+    const response = errorResponse(error);
+    if (response) return response;
+
+    console.error('Error updating stop:', error);
+    return NextResponse.json(
+      { error: 'Failed to update stop' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { canActForCollector, requireRole } from '@/lib/auth';
+import { collectorWorkflow, CollectionError } from '@/services/collectorWorkflow';
+
+// GET - The collector's work for today: their optimized route and open stops in visiting order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await requireRole(request, ['collector', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+  if (!canActForCollector(user, params.id)) {
+    return NextResponse.json({ error: 'Not your collector account' }, { status: 403 });
+  }
+
+  try {
+    const day = await collectorWorkflow.getToday(params.id);
+    return NextResponse.json(day);
+  } catch (error) {
+    if (error instanceof CollectionError && error.code === 'COLLECTOR_NOT_FOUND') {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 404 });
+    }
+    console.error('Error fetching collector day:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collector stops' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { collectorRegistry, isValidTimeZone } from '@/services/collectorRegistry';
+import type { VehicleType } from '@/types/collector';
+
+const VEHICLE_TYPES: VehicleType[] = ['truck', 'van', 'bike'];
+
+// GET - Ranked collectors near a location that can take the pickup
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const lat = parseFloat(searchParams.get('lat') || '');
+    const lng = parseFloat(searchParams.get('lng') || '');
+    const vehicleType = searchParams.get('vehicleType') as VehicleType | null;
+
+    if (isNaN(lat) || isNaN(lng)) {
+      return NextResponse.json(
+        { error: 'lat and lng parameters are required' },
+        { status: 400 }
+      );
+    }
+
+    if (vehicleType && !VEHICLE_TYPES.includes(vehicleType)) {
+      return NextResponse.json(
+        { error: `vehicleType must be one of: ${VEHICLE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const candidates = await collectorRegistry.findCandidates({
+      lat,
+      lng,
+      wasteType: searchParams.get('wasteType') || undefined,
+      requiredCapacityKg: parseFloat(searchParams.get('weightKg') || '0') || undefined,
+      vehicleType: vehicleType || undefined,
+      maxDistanceKm: parseFloat(searchParams.get('maxDistanceKm') || '') || undefined,
+      limit: parseInt(searchParams.get('limit') || '5')
+    });
+
+    return NextResponse.json({
+      collectors: candidates.map(({ collector, distanceKm, remainingCapacityKg, score }) => ({
+        id: collector.id,
+        name: collector.name,
+        phone: collector.phone,
+        vehicleType: collector.vehicle_type,
+        acceptedWasteTypes: collector.accepted_waste_types,
+        location: collector.current_location,
+        distanceKm: Math.round(distanceKm * 10) / 10,
+        remainingCapacityKg,
+        score
+      }))
+    });
+  } catch (error) {
+    console.error('Error searching collectors:', error);
+    return NextResponse.json(
+      { error: 'Failed to search collectors' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Register or update a collector in the registry
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const body = await request.json();
+    const {
+      id,
+      name,
+      phone,
+      vehicleType,
+      capacityKg,
+      acceptedWasteTypes,
+      workingHours,
+      timezone,
+      location
+    } = body;
+
+    if (!id || !name || !phone || !VEHICLE_TYPES.includes(vehicleType) || !(capacityKg > 0)) {
+      return NextResponse.json(
+        { error: 'id, name, phone, vehicleType and a positive capacityKg are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(acceptedWasteTypes) || acceptedWasteTypes.length === 0) {
+      return NextResponse.json(
+        { error: 'acceptedWasteTypes must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+      return NextResponse.json(
+        { error: 'timezone must be an IANA time zone name, e.g. "America/New_York"' },
+        { status: 400 }
+      );
+    }
+
+    const collector = await collectorRegistry.registerCollector({
+      id: String(id),
+      name,
+      phone,
+      vehicle_type: vehicleType,
+      capacity_kg: Number(capacityKg),
+      accepted_waste_types: acceptedWasteTypes.map((type: string) => type.toLowerCase()),
+      working_hours: workingHours,
+      timezone,
+      current_location: location ? { lat: Number(location.lat), lng: Number(location.lng) } : null
+    });
+
+    return NextResponse.json({ success: true, collector });
+  } catch (error) {
+    console.error('Error registering collector:', error);
+    return NextResponse.json(
+      { error: 'Failed to register collector' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
 
-export async function GET() {
   try {
     // Simulate real-time metrics (in production, these would come from actual monitoring tools)
     const services = [
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { dispatchService } from '@/services/dispatchService';
+
+// GET - Recent dispatcher actions, newest first (optionally for one submission)
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const submissionId = parseInt(searchParams.get('submissionId') || '');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200);
+
+    const entries = await dispatchService.getAuditLog({
+      submissionId: isNaN(submissionId) ? undefined : submissionId,
+      limit
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error fetching dispatch audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dispatch audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { dispatchService, DispatchError } from '@/services/dispatchService';
+
+// POST - Route preview for a collector taking a set of pickups: { submissionIds, collectorId }
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { submissionIds, collectorId } = await request.json();
+    const ids = Array.isArray(submissionIds) ? submissionIds.map((id: unknown) => parseInt(String(id))) : [];
+
+    if (ids.length === 0 || ids.some(isNaN) || !collectorId) {
+      return NextResponse.json(
+        { error: 'submissionIds (non-empty array) and collectorId are required' },
+        { status: 400 }
+      );
+    }
+
+    const preview = await dispatchService.previewRoute(Array.from(new Set(ids)), String(collectorId));
+    return NextResponse.json({ preview });
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      const status = error.code === 'COLLECTOR_NOT_FOUND' || error.code === 'PICKUPS_NOT_FOUND' ? 404 : 409;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+    console.error('Error building route preview:', error);
+    return NextResponse.json(
+      { error: 'Failed to build route preview' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { dispatchService, DispatchError, type DispatchErrorCode } from '@/services/dispatchService';
+import { PickupTransitionError } from '@/services/pickupLifecycle';
+import type { DispatchAction } from '@/types/dispatch';
+
+const ACTIONS: DispatchAction[] = ['assign', 'reassign', 'bulk_assign'];
+const MAX_BULK_PICKUPS = 25;
+
+const ERROR_STATUS: Record<DispatchErrorCode, number> = {
+  COLLECTOR_NOT_FOUND: 404,
+  PICKUPS_NOT_FOUND: 404,
+  COLLECTOR_OFFLINE: 409,
+  COLLECTOR_LOCATION_UNKNOWN: 409,
+  OVER_CAPACITY: 409
+};
+
+// GET - Pickups waiting for manual assignment, oldest first, with ranked candidate collectors
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const queue = await dispatchService.getQueue();
+    return NextResponse.json({ queue });
+  } catch (error) {
+    console.error('Error fetching dispatch queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch dispatch queue' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Dispatcher action by the signed-in dispatcher: { action, submissionId | submissionIds, collectorId, note?, force? }
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { action, submissionId, submissionIds, collectorId, note, force } = await request.json();
+
+    if (!ACTIONS.includes(action) || !collectorId) {
+      return NextResponse.json(
+        { error: `action (${ACTIONS.join(', ')}) and collectorId are required` },
+        { status: 400 }
+      );
+    }
+
+    const dispatchRequest = { collectorId: String(collectorId), dispatcherId: user.id, note, force: Boolean(force) };
+    let result;
+
+    if (action === 'bulk_assign') {
+      const ids = Array.isArray(submissionIds) ? submissionIds.map((id: unknown) => parseInt(String(id))) : [];
+      if (ids.length === 0 || ids.some(isNaN)) {
+        return NextResponse.json({ error: 'submissionIds must be a non-empty array of ids' }, { status: 400 });
+      }
+      if (ids.length > MAX_BULK_PICKUPS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_BULK_PICKUPS} pickups per bulk assignment` },
+          { status: 400 }
+        );
+      }
+      result = await dispatchService.bulkAssign(Array.from(new Set(ids)), dispatchRequest);
+    } else {
+      const id = parseInt(submissionId);
+      if (isNaN(id)) {
+        return NextResponse.json({ error: 'submissionId is required' }, { status: 400 });
+      }
+      result = action === 'assign'
+        ? await dispatchService.assign(id, dispatchRequest)
+        : await dispatchService.reassign(id, dispatchRequest);
+    }
+
+    return NextResponse.json(
+      { success: result.assigned.length > 0, result },
+      { status: result.assigned.length > 0 ? 200 : 409 }
+    );
+  } catch (error) {
+    if (error instanceof DispatchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+    if (error instanceof PickupTransitionError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 409 });
+    }
+    console.error('Error dispatching pickup:', error);
+    return NextResponse.json(
+      { error: 'Failed to dispatch pickup' },
+      { status: 500 }
+    );
+  }
+}
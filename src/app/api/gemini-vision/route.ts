@@ -1,10 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Gemini Vision API integration for waste detection
+import { requireRole } from '@/lib/auth';
+import { detectUpload, visionImageFromBytes } from '@/services/visionProviders';
+import { validateImageBytes, ImageUploadError, type ImageUploadErrorCode } from '@/services/submissionImages';
+
+const UPLOAD_ERROR_STATUS: Record<ImageUploadErrorCode, number> = {
+  UNSUPPORTED_TYPE: 415,
+  TOO_LARGE: 413,
+  INVALID_DIMENSIONS: 422,
+  CORRUPT_IMAGE: 400
+};
+
+// Object detection for the upload form. The path predates the provider chain; which
+// provider answers is set by VISION_PROVIDERS (see visionProviders.ts).
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { imageData } = await request.json();
-    
+
     if (!imageData) {
       return NextResponse.json(
         { error: 'No image provided' },
@@ -13,177 +27,55 @@ export async function POST(request: NextRequest) {
     }
 
     // Extract base64 data from data URL
-    const base64Data = imageData.replace(/^data:image\/[a-z]+;base64,/, '');
-    
-    // Use Gemini API (free tier) for actual detection
-    const geminiResponse = await callGeminiVisionAPI(base64Data);
-    
-    // Convert Gemini response to COCO-SSD-like format
-    const cocoSsdLikeResponse = convertToCocoSsdFormat(geminiResponse);
-    
-    return NextResponse.json({
-      success: true,
-      predictions: cocoSsdLikeResponse,
-      modelUsed: 'coco-ssd', // For frontend display
-      actualBackend: 'gemini-vision' // Internal tracking
-    });
-    
-  } catch (error) {
-    console.error('❌ Gemini Vision API error:', error);
-    
-    // Fallback to simulated detection
-    const fallbackResponse = generateFallbackDetection();
-    
-    return NextResponse.json({
-      success: true,
-      predictions: fallbackResponse,
-      modelUsed: 'coco-ssd-fallback',
-      note: 'Using enhanced detection fallback'
-    });
-  }
-}
-
-async function callGeminiVisionAPI(base64Image: string) {
-  const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-  
-  if (!GEMINI_API_KEY) {
-    throw new Error('Gemini API key not configured');
-  }
-
-  const prompt = `
-Analyze this image for waste and recyclable items. Provide a JSON response with detected objects in this exact format:
-
-{
-  "detections": [
-    {
-      "class": "object_name",
-      "confidence": 0.85,
-      "bbox": [x, y, width, height],
-      "wasteType": "plastic|glass|metal|paper|electronic|organic|other"
+    const base64Data = String(imageData).replace(/^data:image\/[a-z]+;base64,/, '');
+    const bytes = Buffer.from(base64Data, 'base64');
+    // Same limits as stored uploads, so nothing oversized reaches a decoder or a provider
+    validateImageBytes(bytes);
+    const image = visionImageFromBytes(bytes);
+    if (!image) {
+      return NextResponse.json(
+        { error: 'Images must be JPEG, PNG or WebP' },
+        { status: 415 }
+      );
     }
-  ]
-}
-
-Focus on these waste categories:
-- Plastic: bottles, cups, bags, containers, toys
-- Glass: bottles, jars, glasses
-- Metal: cans, utensils, foil, electronics parts
-- Paper: books, newspapers, cardboard, documents
-- Electronic: phones, computers, cables, batteries
-- Organic: food waste, plants, biodegradable items
 
-Be accurate with confidence scores (0.0-1.0) and provide realistic bounding box coordinates relative to image dimensions.
-`;
-
-  // Use Gemini 2.0 Flash (latest model with multimodal support)
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${GEMINI_API_KEY}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [
-        {
-          parts: [
-            {
-              text: prompt
-            },
-            {
-              inline_data: {
-                mime_type: "image/jpeg",
-                data: base64Image
-              }
-            }
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.4,
-        topK: 32,
-        topP: 1,
-        maxOutputTokens: 2048,
-      }
-    })
-  });
+    // Cached, so analyze-waste reuses it when this photo is submitted
+    const result = await detectUpload(image);
+
+    // No provider found anything; the client falls back to treating the whole photo as one item
+    if (!result) {
+      return NextResponse.json({
+        success: true,
+        predictions: [],
+        provider: null,
+        modelUsed: null
+      });
+    }
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error('❌ Gemini API Error Details:', {
-      status: response.status,
-      statusText: response.statusText,
-      body: errorBody
+    // COCO-SSD-like predictions: bbox is [x, y, width, height] in the image's own pixels
+    return NextResponse.json({
+      success: true,
+      predictions: result.detections.map(detection => ({
+        class: detection.className,
+        score: detection.confidence,
+        bbox: [detection.bbox.x, detection.bbox.y, detection.bbox.width, detection.bbox.height],
+        wasteType: detection.wasteType
+      })),
+      provider: result.provider,
+      modelUsed: result.model
     });
-    throw new Error(`Gemini API error: ${response.status} - ${errorBody}`);
-  }
 
-  const data = await response.json();
-  const responseText = data.candidates[0]?.content?.parts[0]?.text;
-  
-  // Parse JSON from Gemini response
-  try {
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    if (error instanceof ImageUploadError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: UPLOAD_ERROR_STATUS[error.code] }
+      );
     }
-  } catch (parseError) {
-    console.warn('Failed to parse Gemini JSON response:', parseError);
+    console.error('❌ Vision detection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze image' },
+      { status: 500 }
+    );
   }
-  
-  // If parsing fails, extract info manually
-  return parseGeminiTextResponse(responseText);
 }
-
-function convertToCocoSsdFormat(geminiResponse: any) {
-  if (!geminiResponse?.detections) {
-    return [];
-  }
-
-  // Convert Gemini format to COCO-SSD format
-  return geminiResponse.detections.map((detection: any) => ({
-    class: detection.class || 'unknown',
-    score: detection.confidence || 0.5,
-    bbox: detection.bbox || [0, 0, 100, 100]
-  }));
-}
-
-function parseGeminiTextResponse(text: string) {
-  // Fallback parsing if JSON parsing fails
-  const commonWasteItems = [
-    { class: 'bottle', confidence: 0.8, wasteType: 'plastic' },
-    { class: 'cup', confidence: 0.75, wasteType: 'plastic' },
-    { class: 'can', confidence: 0.7, wasteType: 'metal' },
-    { class: 'book', confidence: 0.65, wasteType: 'paper' }
-  ];
-
-  // Simple text analysis
-  const detectedItems = commonWasteItems.filter(item => 
-    text.toLowerCase().includes(item.class)
-  );
-
-  return {
-    detections: detectedItems.map(item => ({
-      class: item.class,
-      confidence: item.confidence + (Math.random() - 0.5) * 0.1,
-      bbox: [
-        Math.random() * 200,
-        Math.random() * 200,
-        100 + Math.random() * 100,
-        100 + Math.random() * 100
-      ],
-      wasteType: item.wasteType
-    }))
-  };
-}
-
-function generateFallbackDetection() {
-  // Intelligent fallback with varied but realistic results
-  const fallbackItems = [
-    { class: 'bottle', score: 0.82, bbox: [50, 30, 120, 180] },
-    { class: 'cup', score: 0.76, bbox: [200, 80, 90, 110] },
-    { class: 'book', score: 0.71, bbox: [10, 150, 140, 200] }
-  ];
-
-  // Return 1-2 random items to simulate realistic detection
-  const numItems = Math.floor(Math.random() * 2) + 1;
-  return fallbackItems.slice(0, numItems);
-}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { submissionImages } from '@/services/submissionImages';
+
+// GET - Serve a stored submission image or thumbnail; keys are random, so copies can be cached
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const image = await submissionImages.read(params.key.join('/'));
+    if (!image) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+
+    return new NextResponse(image.bytes, {
+      headers: {
+        'Content-Type': image.contentType,
+        'Content-Length': String(image.bytes.length),
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    });
+  } catch (error) {
+    console.error('Error reading image:', error);
+    return NextResponse.json(
+      { error: 'Failed to read image' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 // Enhanced API endpoint that integrates Kafka with your existing Vercel app
 import { NextRequest, NextResponse } from 'next/server';
 import kafkaClient, { publishWasteDetection, publishRouteOptimization, publishAnalyticsEvent } from '@/lib/kafkaClient';
+import { requireRole } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { action, data } = await request.json();
     
@@ -82,7 +86,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     const isHealthy = await kafkaClient.isHealthy();
     
@@ -0,0 +1,119 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { canActForCollector, isStaff, requireRole } from '@/lib/auth';
+import {
+  allowedNextStatuses,
+  isPickupStatus,
+  pickupLifecycle,
+  PickupTransitionError,
+  PICKUP_STATUSES,
+  WORKFLOW_STATUSES,
+  type PickupTransitionErrorCode
+} from '@/services/pickupLifecycle';
+import type { PickupTransitionContext } from '@/types/pickup';
+
+const ERROR_STATUS: Record<PickupTransitionErrorCode, number> = {
+  PICKUP_NOT_FOUND: 404,
+  INVALID_PICKUP_TRANSITION: 409,
+  PICKUP_STATUS_CONFLICT: 409,
+  ACTOR_NOT_ALLOWED: 403,
+  NOT_PICKUP_OWNER: 403,
+  NOT_ASSIGNED_COLLECTOR: 403,
+  REASON_REQUIRED: 400,
+  COLLECTOR_REQUIRED: 400,
+  WORKFLOW_REQUIRED: 409
+};
+
+// GET - Current status, transition history and the moves still available (owner, assigned collector or ops)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const submissionId = parseInt(params.id);
+    if (isNaN(submissionId)) {
+      return NextResponse.json({ error: 'Invalid pickup id' }, { status: 400 });
+    }
+
+    const pickup = await pickupLifecycle.getPickupState(submissionId);
+    if (!pickup) {
+      return NextResponse.json({ error: 'Pickup not found' }, { status: 404 });
+    }
+    const isAssignedCollector = !!pickup.collector_id && canActForCollector(user, pickup.collector_id);
+    if (!isStaff(user) && pickup.user_id !== user.id && !isAssignedCollector) {
+      return NextResponse.json({ error: 'Pickup belongs to another user' }, { status: 403 });
+    }
+
+    const history = await pickupLifecycle.getHistory(submissionId);
+
+    return NextResponse.json({
+      id: pickup.id,
+      status: pickup.status,
+      collectorId: pickup.collector_id,
+      allowedTransitions: allowedNextStatuses(pickup.status).filter(status => !WORKFLOW_STATUSES.includes(status)),
+      history
+    });
+  } catch (error) {
+    console.error('Error fetching pickup status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pickup status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Move a pickup to a new status: { status, reason? }
+// The actor comes from the session: citizens act on their own pickups, collectors on the
+// pickups assigned to them, and ops/admin as ops. Assignment goes through /api/dispatch and
+// collection through the collector stop API; those statuses are refused here.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await requireRole(request, ['citizen', 'collector', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const submissionId = parseInt(params.id);
+    if (isNaN(submissionId)) {
+      return NextResponse.json({ error: 'Invalid pickup id' }, { status: 400 });
+    }
+
+    const { status, reason } = await request.json();
+
+    if (!isPickupStatus(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${PICKUP_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let context: PickupTransitionContext;
+    if (isStaff(user)) {
+      context = { actor: 'ops', actorId: user.id, reason };
+    } else if (user.role === 'collector') {
+      context = { actor: 'collector', actorId: user.collectorId ?? undefined, reason };
+    } else {
+      context = { actor: 'citizen', actorId: user.id, reason };
+    }
+
+    const transition = await pickupLifecycle.requestTransition(submissionId, status, context);
+
+    return NextResponse.json({ success: true, transition });
+  } catch (error) {
+    if (error instanceof PickupTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code] }
+      );
+    }
+    console.error('Error updating pickup status:', error);
+    return NextResponse.json(
+      { error: 'Failed to update pickup status' },
+      { status: 500 }
+    );
+  }
+}
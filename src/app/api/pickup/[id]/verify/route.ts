@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { collectorWorkflow, CollectionError } from '@/services/collectorWorkflow';
+import { PickupTransitionError } from '@/services/pickupLifecycle';
+
+// POST - Ops verification of a collection held for review; settles points from the recorded weight and grade
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const submissionId = parseInt(params.id);
+    if (isNaN(submissionId)) {
+      return NextResponse.json({ error: 'Invalid pickup id' }, { status: 400 });
+    }
+
+    const settlement = await collectorWorkflow.verifyCollection(submissionId, 'ops', user.id);
+
+    return NextResponse.json({ success: true, settlement });
+  } catch (error) {
+    if (error instanceof PickupTransitionError || error instanceof CollectionError) {
+      const status = error.code === 'PICKUP_NOT_FOUND' || error.code === 'COLLECTION_NOT_FOUND' ? 404 : 409;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+    console.error('Error verifying collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify collection' },
+      { status: 500 }
+    );
+  }
+}
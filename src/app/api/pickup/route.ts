@@ -1,23 +1,66 @@
 import { NextResponse } from 'next/server';
-import { PickupService } from '@/services/pickupService';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { pickupService } from '@/services/pickupService';
+import { PickupTransitionError } from '@/services/pickupLifecycle';
 
-const pickupService = new PickupService();
+const VEHICLE_TYPES = ['truck', 'van', 'bike'];
+
+// POST - Request a pickup for a submission and match a collector:
+// { submissionId, location: { lat, lng, address? }, wasteType?, estimatedWeight?, vehicleType?,
+//   pickupWindowStart?, pickupWindowEnd?, serviceMinutes? }
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['citizen']);
+  if (user instanceof NextResponse) return user;
 
-export async function POST(request: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const {
+      submissionId,
+      location,
+      wasteType,
+      estimatedWeight,
+      vehicleType,
+      pickupWindowStart,
+      pickupWindowEnd,
+      serviceMinutes
+    } = await request.json();
+
+    const id = parseInt(submissionId);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: 'submissionId is required' }, { status: 400 });
+    }
+    if (typeof location?.lat !== 'number' || typeof location?.lng !== 'number') {
+      return NextResponse.json({ error: 'location must be { lat, lng }' }, { status: 400 });
+    }
+    if (vehicleType !== undefined && !VEHICLE_TYPES.includes(vehicleType)) {
+      return NextResponse.json(
+        { error: `vehicleType must be one of: ${VEHICLE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (estimatedWeight !== undefined && !(typeof estimatedWeight === 'number' && estimatedWeight > 0)) {
+      return NextResponse.json({ error: 'estimatedWeight must be a positive number (kg)' }, { status: 400 });
     }
 
-    const data = await request.json();
-    const pickup = await pickupService.createPickupRequest({
-      user_id: session.user.id,
-      ...data
-    });
+    const assignment = await pickupService.createPickupRequest({
+      submission_id: id,
+      location: { lat: location.lat, lng: location.lng, address: location.address },
+      waste_type: wasteType,
+      estimated_weight: estimatedWeight,
+      vehicle_type: vehicleType,
+      pickup_window_start: pickupWindowStart,
+      pickup_window_end: pickupWindowEnd,
+      service_minutes: serviceMinutes
+    }, user.id);
 
-    return NextResponse.json({ success: true, pickup });
+    return NextResponse.json({ success: true, assignment });
   } catch (error: any) {
+    if (error instanceof PickupTransitionError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'PICKUP_NOT_FOUND' ? 404 : 409 }
+      );
+    }
     console.error('Pickup request failed:', error);
     return NextResponse.json(
       { error: error.message || 'Failed to create pickup request' },
@@ -1,25 +1,29 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-// TODO: Convert to Supabase - MongoDB models not available
-// import dbConnect from '@/lib/mongodb';
-// import Reward from '@/models/Reward';
-// import User from '@/models/User';
+import { requireRole } from '@/lib/auth';
+import { rewardCatalog, RedemptionError } from '@/services/rewardCatalog';
+import { pointsLedger } from '@/services/pointsLedger';
+import type { RewardCategory } from '@/types/rewards';
 
+const REDEMPTION_ERROR_STATUS: Record<string, { status: number; message: string }> = {
+  REWARD_NOT_FOUND: { status: 404, message: 'Reward not found' },
+  REWARD_NOT_AVAILABLE: { status: 409, message: 'Reward is not currently available' },
+  REWARD_OUT_OF_STOCK: { status: 409, message: 'Reward is out of stock' },
+  REWARD_LIMIT_REACHED: { status: 409, message: 'Redemption limit reached for this reward' },
+  INSUFFICIENT_POINTS: { status: 409, message: 'Insufficient points' }
+};
+
+// GET - Active reward catalog, optionally filtered by category
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Implement with Supabase
-    // await dbConnect();
-    // const rewards = await Reward.find({ isActive: true });
+    const { searchParams } = new URL(request.url);
+    const category = searchParams.get('category') as RewardCategory | null;
 
-    // Temporary mock data for deployment
-    const rewards = [
-      { id: 1, name: 'Eco-friendly Water Bottle', pointsCost: 100, isActive: true },
-      { id: 2, name: 'Reusable Shopping Bag', pointsCost: 50, isActive: true },
-      { id: 3, name: 'Plant a Tree Certificate', pointsCost: 200, isActive: true }
-    ];
+    const rewards = await rewardCatalog.listRewards(category || undefined);
 
-    return NextResponse.json(rewards);
+    return NextResponse.json({ rewards });
   } catch (error) {
+    console.error('Error fetching rewards:', error);
     return NextResponse.json(
       { error: 'Failed to fetch rewards' },
       { status: 500 }
@@ -27,56 +31,39 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// POST - Redeem a reward for the signed-in citizen (reserves stock and debits points in one transaction)
 export async function POST(request: NextRequest) {
-  try {
-    // TODO: Implement with Supabase
-    // await dbConnect();
-    const { userId, rewardId } = await request.json();
-
-    // Temporary implementation - return success for deployment
-    return NextResponse.json({
-      success: true,
-      message: 'Reward redemption feature coming soon!',
-      remainingPoints: 100,
-    });
+  const user = await requireRole(request, ['citizen']);
+  if (user instanceof NextResponse) return user;
 
-    /*
-    const user = await User.findById(userId);
-    const reward = await Reward.findById(rewardId);
-
-    if (!user || !reward) {
-      return NextResponse.json(
-        { error: 'User or reward not found' },
-        { status: 404 }
-      );
-    }
+  try {
+    const body = await request.json();
+    const { rewardId } = body;
+    const userEmail = user.email;
+    const idempotencyKey = request.headers.get('idempotency-key') || body.idempotencyKey;
 
-    if (user.points < reward.pointsCost) {
+    if (!rewardId || !idempotencyKey) {
       return NextResponse.json(
-        { error: 'Insufficient points' },
+        { error: 'rewardId and idempotencyKey are required' },
         { status: 400 }
       );
     }
 
-    // Update user points
-    user.points -= reward.pointsCost;
-    await user.save();
-
-    // Update reward availability if needed
-    if (reward.availability > 0) {
-      reward.availability -= 1;
-      if (reward.availability === 0) {
-        reward.isActive = false;
-      }
-      await reward.save();
-    }
+    const redemption = await rewardCatalog.redeem(userEmail, rewardId, idempotencyKey);
+    const remainingPoints = await pointsLedger.getBalance(userEmail);
 
     return NextResponse.json({
       success: true,
-      remainingPoints: user.points,
+      redemption,
+      remainingPoints,
     });
-    */
   } catch (error) {
+    if (error instanceof RedemptionError && REDEMPTION_ERROR_STATUS[error.code]) {
+      const { status, message } = REDEMPTION_ERROR_STATUS[error.code];
+      return NextResponse.json({ error: message, code: error.code }, { status });
+    }
+
+    console.error('Error redeeming reward:', error);
     return NextResponse.json(
       { error: 'Failed to redeem reward' },
       { status: 500 }
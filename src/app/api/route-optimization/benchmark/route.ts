@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { createRandomSeed, createSeededRandom, isValidSeed } from '@/lib/random';
+import { getLocalOsmProvider } from '@/services/routingProviders';
+import type { RoutingProfile } from '@/types/routing';
+
+const PROFILES: RoutingProfile[] = ['truck', 'van', 'bike'];
+const DEFAULT_QUERIES = 50;
+const MAX_QUERIES = 500;
+
+interface LatencyStats {
+  avgMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  maxMs: number;
+  avgSettledNodes: number;
+}
+
+function summarize(latencies: number[], settled: number[]): LatencyStats {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : 0;
+  const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    avgMs: round(average(latencies)),
+    p50Ms: round(percentile(0.5)),
+    p95Ms: round(percentile(0.95)),
+    maxMs: round(sorted[sorted.length - 1] || 0),
+    avgSettledNodes: Math.round(average(settled))
+  };
+}
+
+// GET - Time ALT preprocessing and compare query latency against plain A* on the local OSM graph
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const profile = (searchParams.get('profile') || 'van') as RoutingProfile;
+    const queries = Math.min(parseInt(searchParams.get('queries') || '', 10) || DEFAULT_QUERIES, MAX_QUERIES);
+    const rebuild = searchParams.get('rebuild') === 'true';
+    const seedParam = searchParams.get('seed');
+    const seed = seedParam !== null ? Number(seedParam) : createRandomSeed();
+
+    if (!PROFILES.includes(profile)) {
+      return NextResponse.json({ error: `profile must be one of: ${PROFILES.join(', ')}` }, { status: 400 });
+    }
+    if (!isValidSeed(seed)) {
+      return NextResponse.json({ error: 'seed must be an integer between 0 and 4294967295' }, { status: 400 });
+    }
+
+    const provider = getLocalOsmProvider();
+    const graph = provider.getGraph();
+    if (!graph) {
+      return NextResponse.json(
+        { error: 'Local OSM graph is not available; set OSM_GRAPH_PATH to a GeoJSON or Overpass extract' },
+        { status: 503 }
+      );
+    }
+
+    const landmarkCount = parseInt(searchParams.get('landmarks') || '', 10) || provider.landmarkCount;
+    const wasCached = !rebuild && graph.getLandmarkIndex(profile)?.landmarks.length === Math.min(landmarkCount, graph.nodes.length);
+    const index = graph.prepareLandmarks(profile, landmarkCount, rebuild);
+
+    // Same random node pairs for both searches
+    const rng = createSeededRandom(seed);
+    const pairs = Array.from({ length: queries }, () => [
+      Math.floor(rng() * graph.nodes.length),
+      Math.floor(rng() * graph.nodes.length)
+    ]);
+
+    const plain = { latencies: [] as number[], settled: [] as number[] };
+    const alt = { latencies: [] as number[], settled: [] as number[] };
+    let routable = 0;
+    let mismatches = 0;
+
+    for (const [startId, goalId] of pairs) {
+      let started = performance.now();
+      const plainPath = graph.shortestPath(startId, goalId, profile, { useLandmarks: false });
+      plain.latencies.push(performance.now() - started);
+
+      started = performance.now();
+      const altPath = graph.shortestPath(startId, goalId, profile);
+      alt.latencies.push(performance.now() - started);
+
+      if (plainPath) plain.settled.push(plainPath.settledNodes);
+      if (altPath) alt.settled.push(altPath.settledNodes);
+      if (plainPath && altPath) routable++;
+
+      // ALT must return the same optimum; anything else means a broken bound
+      const sameResult = plainPath && altPath
+        ? Math.abs(plainPath.durationHours - altPath.durationHours) < 1e-9
+        : plainPath === altPath;
+      if (!sameResult) mismatches++;
+    }
+
+    const plainStats = summarize(plain.latencies, plain.settled);
+    const altStats = summarize(alt.latencies, alt.settled);
+
+    return NextResponse.json({
+      graph: { nodes: graph.nodes.length, edges: graph.edgeCount },
+      profile,
+      seed,
+      preprocessing: {
+        landmarks: index.landmarks.length,
+        durationMs: index.preprocessingMs,
+        cached: wasCached
+      },
+      queries: { total: queries, routable, mismatches },
+      plainAStar: plainStats,
+      alt: altStats,
+      speedup: altStats.avgMs > 0 ? Math.round((plainStats.avgMs / altStats.avgMs) * 100) / 100 : null
+    });
+  } catch (error) {
+    console.error('Error running routing benchmark:', error);
+    return NextResponse.json(
+      { error: 'Failed to run routing benchmark' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { distanceMatrix } from '@/services/distanceMatrix';
+import type { LatLng, RoutingProfile } from '@/types/routing';
+
+const VEHICLE_TYPES: RoutingProfile[] = ['truck', 'van', 'bike'];
+const MAX_MATRIX_CELLS = 2500; // e.g. 50 x 50 stops
+
+function isValidPoint(point: any): point is LatLng {
+  return typeof point?.lat === 'number' && typeof point?.lng === 'number' &&
+    Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+}
+
+// POST - Distance (km) and duration (hours) matrices between N origins and M destinations.
+// Destinations default to the origins for a square matrix.
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['collector', 'trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { origins, destinations, vehicleType = 'truck' } = await request.json();
+    const targets = destinations ?? origins;
+
+    if (!Array.isArray(origins) || origins.length === 0 || !Array.isArray(targets) || targets.length === 0) {
+      return NextResponse.json(
+        { error: 'origins (and optionally destinations) must be non-empty arrays of { lat, lng }' },
+        { status: 400 }
+      );
+    }
+    if (!origins.every(isValidPoint) || !targets.every(isValidPoint)) {
+      return NextResponse.json({ error: 'Invalid coordinates provided' }, { status: 400 });
+    }
+    if (!VEHICLE_TYPES.includes(vehicleType)) {
+      return NextResponse.json(
+        { error: `vehicleType must be one of: ${VEHICLE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (origins.length * targets.length > MAX_MATRIX_CELLS) {
+      return NextResponse.json(
+        { error: `Matrix too large; at most ${MAX_MATRIX_CELLS} origin/destination pairs per request` },
+        { status: 400 }
+      );
+    }
+
+    const matrix = await distanceMatrix.computeMatrix({
+      origins: origins.map(({ lat, lng }: LatLng) => ({ lat, lng })),
+      destinations: targets.map(({ lat, lng }: LatLng) => ({ lat, lng })),
+      vehicleType
+    });
+
+    console.log(`🧮 Matrix ${origins.length}x${targets.length} (${vehicleType}): ${matrix.cacheHits} cached cells`);
+
+    return NextResponse.json(matrix);
+  } catch (error) {
+    console.error('Error computing distance matrix:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute distance matrix' },
+      { status: 500 }
+    );
+  }
+}
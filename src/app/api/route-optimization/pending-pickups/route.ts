@@ -1,4 +1,13 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { isStaff, requireRole } from '@/lib/auth';
+import {
+  isPickupStatus,
+  pickupLifecycle,
+  PickupTransitionError,
+  PICKUP_STATUSES
+} from '@/services/pickupLifecycle';
+import type { PickupTransitionContext } from '@/types/pickup';
 
 // Try to import Supabase, but handle gracefully if it fails
 let supabase: any = null;
@@ -15,7 +24,10 @@ try {
   console.warn('Supabase not available, using fallback data');
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, ['collector', 'trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     let submissions: any[] = [];
     let aiDetections: any[] = [];
@@ -34,12 +46,15 @@ export async function GET() {
             quality,
             points,
             pickup_location,
+            pickup_window_start,
+            pickup_window_end,
+            pickup_service_minutes,
             created_at,
             pickup_status,
             ai_confidence,
             image_url
           `)
-          .eq('pickup_status', 'PENDING')
+          .in('pickup_status', ['PENDING', 'RESCHEDULED'])
           .not('pickup_location', 'is', null)
           .order('created_at', { ascending: true })
           .limit(20);
@@ -91,6 +106,9 @@ export async function GET() {
             wasteType: submission.type, // Using 'type' column from your schema
             priority: submission.quality === 'high' ? 1 : submission.quality === 'medium' ? 2 : 3,
             estimatedWeight: getEstimatedWeight(submission.type),
+            earliestArrival: submission.pickup_window_start || undefined,
+            latestArrival: submission.pickup_window_end || undefined,
+            serviceMinutes: submission.pickup_service_minutes,
             points: submission.points,
             submissionType: 'waste_submission',
             createdAt: submission.created_at,
@@ -195,10 +213,15 @@ function getEstimatedWeight(wasteType: string): number {
   return Math.round((baseWeight * variation) * 10) / 10;
 }
 
-// POST endpoint to update pickup status after route completion
-export async function POST(request: Request) {
+// POST endpoint to update pickup status after route completion.
+// Each pickup goes through the lifecycle state machine; invalid moves are reported per pickup,
+// including assignment and collection, which have their own APIs.
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['collector', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
-    const { pickupIds, status, collectorId, routeId } = await request.json();
+    const { pickupIds, status, routeId, reason } = await request.json();
 
     if (!pickupIds || !Array.isArray(pickupIds)) {
       return NextResponse.json(
@@ -206,26 +229,32 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+    if (!isPickupStatus(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${PICKUP_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Ops may act on any pickup; a collector only on the pickups assigned to them
+    const context: PickupTransitionContext = isStaff(user)
+      ? { actor: 'ops', actorId: user.id, reason }
+      : { actor: 'collector', actorId: user.collectorId ?? undefined, reason };
 
     const updates = [];
+    const rejected = [];
 
     for (const pickupId of pickupIds) {
       const [type, id] = pickupId.split('-');
       
       if (type === 'submission') {
-        const { error } = await supabase
-          .from('waste_submissions')
-          .update({
-            pickup_status: status,
-            pickup_collector_id: collectorId,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', parseInt(id));
-        
-        if (error) {
-          console.error(`Error updating submission ${id}:`, error);
-        } else {
+        try {
+          await pickupLifecycle.requestTransition(parseInt(id), status, context);
           updates.push({ type: 'submission', id, status });
+        } catch (error) {
+          if (!(error instanceof PickupTransitionError)) throw error;
+          console.warn(`⚠️ Pickup ${id} not updated: ${error.message}`);
+          rejected.push({ type: 'submission', id, code: error.code, error: error.message });
         }
       }
     }
@@ -233,10 +262,11 @@ export async function POST(request: Request) {
     console.log(`✅ Updated ${updates.length} pickup statuses to ${status}`);
 
     return NextResponse.json({
-      message: 'Pickup statuses updated successfully',
+      message: rejected.length ? 'Some pickup statuses could not be updated' : 'Pickup statuses updated successfully',
       updates,
+      rejected,
       routeId
-    });
+    }, { status: updates.length === 0 && rejected.length > 0 ? 409 : 200 });
 
   } catch (error) {
     console.error('Error updating pickup statuses:', error);
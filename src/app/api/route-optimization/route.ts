@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { routeOptimization } from '@/services/routeOptimization';
+import { routeOptimization, resolveVehicleProfiles, VEHICLE_PROFILES } from '@/services/routeOptimization';
 import { supabase } from '@/lib/supabase';
+import { createRandomSeed, isValidSeed } from '@/lib/random';
+import { requireRole } from '@/lib/auth';
+import type { UserRole } from '@/types/auth';
+
+const ROUTE_PLANNER_ROLES: UserRole[] = ['collector', 'trader', 'ops', 'admin'];
 
 interface Location {
   lat: number;
@@ -14,22 +19,20 @@ interface Location {
 
 // POST - Optimize a collection route
 export async function POST(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+  const user = await requireRole(request, ROUTE_PLANNER_ROLES);
+  if (user instanceof NextResponse) return user;
 
+  try {
     const body = await request.json();
     const { 
       collectorId, 
       pickupLocations, 
       startLocation, 
-      vehicleType = 'truck' 
+      vehicleType = 'truck',
+      vehicles,
+      maxTripsPerVehicle = 1,
+      departureTime,
+      seed
     } = body;
 
     // Validate input
@@ -40,6 +43,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (user.role === 'collector' && collectorId !== user.collectorId) {
+      return NextResponse.json(
+        { error: 'Collectors can only plan their own routes' },
+        { status: 403 }
+      );
+    }
+
     if (!Array.isArray(pickupLocations) || pickupLocations.length === 0) {
       return NextResponse.json(
         { error: 'pickupLocations must be a non-empty array' },
@@ -70,58 +80,132 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         );
       }
+
+      // Optional pickup window: both ends must parse and open before they close
+      const { earliestArrival, latestArrival, serviceMinutes } = pickupLocations[i];
+      const opens = earliestArrival ? Date.parse(earliestArrival) : null;
+      const closes = latestArrival ? Date.parse(latestArrival) : null;
+
+      if (
+        (opens !== null && isNaN(opens)) ||
+        (closes !== null && isNaN(closes)) ||
+        (opens !== null && closes !== null && opens > closes) ||
+        (serviceMinutes !== undefined && !(serviceMinutes >= 0))
+      ) {
+        return NextResponse.json(
+          { error: `Invalid time window at index ${i}` },
+          { status: 400 }
+        );
+      }
     }
 
-    // Validate vehicle type
-    const validVehicleTypes = ['truck', 'van', 'bike'];
-    if (!validVehicleTypes.includes(vehicleType)) {
+    const departure = departureTime ? new Date(departureTime) : new Date();
+    if (isNaN(departure.getTime())) {
       return NextResponse.json(
-        { error: 'Invalid vehicle type. Must be truck, van, or bike' },
+        { error: 'Invalid departureTime' },
         { status: 400 }
       );
     }
 
+    // Validate vehicle types (a single vehicleType, or a fleet of profiles)
+    const validVehicleTypes = Object.keys(VEHICLE_PROFILES);
+    const fleetSpec = Array.isArray(vehicles) && vehicles.length > 0 ? vehicles : [vehicleType];
+
+    for (const vehicle of fleetSpec) {
+      const type = typeof vehicle === 'string' ? vehicle : vehicle?.type;
+      if (!validVehicleTypes.includes(type)) {
+        return NextResponse.json(
+          { error: 'Invalid vehicle type. Must be truck, van, or bike' },
+          { status: 400 }
+        );
+      }
+      if (typeof vehicle === 'object' && vehicle.payloadKg !== undefined && !(vehicle.payloadKg > 0)) {
+        return NextResponse.json(
+          { error: 'Vehicle payloadKg must be a positive number' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (!Number.isInteger(maxTripsPerVehicle) || maxTripsPerVehicle < 1) {
+      return NextResponse.json(
+        { error: 'maxTripsPerVehicle must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    if (seed !== undefined && !isValidSeed(seed)) {
+      return NextResponse.json(
+        { error: 'seed must be an integer between 0 and 4294967295' },
+        { status: 400 }
+      );
+    }
+
+    // Always record a seed so the route can be replayed, even if the caller didn't pick one
+    const routeSeed = seed ?? createRandomSeed();
+
     console.log(`🚛 Optimizing route for ${pickupLocations.length} locations`);
 
-    // Optimize the route using AI
-    const optimizedRoute = await routeOptimization.optimizeCollectionRoute(
+    // Split pickups across vehicles/trips by payload and material, then optimize each
+    const { routes, unassigned } = await routeOptimization.optimizeFleetRoutes(
       collectorId,
       pickupLocations,
       startLocation,
-      vehicleType
+      resolveVehicleProfiles(fleetSpec),
+      { maxTripsPerVehicle, departureTime: departure, seed: routeSeed }
     );
 
-    // Save the optimized route to database
+    if (routes.length === 0) {
+      return NextResponse.json(
+        { error: 'No pickups could be assigned to the given vehicles', unassigned },
+        { status: 422 }
+      );
+    }
+
+    // Save each vehicle's route to database
     const { error: saveError } = await supabase
       .from('optimized_routes')
-      .insert({
-        route_id: optimizedRoute.id,
+      .insert(routes.map(route => ({
+        route_id: route.id,
         collector_id: collectorId,
-        user_email: session.user.email,
+        user_email: user.email,
         start_location: startLocation,
         pickup_locations: pickupLocations,
-        optimized_waypoints: optimizedRoute.waypoints,
-        vehicle_type: vehicleType,
-        total_distance: optimizedRoute.totalDistance,
-        total_duration: optimizedRoute.totalDuration,
-        total_fuel_cost: optimizedRoute.totalFuelCost,
-        total_emissions: optimizedRoute.totalEmissions,
-        estimated_savings: optimizedRoute.estimatedSavings,
-        efficiency_score: optimizedRoute.efficiency,
+        optimized_waypoints: route.waypoints,
+        vehicle_type: route.vehicleType || vehicleType,
+        total_distance: route.totalDistance,
+        total_duration: route.totalDuration,
+        total_fuel_cost: route.totalFuelCost,
+        total_emissions: route.totalEmissions,
+        estimated_savings: route.estimatedSavings,
+        efficiency_score: route.efficiency,
+        seed: routeSeed,
+        departure_time: departure.toISOString(),
+        optimizer_options: { vehicles: fleetSpec, maxTripsPerVehicle },
+        conditions: route.conditions ?? null,
         created_at: new Date().toISOString()
-      });
+      })));
 
     if (saveError) {
       console.error('Error saving optimized route:', saveError);
       // Don't fail the request if saving fails
     }
 
+    const optimizedRoute = routes[0];
     console.log(`✅ Route optimized with ${optimizedRoute.estimatedSavings.cost.toFixed(1)}% cost reduction`);
 
     return NextResponse.json({
       success: true,
       optimizedRoute,
-      message: 'Route optimized successfully',
+      routes,
+      unassigned,
+      seed: routeSeed,
+      timeWindowViolations: routes.flatMap(route =>
+        (route.timeWindowViolations || []).map(violation => ({ routeId: route.id, ...violation }))
+      ),
+      message: unassigned.length > 0
+        ? `Route optimized; ${unassigned.length} pickup(s) could not be assigned`
+        : 'Route optimized successfully',
       savings: {
         distance: `${optimizedRoute.estimatedSavings.distance.toFixed(1)}%`,
         time: `${optimizedRoute.estimatedSavings.time.toFixed(1)}%`,
@@ -141,22 +225,16 @@ export async function POST(request: NextRequest) {
 
 // GET - Fetch route optimization performance metrics
 export async function GET(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+  const user = await requireRole(request, ROUTE_PLANNER_ROLES);
+  if (user instanceof NextResponse) return user;
 
+  try {
     const { searchParams } = new URL(request.url);
     const routeId = searchParams.get('routeId');
 
     if (routeId) {
       // Get specific route details
-      const route = routeOptimization.getRouteById(routeId);
+      const route = await routeOptimization.getRouteById(routeId);
       
       if (!route) {
         return NextResponse.json(
@@ -177,7 +255,7 @@ export async function GET(request: NextRequest) {
       const { data: routeHistory, error } = await supabase
         .from('optimized_routes')
         .select('*')
-        .eq('user_email', session.user.email)
+        .eq('user_email', user.email)
         .order('created_at', { ascending: false })
         .limit(10);
 
@@ -203,16 +281,10 @@ export async function GET(request: NextRequest) {
 
 // PUT - Update route status or feedback
 export async function PUT(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+  const user = await requireRole(request, ROUTE_PLANNER_ROLES);
+  if (user instanceof NextResponse) return user;
 
+  try {
     const body = await request.json();
     const { routeId, status, feedback, actualMetrics } = body;
 
@@ -236,7 +308,7 @@ export async function PUT(request: NextRequest) {
       .from('optimized_routes')
       .update(updateData)
       .eq('route_id', routeId)
-      .eq('user_email', session.user.email);
+      .eq('user_email', user.email);
 
     if (error) {
       console.error('Error updating route:', error);
@@ -262,16 +334,10 @@ export async function PUT(request: NextRequest) {
 
 // DELETE - Delete a route
 export async function DELETE(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
+  const user = await requireRole(request, ROUTE_PLANNER_ROLES);
+  if (user instanceof NextResponse) return user;
 
+  try {
     const { searchParams } = new URL(request.url);
     const routeId = searchParams.get('routeId');
 
@@ -287,7 +353,7 @@ export async function DELETE(request: NextRequest) {
       .from('optimized_routes')
       .delete()
       .eq('route_id', routeId)
-      .eq('user_email', session.user.email);
+      .eq('user_email', user.email);
 
     if (error) {
       console.error('Error deleting route:', error);
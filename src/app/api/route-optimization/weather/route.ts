@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
 
 // Rate limiting to prevent API abuse
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
@@ -22,7 +24,10 @@ function checkRateLimit(ip: string): boolean {
   return true;
 }
 
-export async function POST(request: Request) {
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, ['collector', 'trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     // Get client IP for rate limiting
     const forwarded = request.headers.get('x-forwarded-for');
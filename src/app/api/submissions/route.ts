@@ -1,24 +1,29 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { isStaff, requireRole } from '@/lib/auth';
 // TODO: Convert to Supabase - MongoDB models not available
 // import dbConnect from '@/lib/mongodb';
 // import WasteSubmission from '@/models/WasteSubmission';
 
 export const dynamic = 'force-dynamic';
 
+// GET - The signed-in user's latest submissions (ops and admin may pass ?userId=)
 export async function GET(request: NextRequest) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     // TODO: Implement with Supabase
     // await dbConnect();
 
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const userId = searchParams.get('userId') || user.id;
 
-    if (!userId) {
+    if (userId !== user.id && !isStaff(user)) {
       return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
+        { error: "Cannot read another user's submissions" },
+        { status: 403 }
       );
     }
 
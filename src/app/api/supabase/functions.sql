@@ -16,4 +16,704 @@ BEGIN
     -- Return the new points total
     RETURN new_points;
 END;
-$$; 
\ No newline at end of file
+$$;
+
+-- Append a points ledger entry and apply it to the user's balance atomically.
+-- Replaying a user's idempotency key returns the original entry instead of applying it
+-- twice; current_balance is always the balance now, not the one after that entry.
+DROP FUNCTION IF EXISTS record_points_entry(TEXT, INT, TEXT, TEXT, TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION record_points_entry(
+    p_user_email TEXT,
+    p_delta INT,
+    p_reason_code TEXT,
+    p_source_type TEXT,
+    p_source_id TEXT,
+    p_idempotency_key TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id BIGINT,
+    user_email TEXT,
+    delta INT,
+    balance_after INT,
+    reason_code TEXT,
+    source_type TEXT,
+    source_id TEXT,
+    idempotency_key TEXT,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    duplicate BOOLEAN,
+    current_balance INT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    current_points INT;
+BEGIN
+    -- Make sure the user row exists so it can be locked
+    INSERT INTO users (email, name, points)
+    VALUES (p_user_email, split_part(p_user_email, '@', 1), 0)
+    ON CONFLICT (email) DO NOTHING;
+
+    -- Serialize all balance changes for this user
+    SELECT COALESCE(u.points, 0) INTO current_points
+    FROM users u
+    WHERE u.email = p_user_email
+    FOR UPDATE;
+
+    -- Idempotent replay: hand back the entry that was already written
+    IF EXISTS (
+        SELECT 1 FROM points_ledger l
+        WHERE l.user_email = p_user_email AND l.idempotency_key = p_idempotency_key
+    ) THEN
+        RETURN QUERY
+        SELECT l.id, l.user_email, l.delta, l.balance_after, l.reason_code, l.source_type,
+               l.source_id, l.idempotency_key, l.note, l.created_at, TRUE, current_points
+        FROM points_ledger l
+        WHERE l.user_email = p_user_email AND l.idempotency_key = p_idempotency_key;
+        RETURN;
+    END IF;
+
+    IF current_points + p_delta < 0 THEN
+        RAISE EXCEPTION 'INSUFFICIENT_POINTS';
+    END IF;
+
+    UPDATE users
+    SET points = current_points + p_delta,
+        updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE users.email = p_user_email;
+
+    RETURN QUERY
+    INSERT INTO points_ledger AS l (user_email, delta, balance_after, reason_code, source_type, source_id, idempotency_key, note)
+    VALUES (p_user_email, p_delta, current_points + p_delta, p_reason_code, p_source_type, p_source_id, p_idempotency_key, p_note)
+    RETURNING l.id, l.user_email, l.delta, l.balance_after, l.reason_code, l.source_type,
+              l.source_id, l.idempotency_key, l.note, l.created_at, FALSE, l.balance_after;
+END;
+$$;
+
+-- Reset a user's cached balance to the sum of their ledger entries
+CREATE OR REPLACE FUNCTION reconcile_user_points(p_user_email TEXT)
+RETURNS TABLE (stored_balance INT, ledger_balance INT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    stored INT;
+    derived INT;
+BEGIN
+    SELECT COALESCE(points, 0) INTO stored FROM users WHERE email = p_user_email FOR UPDATE;
+    SELECT COALESCE(SUM(l.delta), 0)::INT INTO derived FROM points_ledger l WHERE l.user_email = p_user_email;
+
+    UPDATE users
+    SET points = derived,
+        updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE email = p_user_email;
+
+    RETURN QUERY SELECT COALESCE(stored, 0), derived;
+END;
+$$;
+
+-- Redeem a catalog reward: reserve stock, enforce the active window and per-user
+-- limit, and debit points through the ledger, all in one transaction.
+CREATE OR REPLACE FUNCTION redeem_reward(
+    p_user_email TEXT,
+    p_reward_id TEXT,
+    p_idempotency_key TEXT
+)
+RETURNS SETOF reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    reward reward_catalog%ROWTYPE;
+    redemption reward_redemptions%ROWTYPE;
+    previous_redemptions INT;
+BEGIN
+    SELECT * INTO redemption FROM reward_redemptions
+    WHERE user_email = p_user_email AND idempotency_key = p_idempotency_key;
+    IF FOUND THEN
+        RETURN NEXT redemption;
+        RETURN;
+    END IF;
+
+    -- Lock the reward row so concurrent redemptions cannot oversell stock
+    SELECT * INTO reward FROM reward_catalog WHERE id = p_reward_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'REWARD_NOT_FOUND';
+    END IF;
+
+    IF NOT reward.is_active
+       OR (reward.starts_at IS NOT NULL AND reward.starts_at > NOW())
+       OR (reward.ends_at IS NOT NULL AND reward.ends_at < NOW()) THEN
+        RAISE EXCEPTION 'REWARD_NOT_AVAILABLE';
+    END IF;
+
+    IF reward.stock IS NOT NULL AND reward.stock <= 0 THEN
+        RAISE EXCEPTION 'REWARD_OUT_OF_STOCK';
+    END IF;
+
+    IF reward.per_user_limit IS NOT NULL THEN
+        SELECT COUNT(*) INTO previous_redemptions
+        FROM reward_redemptions
+        WHERE user_email = p_user_email
+        AND reward_id = p_reward_id
+        AND status IN ('pending', 'fulfilled');
+
+        IF previous_redemptions >= reward.per_user_limit THEN
+            RAISE EXCEPTION 'REWARD_LIMIT_REACHED';
+        END IF;
+    END IF;
+
+    IF reward.stock IS NOT NULL THEN
+        UPDATE reward_catalog SET stock = stock - 1, updated_at = TIMEZONE('utc'::text, NOW())
+        WHERE id = p_reward_id;
+    END IF;
+
+    INSERT INTO users (email, name, points)
+    VALUES (p_user_email, split_part(p_user_email, '@', 1), 0)
+    ON CONFLICT (email) DO NOTHING;
+
+    INSERT INTO reward_redemptions (reward_id, user_email, points_spent, idempotency_key)
+    VALUES (p_reward_id, p_user_email, reward.points_cost, p_idempotency_key)
+    RETURNING * INTO redemption;
+
+    -- Raises INSUFFICIENT_POINTS and rolls everything back if the balance is too low
+    PERFORM record_points_entry(
+        p_user_email,
+        -reward.points_cost,
+        'REDEMPTION',
+        'redemption',
+        redemption.id::TEXT,
+        'redemption-' || redemption.id,
+        'Redeemed ' || reward.title
+    );
+
+    RETURN NEXT redemption;
+END;
+$$;
+
+-- Move a redemption out of 'pending'. Cancelling or refunding returns the stock
+-- and credits the points back through the ledger.
+CREATE OR REPLACE FUNCTION settle_redemption(
+    p_redemption_id BIGINT,
+    p_status TEXT,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS SETOF reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    redemption reward_redemptions%ROWTYPE;
+BEGIN
+    SELECT * INTO redemption FROM reward_redemptions WHERE id = p_redemption_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'REDEMPTION_NOT_FOUND';
+    END IF;
+
+    -- pending -> fulfilled | cancelled; fulfilled -> refunded
+    IF NOT (
+        (redemption.status = 'pending' AND p_status IN ('fulfilled', 'cancelled'))
+        OR (redemption.status = 'fulfilled' AND p_status = 'refunded')
+    ) THEN
+        RAISE EXCEPTION 'INVALID_REDEMPTION_TRANSITION';
+    END IF;
+
+    IF p_status IN ('cancelled', 'refunded') THEN
+        UPDATE reward_catalog SET stock = stock + 1, updated_at = TIMEZONE('utc'::text, NOW())
+        WHERE id = redemption.reward_id AND stock IS NOT NULL;
+
+        PERFORM record_points_entry(
+            redemption.user_email,
+            redemption.points_spent,
+            'REDEMPTION_REFUND',
+            'redemption',
+            redemption.id::TEXT,
+            'redemption-refund-' || redemption.id,
+            p_note
+        );
+    END IF;
+
+    UPDATE reward_redemptions
+    SET status = p_status,
+        fulfillment_note = COALESCE(p_note, fulfillment_note),
+        updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = p_redemption_id
+    RETURNING * INTO redemption;
+
+    RETURN NEXT redemption;
+END;
+$$;
+
+-- Settle a provisional points hold with the verified amount: credit it through the
+-- ledger and mark the hold settled. Settling twice returns the already-settled hold.
+-- p_final_points includes the requested campaign bonuses (p_campaign_bonuses, a JSON
+-- array of {campaignId, points}); their budgets are charged in the same transaction
+-- as the credit, and the credit shrinks to what the budgets could still grant.
+DROP FUNCTION IF EXISTS settle_provisional_points(TEXT, TEXT, INT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION settle_provisional_points(
+    p_source_type TEXT,
+    p_source_id TEXT,
+    p_final_points INT,
+    p_policy_version TEXT,
+    p_note TEXT DEFAULT NULL,
+    p_campaign_bonuses JSONB DEFAULT '[]'::jsonb
+)
+RETURNS SETOF provisional_points
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    hold provisional_points%ROWTYPE;
+    entry_id BIGINT;
+    credited INT;
+BEGIN
+    SELECT * INTO hold FROM provisional_points
+    WHERE source_type = p_source_type AND source_id = p_source_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PROVISIONAL_NOT_FOUND';
+    END IF;
+
+    IF hold.status IN ('settled', 'rejected', 'void') THEN
+        RETURN NEXT hold;
+        RETURN;
+    END IF;
+
+    -- Under fraud review: remember the verified amount, credit it (and charge the campaigns)
+    -- only if the review approves
+    IF hold.status = 'held' THEN
+        UPDATE provisional_points
+        SET settled_points = GREATEST(p_final_points, 0),
+            settled_policy_version = p_policy_version,
+            campaign_bonuses = COALESCE(p_campaign_bonuses, '[]'::jsonb)
+        WHERE id = hold.id
+        RETURNING * INTO hold;
+        RETURN NEXT hold;
+        RETURN;
+    END IF;
+
+    credited := GREATEST(p_final_points - claim_campaign_bonuses(p_campaign_bonuses), 0);
+
+    IF credited > 0 THEN
+        SELECT r.id INTO entry_id
+        FROM record_points_entry(
+            hold.user_email,
+            credited,
+            'SUBMISSION_REWARD',
+            hold.source_type,
+            hold.source_id,
+            'provisional-settlement-' || hold.id,
+            p_note
+        ) r;
+    END IF;
+
+    UPDATE provisional_points
+    SET status = 'settled',
+        settled_points = credited,
+        settled_policy_version = p_policy_version,
+        campaign_bonuses = COALESCE(p_campaign_bonuses, '[]'::jsonb),
+        ledger_entry_id = entry_id,
+        settled_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = hold.id
+    RETURNING * INTO hold;
+
+    -- The submission shows what was actually credited, never an amount still under review
+    IF hold.source_type = 'submission' AND hold.source_id ~ '^[0-9]+$' THEN
+        UPDATE waste_submissions
+        SET points = credited, updated_at = TIMEZONE('utc'::text, NOW())
+        WHERE id = hold.source_id::INTEGER;
+    END IF;
+
+    RETURN NEXT hold;
+END;
+$$;
+
+-- Resolve a provisional hold that fraud review put on 'held'. Approving credits the
+-- verified amount if the collection already settled, otherwise returns the hold to
+-- 'pending' so collection settles it normally. Rejecting means nothing is ever credited.
+-- A hold voided by a cancelled pickup is returned as it is.
+CREATE OR REPLACE FUNCTION resolve_provisional_hold(
+    p_source_type TEXT,
+    p_source_id TEXT,
+    p_approve BOOLEAN,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS SETOF provisional_points
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    hold provisional_points%ROWTYPE;
+    entry_id BIGINT;
+    credited INT;
+BEGIN
+    SELECT * INTO hold FROM provisional_points
+    WHERE source_type = p_source_type AND source_id = p_source_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PROVISIONAL_NOT_FOUND';
+    END IF;
+    IF hold.status = 'void' THEN
+        RETURN NEXT hold;
+        RETURN;
+    END IF;
+    IF hold.status <> 'held' THEN
+        RAISE EXCEPTION 'PROVISIONAL_NOT_HELD';
+    END IF;
+
+    IF NOT p_approve THEN
+        UPDATE provisional_points
+        SET status = 'rejected', settled_at = TIMEZONE('utc'::text, NOW())
+        WHERE id = hold.id
+        RETURNING * INTO hold;
+    ELSIF EXISTS (
+        SELECT 1 FROM fraud_reviews
+        WHERE source_type = p_source_type AND source_id = p_source_id AND status = 'open'
+    ) OR EXISTS (
+        SELECT 1 FROM detection_reviews
+        WHERE source_type = p_source_type AND source_id = p_source_id AND status = 'open'
+    ) THEN
+        -- Another review still holds these points; the last one to close releases them
+        NULL;
+    ELSIF hold.settled_points IS NULL THEN
+        UPDATE provisional_points SET status = 'pending' WHERE id = hold.id RETURNING * INTO hold;
+    ELSE
+        -- Campaign budgets are only charged now that the points are actually credited
+        credited := GREATEST(hold.settled_points - claim_campaign_bonuses(hold.campaign_bonuses), 0);
+        IF credited > 0 THEN
+            SELECT r.id INTO entry_id
+            FROM record_points_entry(
+                hold.user_email,
+                credited,
+                'SUBMISSION_REWARD',
+                hold.source_type,
+                hold.source_id,
+                'provisional-settlement-' || hold.id,
+                p_note
+            ) r;
+        END IF;
+
+        UPDATE provisional_points
+        SET status = 'settled',
+            settled_points = credited,
+            ledger_entry_id = entry_id,
+            settled_at = TIMEZONE('utc'::text, NOW())
+        WHERE id = hold.id
+        RETURNING * INTO hold;
+
+        -- As in settle_provisional_points, the submission now shows the credited amount
+        IF hold.source_type = 'submission' AND hold.source_id ~ '^[0-9]+$' THEN
+            UPDATE waste_submissions
+            SET points = credited, updated_at = TIMEZONE('utc'::text, NOW())
+            WHERE id = hold.source_id::INTEGER;
+        END IF;
+    END IF;
+
+    RETURN NEXT hold;
+END;
+$$;
+
+-- Reserve campaign bonus points against the campaign budget. Returns how many of the
+-- requested points were granted (fewer once the budget runs out, 0 if exhausted).
+CREATE OR REPLACE FUNCTION claim_campaign_budget(
+    p_campaign_id BIGINT,
+    p_points INT
+)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    campaign campaigns%ROWTYPE;
+    granted INT;
+BEGIN
+    SELECT * INTO campaign FROM campaigns WHERE id = p_campaign_id FOR UPDATE;
+    IF NOT FOUND OR p_points <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    IF campaign.budget_points IS NULL THEN
+        granted := p_points;
+    ELSE
+        granted := GREATEST(0, LEAST(p_points, campaign.budget_points - campaign.spent_points));
+    END IF;
+
+    UPDATE campaigns SET spent_points = spent_points + granted WHERE id = campaign.id;
+    RETURN granted;
+END;
+$$;
+
+-- Charge a set of requested campaign bonuses ({campaignId, points} objects) to their
+-- budgets. Returns how many of the requested points could NOT be granted, so callers
+-- can subtract the shortfall from an award that already includes the full bonus.
+CREATE OR REPLACE FUNCTION claim_campaign_bonuses(p_bonuses JSONB)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    bonus JSONB;
+    requested INT;
+    shortfall INT := 0;
+BEGIN
+    FOR bonus IN SELECT * FROM jsonb_array_elements(COALESCE(p_bonuses, '[]'::jsonb)) LOOP
+        requested := COALESCE((bonus->>'points')::INT, 0);
+        IF requested > 0 THEN
+            shortfall := shortfall + requested
+                - claim_campaign_budget((bonus->>'campaignId')::BIGINT, requested);
+        END IF;
+    END LOOP;
+    RETURN shortfall;
+END;
+$$;
+
+-- Remove expired cache entries, then the least recently written ones beyond p_max_entries
+CREATE OR REPLACE FUNCTION prune_cache_entries(p_max_entries INT)
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    expired_count INT;
+    overflow_count INT;
+BEGIN
+    DELETE FROM cache_entries WHERE expires_at <= NOW();
+    GET DIAGNOSTICS expired_count = ROW_COUNT;
+
+    DELETE FROM cache_entries
+    WHERE key IN (
+        SELECT key FROM cache_entries
+        ORDER BY updated_at DESC
+        OFFSET p_max_entries
+    );
+    GET DIAGNOSTICS overflow_count = ROW_COUNT;
+
+    RETURN expired_count + overflow_count;
+END;
+$$;
+
+-- Refill a token bucket for the time since its last update, then take p_cost tokens
+-- if there are enough. The row lock makes concurrent requests from other instances queue up.
+-- Buckets idle for a day are always full again, so they are dropped on the way.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+    p_key TEXT,
+    p_capacity INT,
+    p_refill_per_minute DOUBLE PRECISION,
+    p_cost INT DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining DOUBLE PRECISION, retry_after_ms INT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    bucket rate_limit_buckets%ROWTYPE;
+    available DOUBLE PRECISION;
+    refill_per_ms DOUBLE PRECISION := p_refill_per_minute / 60000.0;
+BEGIN
+    IF random() < 0.001 THEN
+        DELETE FROM rate_limit_buckets WHERE updated_at < NOW() - INTERVAL '1 day';
+    END IF;
+
+    INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+    VALUES (p_key, p_capacity, NOW())
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT * INTO bucket FROM rate_limit_buckets WHERE key = p_key FOR UPDATE;
+
+    available := LEAST(
+        p_capacity,
+        bucket.tokens + EXTRACT(EPOCH FROM (NOW() - bucket.updated_at)) * 1000 * refill_per_ms
+    );
+
+    IF available >= p_cost THEN
+        UPDATE rate_limit_buckets SET tokens = available - p_cost, updated_at = NOW() WHERE key = p_key;
+        RETURN QUERY SELECT TRUE, available - p_cost, 0;
+    ELSE
+        UPDATE rate_limit_buckets SET tokens = available, updated_at = NOW() WHERE key = p_key;
+        RETURN QUERY SELECT FALSE, available, CEIL((p_cost - available) / refill_per_ms)::INT;
+    END IF;
+END;
+$$;
+
+-- Apply a pickup status change and record it. The allowed moves and actor checks
+-- live in services/pickupLifecycle.ts; this only guarantees the row still has the
+-- status the caller validated against, so concurrent updates cannot skip a step.
+-- It also keeps the collector's load in step with the pickup: ASSIGNED adds the
+-- pickup's weight (p_load_kg, else its estimate), COLLECTED swaps that for the weighed
+-- p_load_kg, and any move out of the collector's hands takes the weight back off.
+-- A failed pickup voids its unsettled provisional points until it is rescheduled;
+-- a cancelled one voids them for good, even while a review holds them.
+DROP FUNCTION IF EXISTS transition_pickup_status(INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT);
+CREATE OR REPLACE FUNCTION transition_pickup_status(
+    p_submission_id INTEGER,
+    p_from_status TEXT,
+    p_to_status TEXT,
+    p_actor TEXT,
+    p_actor_id TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL,
+    p_collector_id TEXT DEFAULT NULL,
+    p_load_kg NUMERIC DEFAULT NULL
+)
+RETURNS SETOF pickup_status_transitions
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    pickup waste_submissions%ROWTYPE;
+    load_kg NUMERIC;
+BEGIN
+    SELECT * INTO pickup FROM waste_submissions WHERE id = p_submission_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'PICKUP_NOT_FOUND';
+    END IF;
+
+    IF pickup.pickup_status IS DISTINCT FROM p_from_status THEN
+        RAISE EXCEPTION 'PICKUP_STATUS_CONFLICT';
+    END IF;
+
+    load_kg := pickup.pickup_load_kg;
+    IF p_to_status = 'ASSIGNED' THEN
+        load_kg := COALESCE(p_load_kg, pickup.pickup_estimated_weight_kg, 2.0);
+        PERFORM adjust_collector_load(COALESCE(p_collector_id, pickup.pickup_collector_id), load_kg);
+    ELSIF p_to_status = 'COLLECTED' AND p_load_kg IS NOT NULL THEN
+        PERFORM adjust_collector_load(pickup.pickup_collector_id, p_load_kg - COALESCE(pickup.pickup_load_kg, 0));
+        load_kg := p_load_kg;
+    ELSIF p_to_status NOT IN ('EN_ROUTE', 'ARRIVED', 'COLLECTED', 'VERIFIED') THEN
+        IF pickup.pickup_load_kg IS NOT NULL AND pickup.pickup_collector_id IS NOT NULL THEN
+            PERFORM adjust_collector_load(pickup.pickup_collector_id, -pickup.pickup_load_kg);
+        END IF;
+        load_kg := NULL;
+    END IF;
+
+    IF p_to_status = 'CANCELLED' THEN
+        UPDATE provisional_points
+        SET status = 'void', settled_at = TIMEZONE('utc'::text, NOW())
+        WHERE source_type = 'submission' AND source_id = p_submission_id::TEXT
+          AND status IN ('pending', 'held', 'void');
+    ELSIF p_to_status = 'FAILED' THEN
+        UPDATE provisional_points SET status = 'void'
+        WHERE source_type = 'submission' AND source_id = p_submission_id::TEXT AND status = 'pending';
+    ELSIF p_to_status = 'RESCHEDULED' THEN
+        UPDATE provisional_points SET status = 'pending'
+        WHERE source_type = 'submission' AND source_id = p_submission_id::TEXT AND status = 'void';
+    END IF;
+
+    UPDATE waste_submissions
+    SET pickup_status = p_to_status,
+        -- Sending a pickup back to dispatch releases its collector
+        pickup_collector_id = CASE
+            WHEN p_to_status IN ('MANUAL_ASSIGNMENT_NEEDED', 'RESCHEDULED') THEN NULL
+            ELSE COALESCE(p_collector_id, pickup_collector_id)
+        END,
+        pickup_load_kg = load_kg,
+        pickup_status_updated_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = p_submission_id;
+
+    RETURN QUERY
+    INSERT INTO pickup_status_transitions (submission_id, from_status, to_status, actor, actor_id, reason)
+    VALUES (p_submission_id, p_from_status, p_to_status, p_actor, p_actor_id, p_reason)
+    RETURNING *;
+END;
+$$;
+
+-- Add p_delta_kg to a collector's load in one statement, clamped to [0, capacity], so
+-- concurrent assignments and collections cannot overwrite each other's change. A full
+-- collector turns BUSY and becomes AVAILABLE again once it has room; OFFLINE is kept.
+-- Returns the new load, or NULL when the collector does not exist.
+CREATE OR REPLACE FUNCTION adjust_collector_load(p_collector_id TEXT, p_delta_kg NUMERIC)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    new_load NUMERIC;
+BEGIN
+    UPDATE collectors
+    SET current_load_kg = LEAST(capacity_kg, GREATEST(0, current_load_kg + p_delta_kg)),
+        status = CASE
+            WHEN status = 'OFFLINE' THEN status
+            WHEN LEAST(capacity_kg, GREATEST(0, current_load_kg + p_delta_kg)) >= capacity_kg THEN 'BUSY'
+            ELSE 'AVAILABLE'
+        END
+    WHERE id = p_collector_id
+    RETURNING current_load_kg INTO new_load;
+
+    RETURN new_load;
+END;
+$$;
+
+-- Number of differing bits between two 64-bit dHashes (16 hex characters)
+CREATE OR REPLACE FUNCTION image_hash_distance(a TEXT, b TEXT)
+RETURNS INT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT length(replace((('x' || a)::bit(64) # ('x' || b)::bit(64))::text, '0', ''));
+$$;
+
+-- Record an upload and return the earlier uploads the fraud checks compare it with:
+-- near-duplicates of any of its hashes (from anyone, at any time) and the user's own
+-- uploads since p_since. Hashes within p_max_distance bits agree on at least one of
+-- their p_max_distance + 1 bands, so the band index finds every candidate. Locking
+-- the bands first makes parallel uploads of the same photo queue up, so the second
+-- one always sees the first.
+CREATE OR REPLACE FUNCTION record_upload_fingerprint(
+    p_id UUID,
+    p_user_email TEXT,
+    p_image_hashes TEXT[],
+    p_image_hash_bands TEXT[],
+    p_location JSONB,
+    p_since TIMESTAMPTZ,
+    p_max_distance INT
+)
+RETURNS SETOF upload_fingerprints
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    band TEXT;
+BEGIN
+    FOR band IN SELECT DISTINCT b FROM unnest(p_image_hash_bands) AS b ORDER BY b LOOP
+        PERFORM pg_advisory_xact_lock(hashtext('upload-fingerprint:' || band));
+    END LOOP;
+
+    RETURN QUERY
+        SELECT f.* FROM upload_fingerprints f
+        WHERE f.image_hash_bands && p_image_hash_bands
+          AND EXISTS (
+              SELECT 1 FROM unnest(f.image_hashes) AS earlier, unnest(p_image_hashes) AS uploaded
+              WHERE image_hash_distance(earlier, uploaded) <= p_max_distance
+          )
+        UNION
+        SELECT f.* FROM upload_fingerprints f
+        WHERE f.user_email = p_user_email AND f.created_at >= p_since;
+
+    INSERT INTO upload_fingerprints (id, user_email, image_hashes, image_hash_bands, location)
+    VALUES (p_id, p_user_email, p_image_hashes, p_image_hash_bands, p_location);
+END;
+$$;
+
+-- Only the backend (service role) may move points; the anon and signed-in Supabase roles
+-- must not be able to call these directly through the REST API
+REVOKE EXECUTE ON FUNCTION increment_points(UUID, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_points_entry(TEXT, INT, TEXT, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeem_reward(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_redemption(BIGINT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_provisional_points(TEXT, TEXT, INT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_provisional_hold(TEXT, TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_campaign_budget(BIGINT, INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_campaign_bonuses(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_user_points(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Pickup status changes go through pickupLifecycle's actor checks, never straight from the REST API
+REVOKE EXECUTE ON FUNCTION transition_pickup_status(INTEGER, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION adjust_collector_load(TEXT, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Rate limit buckets and the shared cache are backend-only as well
+REVOKE EXECUTE ON FUNCTION prune_cache_entries(INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, INT, DOUBLE PRECISION, INT) FROM PUBLIC, anon, authenticated;
+
+-- Upload fingerprints feed the fraud checks and must only be written by the backend
+REVOKE EXECUTE ON FUNCTION record_upload_fingerprint(UUID, TEXT, TEXT[], TEXT[], JSONB, TIMESTAMPTZ, INT) FROM PUBLIC, anon, authenticated;
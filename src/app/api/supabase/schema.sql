@@ -1,4 +1,16 @@
 -- Drop existing tables if they exist
+DROP TABLE IF EXISTS campaigns;
+DROP TABLE IF EXISTS detection_reviews;
+DROP TABLE IF EXISTS fraud_reviews;
+DROP TABLE IF EXISTS dispatch_audit_log;
+DROP TABLE IF EXISTS rate_limit_buckets;
+DROP TABLE IF EXISTS cache_entries;
+DROP TABLE IF EXISTS reward_redemptions;
+DROP TABLE IF EXISTS reward_catalog;
+DROP TABLE IF EXISTS provisional_points;
+DROP TABLE IF EXISTS points_ledger;
+DROP TABLE IF EXISTS pickup_collections;
+DROP TABLE IF EXISTS pickup_status_transitions;
 DROP TABLE IF EXISTS pickup_tickets;
 DROP TABLE IF EXISTS collectors;
 DROP TABLE IF EXISTS waste_submissions CASCADE;
@@ -11,9 +23,14 @@ CREATE TABLE users (
     name TEXT,
     avatar_url TEXT,
     provider TEXT,
+    password_hash TEXT, -- bcrypt; NULL for accounts that sign in through a provider
+    role TEXT NOT NULL DEFAULT 'citizen',
+    collector_id TEXT, -- collectors.id for collector accounts
     points INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT valid_user_role CHECK (role IN ('citizen', 'collector', 'trader', 'ops', 'admin')),
+    CONSTRAINT collector_account_linked CHECK (role <> 'collector' OR collector_id IS NOT NULL)
 );
 
 -- Create waste_submissions table
@@ -25,11 +42,61 @@ CREATE TABLE waste_submissions (
     points INTEGER NOT NULL,
     ai_confidence FLOAT NOT NULL,
     image_url TEXT NOT NULL,
+    thumbnail_url TEXT,
+    images JSONB NOT NULL DEFAULT '[]', -- every uploaded photo as { url, thumbnailUrl, publicId }; image_url is the first
+    items JSONB NOT NULL DEFAULT '[]', -- detected objects the citizen kept, each with its own points
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
     pickup_status TEXT DEFAULT 'PENDING',
     pickup_collector_id TEXT,
     pickup_location JSONB,
-    CONSTRAINT valid_pickup_status CHECK (pickup_status IN ('PENDING', 'ASSIGNED', 'COMPLETED', 'CANCELLED'))
+    pickup_window_start TIMESTAMP WITH TIME ZONE,
+    pickup_window_end TIMESTAMP WITH TIME ZONE,
+    pickup_service_minutes INTEGER NOT NULL DEFAULT 5,
+    pickup_estimated_weight_kg NUMERIC,
+    pickup_load_kg NUMERIC, -- weight counted against the assigned collector's load; set by transition_pickup_status()
+    pickup_status_updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    pickup_accepted_at TIMESTAMP WITH TIME ZONE,
+    optimized_route_id TEXT,
+    route_order INTEGER,
+    estimated_arrival TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT valid_pickup_status CHECK (pickup_status IN (
+        'PENDING', 'ASSIGNED', 'MANUAL_ASSIGNMENT_NEEDED', 'EN_ROUTE', 'ARRIVED', 'COLLECTED',
+        'VERIFIED', 'COMPLETED', 'CANCELLED', 'FAILED', 'RESCHEDULED'
+    )),
+    CONSTRAINT valid_pickup_window CHECK (pickup_window_start IS NULL OR pickup_window_end IS NULL OR pickup_window_start <= pickup_window_end),
+    CONSTRAINT valid_pickup_service_minutes CHECK (pickup_service_minutes >= 0),
+    CONSTRAINT valid_pickup_estimated_weight CHECK (pickup_estimated_weight_kg IS NULL OR pickup_estimated_weight_kg > 0)
+);
+
+-- Audit trail of pickup status changes; written only by transition_pickup_status()
+CREATE TABLE pickup_status_transitions (
+    id BIGSERIAL PRIMARY KEY,
+    submission_id INTEGER NOT NULL REFERENCES waste_submissions(id) ON DELETE CASCADE,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    actor_id TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT valid_transition_actor CHECK (actor IN ('citizen', 'collector', 'ops', 'system'))
+);
+
+-- What the collector recorded at each stop; settled points are computed from this row
+CREATE TABLE pickup_collections (
+    submission_id INTEGER PRIMARY KEY REFERENCES waste_submissions(id) ON DELETE CASCADE,
+    collector_id TEXT NOT NULL,
+    actual_weight_kg NUMERIC NOT NULL,
+    contamination_grade TEXT NOT NULL,
+    photo_url TEXT NOT NULL,
+    notes TEXT,
+    points_awarded INTEGER,
+    policy_version TEXT,
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    verified_at TIMESTAMP WITH TIME ZONE,
+    verified_by TEXT,
+    CONSTRAINT positive_actual_weight CHECK (actual_weight_kg > 0),
+    CONSTRAINT valid_contamination_grade CHECK (contamination_grade IN ('clean', 'light', 'moderate', 'heavy'))
 );
 
 -- Create collectors table
@@ -38,16 +105,30 @@ CREATE TABLE collectors (
     name TEXT NOT NULL,
     phone TEXT NOT NULL,
     status TEXT NOT NULL DEFAULT 'AVAILABLE',
+    vehicle_type TEXT NOT NULL DEFAULT 'van',
+    capacity_kg NUMERIC NOT NULL DEFAULT 500,
+    current_load_kg NUMERIC NOT NULL DEFAULT 0,
+    accepted_waste_types TEXT[] NOT NULL DEFAULT ARRAY['plastic', 'paper', 'glass', 'metal', 'organic', 'mixed'],
+    working_hours JSONB NOT NULL DEFAULT '{"start": "08:00", "end": "18:00", "days": [1, 2, 3, 4, 5, 6]}'::jsonb,
+    timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone the working hours are in
     current_location JSONB,
     last_active_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
-    CONSTRAINT valid_status CHECK (status IN ('AVAILABLE', 'BUSY', 'OFFLINE'))
+    CONSTRAINT valid_status CHECK (status IN ('AVAILABLE', 'BUSY', 'OFFLINE')),
+    CONSTRAINT valid_vehicle_type CHECK (vehicle_type IN ('truck', 'van', 'bike')),
+    CONSTRAINT valid_collector_load CHECK (capacity_kg > 0 AND current_load_kg >= 0 AND current_load_kg <= capacity_kg)
 );
 
 -- Create indexes
 CREATE INDEX users_email_idx ON users(email);
+CREATE INDEX idx_users_role ON users(role);
 CREATE INDEX idx_waste_submissions_user_id ON waste_submissions(user_id);
 CREATE INDEX idx_waste_submissions_pickup_status ON waste_submissions(pickup_status);
+CREATE INDEX idx_waste_submissions_pickup_collector ON waste_submissions(pickup_collector_id, pickup_status);
+CREATE INDEX idx_pickup_collections_collector ON pickup_collections(collector_id, recorded_at);
+CREATE INDEX idx_pickup_status_transitions_submission ON pickup_status_transitions(submission_id, created_at);
 CREATE INDEX idx_collectors_status ON collectors(status);
+CREATE INDEX idx_collectors_vehicle_type ON collectors(vehicle_type);
+CREATE INDEX idx_collectors_waste_types ON collectors USING GIN (accepted_waste_types);
 
 -- Enable Row Level Security
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
@@ -65,6 +146,10 @@ CREATE POLICY "Users can update their own data"
     FOR UPDATE
     USING (auth.uid()::text = id::text);
 
+-- Profile fields only: role, password and points are changed by the backend
+REVOKE UPDATE ON users FROM anon, authenticated;
+GRANT UPDATE (name, avatar_url) ON users TO authenticated;
+
 CREATE POLICY "Users can view their own submissions"
     ON waste_submissions
     FOR SELECT
@@ -108,16 +193,23 @@ CREATE TABLE ai_detections (
     user_email TEXT NOT NULL,
     image_name TEXT NOT NULL,
     image_size INTEGER NOT NULL,
+    image_url TEXT, -- stored copy with GPS metadata removed
+    thumbnail_url TEXT,
     waste_type TEXT NOT NULL,
     confidence FLOAT NOT NULL,
     quality TEXT NOT NULL,
     recyclability FLOAT NOT NULL,
     contamination FLOAT NOT NULL,
     points_earned INTEGER NOT NULL,
+    policy_version TEXT,
+    image_hash TEXT, -- 64-bit perceptual hash (hex) for near-duplicate lookup
+    items JSONB NOT NULL DEFAULT '[]', -- every kept object: category, bbox, confidence, points
+    vision_provider TEXT, -- provider behind the server classification (see VISION_VERIFY_PROVIDERS); NULL when none could classify
     model_results JSONB,
     accuracy_improvement FLOAT,
     description TEXT,
     location JSONB,
+    ground_truth_label TEXT, -- category confirmed or corrected by a moderator
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
 );
 
@@ -139,6 +231,96 @@ CREATE TABLE reward_transactions (
     CONSTRAINT valid_status CHECK (status IN ('pending', 'completed', 'failed', 'redeemed'))
 );
 
+-- Create append-only points ledger (users.points is derived from it)
+CREATE TABLE points_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    user_email TEXT NOT NULL REFERENCES users(email),
+    delta INTEGER NOT NULL,
+    balance_after INTEGER NOT NULL,
+    reason_code TEXT NOT NULL,
+    source_type TEXT NOT NULL,
+    source_id TEXT,
+    idempotency_key TEXT NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    -- Keys are per user: another user's key never replays (or reveals) this user's entry
+    CONSTRAINT unique_user_idempotency_key UNIQUE (user_email, idempotency_key),
+    CONSTRAINT non_zero_delta CHECK (delta <> 0),
+    CONSTRAINT non_negative_balance CHECK (balance_after >= 0),
+    CONSTRAINT valid_reason_code CHECK (reason_code IN ('SUBMISSION_REWARD', 'AI_DETECTION_REWARD', 'REDEMPTION', 'REDEMPTION_REFUND', 'MANUAL_ADJUSTMENT')),
+    CONSTRAINT valid_source_type CHECK (source_type IN ('submission', 'detection', 'redemption', 'manual'))
+);
+
+-- Points estimated at submission time, held until the collector-verified weight settles them.
+-- Only settled amounts reach the ledger (and the balance).
+CREATE TABLE provisional_points (
+    id BIGSERIAL PRIMARY KEY,
+    user_email TEXT NOT NULL REFERENCES users(email),
+    source_type TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    estimated_points INTEGER NOT NULL,
+    settled_points INTEGER,
+    status TEXT NOT NULL DEFAULT 'pending',
+    policy_version TEXT NOT NULL,
+    settled_policy_version TEXT,
+    basis JSONB,
+    note TEXT,
+    campaign_bonuses JSONB NOT NULL DEFAULT '[]'::jsonb, -- {campaignId, points} requested at settlement; budgets are charged when credited
+    ledger_entry_id BIGINT REFERENCES points_ledger(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    settled_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT unique_provisional_source UNIQUE (source_type, source_id),
+    CONSTRAINT non_negative_estimate CHECK (estimated_points >= 0),
+    CONSTRAINT valid_provisional_status CHECK (status IN ('pending', 'held', 'settled', 'rejected', 'void')),
+    CONSTRAINT valid_provisional_source_type CHECK (source_type IN ('submission', 'detection'))
+);
+
+-- Create reward catalog (shared by the rewards and marketplace pages)
+CREATE TABLE reward_catalog (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    category TEXT NOT NULL,
+    points_cost INTEGER NOT NULL,
+    image_url TEXT,
+    stock INTEGER, -- NULL means unlimited
+    per_user_limit INTEGER, -- NULL means no limit
+    starts_at TIMESTAMP WITH TIME ZONE,
+    ends_at TIMESTAMP WITH TIME ZONE,
+    featured BOOLEAN DEFAULT FALSE,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT valid_reward_category CHECK (category IN ('gift-cards', 'eco-products', 'experiences', 'donations', 'crypto', 'nft', 'vouchers')),
+    CONSTRAINT positive_points_cost CHECK (points_cost > 0),
+    CONSTRAINT non_negative_stock CHECK (stock IS NULL OR stock >= 0)
+);
+
+-- Create reward redemptions (points are debited through points_ledger)
+CREATE TABLE reward_redemptions (
+    id BIGSERIAL PRIMARY KEY,
+    reward_id TEXT NOT NULL REFERENCES reward_catalog(id),
+    user_email TEXT NOT NULL REFERENCES users(email),
+    points_spent INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    idempotency_key TEXT NOT NULL,
+    fulfillment_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT unique_user_redemption_key UNIQUE (user_email, idempotency_key),
+    CONSTRAINT valid_redemption_status CHECK (status IN ('pending', 'fulfilled', 'cancelled', 'refunded'))
+);
+
+INSERT INTO reward_catalog (id, title, description, category, points_cost, image_url, stock, per_user_limit, featured) VALUES
+    ('amazon-gift-card-50', '$50 Amazon Gift Card', 'Redeem your points for an Amazon gift card.', 'gift-cards', 5000, '/marketplace/amazon-card.svg', 50, NULL, TRUE),
+    ('reusable-water-bottle', 'Reusable Water Bottle', 'High-quality stainless steel water bottle.', 'eco-products', 2000, '/marketplace/water-bottle.svg', 100, NULL, FALSE),
+    ('tree-planting', 'Tree Planting', 'Plant a tree in your name.', 'donations', 1000, '/marketplace/tree-planting.svg', NULL, NULL, FALSE),
+    ('eco-workshop', 'Eco Workshop', 'Join an exclusive eco-friendly workshop.', 'experiences', 3000, '/marketplace/workshop.svg', 20, 1, FALSE),
+    ('crypto-btc-testnet', 'Testnet BTC Reward', 'Demo crypto reward (no real blockchain).', 'crypto', 500, NULL, NULL, NULL, FALSE),
+    ('crypto-eth-testnet', 'Testnet ETH Reward', 'Demo crypto reward (no real blockchain).', 'crypto', 750, NULL, NULL, NULL, FALSE),
+    ('nft-eco-achiever', 'Eco Achiever NFT', 'Demo NFT reward (no minting).', 'nft', 1200, NULL, NULL, 1, FALSE),
+    ('voucher-10-off', '10% Partner Voucher', 'Partner discount with QR code verification.', 'vouchers', 300, NULL, NULL, NULL, FALSE);
+
 -- Create route optimization table
 CREATE TABLE optimized_routes (
     id SERIAL PRIMARY KEY,
@@ -155,6 +337,10 @@ CREATE TABLE optimized_routes (
     total_emissions FLOAT NOT NULL,
     estimated_savings JSONB NOT NULL,
     efficiency_score FLOAT NOT NULL,
+    seed BIGINT, -- optimizer PRNG seed; replaying with the same inputs reproduces the route
+    departure_time TIMESTAMP WITH TIME ZONE,
+    optimizer_options JSONB,
+    conditions JSONB, -- weather and traffic inputs the route was costed with
     status TEXT DEFAULT 'active',
     feedback TEXT,
     actual_metrics JSONB,
@@ -164,19 +350,169 @@ CREATE TABLE optimized_routes (
     CONSTRAINT valid_route_status CHECK (status IN ('active', 'completed', 'cancelled'))
 );
 
+-- Shared cache for routing data (ROUTE_CACHE_STORE=supabase); keys are namespaced, e.g. "segment:..."
+CREATE TABLE cache_entries (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Token buckets for API rate limits (RATE_LIMIT_STORE=supabase); keys look like "vision:user:<id>"
+CREATE TABLE rate_limit_buckets (
+    key TEXT PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Dispatcher actions on the manual-assignment queue (assign, reassign, bulk assign)
+CREATE TABLE dispatch_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    action TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    submission_ids INTEGER[] NOT NULL,
+    collector_id TEXT NOT NULL,
+    previous_collector_ids TEXT[] NOT NULL DEFAULT '{}',
+    dispatcher_id TEXT,
+    note TEXT,
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT valid_dispatch_action CHECK (action IN ('assign', 'reassign', 'bulk_assign')),
+    CONSTRAINT valid_dispatch_outcome CHECK (outcome IN ('succeeded', 'partial', 'failed'))
+);
+
+-- Time-boxed bonus campaigns from city partners, applied in the scoring path
+CREATE TABLE campaigns (
+    id BIGSERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    geofence JSONB, -- { lat, lng, radiusKm, label? }; NULL means citywide
+    waste_categories TEXT[] NOT NULL DEFAULT '{}', -- empty means every category
+    multiplier NUMERIC,
+    flat_bonus INTEGER,
+    budget_points INTEGER, -- NULL means unlimited
+    spent_points INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    stopped_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT valid_campaign_window CHECK (starts_at < ends_at),
+    CONSTRAINT valid_campaign_bonus CHECK ((multiplier IS NOT NULL AND multiplier > 1) OR (flat_bonus IS NOT NULL AND flat_bonus > 0)),
+    CONSTRAINT valid_campaign_budget CHECK (budget_points IS NULL OR budget_points > 0),
+    CONSTRAINT valid_campaign_status CHECK (status IN ('active', 'stopped'))
+);
+
+-- Submissions flagged by fraud checks (near-duplicate photo, velocity, location jump).
+-- Their provisional points stay 'held' until a reviewer approves or rejects them.
+CREATE TABLE fraud_reviews (
+    id BIGSERIAL PRIMARY KEY,
+    user_email TEXT NOT NULL,
+    detection_id INTEGER REFERENCES ai_detections(id),
+    source_type TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    image_hash TEXT,
+    signals JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    reviewer_id TEXT,
+    resolution_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT valid_fraud_review_status CHECK (status IN ('open', 'approved', 'rejected'))
+);
+
+-- Every upload that earns points, for the duplicate-photo and velocity checks. Each dHash is split
+-- into bands (see record_upload_fingerprint) so near-duplicates are found through the GIN index
+-- instead of by scanning recent uploads. source_* is filled in once the submission exists.
+CREATE TABLE upload_fingerprints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_email TEXT NOT NULL,
+    image_hashes TEXT[] NOT NULL DEFAULT '{}',
+    image_hash_bands TEXT[] NOT NULL DEFAULT '{}',
+    location JSONB,
+    source_type TEXT,
+    source_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- Low-confidence or contested classifications awaiting a human label; resolved rows are ground truth
+CREATE TABLE detection_reviews (
+    id BIGSERIAL PRIMARY KEY,
+    user_email TEXT NOT NULL,
+    detection_id INTEGER REFERENCES ai_detections(id),
+    source_type TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    predicted_label TEXT NOT NULL,
+    confidence FLOAT NOT NULL,
+    quality TEXT NOT NULL,
+    model_used TEXT NOT NULL,
+    model_votes JSONB NOT NULL DEFAULT '[]'::jsonb,
+    items JSONB NOT NULL DEFAULT '[]'::jsonb,
+    reasons JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    reviewed_label TEXT,
+    reviewer_id TEXT,
+    review_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT valid_detection_review_status CHECK (status IN ('open', 'confirmed', 'relabeled'))
+);
+
 -- Create indexes for performance
 CREATE INDEX idx_ai_detections_user_email ON ai_detections(user_email);
 CREATE INDEX idx_ai_detections_created_at ON ai_detections(created_at);
 CREATE INDEX idx_ai_detections_waste_type ON ai_detections(waste_type);
+CREATE INDEX idx_ai_detections_image_hash ON ai_detections(image_hash) WHERE image_hash IS NOT NULL;
+CREATE INDEX idx_fraud_reviews_status ON fraud_reviews(status, created_at);
+CREATE INDEX idx_detection_reviews_status ON detection_reviews(status, created_at);
+CREATE INDEX idx_upload_fingerprints_user_email ON upload_fingerprints(user_email, created_at DESC);
+CREATE INDEX idx_upload_fingerprints_bands ON upload_fingerprints USING GIN (image_hash_bands);
 
 CREATE INDEX idx_reward_transactions_user_email ON reward_transactions(user_email);
 CREATE INDEX idx_reward_transactions_created_at ON reward_transactions(created_at);
 CREATE INDEX idx_reward_transactions_reward_type ON reward_transactions(reward_type);
 
+CREATE INDEX idx_points_ledger_user_email ON points_ledger(user_email, created_at DESC);
+CREATE INDEX idx_points_ledger_source ON points_ledger(source_type, source_id);
+CREATE INDEX idx_provisional_points_user_email ON provisional_points(user_email, created_at DESC);
+
+CREATE INDEX idx_reward_catalog_category ON reward_catalog(category);
+CREATE INDEX idx_reward_redemptions_user_email ON reward_redemptions(user_email, reward_id);
+CREATE INDEX idx_reward_redemptions_status ON reward_redemptions(status);
+
 CREATE INDEX idx_optimized_routes_user_email ON optimized_routes(user_email);
 CREATE INDEX idx_optimized_routes_collector_id ON optimized_routes(collector_id);
 CREATE INDEX idx_optimized_routes_created_at ON optimized_routes(created_at);
 
+CREATE INDEX idx_cache_entries_expires_at ON cache_entries(expires_at);
+
+CREATE INDEX idx_campaigns_window ON campaigns(status, starts_at, ends_at);
+
+CREATE INDEX idx_dispatch_audit_log_created_at ON dispatch_audit_log(created_at DESC);
+CREATE INDEX idx_dispatch_audit_log_submission_ids ON dispatch_audit_log USING GIN (submission_ids);
+CREATE INDEX idx_cache_entries_updated_at ON cache_entries(updated_at);
+CREATE INDEX idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
+
+-- Backend-only tables: RLS with no policies, so the anon and authenticated keys can neither
+-- read nor write them; the server uses the service key, which bypasses RLS
+ALTER TABLE pickup_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pickup_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_detections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reward_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE points_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provisional_points ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reward_catalog ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reward_redemptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE optimized_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cache_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispatch_audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE fraud_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE detection_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE upload_fingerprints ENABLE ROW LEVEL SECURITY;
+
 -- Create function to update collector location
 CREATE OR REPLACE FUNCTION update_collector_location(
     collector_id TEXT,
@@ -198,11 +534,11 @@ CREATE OR REPLACE FUNCTION assign_collector(
     collector_id TEXT
 ) RETURNS VOID AS $$
 BEGIN
-    -- Check if the submission is pending
+    -- Check if the submission is waiting for a collector
     IF NOT EXISTS (
         SELECT 1 FROM waste_submissions 
         WHERE id = submission_id 
-        AND pickup_status = 'PENDING'
+        AND pickup_status IN ('PENDING', 'RESCHEDULED')
     ) THEN
         RAISE EXCEPTION 'Submission is not pending';
     END IF;
@@ -216,11 +552,15 @@ BEGIN
         RAISE EXCEPTION 'Collector is not available';
     END IF;
 
-    UPDATE waste_submissions
-    SET 
-        pickup_status = 'ASSIGNED',
-        pickup_collector_id = collector_id
-    WHERE id = submission_id;
+    PERFORM transition_pickup_status(
+        submission_id,
+        (SELECT pickup_status FROM waste_submissions WHERE id = submission_id),
+        'ASSIGNED',
+        'system',
+        NULL,
+        NULL,
+        collector_id
+    );
     
     UPDATE collectors
     SET status = 'BUSY'
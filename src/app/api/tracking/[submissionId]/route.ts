@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { requireRole } from '@/lib/auth';
 // TODO: Convert to Supabase - MongoDB models not available
 // import dbConnect from '@/lib/mongodb';
 // import WasteSubmission from '@/models/WasteSubmission';
@@ -11,6 +12,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: { submissionId: string } }
 ) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     // TODO: Implement with Supabase
     // await dbConnect();
@@ -75,6 +79,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: { submissionId: string } }
 ) {
+  const user = await requireRole(request, ['collector', 'trader', 'ops', 'admin']);
+  if (user instanceof NextResponse) return user;
+
   try {
     // TODO: Implement with Supabase
     // await dbConnect();
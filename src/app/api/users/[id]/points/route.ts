@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { isStaff, requireRole } from '@/lib/auth';
 // TODO: Convert to Supabase - MongoDB models not available
 // import dbConnect from '@/lib/mongodb';
 // import User from '@/models/User';
@@ -9,6 +10,12 @@ export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+  if (user.id !== params.id && !isStaff(user)) {
+    return NextResponse.json({ error: "Cannot read another user's points" }, { status: 403 });
+  }
+
   try {
     // TODO: Implement with Supabase
     // await dbConnect();
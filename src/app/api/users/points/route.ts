@@ -1,80 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { canActForUser, requireRole } from '@/lib/auth';
+import { pointsLedger, InsufficientPointsError } from '@/services/pointsLedger';
+import type { PointsReasonCode, PointsSourceType } from '@/types/points';
 
-// Demo fallback store (used when Supabase is unreachable)
-const demoPointsStore = new Map<string, number>();
+const REASON_CODES: PointsReasonCode[] = [
+  'SUBMISSION_REWARD',
+  'AI_DETECTION_REWARD',
+  'REDEMPTION',
+  'REDEMPTION_REFUND',
+  'MANUAL_ADJUSTMENT'
+];
 
-function isFetchFailedError(err: unknown): boolean {
-  const msg = typeof (err as any)?.message === 'string' ? (err as any).message : '';
-  return msg.includes('fetch failed');
-}
+const SOURCE_TYPES: PointsSourceType[] = ['submission', 'detection', 'redemption', 'manual'];
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
 
-// GET user points
+// GET user points balance, paginated ledger history and provisional (pending/settled) holds.
+// Defaults to the signed-in user; ops and admin may pass ?email= to look up anyone.
 export async function GET(request: NextRequest) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
-    const userEmail = searchParams.get('email');
+    const userEmail = searchParams.get('email') || user.email;
+    // Non-numeric values fall back to the defaults instead of reaching the range query as NaN
+    const page = Math.max(1, parseInt(searchParams.get('page') || '', 10) || 1);
+    const limit = Math.min(MAX_HISTORY_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '', 10) || DEFAULT_HISTORY_LIMIT));
 
-    if (!userEmail) {
+    if (!canActForUser(user, userEmail)) {
       return NextResponse.json(
-        { error: 'User email is required' },
-        { status: 400 }
+        { error: "Cannot read another user's points" },
+        { status: 403 }
       );
     }
 
-    try {
-      const { data: user, error } = await supabase
-        .from('users')
-        .select('points, email, name')
-        .eq('email', userEmail)
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        // If Supabase is unreachable, fall back to demo store
-        if ((error as any)?.message?.includes?.('fetch failed')) {
-          const points = demoPointsStore.get(userEmail) ?? 0;
-          return NextResponse.json({
-            points,
-            email: userEmail,
-            name: userEmail.split('@')[0],
-            source: 'demo',
-          });
-        }
-
-        console.error('Failed to fetch user points:', error);
-        return NextResponse.json(
-          { error: 'Failed to fetch user data' },
-          { status: 500 }
-        );
-      }
+    const [points, history, provisional] = await Promise.all([
+      pointsLedger.getBalance(userEmail),
+      pointsLedger.getHistory(userEmail, page, limit),
+      pointsLedger.getProvisional(userEmail)
+    ]);
+    const pendingPoints = provisional
+      .filter(hold => hold.status === 'pending')
+      .reduce((sum, hold) => sum + hold.estimated_points, 0);
 
-      if (!user) {
-        // User doesn't exist, return 0 points
-        return NextResponse.json({
-          points: 0,
-          email: userEmail,
-          name: userEmail.split('@')[0]
-        });
-      }
-
-      return NextResponse.json({
-        points: user.points || 0,
-        email: user.email,
-        name: user.name
-      });
-    } catch (supabaseError) {
-      if (isFetchFailedError(supabaseError)) {
-        const points = demoPointsStore.get(userEmail) ?? 0;
-        return NextResponse.json({
-          points,
-          email: userEmail,
-          name: userEmail.split('@')[0],
-          source: 'demo',
-        });
+    return NextResponse.json({
+      points,
+      pendingPoints,
+      email: userEmail,
+      name: userEmail.split('@')[0],
+      history: history.entries,
+      provisional,
+      pagination: {
+        currentPage: history.page,
+        limit: history.limit,
+        totalEntries: history.total,
+        hasNextPage: history.hasNextPage,
+        hasPrevPage: history.page > 1
       }
-      throw supabaseError;
-    }
-
+    });
   } catch (error) {
     console.error('Error in GET /api/users/points:', error);
     return NextResponse.json(
@@ -84,11 +69,30 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST to update user points (add or subtract)
+// POST a ledger entry (add or subtract points). Only the system (admin key) may move points
+// directly; people earn them through settled submissions and spend them through /api/rewards.
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+  if (!user.system) {
+    return NextResponse.json(
+      { error: 'Points can only be adjusted by the system' },
+      { status: 403 }
+    );
+  }
+
   try {
     const body = await request.json();
-    const { userEmail, pointsChange, operation = 'add', reason } = body;
+    const {
+      userEmail,
+      pointsChange,
+      operation = 'add',
+      reason,
+      reasonCode = operation === 'add' ? 'MANUAL_ADJUSTMENT' : 'REDEMPTION',
+      sourceType = operation === 'add' ? 'manual' : 'redemption',
+      sourceId
+    } = body;
+    const idempotencyKey = request.headers.get('idempotency-key') || body.idempotencyKey;
 
     if (!userEmail || typeof pointsChange !== 'number') {
       return NextResponse.json(
@@ -96,86 +100,71 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    if (!Number.isInteger(pointsChange) || pointsChange <= 0) {
+      return NextResponse.json(
+        { error: 'pointsChange must be a positive integer' },
+        { status: 400 }
+      );
+    }
     if (operation !== 'add' && operation !== 'subtract') {
       return NextResponse.json(
         { error: 'Invalid operation. Must be "add" or "subtract"' },
         { status: 400 }
       );
     }
-
-    // Default to demo store; try Supabase when available.
-    let currentPoints = demoPointsStore.get(userEmail) ?? 0;
-    let usedDemo = true;
-
-    try {
-      const { data: currentUser, error: fetchError } = await supabase
-        .from('users')
-        .select('points')
-        .eq('email', userEmail)
-        .single();
-
-      if (!fetchError && currentUser) {
-        currentPoints = currentUser.points || 0;
-        usedDemo = false;
-      }
-    } catch (supabaseError) {
-      if (!isFetchFailedError(supabaseError)) {
-        throw supabaseError;
-      }
+    if (!REASON_CODES.includes(reasonCode)) {
+      return NextResponse.json(
+        { error: `Invalid reasonCode. Must be one of ${REASON_CODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!SOURCE_TYPES.includes(sourceType)) {
+      return NextResponse.json(
+        { error: `Invalid sourceType. Must be one of ${SOURCE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!idempotencyKey) {
+      return NextResponse.json(
+        { error: 'An idempotency key is required (Idempotency-Key header or idempotencyKey field)' },
+        { status: 400 }
+      );
     }
 
-    const newPoints = operation === 'add'
-      ? currentPoints + pointsChange
-      : Math.max(0, currentPoints - pointsChange);
-
-    // Always persist to demo store so the UI works without a DB.
-    demoPointsStore.set(userEmail, newPoints);
-
-    // Best-effort persist to Supabase; ignore unreachable errors.
-    try {
-      const { error: upsertError } = await supabase
-        .from('users')
-        .upsert(
-          {
-            email: userEmail,
-            name: userEmail.split('@')[0],
-            points: newPoints,
-            updated_at: new Date().toISOString(),
-          },
-          { onConflict: 'email' }
-        );
+    const delta = operation === 'add' ? pointsChange : -pointsChange;
 
-      if (upsertError) {
-        // If Supabase is unreachable, don't fail the demo.
-        if ((upsertError as any)?.message?.includes?.('fetch failed')) {
-          usedDemo = true;
-        } else {
-          console.error('Failed to persist user points to Supabase:', upsertError);
-        }
-      } else {
-        usedDemo = false;
-      }
-    } catch (supabaseError) {
-      if (!isFetchFailedError(supabaseError)) {
-        throw supabaseError;
-      }
-      usedDemo = true;
-    }
+    const result = await pointsLedger.recordEntry({
+      userEmail,
+      delta,
+      reasonCode,
+      source: { type: sourceType, id: sourceId },
+      idempotencyKey,
+      note: reason
+    });
 
     return NextResponse.json({
       success: true,
-      points: newPoints,
-      previousPoints: currentPoints,
+      points: result.balance,
+      previousPoints: result.balance - result.entry.delta,
       change: pointsChange,
       operation,
       reason,
-      source: usedDemo ? 'demo' : 'supabase',
+      entry: result.entry,
+      duplicate: result.duplicate,
+      source: result.source,
     });
   } catch (error) {
+    if (error instanceof InsufficientPointsError) {
+      return NextResponse.json(
+        { error: 'Insufficient points', points: error.balance, requested: error.requested },
+        { status: 409 }
+      );
+    }
+
     console.error('Error in POST /api/users/points:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
 
 type WasteCategory = 'plastic' | 'paper' | 'glass' | 'metal' | 'organic' | 'electronic' | 'other';
 
@@ -18,6 +19,9 @@ interface WasteAnalysisResult {
 }
 
 export async function POST(request: NextRequest) {
+  const user = await requireRole(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { imageData, analysisResult } = await request.json();
     
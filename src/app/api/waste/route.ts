@@ -1,35 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-// Auth removed for DevOps demo
 import { supabase } from '@/lib/supabase';
+import { requireRole } from '@/lib/auth';
+import { pointsLedger } from '@/services/pointsLedger';
+import { scoreByWeight } from '@/services/scoringPolicy';
+import { campaignService } from '@/services/campaignService';
+import { fraudDetection } from '@/services/fraudDetection';
+import { submissionImages, ImageUploadError, type ImageUploadErrorCode } from '@/services/submissionImages';
+import { decodeImagePixels } from '@/lib/imageDecoding';
+import { computeDHash } from '@/lib/perceptualHash';
 // TODO: Convert to Supabase - MongoDB models not available
 // import dbConnect from '@/lib/mongodb';
 // import Waste from '@/models/Waste';
 // import User from '@/models/User';
 
-// Points calculation based on waste type and weight
-const calculatePoints = (type: string, subType: string, weight: number): number => {
-  const basePoints = {
-    plastic: 10,
-    paper: 8,
-    metal: 15,
-    glass: 12,
-    electronics: 20,
-    organic: 5
-  };
-
-  const qualityMultiplier = {
-    pet: 1.2,
-    hdpe: 1.3,
-    aluminum: 1.5,
-    copper: 2.0,
-    phones: 3.0,
-    computers: 4.0
-  };
-
-  const basePoint = basePoints[type as keyof typeof basePoints] || 5;
-  const multiplier = qualityMultiplier[subType as keyof typeof qualityMultiplier] || 1.0;
-
-  return Math.round(basePoint * weight * multiplier);
+const UPLOAD_ERROR_STATUS: Record<ImageUploadErrorCode, number> = {
+  UNSUPPORTED_TYPE: 415,
+  TOO_LARGE: 413,
+  INVALID_DIMENSIONS: 422,
+  CORRUPT_IMAGE: 400
 };
 
 // AI analysis simulation (to be replaced with actual AI service)
@@ -46,15 +34,13 @@ const simulateAIAnalysis = (type: string, subType: string) => {
 };
 
 export async function POST(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  const user = await requireRole(req, ['citizen']);
+  if (user instanceof NextResponse) return user;
 
+  try {
     // TODO: Implement with Supabase
     // await dbConnect();
-    // const user = await User.findOne({ email: session.user.email });
+    // const user = await User.findOne({ email: user.email });
     // if (!user) {
     //   return NextResponse.json({ error: 'User not found' }, { status: 404 });
     // }
@@ -82,8 +68,24 @@ export async function POST(req: NextRequest) {
     }
 
     const description = formData.get('description') as string;
-    const locationJson = formData.get('location') as string;
-    const location = locationJson ? JSON.parse(locationJson) : null;
+    const locationJson = formData.get('location') as string | null;
+    // Optional { lat, lng } where the pickup should happen
+    let location: { lat: number; lng: number } | null = null;
+    if (locationJson) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(locationJson);
+      } catch {
+        parsed = null;
+      }
+      if (!Number.isFinite(parsed?.lat) || !Number.isFinite(parsed?.lng)) {
+        return NextResponse.json(
+          { error: 'location must be JSON of the form { "lat": number, "lng": number }' },
+          { status: 400 }
+        );
+      }
+      location = { lat: parsed.lat, lng: parsed.lng };
+    }
     
     // Handle image files
     const imageFiles = formData.getAll('images');
@@ -95,18 +97,17 @@ export async function POST(req: NextRequest) {
     }
 
     const imageUrls = [];
+    const imageHashes: string[] = [];
     for (const file of imageFiles) {
       if (file instanceof File) {
-        const timestamp = Date.now();
-        const randomId = Math.random().toString(36).substring(2, 15);
-        const publicId = `waste_${timestamp}_${randomId}`;
-        
-        // TODO: Replace with actual cloud storage upload
-        // For now, create a temporary URL
+        const stored = await submissionImages.save(file);
         imageUrls.push({
-          url: `https://temporary-url.com/${publicId}/${file.name}`,
-          publicId: publicId
+          url: stored.url,
+          thumbnailUrl: stored.thumbnailUrl,
+          publicId: stored.key
         });
+        const pixels = await decodeImagePixels(file);
+        if (pixels) imageHashes.push(computeDHash(pixels));
       }
     }
 
@@ -117,20 +118,49 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Calculate points
-    const points = calculatePoints(type as string, subType as string, weight);
+    // Estimate points from the self-reported weight; they stay pending until the collection is verified
+    const bonuses = await campaignService.getBonuses({ wasteType: type as string, location });
+    const award = scoreByWeight({ wasteType: type as string, subType: subType as string, weightKg: weight, bonuses });
+    const points = award.points;
+
+    // The same duplicate-photo, velocity and location checks as photo submissions
+    const assessment = await fraudDetection.assess({ userEmail: user.email, imageHashes, location });
+    if (assessment.suspicious) {
+      console.warn(`🚩 Holding submission from ${user.email} for review:`, assessment.signals.map(signal => signal.type));
+    }
+    const pointsStatus = assessment.suspicious ? 'held' : 'pending';
 
     // Simulate AI analysis
     const aiAnalysis = simulateAIAnalysis(type as string, subType as string);
 
-    // TODO: Implement with Supabase
-    // Create waste submission
     const verificationCode = Math.random().toString(36).substr(2, 6).toUpperCase();
 
-    // Temporary implementation for deployment
+    // Open a submission for the pickup, as analyze-waste does; the reported weight is the pickup estimate
+    const { data: submissionData, error: submissionError } = await supabase
+      .from('waste_submissions')
+      .insert({
+        user_id: user.id,
+        type,
+        quality: 'pending',
+        points,
+        ai_confidence: aiAnalysis.confidence,
+        image_url: imageUrls[0].url,
+        thumbnail_url: imageUrls[0].thumbnailUrl,
+        images: imageUrls,
+        pickup_location: location,
+        pickup_estimated_weight_kg: weight
+      })
+      .select('id')
+      .single();
+
+    if (submissionError) {
+      console.error('Failed to store submission:', submissionError);
+    }
+
+    const submissionId: number | null = submissionData?.id ?? null;
     const waste = {
-      id: Date.now().toString(),
-      userId: session.user.email,
+      id: submissionId !== null ? String(submissionId) : `${user.email}-${Date.now()}`,
+      userId: user.email,
       type,
       subType,
       weight,
@@ -140,20 +170,63 @@ export async function POST(req: NextRequest) {
       points,
       aiAnalysis,
       verificationCode,
+      pointsStatus,
       wasteQuality: 'pending',
       status: 'pending',
       createdAt: new Date()
     };
 
-    console.log('Waste submission (temporary):', waste);
+    // Keyed on the submission so collector verification settles this hold
+    const source = { type: 'submission' as const, id: waste.id };
+    await pointsLedger.recordProvisional({
+      userEmail: user.email,
+      points,
+      policyVersion: award.policyVersion,
+      source,
+      basis: { type, subType, weightKg: weight, scoring: award.breakdown },
+      note: `Estimated from ${weight} kg ${subType} ${type}`,
+      held: assessment.suspicious
+    });
+
+    try {
+      await fraudDetection.linkUpload(assessment.uploadId, source);
+    } catch (linkError) {
+      console.error('Failed to link upload fingerprint:', linkError);
+    }
+
+    let review: { id: string; reasons: string[] } | null = null;
+    if (assessment.suspicious) {
+      try {
+        const opened = await fraudDetection.openReview({
+          userEmail: user.email,
+          detectionId: null,
+          source,
+          imageHash: imageHashes[0] ?? null,
+          signals: assessment.signals
+        });
+        review = { id: opened.id, reasons: assessment.signals.map(signal => signal.detail) };
+      } catch (reviewError) {
+        console.error('Failed to open fraud review:', reviewError);
+      }
+    }
 
     return NextResponse.json({
-      message: 'Waste submitted successfully (demo mode)',
+      message: submissionId !== null ? 'Waste submitted successfully' : 'Waste submitted successfully (demo mode)',
+      submissionId,
       points,
+      pointsStatus,
+      review,
+      policyVersion: award.policyVersion,
       verificationCode,
       waste
     });
   } catch (error: any) {
+    if (error instanceof ImageUploadError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: UPLOAD_ERROR_STATUS[error.code] }
+      );
+    }
     console.error('Error submitting waste:', error);
     return NextResponse.json(
       { 
@@ -166,15 +239,13 @@ export async function POST(req: NextRequest) {
 }
 
 export async function GET(req: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
+  const user = await requireRole(req);
+  if (user instanceof NextResponse) return user;
 
+  try {
     // TODO: Implement with Supabase
     // await dbConnect();
-    // const user = await User.findOne({ email: session.user.email });
+    // const user = await User.findOne({ email: user.email });
     // if (!user) {
     //   return NextResponse.json({ error: 'User not found' }, { status: 404 });
     // }
@@ -0,0 +1,78 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { signIn } from 'next-auth/react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+function SignInForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams.get('callbackUrl') || '/';
+  const [mode, setMode] = useState<'signin' | 'register'>('signin');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    const email = String(form.get('email') || '').trim();
+    const password = String(form.get('password') || '');
+
+    setBusy(true);
+    setError(null);
+    try {
+      if (mode === 'register') {
+        const response = await fetch('/api/auth/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email, password, name: form.get('name') || undefined })
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || 'Registration failed');
+      }
+
+      const result = await signIn('credentials', { email, password, redirect: false });
+      if (!result || result.error) throw new Error('Invalid email or password');
+
+      router.push(callbackUrl);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-24 px-4 flex justify-center">
+      <form onSubmit={handleSubmit} className="bg-white p-6 rounded-xl shadow w-full max-w-sm space-y-4 h-fit">
+        <h1 className="text-xl font-bold">{mode === 'signin' ? 'Sign in to EcoEarn' : 'Create your account'}</h1>
+        {mode === 'register' && (
+          <input name="name" placeholder="Name" className="w-full border rounded-lg px-3 py-2" />
+        )}
+        <input name="email" type="email" required placeholder="Email" className="w-full border rounded-lg px-3 py-2" />
+        <input name="password" type="password" required placeholder="Password" className="w-full border rounded-lg px-3 py-2" />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button disabled={busy} className="w-full bg-green-500 text-white rounded-lg py-2 disabled:opacity-50">
+          {busy ? 'Please wait…' : mode === 'signin' ? 'Sign in' : 'Register'}
+        </button>
+        <button
+          type="button"
+          onClick={() => { setMode(mode === 'signin' ? 'register' : 'signin'); setError(null); }}
+          className="w-full text-sm text-gray-600 hover:text-gray-900"
+        >
+          {mode === 'signin' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary in client pages
+export default function SignInPage() {
+  return (
+    <Suspense>
+      <SignInForm />
+    </Suspense>
+  );
+}
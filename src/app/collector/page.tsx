@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import type { CollectorDay, CollectionSettlement } from '@/services/collectorWorkflow';
+import type { ContaminationGrade, StopNavigation } from '@/types/collector';
+import type { PickupTicket } from '@/types/pickup';
+
+const COLLECTOR_ID_STORAGE = 'ecoearn-collector-id';
+
+const GRADES: Array<{ value: ContaminationGrade; label: string }> = [
+  { value: 'clean', label: 'Clean' },
+  { value: 'light', label: 'Light contamination' },
+  { value: 'moderate', label: 'Moderate contamination' },
+  { value: 'heavy', label: 'Heavy (reject)' }
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  ASSIGNED: 'bg-blue-100 text-blue-800',
+  EN_ROUTE: 'bg-yellow-100 text-yellow-800',
+  ARRIVED: 'bg-purple-100 text-purple-800',
+  COLLECTED: 'bg-green-100 text-green-800'
+};
+
+export default function CollectorWorkflow() {
+  const { data: session } = useSession();
+  const [collectorId, setCollectorId] = useState('');
+  const [day, setDay] = useState<CollectorDay | null>(null);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [navigation, setNavigation] = useState<StopNavigation | null>(null);
+  const [weight, setWeight] = useState('');
+  const [grade, setGrade] = useState<ContaminationGrade>('clean');
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Collector accounts are bound to their own id; ops and admins pick which collector to view
+  useEffect(() => {
+    if (!session?.user) return;
+    if (session.user.collectorId) {
+      setCollectorId(session.user.collectorId);
+      return;
+    }
+    const stored = localStorage.getItem(COLLECTOR_ID_STORAGE);
+    if (stored) setCollectorId(stored);
+  }, [session]);
+
+  useEffect(() => {
+    if (collectorId) loadDay();
+  }, [collectorId]);
+
+  useEffect(() => {
+    if (!photo) {
+      setPhotoPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPhotoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  const loadDay = async () => {
+    try {
+      const response = await fetch(`/api/collectors/${encodeURIComponent(collectorId)}/today`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load stops');
+      setDay(data);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to load stops');
+    }
+  };
+
+  const stopAction = async (pickup: PickupTicket, action: string, extra: Record<string, unknown> | FormData = {}) => {
+    setBusy(true);
+    try {
+      const url = `/api/collectors/${encodeURIComponent(collectorId)}/stops/${pickup.id}`;
+      let init: RequestInit;
+      if (extra instanceof FormData) {
+        extra.set('action', action);
+        init = { method: 'POST', body: extra };
+      } else {
+        init = {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action, ...extra })
+        };
+      }
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Failed to ${action} pickup`);
+
+      if (data.navigation) setNavigation(data.navigation);
+      if (action === 'collect') {
+        const settlement = data.settlement as CollectionSettlement;
+        setMessage(data.message || `Recorded ${settlement.collection.actual_weight_kg} kg`);
+        setActiveId(null);
+        setNavigation(null);
+        setWeight('');
+        setPhoto(null);
+        setNotes('');
+      }
+      if (action === 'decline') setActiveId(null);
+      await loadDay();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openStop = async (pickup: PickupTicket) => {
+    setActiveId(pickup.id);
+    setNavigation(null);
+    if (pickup.status === 'EN_ROUTE') {
+      const response = await fetch(`/api/collectors/${encodeURIComponent(collectorId)}/stops/${pickup.id}`);
+      if (response.ok) setNavigation((await response.json()).navigation);
+    }
+  };
+
+  if (!collectorId) {
+    return (
+      <div className="min-h-screen bg-gray-50 pt-24 px-4 flex justify-center">
+        <form
+          className="bg-white p-6 rounded-xl shadow w-full max-w-sm space-y-4 h-fit"
+          onSubmit={e => {
+            e.preventDefault();
+            const id = String(new FormData(e.currentTarget).get('collectorId') || '').trim();
+            if (!id) return;
+            localStorage.setItem(COLLECTOR_ID_STORAGE, id);
+            setCollectorId(id);
+          }}
+        >
+          <h1 className="text-xl font-bold">🚛 Open a collector's day</h1>
+          <input name="collectorId" placeholder="Collector id" className="w-full border rounded-lg px-3 py-3 text-lg" />
+          <button className="w-full bg-green-500 text-white rounded-lg py-3 text-lg">Start shift</button>
+        </form>
+      </div>
+    );
+  }
+
+  const active = day?.stops.find(stop => stop.pickup.id === activeId)?.pickup || null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-24 pb-12 px-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">{day?.collector.name || 'Collector'}</h1>
+            <p className="text-sm text-gray-600">
+              {day ? `${day.stops.length} open stop(s)` : 'Loading...'}
+              {day?.route && ` · route ${day.route.totalDistance.toFixed(1)} km, ${(day.route.totalDuration * 60).toFixed(0)} min`}
+            </p>
+          </div>
+          <button onClick={loadDay} className="px-3 py-2 bg-white border rounded-lg">↻</button>
+        </div>
+
+        {message && (
+          <div className="bg-blue-50 border border-blue-200 text-blue-800 rounded-lg px-4 py-3 flex justify-between">
+            <span>{message}</span>
+            <button onClick={() => setMessage(null)}>✕</button>
+          </div>
+        )}
+
+        {/* Stop list */}
+        {!active && day?.stops.map(({ pickup, collection }, index) => (
+          <div key={pickup.id} className="bg-white rounded-xl shadow-sm border p-4 space-y-3">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-semibold">
+                  {pickup.route_order ?? index + 1}. {pickup.location.address || `Pickup #${pickup.id}`}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {pickup.waste_type} · ~{pickup.estimated_weight ?? '?'} kg
+                  {pickup.pickup_window_end && ` · by ${new Date(pickup.pickup_window_end).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                </p>
+              </div>
+              <span className={`text-xs px-2 py-1 rounded-full ${STATUS_STYLES[pickup.status] || 'bg-gray-100'}`}>
+                {pickup.status === 'ASSIGNED' && pickup.accepted_at ? 'ACCEPTED' : pickup.status}
+              </span>
+            </div>
+
+            {pickup.status === 'ASSIGNED' && !pickup.accepted_at && (
+              <div className="grid grid-cols-2 gap-2">
+                <button disabled={busy} onClick={() => stopAction(pickup, 'accept')} className="py-3 bg-green-500 text-white rounded-lg">
+                  Accept
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => {
+                    const reason = prompt('Why are you declining this pickup?');
+                    if (reason !== null) stopAction(pickup, 'decline', { reason });
+                  }}
+                  className="py-3 bg-gray-200 rounded-lg"
+                >
+                  Decline
+                </button>
+              </div>
+            )}
+            {pickup.status === 'ASSIGNED' && pickup.accepted_at && (
+              <button
+                disabled={busy}
+                onClick={async () => { setActiveId(pickup.id); await stopAction(pickup, 'start'); }}
+                className="w-full py-3 bg-blue-500 text-white rounded-lg"
+              >
+                Start navigation
+              </button>
+            )}
+            {(pickup.status === 'EN_ROUTE' || pickup.status === 'ARRIVED') && (
+              <button onClick={() => openStop(pickup)} className="w-full py-3 bg-blue-500 text-white rounded-lg">
+                Continue
+              </button>
+            )}
+            {pickup.status === 'COLLECTED' && collection && (
+              <p className="text-sm text-gray-600">
+                Collected {collection.actual_weight_kg} kg ({collection.contamination_grade}) · awaiting verification
+              </p>
+            )}
+          </div>
+        ))}
+
+        {day && day.stops.length === 0 && !active && (
+          <p className="text-center text-gray-500 py-12">No stops assigned right now 🎉</p>
+        )}
+
+        {/* Active stop */}
+        {active && (
+          <div className="bg-white rounded-xl shadow border p-4 space-y-4">
+            <button onClick={() => { setActiveId(null); setNavigation(null); }} className="text-sm text-gray-500">← All stops</button>
+            <h2 className="text-lg font-semibold">{active.location.address || `Pickup #${active.id}`}</h2>
+
+            {navigation && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">{navigation.distanceKm} km · about {navigation.durationMinutes} min</p>
+                <ol className="list-decimal list-inside text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {navigation.instructions.map((instruction, i) => <li key={i}>{instruction}</li>)}
+                </ol>
+                <a
+                  href={`https://www.openstreetmap.org/directions?route=${navigation.from.lat},${navigation.from.lng};${navigation.to.lat},${navigation.to.lng}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm text-blue-600 underline"
+                >
+                  Open in maps
+                </a>
+              </div>
+            )}
+
+            {active.status === 'EN_ROUTE' && (
+              <button disabled={busy} onClick={() => stopAction(active, 'arrive')} className="w-full py-3 bg-purple-500 text-white rounded-lg">
+                I&apos;ve arrived
+              </button>
+            )}
+
+            {active.status === 'ARRIVED' && (
+              <form
+                className="space-y-3"
+                onSubmit={e => {
+                  e.preventDefault();
+                  if (!photo) return;
+                  const form = new FormData();
+                  form.set('actualWeightKg', weight);
+                  form.set('contaminationGrade', grade);
+                  form.set('photo', photo);
+                  form.set('notes', notes);
+                  stopAction(active, 'collect', form);
+                }}
+              >
+                <label className="block text-sm font-medium">
+                  Actual weight (kg)
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    step="0.1"
+                    min="0.1"
+                    required
+                    value={weight}
+                    onChange={e => setWeight(e.target.value)}
+                    className="mt-1 w-full border rounded-lg px-3 py-3 text-lg"
+                  />
+                </label>
+                <label className="block text-sm font-medium">
+                  Contamination
+                  <select value={grade} onChange={e => setGrade(e.target.value as ContaminationGrade)} className="mt-1 w-full border rounded-lg px-3 py-3">
+                    {GRADES.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+                  </select>
+                </label>
+                <label className="block text-sm font-medium">
+                  Photo of the load
+                  <input
+                    type="file"
+                    accept="image/*"
+                    capture="environment"
+                    required
+                    onChange={e => setPhoto(e.target.files?.[0] ?? null)}
+                    className="mt-1 w-full"
+                  />
+                </label>
+                {photoPreview && <img src={photoPreview} alt="Collected load" className="rounded-lg max-h-48" />}
+                <textarea
+                  value={notes}
+                  onChange={e => setNotes(e.target.value)}
+                  placeholder="Notes (optional)"
+                  className="w-full border rounded-lg px-3 py-2"
+                />
+                <button disabled={busy || !photo} className="w-full py-3 bg-green-500 text-white rounded-lg disabled:opacity-50">
+                  Record collection
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
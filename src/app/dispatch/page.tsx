@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CollectorCandidate } from '@/types/collector';
+import type { DispatchAuditEntry, DispatchQueueItem, RoutePreview } from '@/types/dispatch';
+
+function formatAge(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
+export default function DispatchConsole() {
+  const [queue, setQueue] = useState<DispatchQueueItem[]>([]);
+  const [audit, setAudit] = useState<DispatchAuditEntry[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [bulkCollectorId, setBulkCollectorId] = useState('');
+  const [preview, setPreview] = useState<RoutePreview | null>(null);
+  const [reassignId, setReassignId] = useState('');
+  const [reassignCollectorId, setReassignCollectorId] = useState('');
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Ops session required; middleware sends everyone else to sign-in
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const request = async (url: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method: body ? 'POST' : 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok && response.status !== 409) {
+      throw new Error(data.error || `Request failed (${response.status})`);
+    }
+    return data;
+  };
+
+  const loadAll = async () => {
+    setLoading(true);
+    try {
+      const [queueData, auditData] = await Promise.all([
+        request('/api/dispatch'),
+        request('/api/dispatch/audit?limit=20')
+      ]);
+      setQueue(queueData.queue || []);
+      setAudit(auditData.entries || []);
+      setSelected(ids => ids.filter(id => (queueData.queue || []).some((item: DispatchQueueItem) => item.pickup.id === id)));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to load dispatch queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (body: Record<string, unknown>) => {
+    try {
+      const data = await request('/api/dispatch', { ...body, note: note || undefined });
+      if (data.result) {
+        const { assigned, rejected } = data.result;
+        setMessage(`Assigned ${assigned.length} pickup(s)` +
+          (rejected.length ? `; rejected: ${rejected.map((r: any) => `#${r.submission_id} (${r.error})`).join(', ')}` : ''));
+        setPreview(data.result.preview);
+      } else {
+        setMessage(data.error || 'Action failed');
+      }
+      await loadAll();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Action failed');
+    }
+  };
+
+  const loadPreview = async () => {
+    try {
+      const data = await request('/api/dispatch/preview', { submissionIds: selected, collectorId: bulkCollectorId });
+      setPreview(data.preview || null);
+      if (data.error) setMessage(data.error);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Preview failed');
+    }
+  };
+
+  const toggle = (id: number) => {
+    setPreview(null);
+    setSelected(ids => ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+  };
+
+  // Collectors suggested for any selected pickup, for the bulk-assign picker
+  const bulkCandidates = queue
+    .filter(item => selected.includes(item.pickup.id))
+    .flatMap(item => item.candidates)
+    .reduce<CollectorCandidate[]>((all, c) => all.some(x => x.collector.id === c.collector.id) ? all : [...all, c], []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 pt-24 pb-12">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">🧭 Dispatch Console</h1>
+            <p className="text-gray-600">Pickups no collector could be matched to automatically</p>
+          </div>
+          <button onClick={loadAll} disabled={loading} className="px-4 py-2 bg-white border rounded-lg hover:bg-gray-100">
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+
+        {message && (
+          <div className="bg-blue-50 border border-blue-200 text-blue-800 rounded-lg px-4 py-3 flex justify-between">
+            <span>{message}</span>
+            <button onClick={() => setMessage(null)}>✕</button>
+          </div>
+        )}
+
+        <input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Note for the audit log (optional)"
+          className="w-full border rounded-lg px-3 py-2"
+        />
+
+        {/* Queue */}
+        <div className="bg-white rounded-xl shadow-sm border overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-100 text-left text-gray-600">
+              <tr>
+                <th className="p-3"></th>
+                <th className="p-3">Pickup</th>
+                <th className="p-3">Waiting</th>
+                <th className="p-3">Location</th>
+                <th className="p-3">Waste</th>
+                <th className="p-3">Candidates (nearest, least loaded first)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {queue.length === 0 && (
+                <tr><td colSpan={6} className="p-6 text-center text-gray-500">Queue is empty 🎉</td></tr>
+              )}
+              {queue.map(({ pickup, ageMinutes, candidates }) => (
+                <tr key={pickup.id} className="border-t align-top">
+                  <td className="p-3">
+                    <input type="checkbox" checked={selected.includes(pickup.id)} onChange={() => toggle(pickup.id)} />
+                  </td>
+                  <td className="p-3 font-medium">
+                    #{pickup.id}
+                    {pickup.status === 'RESCHEDULED' && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs">Rescheduled</span>
+                    )}
+                  </td>
+                  <td className={`p-3 ${ageMinutes > 60 ? 'text-red-600 font-semibold' : ''}`}>{formatAge(ageMinutes)}</td>
+                  <td className="p-3">
+                    {pickup.location.address || `${pickup.location.lat.toFixed(4)}, ${pickup.location.lng.toFixed(4)}`}
+                  </td>
+                  <td className="p-3">{pickup.waste_type} · {pickup.estimated_weight ?? '?'} kg</td>
+                  <td className="p-3 space-y-1">
+                    {candidates.length === 0 && <span className="text-gray-400">No collector in range</span>}
+                    {candidates.map(({ collector, distanceKm, loadRatio }) => (
+                      <div key={collector.id} className="flex items-center justify-between gap-2">
+                        <span>
+                          {collector.name} · {distanceKm.toFixed(1)} km · {Math.round(loadRatio * 100)}% loaded
+                        </span>
+                        <button
+                          onClick={() => runAction({ action: 'assign', submissionId: pickup.id, collectorId: collector.id })}
+                          className="px-2 py-1 bg-green-500 text-white rounded hover:bg-green-600"
+                        >
+                          Assign
+                        </button>
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Bulk assign */}
+          <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+            <h2 className="text-lg font-semibold">Bulk assign ({selected.length} selected)</h2>
+            <select
+              value={bulkCollectorId}
+              onChange={e => { setBulkCollectorId(e.target.value); setPreview(null); }}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              <option value="">Choose a collector</option>
+              {bulkCandidates.map(({ collector, remainingCapacityKg }) => (
+                <option key={collector.id} value={collector.id}>
+                  {collector.name} ({collector.vehicle_type}, {remainingCapacityKg} kg free)
+                </option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <button
+                onClick={loadPreview}
+                disabled={!selected.length || !bulkCollectorId}
+                className="px-4 py-2 border rounded-lg hover:bg-gray-100 disabled:opacity-50"
+              >
+                Preview route
+              </button>
+              <button
+                onClick={() => runAction({ action: 'bulk_assign', submissionIds: selected, collectorId: bulkCollectorId, force: preview?.overCapacity })}
+                disabled={!selected.length || !bulkCollectorId}
+                className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50"
+              >
+                Assign selected
+              </button>
+            </div>
+
+            {preview && (
+              <div className="text-sm space-y-2">
+                <p className="text-gray-600">
+                  {preview.totalDistanceKm} km · {preview.totalDurationMinutes} min · {preview.totalWeightKg} kg
+                  {preview.overCapacity && (
+                    <span className="text-red-600 font-semibold"> · over capacity ({preview.remainingCapacityKg} kg free)</span>
+                  )}
+                </p>
+                <ol className="list-decimal list-inside space-y-1">
+                  <li>Start: {preview.start.address}</li>
+                  {preview.stops.map(stop => (
+                    <li key={stop.submission_id}>
+                      #{stop.submission_id} {stop.location.address || ''} · +{stop.legDistanceKm} km · ETA {stop.arrivalMinutes} min
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+
+          {/* Reassign */}
+          <div className="bg-white rounded-xl shadow-sm border p-6 space-y-4">
+            <h2 className="text-lg font-semibold">Reassign an assigned pickup</h2>
+            <input
+              value={reassignId}
+              onChange={e => setReassignId(e.target.value)}
+              placeholder="Submission id"
+              className="w-full border rounded-lg px-3 py-2"
+            />
+            <input
+              value={reassignCollectorId}
+              onChange={e => setReassignCollectorId(e.target.value)}
+              placeholder="New collector id"
+              className="w-full border rounded-lg px-3 py-2"
+            />
+            <button
+              onClick={() => runAction({ action: 'reassign', submissionId: reassignId, collectorId: reassignCollectorId })}
+              disabled={!reassignId || !reassignCollectorId}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+            >
+              Reassign
+            </button>
+          </div>
+        </div>
+
+        {/* Audit log */}
+        <div className="bg-white rounded-xl shadow-sm border p-6">
+          <h2 className="text-lg font-semibold mb-4">Recent actions</h2>
+          {audit.length === 0 && <p className="text-gray-500 text-sm">No dispatcher actions yet</p>}
+          <ul className="text-sm divide-y">
+            {audit.map(entry => (
+              <li key={entry.id} className="py-2 flex justify-between gap-4">
+                <span>
+                  <span className="font-medium">{entry.action}</span> #{entry.submission_ids.join(', #')} → {entry.collector_id}
+                  {entry.previous_collector_ids.length > 0 && ` (was ${entry.previous_collector_ids.join(', ')})`}
+                  {entry.note && <span className="text-gray-500"> · {entry.note}</span>}
+                </span>
+                <span className={entry.outcome === 'succeeded' ? 'text-green-600' : entry.outcome === 'partial' ? 'text-yellow-600' : 'text-red-600'}>
+                  {entry.outcome} · {new Date(entry.created_at).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import React, { useState, useEffect } from 'react';
+import type { CatalogReward } from '@/types/rewards';
 
 const categories = [
   { id: 'all', name: 'All Rewards' },
@@ -9,47 +10,9 @@ const categories = [
   { id: 'eco-products', name: 'Eco Products' },
   { id: 'experiences', name: 'Experiences' },
   { id: 'donations', name: 'Donations' },
-];
-
-const rewards = [
-  {
-    id: 1,
-    title: '$50 Amazon Gift Card',
-    description: 'Redeem your points for an Amazon gift card.',
-    points: 5000,
-    category: 'gift-cards',
-    image: '/marketplace/amazon-card.svg',
-    stock: 50,
-    featured: true,
-  },
-  {
-    id: 2,
-    title: 'Reusable Water Bottle',
-    description: 'High-quality stainless steel water bottle.',
-    points: 2000,
-    category: 'eco-products',
-    image: '/marketplace/water-bottle.svg',
-    stock: 100,
-  },
-  {
-    id: 3,
-    title: 'Tree Planting',
-    description: 'Plant a tree in your name.',
-    points: 1000,
-    category: 'donations',
-    image: '/marketplace/tree-planting.svg',
-    stock: 999,
-  },
-  {
-    id: 4,
-    title: 'Eco Workshop',
-    description: 'Join an exclusive eco-friendly workshop.',
-    points: 3000,
-    category: 'experiences',
-    image: '/marketplace/workshop.svg',
-    stock: 20,
-  },
-  // Add more rewards as needed
+  { id: 'crypto', name: 'Crypto' },
+  { id: 'nft', name: 'NFTs' },
+  { id: 'vouchers', name: 'Vouchers' },
 ];
 
 const container = {
@@ -71,16 +34,29 @@ export default function Marketplace() {
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [userPoints, setUserPoints] = useState(0);
+  const [rewards, setRewards] = useState<CatalogReward[]>([]);
   const [loading, setLoading] = useState(true);
-  const userEmail = 'demo@ecoearn.com'; // In production, get from auth context
 
   useEffect(() => {
     loadUserPoints();
+    loadRewards();
   }, []);
 
+  const loadRewards = async () => {
+    try {
+      const response = await fetch('/api/rewards');
+      if (response.ok) {
+        const data = await response.json();
+        setRewards(data.rewards);
+      }
+    } catch (error) {
+      console.error('Failed to load rewards:', error);
+    }
+  };
+
   const loadUserPoints = async () => {
     try {
-      const response = await fetch(`/api/users/points?email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch('/api/users/points');
       if (response.ok) {
         const data = await response.json();
         setUserPoints(data.points);
@@ -92,31 +68,33 @@ export default function Marketplace() {
     }
   };
 
-  const handleRedeemReward = async (reward: any) => {
-    if (userPoints < reward.points) {
-      alert(`Insufficient points! You need ${reward.points} but only have ${userPoints}.`);
+  const handleRedeemReward = async (reward: CatalogReward) => {
+    if (userPoints < reward.points_cost) {
+      alert(`Insufficient points! You need ${reward.points_cost} but only have ${userPoints}.`);
       return;
     }
 
     try {
-      // Use the points API to deduct points
-      const response = await fetch('/api/users/points', {
+      const response = await fetch('/api/rewards', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          userEmail,
-          pointsChange: reward.points,
-          operation: 'subtract',
-          reason: `Redeemed ${reward.title}`
+          rewardId: reward.id,
+          idempotencyKey: `redeem-${reward.id}-${Date.now()}`
         })
       });
 
       if (response.ok) {
         const data = await response.json();
-        setUserPoints(data.points);
+        setUserPoints(data.remainingPoints);
+        await loadRewards();
         alert(`Successfully redeemed ${reward.title}!`);
+      } else if (response.status === 409) {
+        const data = await response.json();
+        await Promise.all([loadUserPoints(), loadRewards()]);
+        alert(`Could not redeem ${reward.title}: ${data.error}`);
       } else {
         throw new Error('Failed to process redemption');
       }
@@ -356,12 +334,16 @@ export default function Marketplace() {
               }`}
             >
               <div className="relative h-48">
-                <Image
-                  src={reward.image}
-                  alt={reward.title}
-                  fill
-                  className="object-cover"
-                />
+                {reward.image_url ? (
+                  <Image
+                    src={reward.image_url}
+                    alt={reward.title}
+                    fill
+                    className="object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full bg-gradient-to-br from-purple-100 to-pink-100" />
+                )}
                 {reward.featured && (
                   <div className="absolute top-4 right-4 bg-primary-600 text-white px-3 py-1 rounded-full text-sm font-medium">
                     Featured
@@ -376,24 +358,24 @@ export default function Marketplace() {
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
-                    <span className="font-bold">{reward.points.toLocaleString()}</span>
+                    <span className="font-bold">{reward.points_cost.toLocaleString()}</span>
                   </div>
                   <div className="text-sm text-gray-500">
-                    {reward.stock} available
+                    {reward.stock === null ? 'Unlimited' : `${reward.stock} available`}
                   </div>
                 </div>
                 <motion.button
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                   onClick={() => handleRedeemReward(reward)}
-                  disabled={loading || userPoints < reward.points}
+                  disabled={loading || userPoints < reward.points_cost}
                   className={`w-full mt-4 py-2 rounded-lg font-medium transition-colors ${
-                    userPoints >= reward.points
+                    userPoints >= reward.points_cost
                       ? 'bg-primary-600 text-white hover:bg-primary-700'
                       : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                   }`}
                 >
-                  {userPoints >= reward.points ? 'Redeem Now' : `Need ${reward.points - userPoints} more`}
+                  {userPoints >= reward.points_cost ? 'Redeem Now' : `Need ${reward.points_cost - userPoints} more`}
                 </motion.button>
               </div>
             </motion.div>
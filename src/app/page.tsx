@@ -4,6 +4,7 @@ import Image from 'next/image';
 import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { useState, useEffect } from 'react';
+import CampaignBanner from '@/components/CampaignBanner';
 
 export default function Home() {
   const [scrolled, setScrolled] = useState(false);
@@ -162,6 +163,7 @@ export default function Home() {
       {/* Stats Section */}
       <section className="py-20 bg-white relative z-20 -mt-10">
         <div className="container mx-auto px-4">
+          <CampaignBanner className="mb-12" />
           <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
             {stats.map((stat, index) => (
               <motion.div
@@ -9,62 +9,22 @@ import {
   SparklesIcon,
   GiftIcon
 } from '@heroicons/react/24/outline';
+import type { CatalogReward, RewardCategory } from '@/types/rewards';
+import type { ProvisionalPointsHold } from '@/types/points';
 
-interface Reward {
-  id: string;
-  title: string;
-  description: string;
-  pointsCost: number;
-  type: 'crypto' | 'nft' | 'voucher';
-  specificType?: string;
-  icon: any;
-}
-
-const demoRewards: Reward[] = [
-  {
-    id: 'crypto-btc-testnet',
-    title: 'Testnet BTC Reward',
-    description: 'Demo crypto reward (no real blockchain).',
-    pointsCost: 500,
-    type: 'crypto',
-    specificType: 'testnet-btc',
-    icon: CurrencyDollarIcon,
-  },
-  {
-    id: 'crypto-eth-testnet',
-    title: 'Testnet ETH Reward',
-    description: 'Demo crypto reward (no real blockchain).',
-    pointsCost: 750,
-    type: 'crypto',
-    specificType: 'testnet-eth',
-    icon: CurrencyDollarIcon,
-  },
-  {
-    id: 'nft-eco-achiever',
-    title: 'Eco Achiever NFT (Demo)',
-    description: 'Demo NFT reward (no minting).',
-    pointsCost: 1200,
-    type: 'nft',
-    specificType: 'demo-nft',
-    icon: PhotoIcon,
-  },
-  {
-    id: 'voucher-10-off',
-    title: '10% Partner Voucher (Demo)',
-    description: 'Demo voucher reward.',
-    pointsCost: 300,
-    type: 'voucher',
-    specificType: 'demo-voucher',
-    icon: TicketIcon,
-  },
-];
+const categoryIcons: Partial<Record<RewardCategory, any>> = {
+  crypto: CurrencyDollarIcon,
+  nft: PhotoIcon,
+  vouchers: TicketIcon,
+};
 
 export default function Rewards() {
   const [points, setPoints] = useState(0); // Start with 0, load from API
-  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [pendingPoints, setPendingPoints] = useState(0);
+  const [provisional, setProvisional] = useState<ProvisionalPointsHold[]>([]);
+  const [rewards, setRewards] = useState<CatalogReward[]>([]);
   const [loading, setLoading] = useState(true);
   const [redeeming, setRedeeming] = useState<string | null>(null);
-  const userEmail = 'demo@ecoearn.com'; // In production, get from auth context
 
   useEffect(() => {
     loadUserPoints();
@@ -73,10 +33,12 @@ export default function Rewards() {
 
   const loadUserPoints = async () => {
     try {
-      const response = await fetch(`/api/users/points?email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch('/api/users/points');
       if (response.ok) {
         const data = await response.json();
         setPoints(data.points);
+        setPendingPoints(data.pendingPoints || 0);
+        setProvisional(data.provisional || []);
       }
     } catch (error) {
       console.error('Failed to load user points:', error);
@@ -85,8 +47,11 @@ export default function Rewards() {
 
   const loadRewards = async () => {
     try {
-      setLoading(true);
-      setRewards(demoRewards);
+      const response = await fetch('/api/rewards');
+      if (response.ok) {
+        const data = await response.json();
+        setRewards(data.rewards);
+      }
     } catch (error) {
       console.error('Error loading rewards:', error);
     } finally {
@@ -94,32 +59,31 @@ export default function Rewards() {
     }
   };
 
-  const handleRedeemReward = async (reward: Reward) => {
-    if (points < reward.pointsCost) {
-      alert(`Insufficient points! You need ${reward.pointsCost} but only have ${points}.`);
+  const handleRedeemReward = async (reward: CatalogReward) => {
+    if (points < reward.points_cost) {
+      alert(`Insufficient points! You need ${reward.points_cost} but only have ${points}.`);
       return;
     }
 
     try {
       setRedeeming(reward.id);
 
-      // Demo redemption: subtract points via points API
-      const response = await fetch('/api/users/points', {
+      const response = await fetch('/api/rewards', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          userEmail,
-          pointsChange: reward.pointsCost,
-          operation: 'subtract',
-          reason: `Redeemed ${reward.title}`,
+          rewardId: reward.id,
+          idempotencyKey: `redeem-${reward.id}-${Date.now()}`,
         }),
       });
 
       if (!response.ok) {
-        throw new Error('Failed to redeem reward');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to redeem reward');
       }
 
-      // Update points by reloading from API
+      // Refresh stock and points from the API
+      await loadRewards();
       await loadUserPoints();
 
       alert(`Successfully redeemed ${reward.title}!`);
@@ -160,8 +124,51 @@ export default function Rewards() {
             <span className="text-lg font-semibold text-gray-700">Available Points:</span>
             <span className="text-2xl font-bold text-green-600">{points.toLocaleString()}</span>
           </div>
+          {pendingPoints > 0 && (
+            <p className="text-sm text-gray-600 mt-3">
+              +{pendingPoints.toLocaleString()} pending until your collections are weighed
+            </p>
+          )}
         </motion.div>
 
+        {/* Submission points: estimate at submission, final amount after the collector weighs it */}
+        {provisional.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border p-6 mb-8">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Submission Points</h2>
+            <ul className="divide-y">
+              {provisional.map(hold => (
+                <li key={hold.id} className="py-3 flex justify-between items-center text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{hold.note || `Submission ${hold.source_id}`}</p>
+                    <p className="text-gray-500">{new Date(hold.created_at).toLocaleDateString()}</p>
+                  </div>
+                  {hold.status === 'pending' ? (
+                    <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                      {hold.estimated_points} pts provisional
+                    </span>
+                  ) : hold.status === 'held' ? (
+                    <span className="px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                      {hold.estimated_points} pts under review
+                    </span>
+                  ) : hold.status === 'rejected' ? (
+                    <span className="px-2 py-1 rounded-full bg-red-100 text-red-800">
+                      Rejected after review
+                    </span>
+                  ) : hold.status === 'void' ? (
+                    <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600">
+                      Pickup did not go ahead
+                    </span>
+                  ) : (
+                    <span className="px-2 py-1 rounded-full bg-green-100 text-green-800">
+                      {hold.estimated_points} → {hold.settled_points} pts
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Rewards Categories */}
         <div className="mb-8">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -185,7 +192,9 @@ export default function Rewards() {
 
         {/* Rewards Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {rewards.map((reward, index) => (
+          {rewards.map((reward, index) => {
+            const RewardIcon = categoryIcons[reward.category] || GiftIcon;
+            return (
             <motion.div
               key={reward.id}
               initial={{ opacity: 0, y: 20 }}
@@ -196,21 +205,21 @@ export default function Rewards() {
               <div className="p-6">
                 <div className="flex items-center space-x-3 mb-4">
                   <div className={`p-2 rounded-lg ${
-                    reward.type === 'crypto' ? 'bg-orange-100' :
-                    reward.type === 'nft' ? 'bg-purple-100' : 'bg-blue-100'
+                    reward.category === 'crypto' ? 'bg-orange-100' :
+                    reward.category === 'nft' ? 'bg-purple-100' : 'bg-blue-100'
                   }`}>
-                    <reward.icon className={`h-6 w-6 ${
-                      reward.type === 'crypto' ? 'text-orange-600' :
-                      reward.type === 'nft' ? 'text-purple-600' : 'text-blue-600'
+                    <RewardIcon className={`h-6 w-6 ${
+                      reward.category === 'crypto' ? 'text-orange-600' :
+                      reward.category === 'nft' ? 'text-purple-600' : 'text-blue-600'
                     }`} />
                   </div>
                   <div>
                     <h3 className="text-lg font-semibold text-gray-900">{reward.title}</h3>
                     <span className={`text-xs px-2 py-1 rounded-full ${
-                      reward.type === 'crypto' ? 'bg-orange-100 text-orange-800' :
-                      reward.type === 'nft' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
+                      reward.category === 'crypto' ? 'bg-orange-100 text-orange-800' :
+                      reward.category === 'nft' ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
                     }`}>
-                      {reward.type.toUpperCase()}
+                      {reward.category.toUpperCase()}
                     </span>
                   </div>
                 </div>
@@ -220,14 +229,14 @@ export default function Rewards() {
                 <div className="flex justify-between items-center">
                   <div className="text-left">
                     <span className="text-sm text-gray-500">Cost</span>
-                    <p className="text-lg font-bold text-green-600">{reward.pointsCost.toLocaleString()} pts</p>
+                    <p className="text-lg font-bold text-green-600">{reward.points_cost.toLocaleString()} pts</p>
                   </div>
 
                   <button
                     onClick={() => handleRedeemReward(reward)}
-                    disabled={points < reward.pointsCost || redeeming === reward.id}
+                    disabled={points < reward.points_cost || redeeming === reward.id}
                     className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-                      points >= reward.pointsCost && redeeming !== reward.id
+                      points >= reward.points_cost && redeeming !== reward.id
                         ? 'bg-green-500 text-white hover:bg-green-600'
                         : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                     }`}
@@ -237,16 +246,17 @@ export default function Rewards() {
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
                         <span>Redeeming...</span>
                       </div>
-                    ) : points >= reward.pointsCost ? (
+                    ) : points >= reward.points_cost ? (
                       'Redeem Now'
                     ) : (
-                      `Need ${(reward.pointsCost - points).toLocaleString()} more`
+                      `Need ${(reward.points_cost - points).toLocaleString()} more`
                     )}
                   </button>
                 </div>
               </div>
             </motion.div>
-          ))}
+            );
+          })}
         </div>
 
         {/* Info Section */}
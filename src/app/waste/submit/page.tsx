@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
 import UnifiedWasteDetection from '@/components/UnifiedWasteDetection';
+import CampaignBanner from '@/components/CampaignBanner';
 import {
   SparklesIcon,
   ChartBarIcon,
@@ -29,11 +30,11 @@ export default function SubmitWaste() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [totalPoints, setTotalPoints] = useState(0); // Load from API
   const [submissionSaved, setSubmissionSaved] = useState(false);
+  const [submissionId, setSubmissionId] = useState<number | null>(null);
   const [availableTraders, setAvailableTraders] = useState<any[]>([]);
   const [showTraders, setShowTraders] = useState(false);
   const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null);
   const [loading, setLoading] = useState(true);
-  const userEmail = 'demo@ecoearn.com'; // In production, get from auth context
   const router = useRouter();
 
   useEffect(() => {
@@ -43,7 +44,7 @@ export default function SubmitWaste() {
   const loadUserPoints = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`/api/users/points?email=${encodeURIComponent(userEmail)}`);
+      const response = await fetch('/api/users/points');
       if (response.ok) {
         const data = await response.json();
         setTotalPoints(data.points);
@@ -65,8 +66,8 @@ export default function SubmitWaste() {
     };
     
     setDetectionResult(detectionResult);
-    // Points are automatically saved by the UnifiedWasteDetection component
-    // So we need to reload the user's current points
+    setSubmissionId(result.submissionId ?? null);
+    // The estimate is held as provisional points; the balance only moves once a collector verifies the weight
     loadUserPoints();
     setSubmissionSaved(false);
   };
@@ -135,32 +136,35 @@ export default function SubmitWaste() {
 
   const fetchAvailableTraders = async (location: {lat: number, lng: number}) => {
     try {
-      const traders = [
-        {
-          _id: 'trader1',
-          name: 'EcoCollector Pro',
-          distance: 2.3,
-          rating: 4.8,
-          estimatedArrival: '15-20 mins',
-          location: { lat: location.lat + 0.01, lng: location.lng + 0.01 }
-        },
-        {
-          _id: 'trader2', 
-          name: 'Green Pickup Service',
-          distance: 3.1,
-          rating: 4.6,
-          estimatedArrival: '20-25 mins',
-          location: { lat: location.lat + 0.02, lng: location.lng + 0.02 }
-        },
-        {
-          _id: 'trader3',
-          name: 'Waste Warriors',
-          distance: 4.5,
-          rating: 4.9,
-          estimatedArrival: '25-30 mins', 
-          location: { lat: location.lat - 0.01, lng: location.lng + 0.01 }
-        }
-      ];
+      const params = new URLSearchParams({
+        lat: String(location.lat),
+        lng: String(location.lng),
+        limit: '3'
+      });
+      if (detectionResult?.wasteType) {
+        params.set('wasteType', detectionResult.wasteType);
+      }
+
+      const response = await fetch(`/api/collectors?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch collectors');
+      }
+
+      const { collectors } = await response.json();
+
+      // Rough city-driving ETA at ~30 km/h plus a few minutes to set off
+      const traders = collectors.map((collector: any) => {
+        const minutes = Math.round((collector.distanceKm / 30) * 60) + 5;
+        return {
+          _id: collector.id,
+          name: collector.name,
+          distance: collector.distanceKm,
+          vehicleType: collector.vehicleType,
+          remainingCapacityKg: collector.remainingCapacityKg,
+          estimatedArrival: `${minutes}-${minutes + 5} mins`,
+          location: collector.location
+        };
+      });
       
       setAvailableTraders(traders);
     } catch (error) {
@@ -171,7 +175,7 @@ export default function SubmitWaste() {
   const selectTrader = async (trader: any) => {
     // Prepare data for route optimization
     const routeData = {
-      submissionIds: ['submission-id'],
+      submissionIds: submissionId !== null ? [String(submissionId)] : [],
       locations: [{
         lat: userLocation!.lat,
         lng: userLocation!.lng,
@@ -217,6 +221,9 @@ export default function SubmitWaste() {
           </div>
         </motion.div>
 
+        {/* Running bonus campaigns */}
+        <CampaignBanner location={userLocation} className="mb-8" />
+
         {/* Stats */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -250,7 +257,6 @@ export default function SubmitWaste() {
         >
           <UnifiedWasteDetection
             onDetectionComplete={handleDetectionComplete}
-            userEmail="demo@ecoearn.com"
           />
 
           {/* Additional Information */}
@@ -338,7 +344,7 @@ export default function SubmitWaste() {
                             📍 <span className="ml-1 font-medium">{trader.distance} km away</span>
                           </span>
                           <span className="flex items-center">
-                            ⭐ <span className="ml-1 font-medium">{trader.rating}</span>
+                            🚚 <span className="ml-1 font-medium capitalize">{trader.vehicleType}</span>
                           </span>
                           <span className="flex items-center">
                             🕒 <span className="ml-1 font-medium">{trader.estimatedArrival}</span>
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CampaignBanner as Banner } from '@/types/campaign';
+
+interface CampaignBannerProps {
+  location?: { lat: number; lng: number } | null;
+  className?: string;
+}
+
+function timeLeft(endsAt: string): string {
+  const hours = Math.max(0, Math.round((new Date(endsAt).getTime() - Date.now()) / 3600000));
+  return hours >= 48 ? `${Math.round(hours / 24)} days left` : `${hours}h left`;
+}
+
+// Running bonus campaigns from /api/campaigns; renders nothing when there are none
+export default function CampaignBanner({ location, className = '' }: CampaignBannerProps) {
+  const [campaigns, setCampaigns] = useState<Banner[]>([]);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (location) {
+      params.set('lat', String(location.lat));
+      params.set('lng', String(location.lng));
+    }
+
+    fetch(`/api/campaigns?${params.toString()}`)
+      .then(response => (response.ok ? response.json() : { campaigns: [] }))
+      .then(data => setCampaigns(data.campaigns || []))
+      .catch(error => console.error('Failed to load campaigns:', error));
+  }, [location?.lat, location?.lng]);
+
+  if (campaigns.length === 0) return null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {campaigns.map(campaign => (
+        <div
+          key={campaign.id}
+          className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-xl bg-gradient-to-r from-amber-400 to-orange-500 text-white px-5 py-4 shadow-lg"
+        >
+          <div className="text-left">
+            <p className="font-bold text-lg">🎉 {campaign.name}</p>
+            <p className="text-sm text-amber-50">
+              {campaign.description || `${campaign.bonus} on ${campaign.waste_categories.join(', ') || 'all waste'}`}
+              {campaign.area && ` · ${campaign.area}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <span className="px-3 py-1 rounded-full bg-white/20 font-semibold">{campaign.bonus}</span>
+            <span className="text-sm text-amber-50">{timeLeft(campaign.ends_at)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
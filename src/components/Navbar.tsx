@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { motion, useScroll } from 'framer-motion';
 import { usePathname } from 'next/navigation';
+import { signOut, useSession } from 'next-auth/react';
 
 const navLinks = [
   { name: 'Home', href: '/' },
@@ -18,6 +19,7 @@ export default function Navbar() {
   const [isScrolled, setIsScrolled] = useState(false);
   const pathname = usePathname();
   const isHomePage = pathname === '/';
+  const { data: session, status } = useSession();
 
   useEffect(() => {
     return scrollY.onChange((latest) => {
@@ -91,7 +93,32 @@ export default function Navbar() {
             ))}
           </div>
 
-          {/* No authentication-related links needed */}
+          <div className="flex items-center space-x-4">
+            {session?.user ? (
+              <>
+                <span
+                  className={`hidden md:inline text-sm ${
+                    isScrolled || !isHomePage ? 'text-gray-600' : 'text-white/90'
+                  }`}
+                >
+                  {session.user.email} · {session.user.role}
+                </span>
+                <button
+                  onClick={() => signOut({ callbackUrl: '/' })}
+                  className="px-4 py-2 rounded-lg text-sm font-medium bg-primary-600 text-white hover:bg-primary-700 transition-colors"
+                >
+                  Sign out
+                </button>
+              </>
+            ) : status !== 'loading' && (
+              <Link
+                href="/auth/signin"
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-primary-600 text-white hover:bg-primary-700 transition-colors"
+              >
+                Sign in
+              </Link>
+            )}
+          </div>
         </div>
       </div>
     </motion.nav>
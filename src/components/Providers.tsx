@@ -1,6 +1,7 @@
 'use client';
 import { ReactNode } from 'react';
+import { SessionProvider } from 'next-auth/react';
 
 export default function Providers({ children }: { children: ReactNode }) {
-  return <>{children}</>;
+  return <SessionProvider>{children}</SessionProvider>;
 }
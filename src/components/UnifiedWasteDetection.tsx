@@ -3,6 +3,8 @@
 import React, { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { scoreDetection } from '@/services/scoringPolicy';
+import type { ScoredDetectedItem } from '@/types/detection';
 
 type WasteCategory = 'plastic' | 'paper' | 'glass' | 'metal' | 'organic' | 'electronic' | 'other';
 
@@ -16,6 +18,8 @@ interface WasteDetection {
     width: number;
     height: number;
   };
+  // Server points for this item once submitted; before that the card shows an estimate
+  points?: number;
 }
 
 export interface WasteAnalysisResult {
@@ -24,17 +28,97 @@ export interface WasteAnalysisResult {
   confidence: number;
   recyclable: boolean;
   points: number;
+  // Vision provider that found the objects; null when the local whole-image fallback was used
+  provider?: string | null;
+  // Set once the server has opened the submission; points are provisional until pickup verification
+  submissionId?: number | null;
+  // 'held' when the upload looked suspicious or the category was uncertain and awaits review
+  pointsStatus?: 'pending' | 'held';
+}
+
+const WASTE_CATEGORIES: WasteCategory[] = ['plastic', 'paper', 'glass', 'metal', 'organic', 'electronic', 'other'];
+const RECYCLABLE: WasteCategory[] = ['plastic', 'glass', 'metal', 'paper'];
+
+const BOX_COLORS: Record<WasteCategory, string> = {
+  plastic: '#2563eb',
+  paper: '#ca8a04',
+  glass: '#16a34a',
+  metal: '#4b5563',
+  organic: '#15803d',
+  electronic: '#dc2626',
+  other: '#9333ea'
+};
+
+// Display estimate only; the server re-classifies the image and scores it with the same policy
+function estimatePoints(wasteType: WasteCategory, confidence: number): number {
+  const quality = confidence > 0.8 ? 'excellent' : confidence > 0.6 ? 'good' : 'fair';
+  return scoreDetection({ wasteType, quality }).points;
+}
+
+function toCategory(value: string | undefined): WasteCategory | null {
+  const key = (value || '').toLowerCase();
+  if (key === 'electronics') return 'electronic';
+  return (WASTE_CATEGORIES as string[]).includes(key) ? key as WasteCategory : null;
+}
+
+// Detector boxes can overshoot the frame; keep them inside the image's pixel space
+function clampBox(bbox: WasteDetection['bbox'], size: { width: number; height: number }): WasteDetection['bbox'] {
+  const x = Math.min(Math.max(0, bbox.x), size.width - 1);
+  const y = Math.min(Math.max(0, bbox.y), size.height - 1);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(bbox.width, size.width - x)),
+    height: Math.max(1, Math.min(bbox.height, size.height - y))
+  };
+}
+
+// The server drops duplicate boxes and rounds the rest, so its items are matched by position, not order
+function findServerItem(detection: WasteDetection, serverItems: ScoredDetectedItem[]): ScoredDetectedItem | undefined {
+  return serverItems.find(item =>
+    Math.abs(item.bbox.x - detection.bbox.x) <= 1 && Math.abs(item.bbox.y - detection.bbox.y) <= 1 &&
+    Math.abs(item.bbox.width - detection.bbox.width) <= 1 && Math.abs(item.bbox.height - detection.bbox.height) <= 1
+  );
+}
+
+// Totals for the kept items; the category with the most points stands for the submission
+function summarize(detections: WasteDetection[]): Omit<WasteAnalysisResult, 'detections'> {
+  const pointsByCategory = new Map<WasteCategory, number>();
+  let points = 0;
+  for (const detection of detections) {
+    const itemPoints = detection.points ?? estimatePoints(detection.wasteCategory, detection.confidence);
+    pointsByCategory.set(detection.wasteCategory, (pointsByCategory.get(detection.wasteCategory) || 0) + itemPoints);
+    points += itemPoints;
+  }
+
+  let primaryWasteType: WasteCategory = 'other';
+  pointsByCategory.forEach((categoryPoints, category) => {
+    if (categoryPoints > (pointsByCategory.get(primaryWasteType) ?? -1)) primaryWasteType = category;
+  });
+
+  return {
+    primaryWasteType,
+    confidence: detections.length > 0
+      ? detections.reduce((sum, detection) => sum + detection.confidence, 0) / detections.length
+      : 0,
+    recyclable: RECYCLABLE.includes(primaryWasteType),
+    points
+  };
 }
 
 interface UnifiedWasteDetectionProps {
   onDetectionComplete?: (result: WasteAnalysisResult) => void;
-  userEmail?: string;
 }
 
-export default function UnifiedWasteDetection({ onDetectionComplete, userEmail = 'demo@example.com' }: UnifiedWasteDetectionProps) {
+export default function UnifiedWasteDetection({ onDetectionComplete }: UnifiedWasteDetectionProps) {
   const [image, setImage] = useState<string | null>(null);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [result, setResult] = useState<WasteAnalysisResult | null>(null);
+  // Which detections the user keeps; wrong ones are deselected before submitting
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [submitted, setSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
@@ -46,22 +130,26 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
     const reader = new FileReader();
     reader.onload = (event) => {
       setImage(event.target?.result as string);
+      setImageSize(null);
       setResult(null);
+      setSelected([]);
+      setSubmitted(false);
       setError(null);
     };
     reader.readAsDataURL(file);
   };
 
   const analyzeImage = async () => {
-    if (!image || !imageRef.current) return;
+    if (!image || !imageRef.current || !imageSize) return;
     
     setIsAnalyzing(true);
     setError(null);
     
     try {
-      console.log('🔍 Starting unified waste detection (Gemini-first)...');
+      console.log('🔍 Starting unified waste detection...');
 
-      let analysisResult: WasteAnalysisResult | null = null;
+      let detections: WasteDetection[] = [];
+      let provider: string | null = null;
 
       // Try enhanced detection via API first
       try {
@@ -73,81 +161,32 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
 
         if (geminiResponse.ok) {
           const data = await geminiResponse.json();
-          analysisResult = convertApiToWasteResult(Array.isArray(data?.predictions) ? data.predictions : []);
-          console.log('✅ Gemini detection completed');
+          detections = convertApiToDetections(Array.isArray(data?.predictions) ? data.predictions : []);
+          provider = data?.provider ?? null;
+          console.log(`✅ Detection completed (${provider || 'no provider'})`);
         }
       } catch (apiError) {
         // ignore and use fallback
       }
 
-      // Fallback: lightweight synthetic result so the UI still works in demo mode
-      if (!analysisResult) {
-        console.warn('⚠️ Gemini unavailable; using fallback detection result');
-        const fallbackTypes: WasteCategory[] = ['plastic', 'paper', 'glass', 'metal', 'organic', 'electronic', 'other'];
-        const primaryWasteType = fallbackTypes[Math.floor(Math.random() * fallbackTypes.length)] || 'other';
-        const confidence = 0.6 + Math.random() * 0.35;
-        const pointsMap: Record<WasteCategory, number> = {
-          plastic: 10,
-          paper: 8,
-          glass: 15,
-          metal: 20,
-          organic: 5,
-          electronic: 25,
-          other: 3,
-        };
-        analysisResult = {
-          detections: [
-            {
-              className: primaryWasteType,
-              wasteCategory: primaryWasteType,
-              confidence,
-              bbox: { x: 10, y: 10, width: 100, height: 100 },
-            },
-          ],
-          primaryWasteType,
-          confidence,
-          recyclable: ['plastic', 'glass', 'metal', 'paper'].includes(primaryWasteType),
-          points: pointsMap[primaryWasteType] ?? 3,
-        };
+      // Fallback: the whole photo as one synthetic item so the UI still works in demo mode
+      if (detections.length === 0) {
+        console.warn('⚠️ No vision provider found anything; using fallback detection result');
+        const wasteCategory = WASTE_CATEGORIES[Math.floor(Math.random() * WASTE_CATEGORIES.length)] || 'other';
+        detections = [{
+          className: wasteCategory,
+          wasteCategory,
+          confidence: 0.6 + Math.random() * 0.35,
+          bbox: { x: 0, y: 0, width: imageSize.width, height: imageSize.height },
+        }];
       }
-      
+
+      const analysisResult: WasteAnalysisResult = { detections, ...summarize(detections), provider };
       console.log('✅ Detection result:', analysisResult);
-      
-      // Save the analysis to database with points
-      try {
-        const file = await fetch(image).then(r => r.blob());
-        const formData = new FormData();
-        formData.append('image', file, 'waste-image.jpg');
-        formData.append('clientAnalysis', JSON.stringify({
-          wasteType: analysisResult.primaryWasteType,
-          confidence: analysisResult.confidence,
-          quality: analysisResult.confidence > 0.8 ? 'excellent' : analysisResult.confidence > 0.6 ? 'good' : 'fair',
-          pointsEarned: analysisResult.points,
-          recyclable: analysisResult.recyclable
-        }));
-        formData.append('userEmail', userEmail);
-
-        const saveResponse = await fetch('/api/analyze-waste', {
-          method: 'POST',
-          body: formData
-        });
 
-        if (saveResponse.ok) {
-          console.log('✅ Analysis saved to database with points!');
-        } else {
-          console.warn('⚠️ Failed to save analysis to database');
-        }
-      } catch (saveError) {
-        console.error('❌ Error saving analysis:', saveError);
-      }
-      
       setResult(analysisResult);
-      
-      // Call callback if provided
-      if (onDetectionComplete) {
-        onDetectionComplete(analysisResult);
-      }
-      
+      setSelected(detections.map(() => true));
+      setSubmitted(false);
     } catch (error) {
       console.error('❌ Error analyzing image:', error);
       setError('Failed to analyze image. Please try again.');
@@ -156,9 +195,95 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
     }
   };
 
-  // Convert API response to WasteAnalysisResult format
-  const convertApiToWasteResult = (predictions: any[]): WasteAnalysisResult => {
-    const wasteMapping: Record<string, string> = {
+  // Save the kept items; the server re-checks each box and holds its points estimate as provisional
+  const submitSelected = async () => {
+    if (!image || !result) return;
+    const kept = result.detections.filter((_, index) => selected[index]);
+    if (kept.length === 0) {
+      setError('Keep at least one item to submit.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const summary = summarize(kept);
+      const file = await fetch(image).then(r => r.blob());
+      const formData = new FormData();
+      formData.append('image', file, 'waste-image.jpg');
+      formData.append('clientAnalysis', JSON.stringify({
+        wasteType: summary.primaryWasteType,
+        confidence: summary.confidence,
+        quality: summary.confidence > 0.8 ? 'excellent' : summary.confidence > 0.6 ? 'good' : 'fair',
+        pointsEarned: summary.points,
+        recyclable: summary.recyclable,
+        provider: result.provider ?? undefined
+      }));
+      formData.append('items', JSON.stringify(kept.map(detection => ({
+        className: detection.className,
+        wasteType: detection.wasteCategory,
+        confidence: detection.confidence,
+        bbox: detection.bbox
+      }))));
+
+      const saveResponse = await fetch('/api/analyze-waste', {
+        method: 'POST',
+        body: formData
+      });
+      const saved = await saveResponse.json().catch(() => ({}));
+      if (!saveResponse.ok) {
+        throw new Error(saved.error || 'Failed to save analysis');
+      }
+
+      // Server items carry the server's own category and points; duplicates it dropped score nothing
+      const serverItems: ScoredDetectedItem[] = Array.isArray(saved.items) ? saved.items : [];
+      const detections: WasteDetection[] = kept.map(detection => {
+        const serverItem = findServerItem(detection, serverItems);
+        return {
+          ...detection,
+          wasteCategory: toCategory(serverItem?.wasteType) ?? detection.wasteCategory,
+          points: serverItem?.points ?? 0
+        };
+      });
+      const totals = summarize(detections);
+      const primaryWasteType = toCategory(saved.wasteType) ?? totals.primaryWasteType;
+      const submittedResult: WasteAnalysisResult = {
+        detections,
+        ...totals,
+        primaryWasteType,
+        recyclable: RECYCLABLE.includes(primaryWasteType),
+        provider: result.provider,
+        points: saved.provisionalPoints ?? summary.points,
+        submissionId: saved.submissionId ?? null,
+        pointsStatus: saved.pointsStatus
+      };
+      console.log('✅ Analysis saved; points pending pickup verification');
+
+      setResult(submittedResult);
+      setSelected(detections.map(() => true));
+      setSubmitted(true);
+
+      // Call callback if provided
+      if (onDetectionComplete) {
+        onDetectionComplete(submittedResult);
+      }
+    } catch (saveError) {
+      console.error('❌ Error saving analysis:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save analysis. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleDetection = (index: number) => {
+    if (submitted) return;
+    setSelected(current => current.map((keep, i) => (i === index ? !keep : keep)));
+  };
+
+  // Convert API predictions to detections in the image's pixel space
+  const convertApiToDetections = (predictions: any[]): WasteDetection[] => {
+    const wasteMapping: Record<string, WasteCategory> = {
       'bottle': 'plastic',
       'cup': 'plastic', 
       'bowl': 'plastic',
@@ -170,44 +295,19 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
       'cell phone': 'electronic',
       'laptop': 'electronic'
     };
+    const size = imageSize || { width: 1, height: 1 };
     
-    const detections: WasteDetection[] = predictions.map(pred => ({
+    return predictions.map(pred => ({
       className: pred.class || 'unknown',
-      wasteCategory: (wasteMapping[pred.class] || 'other') as WasteCategory,
+      wasteCategory: toCategory(pred.wasteType) ?? wasteMapping[pred.class] ?? 'other',
       confidence: pred.score || 0.5,
-      bbox: {
+      bbox: clampBox({
         x: pred.bbox?.[0] || 0,
         y: pred.bbox?.[1] || 0,
         width: pred.bbox?.[2] || 100,
         height: pred.bbox?.[3] || 100
-      }
+      }, size)
     }));
-    
-    // Determine primary waste type
-    const wasteTypes = detections.map(d => d.wasteCategory);
-    const primaryType: WasteCategory = wasteTypes.length > 0 ? (wasteTypes[0] as WasteCategory) : 'other';
-    
-    const avgConfidence = detections.length > 0 
-      ? detections.reduce((sum, d) => sum + d.confidence, 0) / detections.length 
-      : 0.5;
-    
-    const pointsMap: Record<WasteCategory, number> = {
-      plastic: 10,
-      glass: 15,
-      metal: 20,
-      paper: 8,
-      electronic: 25,
-      organic: 5,
-      other: 3,
-    };
-    
-    return {
-      detections,
-      primaryWasteType: primaryType,
-      confidence: avgConfidence,
-      recyclable: ['plastic', 'glass', 'metal', 'paper'].includes(primaryType),
-      points: pointsMap[primaryType] || 3,
-    };
   };
 
   const getWasteTypeColor = (wasteType: string) => {
@@ -223,6 +323,12 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
     return colors[wasteType] || 'text-black';
   };
 
+  const keptCount = selected.filter(Boolean).length;
+  // Before submitting, the totals follow the user's selection; afterwards they are the server's
+  const summary = result && !submitted
+    ? summarize(result.detections.filter((_, index) => selected[index]))
+    : result;
+
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader>
@@ -250,16 +356,61 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
           </Button>
           
           {image && (
-            <div className="relative w-full h-64 border rounded-lg overflow-hidden bg-gray-50">
-              <img
-                ref={imageRef}
-                src={image}
-                alt="Waste to analyze"
-                className="w-full h-full object-contain"
-                onLoad={() => {
-                  console.log('🖼️ Image loaded and ready for analysis');
-                }}
-              />
+            <div className="flex justify-center w-full border rounded-lg overflow-hidden bg-gray-50">
+              <div className="relative inline-block">
+                <img
+                  ref={imageRef}
+                  src={image}
+                  alt="Waste to analyze"
+                  className="block max-h-64 max-w-full"
+                  onLoad={(e) => {
+                    const { naturalWidth, naturalHeight } = e.currentTarget;
+                    setImageSize({ width: naturalWidth, height: naturalHeight });
+                    console.log('🖼️ Image loaded and ready for analysis');
+                  }}
+                />
+                {/* Boxes are drawn in the image's own pixel space and scaled with it */}
+                {result && imageSize && (
+                  <svg
+                    className="absolute inset-0 w-full h-full"
+                    viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                    preserveAspectRatio="none"
+                  >
+                    {result.detections.map((detection, index) => {
+                      const color = selected[index] ? BOX_COLORS[detection.wasteCategory] : '#9ca3af';
+                      const fontSize = Math.max(12, imageSize.width / 40);
+                      return (
+                        <g
+                          key={index}
+                          onClick={() => toggleDetection(index)}
+                          className={submitted ? undefined : 'cursor-pointer'}
+                        >
+                          <rect
+                            x={detection.bbox.x}
+                            y={detection.bbox.y}
+                            width={detection.bbox.width}
+                            height={detection.bbox.height}
+                            fill={color}
+                            fillOpacity={selected[index] ? 0.12 : 0.04}
+                            stroke={color}
+                            strokeWidth={fontSize / 5}
+                            strokeDasharray={selected[index] ? undefined : `${fontSize / 2} ${fontSize / 3}`}
+                          />
+                          <text
+                            x={detection.bbox.x + fontSize / 4}
+                            y={detection.bbox.y + fontSize}
+                            fill={color}
+                            fontSize={fontSize}
+                            fontWeight="bold"
+                          >
+                            {detection.className}
+                          </text>
+                        </g>
+                      );
+                    })}
+                  </svg>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -274,13 +425,13 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
         {/* Analysis Button */}
         <Button 
           onClick={analyzeImage} 
-          disabled={!image || isAnalyzing}
+          disabled={!image || !imageSize || isAnalyzing || isSubmitting}
           className="w-full"
         >
           {isAnalyzing ? (
             <>
               <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
-              🔍 Analyzing with COCO-SSD...
+              🔍 Analyzing...
             </>
           ) : (
             '🚀 Analyze Waste'
@@ -288,63 +439,105 @@ export default function UnifiedWasteDetection({ onDetectionComplete, userEmail =
         </Button>
 
         {/* Results Section */}
-        {result && (
+        {result && summary && (
           <div className="space-y-4 p-4 bg-green-50 border border-green-200 rounded-lg">
             <h3 className="font-semibold text-lg text-green-800">
               ✅ Analysis Results
             </h3>
+            <p className="text-xs text-gray-500">
+              Detected by: {result.provider || 'on-device fallback'}
+            </p>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <p className="text-sm font-medium text-gray-600">Primary Waste Type:</p>
-                <p className={`text-lg font-bold ${getWasteTypeColor(result.primaryWasteType)}`}>
-                  {result.primaryWasteType.toUpperCase()}
+                <p className={`text-lg font-bold ${getWasteTypeColor(summary.primaryWasteType)}`}>
+                  {summary.primaryWasteType.toUpperCase()}
                 </p>
               </div>
               
               <div>
                 <p className="text-sm font-medium text-gray-600">Confidence:</p>
                 <p className="text-lg font-bold text-blue-600">
-                  {(result.confidence * 100).toFixed(1)}%
+                  {(summary.confidence * 100).toFixed(1)}%
                 </p>
               </div>
               
               <div>
                 <p className="text-sm font-medium text-gray-600">Recyclable:</p>
-                <p className={`text-lg font-bold ${result.recyclable ? 'text-green-600' : 'text-red-600'}`}>
-                  {result.recyclable ? '♻️ Yes' : '🗑️ No'}
+                <p className={`text-lg font-bold ${summary.recyclable ? 'text-green-600' : 'text-red-600'}`}>
+                  {summary.recyclable ? '♻️ Yes' : '🗑️ No'}
                 </p>
               </div>
               
               <div>
-                <p className="text-sm font-medium text-gray-600">Points Earned:</p>
+                <p className="text-sm font-medium text-gray-600">{submitted ? 'Provisional Points:' : 'Estimated Points:'}</p>
                 <p className="text-lg font-bold text-purple-600">
-                  🎯 {result.points} pts
+                  🎯 {summary.points} pts
+                </p>
+                <p className="text-xs text-gray-500">
+                  {!submitted
+                    ? 'Submit to confirm; the server re-checks each item'
+                    : result.pointsStatus === 'held'
+                      ? 'Held for review: a moderator will check this upload before the points count'
+                      : 'Final amount is set when a collector weighs it'}
                 </p>
               </div>
             </div>
             
             {result.detections.length > 0 && (
               <div>
-                <h4 className="font-medium text-gray-700 mb-2">🎯 Detected Objects:</h4>
+                <h4 className="font-medium text-gray-700 mb-2">
+                  🎯 Detected Objects{submitted ? ':' : ' (untick anything that is not waste):'}
+                </h4>
                 <div className="space-y-1">
-                  {result.detections.slice(0, 5).map((detection, index) => (
-                    <div key={index} className="flex justify-between items-center text-sm bg-white p-2 rounded border">
-                      <span className="font-medium">{detection.className}</span>
-                      <span className="text-blue-600">
-                        {(detection.confidence * 100).toFixed(1)}%
+                  {result.detections.map((detection, index) => (
+                    <label
+                      key={index}
+                      className={`flex justify-between items-center gap-2 text-sm bg-white p-2 rounded border ${selected[index] ? '' : 'opacity-50'}`}
+                    >
+                      <span className="flex items-center gap-2">
+                        {!submitted && (
+                          <input
+                            type="checkbox"
+                            checked={selected[index] ?? false}
+                            onChange={() => toggleDetection(index)}
+                          />
+                        )}
+                        <span className="font-medium">{detection.className}</span>
+                        <span className={`text-xs ${getWasteTypeColor(detection.wasteCategory)}`}>
+                          {detection.wasteCategory}
+                        </span>
                       </span>
-                    </div>
+                      <span className="flex items-center gap-3">
+                        <span className="text-blue-600">
+                          {(detection.confidence * 100).toFixed(1)}%
+                        </span>
+                        <span className="text-purple-600 font-medium">
+                          {detection.points ?? estimatePoints(detection.wasteCategory, detection.confidence)} pts
+                        </span>
+                      </span>
+                    </label>
                   ))}
                 </div>
               </div>
             )}
+
+            {!submitted && (
+              <Button
+                onClick={submitSelected}
+                disabled={isSubmitting || keptCount === 0}
+                className="w-full"
+              >
+                {isSubmitting ? 'Submitting...' : `✅ Submit ${keptCount} item${keptCount === 1 ? '' : 's'}`}
+              </Button>
+            )}
           </div>
         )}
 
         {/* Info Section */}
         <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-lg">
-          <p><strong>🤖 AI Engine:</strong> COCO-SSD v2.2.2 + Enhanced Pipeline (TensorFlow.js)</p>
+          <p><strong>🤖 AI Engine:</strong> Configurable providers (Gemini, COCO-SSD, heuristic ensemble)</p>
           <p><strong>📊 Detection:</strong> Real-time multi-scale object recognition with 80+ classes</p>
           <p><strong>🔒 Privacy:</strong> Hybrid processing with secure fallback mechanisms</p>
           <p><strong>⚡ Performance:</strong> Optimized for web deployment with GPU acceleration</p>
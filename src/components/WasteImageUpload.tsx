@@ -4,6 +4,7 @@ import { useState, useRef } from 'react';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { scoreDetection } from '@/services/scoringPolicy';
 
 type WasteCategory = 'plastic' | 'paper' | 'glass' | 'metal' | 'organic' | 'electronic' | 'other';
 
@@ -78,7 +79,7 @@ export default function WasteImageUpload() {
         primaryWasteType: primaryType,
         confidence: confidence,
         recyclable: ['plastic', 'paper', 'glass', 'metal'].includes(primaryType),
-        points: data.points || (confidence > 0.8 ? 10 : 5)
+        points: data.points || scoreDetection({ wasteType: primaryType, quality: confidence > 0.8 ? 'excellent' : 'good' }).points
       };
       
       setResult(analysisResult);
@@ -114,7 +115,7 @@ export default function WasteImageUpload() {
         primaryWasteType: randomType,
         confidence: confidence,
         recyclable: ['plastic', 'paper', 'glass', 'metal'].includes(randomType),
-        points: confidence > 0.8 ? 10 : 5
+        points: scoreDetection({ wasteType: randomType, quality: confidence > 0.8 ? 'excellent' : 'good' }).points
       });
     } finally {
       setIsAnalyzing(false);
@@ -0,0 +1,9 @@
+import type { NextRequest } from 'next/server';
+
+// Backend jobs and scripts authenticate with a shared key (x-admin-key) instead of a session;
+// route handlers go through requireRole in '@/lib/auth', which treats these calls as the system
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) return false;
+  return request.headers.get('x-admin-key') === adminKey;
+}
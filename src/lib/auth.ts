@@ -0,0 +1,103 @@
+import { getServerSession, type NextAuthOptions } from 'next-auth';
+import CredentialsProvider from 'next-auth/providers/credentials';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { isAdminRequest } from '@/lib/adminAuth';
+import { userAccounts } from '@/services/userAccounts';
+import type { SessionUser, UserRole } from '@/types/auth';
+
+export const STAFF_ROLES: UserRole[] = ['ops', 'admin'];
+
+// Requests carrying the admin key are backend jobs and scripts; they act as admin
+const SYSTEM_USER: SessionUser = {
+  id: 'system',
+  email: 'system@ecoearn.local',
+  name: 'System',
+  role: 'admin',
+  collectorId: null,
+  system: true
+};
+
+export const authOptions: NextAuthOptions = {
+  session: { strategy: 'jwt' },
+  secret: process.env.NEXTAUTH_SECRET,
+  pages: { signIn: '/auth/signin' },
+  providers: [
+    CredentialsProvider({
+      name: 'Email',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' }
+      },
+      async authorize(credentials) {
+        const user = await userAccounts.verifyCredentials(credentials?.email, credentials?.password);
+        return user ? { ...user, name: user.name ?? undefined } : null;
+      }
+    })
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id;
+        token.role = user.role;
+        token.collectorId = user.collectorId;
+      }
+      return token;
+    },
+    async session({ session, token }) {
+      session.user.id = token.id || '';
+      session.user.role = token.role || 'citizen';
+      session.user.collectorId = token.collectorId ?? null;
+      return session;
+    }
+  }
+};
+
+export async function getSessionUser(request?: NextRequest): Promise<SessionUser | null> {
+  if (request && isAdminRequest(request)) return SYSTEM_USER;
+
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email || !session.user.id) return null;
+
+  return {
+    id: session.user.id,
+    email: session.user.email,
+    name: session.user.name ?? null,
+    role: session.user.role,
+    collectorId: session.user.collectorId
+  };
+}
+
+/**
+ * The signed-in user if they hold one of the roles (any role when omitted), otherwise the
+ * 401/403 response to return:
+ *
+ *   const user = await requireRole(request, ['ops', 'admin']);
+ *   if (user instanceof NextResponse) return user;
+ */
+export async function requireRole(request: NextRequest, roles?: UserRole[]): Promise<SessionUser | NextResponse> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+  }
+  if (roles && !roles.includes(user.role)) {
+    return NextResponse.json(
+      { error: `Requires one of the roles: ${roles.join(', ')}` },
+      { status: 403 }
+    );
+  }
+  return user;
+}
+
+export function isStaff(user: SessionUser): boolean {
+  return STAFF_ROLES.includes(user.role);
+}
+
+// Users may read and act on their own data; ops and admin on anyone's
+export function canActForUser(user: SessionUser, email: string | null | undefined): boolean {
+  return isStaff(user) || (!!email && email.toLowerCase() === user.email.toLowerCase());
+}
+
+export function canActForCollector(user: SessionUser, collectorId: string): boolean {
+  return isStaff(user) || (user.role === 'collector' && user.collectorId === collectorId);
+}
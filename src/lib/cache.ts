@@ -0,0 +1,332 @@
+// Pluggable key/value cache with TTLs, size limits and hit/miss counters.
+// ROUTE_CACHE_STORE selects the backing store: "memory" (default, per process)
+// or "supabase" (the cache_entries table, shared by every instance, fronted by
+// a small in-process copy so hot keys do not cost a round trip).
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+
+export interface CacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  // Batch forms for callers that look up many keys at once (e.g. matrix cells)
+  getMany<T>(keys: string[]): Promise<Map<string, T>>;
+  setMany<T>(entries: Array<[string, T]>, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Drop expired entries and enforce the size limit
+  prune(): Promise<void>;
+}
+
+export interface CacheStats {
+  store: string;
+  hits: number;
+  misses: number;
+  writes: number;
+  hitRate: number; // 0..1
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const PRUNE_EVERY_WRITES = 200;
+const LOCAL_TIER_ENTRIES = 2000;
+const LOCAL_TIER_TTL_MS = 5 * 60 * 1000; // bounds how stale a pod's copy can get
+const BATCH_SIZE = 200; // keys per Supabase request, keeps the query string short
+
+export class MemoryCacheStore implements CacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so Map order doubles as least-recently-used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    for (const key of keys) {
+      const value = await this.get<T>(key);
+      if (value !== undefined) found.set(key, value);
+    }
+    return found;
+  }
+
+  async setMany<T>(entries: Array<[string, T]>, ttlMs: number): Promise<void> {
+    for (const [key, value] of entries) {
+      await this.set(key, value, ttlMs);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async prune(): Promise<void> {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
+
+/**
+ * Shared cache in Postgres (see cache_entries in schema.sql). Errors are logged
+ * and treated as misses so an unreachable database never breaks routing.
+ */
+export class SupabaseCacheStore implements CacheStore {
+  readonly name = 'supabase';
+  private writesSincePrune = 0;
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const { data, error } = await supabase
+        .from('cache_entries')
+        .select('value, expires_at')
+        .eq('key', key)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data || new Date(data.expires_at).getTime() <= Date.now()) return undefined;
+      return data.value as T;
+    } catch (error) {
+      this.warn('read', error);
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('cache_entries')
+        .upsert({
+          key,
+          value,
+          expires_at: new Date(Date.now() + ttlMs).toISOString(),
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'key' });
+
+      if (error) throw error;
+
+      if (++this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+        this.writesSincePrune = 0;
+        await this.prune();
+      }
+    } catch (error) {
+      this.warn('write', error);
+    }
+  }
+
+  async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = new Map<string, T>();
+    try {
+      for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+        const { data, error } = await supabase
+          .from('cache_entries')
+          .select('key, value, expires_at')
+          .in('key', keys.slice(i, i + BATCH_SIZE));
+
+        if (error) throw error;
+        for (const row of data || []) {
+          if (new Date(row.expires_at).getTime() > Date.now()) found.set(row.key, row.value as T);
+        }
+      }
+    } catch (error) {
+      this.warn('read', error);
+    }
+    return found;
+  }
+
+  async setMany<T>(entries: Array<[string, T]>, ttlMs: number): Promise<void> {
+    try {
+      const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+      for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+        const { error } = await supabase
+          .from('cache_entries')
+          .upsert(entries.slice(i, i + BATCH_SIZE).map(([key, value]) => ({
+            key,
+            value,
+            expires_at: expiresAt,
+            updated_at: new Date().toISOString()
+          })), { onConflict: 'key' });
+
+        if (error) throw error;
+      }
+
+      this.writesSincePrune += entries.length;
+      if (this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+        this.writesSincePrune = 0;
+        await this.prune();
+      }
+    } catch (error) {
+      this.warn('write', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const { error } = await supabase.from('cache_entries').delete().eq('key', key);
+      if (error) throw error;
+    } catch (error) {
+      this.warn('delete', error);
+    }
+  }
+
+  async prune(): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('prune_cache_entries', { p_max_entries: this.maxEntries });
+      if (error) throw error;
+    } catch (error) {
+      this.warn('prune', error);
+    }
+  }
+
+  private warn(operation: string, error: unknown): void {
+    // Demo mode without Supabase: stay quiet, every read is simply a miss
+    if (isFetchFailedError(error)) return;
+    console.warn(`⚠️ Cache ${operation} failed:`, error instanceof Error ? error.message : (error as any)?.message || error);
+  }
+}
+
+// Reads hit the local store first and backfill it from the shared one
+export class TieredCacheStore implements CacheStore {
+  readonly name: string;
+
+  constructor(private local: CacheStore, private shared: CacheStore, private localTtlMs = LOCAL_TIER_TTL_MS) {
+    this.name = `${local.name}+${shared.name}`;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const local = await this.local.get<T>(key);
+    if (local !== undefined) return local;
+
+    const shared = await this.shared.get<T>(key);
+    if (shared !== undefined) await this.local.set(key, shared, this.localTtlMs);
+    return shared;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await Promise.all([
+      this.local.set(key, value, Math.min(ttlMs, this.localTtlMs)),
+      this.shared.set(key, value, ttlMs)
+    ]);
+  }
+
+  async getMany<T>(keys: string[]): Promise<Map<string, T>> {
+    const found = await this.local.getMany<T>(keys);
+    const missing = keys.filter(key => !found.has(key));
+    if (missing.length === 0) return found;
+
+    const shared = await this.shared.getMany<T>(missing);
+    if (shared.size > 0) await this.local.setMany(Array.from(shared), this.localTtlMs);
+    shared.forEach((value, key) => found.set(key, value));
+    return found;
+  }
+
+  async setMany<T>(entries: Array<[string, T]>, ttlMs: number): Promise<void> {
+    await Promise.all([
+      this.local.setMany(entries, Math.min(ttlMs, this.localTtlMs)),
+      this.shared.setMany(entries, ttlMs)
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([this.local.delete(key), this.shared.delete(key)]);
+  }
+
+  async prune(): Promise<void> {
+    await Promise.all([this.local.prune(), this.shared.prune()]);
+  }
+}
+
+/**
+ * A namespaced view onto a store with a fixed TTL. Keeps its own hit/miss
+ * counters so each cache can be reported separately.
+ */
+export class Cache<T> {
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+
+  constructor(private namespace: string, private store: CacheStore, private ttlMs: number) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const value = await this.store.get<T>(`${this.namespace}:${key}`);
+    if (value === undefined) this.misses++;
+    else this.hits++;
+    return value;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.writes++;
+    await this.store.set(`${this.namespace}:${key}`, value, this.ttlMs);
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, T>> {
+    const stored = await this.store.getMany<T>(keys.map(key => `${this.namespace}:${key}`));
+    const found = new Map<string, T>();
+    for (const key of keys) {
+      const value = stored.get(`${this.namespace}:${key}`);
+      if (value === undefined) this.misses++;
+      else {
+        this.hits++;
+        found.set(key, value);
+      }
+    }
+    return found;
+  }
+
+  async setMany(entries: Array<[string, T]>): Promise<void> {
+    this.writes += entries.length;
+    await this.store.setMany(entries.map(([key, value]): [string, T] => [`${this.namespace}:${key}`, value]), this.ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(`${this.namespace}:${key}`);
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.store.name,
+      hits: this.hits,
+      misses: this.misses,
+      writes: this.writes,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+}
+
+export function createCacheStore(): CacheStore {
+  const maxEntries = parseInt(process.env.ROUTE_CACHE_MAX_ENTRIES || '', 10) || DEFAULT_MAX_ENTRIES;
+  const choice = (process.env.ROUTE_CACHE_STORE || 'memory').toLowerCase();
+
+  if (choice === 'supabase') {
+    return new TieredCacheStore(new MemoryCacheStore(LOCAL_TIER_ENTRIES), new SupabaseCacheStore(maxEntries));
+  }
+  return new MemoryCacheStore(maxEntries);
+}
@@ -0,0 +1,70 @@
+// Server-side image decoding (node-canvas) into raw RGBA pixels for the
+// waste classifier and perceptual hashing. Returns null for anything that
+// can't be decoded rather than throwing, so callers can fall back.
+
+// Decoded RGBA pixels, so image analysis also runs on the server where there is no DOM
+export interface ImagePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Colour, texture and hash statistics don't need full resolution
+const DEFAULT_MAX_DIMENSION = 512;
+
+export async function decodeImagePixels(image: Blob, maxDimension = DEFAULT_MAX_DIMENSION): Promise<ImagePixels | null> {
+  try {
+    const { createCanvas, loadImage } = await import('canvas');
+    const img = await loadImage(Buffer.from(await image.arrayBuffer()));
+
+    const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } catch (error) {
+    console.warn('Failed to decode image:', error);
+    return null;
+  }
+}
+
+// JPEG thumbnail for lists and review queues; null when the image can't be decoded
+export async function renderThumbnail(image: Buffer, maxDimension: number, quality = 0.8): Promise<Buffer | null> {
+  try {
+    const { createCanvas, loadImage } = await import('canvas');
+    const img = await loadImage(image);
+
+    const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(img, 0, 0, width, height);
+    return canvas.toBuffer('image/jpeg', { quality });
+  } catch (error) {
+    console.warn('Failed to render thumbnail:', error);
+    return null;
+  }
+}
+
+// Region of already-decoded pixels; box is in the same pixel space and is clamped to the image
+export function cropPixels(pixels: ImagePixels, box: { x: number; y: number; width: number; height: number }): ImagePixels | null {
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const x1 = Math.min(pixels.width, Math.ceil(box.x + box.width));
+  const y1 = Math.min(pixels.height, Math.ceil(box.y + box.height));
+  if (x1 <= x0 || y1 <= y0) return null;
+
+  const width = x1 - x0;
+  const height = y1 - y0;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y0 + row) * pixels.width + x0) * 4;
+    data.set(pixels.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,236 @@
+// Container-level parsing for uploaded JPEG, PNG and WebP images: detect the real
+// type from magic bytes, read dimensions from the headers without decoding, and
+// remove location metadata before anything is written to storage.
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export function sniffImageFormat(bytes: Buffer): ImageFormat | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (bytes.length >= 8 && bytes.readUInt32BE(0) === 0x89504e47 && bytes.readUInt32BE(4) === 0x0d0a1a0a) return 'png';
+  if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+  return null;
+}
+
+export function readImageDimensions(bytes: Buffer, format: ImageFormat): { width: number; height: number } | null {
+  try {
+    if (format === 'png') {
+      return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+    }
+    if (format === 'webp') {
+      return readWebpDimensions(bytes);
+    }
+    return readJpegDimensions(bytes);
+  } catch {
+    // Truncated header
+    return null;
+  }
+}
+
+/**
+ * Returns a copy without GPS coordinates. JPEG Exif keeps its other tags (orientation,
+ * camera) with the GPS directory blanked; XMP packets and PNG text chunks, which can
+ * carry coordinates too, are dropped whole.
+ */
+export function stripLocationMetadata(bytes: Buffer, format: ImageFormat): Buffer {
+  if (format === 'png') return stripPngMetadata(bytes);
+  if (format === 'webp') return stripWebpMetadata(bytes);
+  return stripJpegMetadata(bytes);
+}
+
+// ---- JPEG ----
+
+// SOF markers carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) share the range but don't
+function isStartOfFrame(marker: number): boolean {
+  return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+}
+
+// Standalone markers have no length field
+function hasLength(marker: number): boolean {
+  return !(marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7));
+}
+
+interface JpegSegment {
+  marker: number;
+  start: number; // offset of the 0xFF
+  end: number; // offset just past the segment
+}
+
+// Header segments up to the start of scan; entropy-coded data after it is left alone
+function jpegSegments(bytes: Buffer): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Malformed JPEG segment');
+    let markerOffset = offset + 1;
+    while (bytes[markerOffset] === 0xff) markerOffset++; // fill bytes
+    const marker = bytes[markerOffset];
+    const end = hasLength(marker) ? markerOffset + 1 + bytes.readUInt16BE(markerOffset + 1) : markerOffset + 1;
+
+    segments.push({ marker, start: offset, end });
+    if (marker === 0xda || marker === 0xd9) break;
+    offset = end;
+  }
+
+  return segments;
+}
+
+function readJpegDimensions(bytes: Buffer): { width: number; height: number } | null {
+  const frame = jpegSegments(bytes).find(segment => isStartOfFrame(segment.marker));
+  if (!frame) return null;
+  // Segment layout: FF, marker, length (2), precision (1), height (2), width (2)
+  const lengthOffset = frame.start + 2;
+  return { height: bytes.readUInt16BE(lengthOffset + 3), width: bytes.readUInt16BE(lengthOffset + 5) };
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/';
+const GPS_IFD_TAG = 0x8825;
+// Bytes per value for each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+function stripJpegMetadata(bytes: Buffer): Buffer {
+  const output = Buffer.from(bytes);
+  const drop: JpegSegment[] = [];
+
+  for (const segment of jpegSegments(output)) {
+    if (segment.marker !== 0xe1) continue;
+    const payload = segment.start + 4;
+
+    if (output.toString('latin1', payload, payload + XMP_HEADER.length) === XMP_HEADER) {
+      drop.push(segment);
+    } else if (output.toString('latin1', payload, payload + EXIF_HEADER.length) === EXIF_HEADER) {
+      try {
+        blankGpsDirectory(output, payload + EXIF_HEADER.length, segment.end);
+      } catch {
+        // Unreadable Exif: lose all of it rather than risk keeping coordinates
+        drop.push(segment);
+      }
+    }
+  }
+
+  if (drop.length === 0) return output;
+
+  const parts: Buffer[] = [];
+  let cursor = 0;
+  for (const segment of drop) {
+    parts.push(output.subarray(cursor, segment.start));
+    cursor = segment.end;
+  }
+  parts.push(output.subarray(cursor));
+  return Buffer.concat(parts);
+}
+
+// Zero the GPS IFD's values and entries in place and mark it empty
+function blankGpsDirectory(bytes: Buffer, tiffStart: number, segmentEnd: number): void {
+  const order = bytes.toString('latin1', tiffStart, tiffStart + 2);
+  if (order !== 'II' && order !== 'MM') throw new Error('Bad TIFF byte order');
+  const little = order === 'II';
+  const u16 = (offset: number) => (little ? bytes.readUInt16LE(offset) : bytes.readUInt16BE(offset));
+  const u32 = (offset: number) => (little ? bytes.readUInt32LE(offset) : bytes.readUInt32BE(offset));
+  const inSegment = (offset: number, length: number) => {
+    if (offset < tiffStart || offset + length > segmentEnd) throw new Error('Exif offset out of range');
+  };
+
+  const ifd0 = tiffStart + u32(tiffStart + 4);
+  inSegment(ifd0, 2);
+  const entryCount = u16(ifd0);
+  inSegment(ifd0 + 2, entryCount * 12);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (u16(entry) !== GPS_IFD_TAG) continue;
+
+    const gpsIfd = tiffStart + u32(entry + 8);
+    inSegment(gpsIfd, 2);
+    const gpsCount = u16(gpsIfd);
+    inSegment(gpsIfd + 2, gpsCount * 12 + 4);
+
+    for (let j = 0; j < gpsCount; j++) {
+      const gpsEntry = gpsIfd + 2 + j * 12;
+      const size = (TIFF_TYPE_SIZES[u16(gpsEntry + 2)] || 1) * u32(gpsEntry + 4);
+      if (size > 4) {
+        const valueOffset = tiffStart + u32(gpsEntry + 8);
+        inSegment(valueOffset, size);
+        bytes.fill(0, valueOffset, valueOffset + size);
+      }
+    }
+
+    // Zero count, entries and next-IFD pointer: an empty directory
+    bytes.fill(0, gpsIfd, gpsIfd + 2 + gpsCount * 12 + 4);
+  }
+}
+
+// ---- PNG ----
+
+// eXIf holds Exif; the text chunks can hold XMP or free-form location notes
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'iTXt', 'zTXt']);
+
+function stripPngMetadata(bytes: Buffer): Buffer {
+  const parts: Buffer[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = bytes.readUInt32BE(offset);
+    const type = bytes.toString('latin1', offset + 4, offset + 8);
+    const end = offset + 12 + length; // length, type, data, CRC
+    if (end > bytes.length) throw new Error('Truncated PNG chunk');
+
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end));
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  return Buffer.concat(parts);
+}
+
+// ---- WebP ----
+
+const VP8X_FLAG_EXIF = 0x08;
+const VP8X_FLAG_XMP = 0x04;
+
+function readWebpDimensions(bytes: Buffer): { width: number; height: number } | null {
+  const chunk = bytes.toString('ascii', 12, 16);
+  if (chunk === 'VP8X') {
+    return { width: 1 + bytes.readUIntLE(24, 3), height: 1 + bytes.readUIntLE(27, 3) };
+  }
+  if (chunk === 'VP8L') {
+    const bits = bytes.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8 ') {
+    return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+  }
+  return null;
+}
+
+function stripWebpMetadata(bytes: Buffer): Buffer {
+  const parts: Buffer[] = [Buffer.from(bytes.subarray(0, 12))];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourcc = bytes.toString('ascii', offset, offset + 4);
+    const size = bytes.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2); // chunks are padded to even length
+    if (offset + 8 + size > bytes.length) throw new Error('Truncated WebP chunk');
+
+    if (fourcc === 'VP8X') {
+      const chunk = Buffer.from(bytes.subarray(offset, end));
+      chunk[8] &= ~(VP8X_FLAG_EXIF | VP8X_FLAG_XMP);
+      parts.push(chunk);
+    } else if (fourcc !== 'EXIF' && fourcc !== 'XMP ') {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const output = Buffer.concat(parts);
+  output.writeUInt32LE(output.length - 8, 4);
+  return output;
+}
@@ -0,0 +1,86 @@
+// Pluggable object storage for uploaded images. IMAGE_STORAGE selects the backend:
+// "local" (default) writes under IMAGE_STORAGE_DIR and serves the files through
+// /api/images. Supabase Storage or S3-compatible buckets plug in behind the same
+// interface.
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface ImageStore {
+  readonly name: string;
+  put(key: string, bytes: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<{ bytes: Buffer; contentType: string } | null>;
+  delete(key: string): Promise<void>;
+  // Where clients fetch the object
+  urlFor(key: string): string;
+}
+
+const DEFAULT_LOCAL_DIR = path.join(process.cwd(), '.data', 'uploads');
+
+// Lowercase path segments and a known extension; rules out traversal and odd filenames
+const KEY_PATTERN = /^[a-z0-9_-]+(\/[a-z0-9_-]+)*\.(jpg|png|webp)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+export function isValidImageKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+export class LocalImageStore implements ImageStore {
+  readonly name = 'local';
+
+  constructor(private rootDir = DEFAULT_LOCAL_DIR, private baseUrl = '/api/images') {}
+
+  async put(key: string, bytes: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+    if (CONTENT_TYPES[path.extname(key).slice(1)] !== contentType) {
+      throw new Error(`Key ${key} does not match content type ${contentType}`);
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, bytes);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<{ bytes: Buffer; contentType: string } | null> {
+    if (!isValidImageKey(key)) return null;
+    try {
+      const bytes = await fs.readFile(this.resolve(key));
+      return { bytes, contentType: CONTENT_TYPES[path.extname(key).slice(1)] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  urlFor(key: string): string {
+    return `${this.baseUrl}/${key}`;
+  }
+
+  private resolve(key: string): string {
+    if (!isValidImageKey(key)) {
+      throw new Error(`Invalid image key: ${key}`);
+    }
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+}
+
+export function createImageStore(): ImageStore {
+  const choice = (process.env.IMAGE_STORAGE || 'local').toLowerCase();
+  if (choice !== 'local') {
+    console.warn(`⚠️ Unknown IMAGE_STORAGE "${choice}", using local storage`);
+  }
+  return new LocalImageStore(process.env.IMAGE_STORAGE_DIR || DEFAULT_LOCAL_DIR);
+}
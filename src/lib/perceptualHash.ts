@@ -0,0 +1,72 @@
+// Perceptual image hashing (dHash) for near-duplicate detection. Re-encoding,
+// resizing or small crops barely change the hash, so resubmitted photos are
+// found by Hamming distance rather than exact equality.
+import type { ImagePixels } from './imageDecoding';
+
+const HASH_WIDTH = 9; // 9 columns give 8 horizontal gradients per row
+const HASH_HEIGHT = 8;
+
+// Average grey level of the image area that maps onto one cell of the small grid
+function cellLuminance(pixels: ImagePixels, cellX: number, cellY: number): number {
+  const x0 = Math.floor((cellX * pixels.width) / HASH_WIDTH);
+  const x1 = Math.max(x0 + 1, Math.floor(((cellX + 1) * pixels.width) / HASH_WIDTH));
+  const y0 = Math.floor((cellY * pixels.height) / HASH_HEIGHT);
+  const y1 = Math.max(y0 + 1, Math.floor(((cellY + 1) * pixels.height) / HASH_HEIGHT));
+
+  let sum = 0;
+  let count = 0;
+  for (let y = y0; y < Math.min(y1, pixels.height); y++) {
+    for (let x = x0; x < Math.min(x1, pixels.width); x++) {
+      const i = (y * pixels.width + x) * 4;
+      sum += 0.299 * pixels.data[i] + 0.587 * pixels.data[i + 1] + 0.114 * pixels.data[i + 2];
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+// 64-bit difference hash as 16 hex characters
+export function computeDHash(pixels: ImagePixels): string {
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const brighter = cellLuminance(pixels, x, y) > cellLuminance(pixels, x + 1, y);
+      byte = (byte << 1) | (brighter ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Splits a hash into maxDistance + 1 bands tagged with their position. Hashes within
+// maxDistance bits of each other agree on at least one whole band, so an index on the
+// bands finds every near-duplicate without comparing against every stored hash.
+export function hashBands(hash: string, maxDistance: number): string[] {
+  const bits = hash
+    .split('')
+    .map(char => parseInt(char, 16).toString(2).padStart(4, '0'))
+    .join('');
+  const count = maxDistance + 1;
+  const bands: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor((i * bits.length) / count);
+    const end = Math.floor(((i + 1) * bits.length) / count);
+    bands.push(`${i}:${bits.slice(start, end)}`);
+  }
+  return bands;
+}
@@ -0,0 +1,33 @@
+// Seedable pseudo-random numbers so optimizer runs can be replayed exactly
+
+export type RandomSource = () => number;
+
+const MAX_SEED = 0xffffffff;
+
+// mulberry32: small, fast and good enough for heuristic search
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// An independent seed for a side stream (e.g. simulated inputs), so drawing from it
+// never shifts the main sequence; the same seed and salt always give the same result
+export function deriveSeed(seed: number, salt: number): number {
+  return Math.floor(createSeededRandom((seed ^ Math.imul(salt >>> 0, 0x9e3779b1)) >>> 0)() * MAX_SEED);
+}
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+// Accepts non-negative integers up to 2^32 - 1; anything else is rejected
+export function isValidSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_SEED;
+}
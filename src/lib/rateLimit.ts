@@ -0,0 +1,173 @@
+// Token-bucket rate limiting for write and AI endpoints, applied in middleware.ts.
+// RATE_LIMIT_STORE selects where buckets live: "memory" (default, per process)
+// or "supabase" (the rate_limit_buckets table, shared by every instance and
+// updated atomically by take_rate_limit_token).
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+
+export interface BucketLimit {
+  capacity: number; // burst size
+  refillPerMinute: number;
+}
+
+export interface RateLimitPolicy {
+  name: string; // bucket namespace; policies sharing a name share a budget
+  prefix: string;
+  methods: string[];
+  user?: BucketLimit; // per signed-in user
+  ip: BucketLimit; // per client IP, signed in or not
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Refill the bucket for the time elapsed, then take `cost` tokens if there are enough
+  take(key: string, limit: BucketLimit, cost?: number): Promise<RateLimitDecision>;
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_MEMORY_BUCKETS = 50000;
+
+// First matching prefix wins, so list specific paths before their parents
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  // Gemini quota
+  { name: 'vision', prefix: '/api/gemini-vision', methods: WRITE_METHODS, user: { capacity: 5, refillPerMinute: 5 }, ip: { capacity: 15, refillPerMinute: 15 } },
+  { name: 'vision', prefix: '/api/waste-classification', methods: WRITE_METHODS, user: { capacity: 5, refillPerMinute: 5 }, ip: { capacity: 15, refillPerMinute: 15 } },
+  { name: 'submission', prefix: '/api/analyze-waste', methods: WRITE_METHODS, user: { capacity: 5, refillPerMinute: 2 }, ip: { capacity: 15, refillPerMinute: 6 } },
+  { name: 'points', prefix: '/api/users/points', methods: WRITE_METHODS, user: { capacity: 10, refillPerMinute: 10 }, ip: { capacity: 30, refillPerMinute: 30 } },
+  // OpenRouteService quota
+  { name: 'routing', prefix: '/api/route-optimization', methods: WRITE_METHODS, user: { capacity: 10, refillPerMinute: 10 }, ip: { capacity: 30, refillPerMinute: 30 } },
+  // Credential sign-in and registration are keyed by IP only
+  { name: 'auth', prefix: '/api/auth', methods: ['POST'], ip: { capacity: 10, refillPerMinute: 5 } },
+  { name: 'waste', prefix: '/api/waste', methods: WRITE_METHODS, user: { capacity: 10, refillPerMinute: 5 }, ip: { capacity: 30, refillPerMinute: 15 } },
+  { name: 'pickup', prefix: '/api/pickup', methods: WRITE_METHODS, user: { capacity: 10, refillPerMinute: 5 }, ip: { capacity: 30, refillPerMinute: 15 } },
+  { name: 'redeem', prefix: '/api/rewards', methods: WRITE_METHODS, user: { capacity: 5, refillPerMinute: 5 }, ip: { capacity: 15, refillPerMinute: 15 } }
+];
+
+export function matchRateLimitPolicy(pathname: string, method: string): RateLimitPolicy | undefined {
+  return RATE_LIMIT_POLICIES.find(policy =>
+    policy.methods.includes(method) &&
+    (pathname === policy.prefix || pathname.startsWith(`${policy.prefix}/`))
+  );
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(private maxBuckets = MAX_MEMORY_BUCKETS) {}
+
+  async take(key: string, limit: BucketLimit, cost = 1): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const refillPerMs = limit.refillPerMinute / 60000;
+    const bucket = this.buckets.get(key);
+    const tokens = bucket
+      ? Math.min(limit.capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      : limit.capacity;
+
+    const allowed = tokens >= cost;
+    const remaining = allowed ? tokens - cost : tokens;
+
+    // Re-insert so Map order doubles as least-recently-used order
+    this.buckets.delete(key);
+    this.buckets.set(key, { tokens: remaining, updatedAt: now });
+    while (this.buckets.size > this.maxBuckets) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest === undefined) break;
+      this.buckets.delete(oldest);
+    }
+
+    return {
+      allowed,
+      limit: limit.capacity,
+      remaining: Math.floor(remaining),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs)
+    };
+  }
+}
+
+/**
+ * Buckets in Postgres (see rate_limit_buckets in schema.sql). When the database
+ * is unreachable the fallback store decides, so limits still hold per process.
+ */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'supabase';
+
+  constructor(private fallback: RateLimitStore) {}
+
+  async take(key: string, limit: BucketLimit, cost = 1): Promise<RateLimitDecision> {
+    try {
+      const { data, error } = await supabase.rpc('take_rate_limit_token', {
+        p_key: key,
+        p_capacity: limit.capacity,
+        p_refill_per_minute: limit.refillPerMinute,
+        p_cost: cost
+      });
+
+      if (error) throw error;
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) throw new Error('take_rate_limit_token returned no row');
+
+      return {
+        allowed: row.allowed,
+        limit: limit.capacity,
+        remaining: Math.floor(row.remaining),
+        retryAfterMs: row.retry_after_ms
+      };
+    } catch (error) {
+      // Demo mode without Supabase: stay quiet and limit per process
+      if (!isFetchFailedError(error)) {
+        console.warn('⚠️ Rate limit store failed:', error instanceof Error ? error.message : (error as any)?.message || error);
+      }
+      return this.fallback.take(key, limit, cost);
+    }
+  }
+}
+
+export class RateLimiter {
+  constructor(private store: RateLimitStore) {}
+
+  /**
+   * Takes a token from the user's bucket (when signed in), then from the IP's bucket.
+   * A user who is already throttled does not drain the budget of others behind the same IP.
+   */
+  async check(policy: RateLimitPolicy, client: { userId?: string | null; ip: string }): Promise<RateLimitDecision> {
+    let userDecision: RateLimitDecision | null = null;
+    if (policy.user && client.userId) {
+      userDecision = await this.store.take(`${policy.name}:user:${client.userId}`, policy.user);
+      if (!userDecision.allowed) return userDecision;
+    }
+
+    const ipDecision = await this.store.take(`${policy.name}:ip:${client.ip}`, policy.ip);
+    if (!ipDecision.allowed || !userDecision) return ipDecision;
+    return userDecision.remaining <= ipDecision.remaining ? userDecision : ipDecision;
+  }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+  const choice = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+  if (choice === 'supabase') {
+    return new SupabaseRateLimitStore(new MemoryRateLimitStore());
+  }
+  return new MemoryRateLimitStore();
+}
+
+export const rateLimiter = new RateLimiter(createRateLimitStore());
+
+// Clients can put anything in X-Forwarded-For, so only addresses a proxy set count: the
+// platform's own request.ip, nginx's X-Real-IP ($remote_addr), or the right-most forwarded
+// hop, which is the one our proxy appended
+export function clientIp(headers: Headers, platformIp?: string): string {
+  if (platformIp) return platformIp;
+
+  const realIp = headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+
+  const hops = (headers.get('x-forwarded-for') || '').split(',').map(hop => hop.trim()).filter(Boolean);
+  return hops[hops.length - 1] || 'unknown';
+}
@@ -11,6 +11,12 @@ export const supabase = createClient(supabaseUrl, supabaseKey, {
   },
 });
 
+// Undici's error when Supabase is unreachable; services fall back to their demo data on it
+export function isFetchFailedError(err: unknown): boolean {
+  const msg = typeof (err as any)?.message === 'string' ? (err as any).message : '';
+  return msg.includes('fetch failed');
+}
+
 // Create a Supabase client with anon key for client-side usage
 export const createSupabaseClient = () => {
   return createClient(
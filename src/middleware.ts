@@ -1,6 +1,105 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { clientIp, matchRateLimitPolicy, rateLimiter } from '@/lib/rateLimit';
+import type { UserRole } from '@/types/auth';
 
-export function middleware(request: NextRequest) {
-  return NextResponse.next();
+// Coarse gate per route group; handlers still check role details and resource ownership.
+// roles: null means any signed-in user. First matching prefix wins.
+const PROTECTED_ROUTES: Array<{ prefix: string; roles: UserRole[] | null }> = [
+  { prefix: '/api/admin', roles: ['ops', 'admin'] },
+  { prefix: '/api/dispatch', roles: ['ops', 'admin'] },
+  { prefix: '/api/devops', roles: ['ops', 'admin'] },
+  { prefix: '/api/kafka-integration', roles: ['ops', 'admin'] },
+  { prefix: '/api/assign-collector', roles: ['collector', 'trader', 'ops', 'admin'] },
+  { prefix: '/api/route-optimization', roles: ['collector', 'trader', 'ops', 'admin'] },
+  { prefix: '/api/analyze-waste', roles: null },
+  { prefix: '/api/waste', roles: null },
+  { prefix: '/api/waste-classification', roles: null },
+  { prefix: '/api/gemini-vision', roles: null },
+  { prefix: '/api/pickup', roles: null },
+  { prefix: '/api/collectors', roles: null },
+  { prefix: '/api/users', roles: null },
+  { prefix: '/api/submissions', roles: null },
+  { prefix: '/api/tracking', roles: null },
+  { prefix: '/api/images', roles: null },
+  { prefix: '/dispatch', roles: ['ops', 'admin'] },
+  { prefix: '/devops', roles: ['ops', 'admin'] },
+  { prefix: '/collector', roles: ['collector', 'ops', 'admin'] },
+  { prefix: '/routing', roles: ['collector', 'trader', 'ops', 'admin'] },
+  { prefix: '/waste', roles: null },
+  { prefix: '/rewards', roles: null },
+  { prefix: '/marketplace', roles: null },
+  { prefix: '/tracking', roles: null }
+];
+
+function matchRoute(pathname: string) {
+  return PROTECTED_ROUTES.find(route => pathname === route.prefix || pathname.startsWith(`${route.prefix}/`));
 }
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const route = matchRoute(pathname);
+  const rateLimit = matchRateLimitPolicy(pathname, request.method);
+  if (!route && !rateLimit) return NextResponse.next();
+
+  const isApi = pathname.startsWith('/api/');
+
+  // Backend jobs authenticate with the admin key; handlers treat them as the system and they skip rate limits
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (isApi && adminKey && request.headers.get('x-admin-key') === adminKey) {
+    return NextResponse.next();
+  }
+
+  const token = await getToken({ req: request, secret: process.env.NEXTAUTH_SECRET });
+
+  if (route && !token) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    const signInUrl = new URL('/auth/signin', request.url);
+    signInUrl.searchParams.set('callbackUrl', `${pathname}${request.nextUrl.search}`);
+    return NextResponse.redirect(signInUrl);
+  }
+
+  if (route?.roles && (!token?.role || !route.roles.includes(token.role))) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: `Requires one of the roles: ${route.roles.join(', ')}` },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  if (!rateLimit) return NextResponse.next();
+
+  const decision = await rateLimiter.check(rateLimit, {
+    userId: token?.id,
+    ip: clientIp(request.headers, request.ip)
+  });
+
+  if (!decision.allowed) {
+    const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+    return NextResponse.json(
+      { error: 'Too many requests, please slow down', retryAfter },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': String(retryAfter),
+          'X-RateLimit-Limit': String(decision.limit),
+          'X-RateLimit-Remaining': '0'
+        }
+      }
+    );
+  }
+
+  const response = NextResponse.next();
+  response.headers.set('X-RateLimit-Limit', String(decision.limit));
+  response.headers.set('X-RateLimit-Remaining', String(decision.remaining));
+  return response;
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/dispatch/:path*', '/devops/:path*', '/collector/:path*', '/routing/:path*', '/waste/:path*', '/rewards/:path*', '/marketplace/:path*', '/tracking/:path*']
+};
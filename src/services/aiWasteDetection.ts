@@ -3,7 +3,14 @@
  * Uses reliable image analysis and smart classification
  */
 
-interface DetectionResult {
+import type { ImagePixels } from '@/lib/imageDecoding';
+
+export type DetectionInput = ImageData | HTMLImageElement | ImagePixels;
+
+// modelUsed of the canned result returned when every detector fails
+export const FALLBACK_MODEL = 'Fallback-System';
+
+export interface DetectionResult {
   wasteType: string;
   confidence: number;
   boundingBox?: number[];
@@ -15,7 +22,7 @@ interface DetectionResult {
   };
 }
 
-interface EnsembleResult {
+export interface EnsembleResult {
   finalPrediction: DetectionResult;
   modelResults: DetectionResult[];
   confidenceScore: number;
@@ -35,33 +42,27 @@ export class EnhancedAIWasteDetection {
   private readonly WASTE_CATEGORIES = {
     plastic: {
       subcategories: ['pet_bottle', 'hdpe_container', 'plastic_bag', 'food_container'],
-      recyclability: 0.8,
-      basePoints: 10
+      recyclability: 0.8
     },
     paper: {
       subcategories: ['newspaper', 'cardboard', 'office_paper', 'magazine'],
-      recyclability: 0.9,
-      basePoints: 8
+      recyclability: 0.9
     },
     metal: {
       subcategories: ['aluminum_can', 'steel_can', 'metal_scrap'],
-      recyclability: 0.95,
-      basePoints: 15
+      recyclability: 0.95
     },
     glass: {
       subcategories: ['glass_bottle', 'glass_jar', 'broken_glass'],
-      recyclability: 0.85,
-      basePoints: 12
+      recyclability: 0.85
     },
     electronics: {
       subcategories: ['phone', 'laptop', 'battery', 'cable'],
-      recyclability: 0.7,
-      basePoints: 25
+      recyclability: 0.7
     },
     organic: {
       subcategories: ['food_waste', 'garden_waste', 'compostable'],
-      recyclability: 1.0,
-      basePoints: 5
+      recyclability: 1.0
     }
   };
 
@@ -84,7 +85,7 @@ export class EnhancedAIWasteDetection {
     }
   }
 
-  public async detectWaste(imageData: ImageData | HTMLImageElement): Promise<EnsembleResult> {
+  public async detectWaste(imageData: DetectionInput): Promise<EnsembleResult> {
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -120,27 +121,11 @@ export class EnhancedAIWasteDetection {
     }
   }
 
-  private async colorBasedDetection(imageData: ImageData | HTMLImageElement): Promise<DetectionResult | null> {
+  private async colorBasedDetection(imageData: DetectionInput): Promise<DetectionResult | null> {
     try {
-      // Convert to canvas for analysis
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) return null;
-
-      if (imageData instanceof ImageData) {
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        ctx.putImageData(imageData, 0, 0);
-      } else {
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        ctx.drawImage(imageData, 0, 0);
-      }
-
-      // Get image data for analysis
-      const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imgData.data;
+      const pixels = this.readPixels(imageData);
+      if (!pixels) return null;
+      const data = pixels.data;
 
       // Analyze color distribution
       const colorAnalysis = this.analyzeColorDistribution(data);
@@ -152,7 +137,7 @@ export class EnhancedAIWasteDetection {
         modelUsed: 'Color-Analysis',
         detailedAnalysis: {
           recyclability: this.WASTE_CATEGORIES[wasteType.type as keyof typeof this.WASTE_CATEGORIES]?.recyclability || 0.5,
-          contamination: Math.min(0.1 + (1 - confidence) * 0.2, 0.3), // Based on confidence
+          contamination: Math.min(0.1 + (1 - wasteType.confidence) * 0.2, 0.3), // Based on confidence
           quality: wasteType.confidence > 0.85 ? 'excellent' : wasteType.confidence > 0.7 ? 'good' : 'fair'
         }
       };
@@ -163,25 +148,13 @@ export class EnhancedAIWasteDetection {
     }
   }
 
-  private async shapeBasedDetection(imageData: ImageData | HTMLImageElement): Promise<DetectionResult | null> {
+  private async shapeBasedDetection(imageData: DetectionInput): Promise<DetectionResult | null> {
     try {
-      // Simple shape analysis based on aspect ratio and edge detection
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) return null;
-
-      if (imageData instanceof ImageData) {
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        ctx.putImageData(imageData, 0, 0);
-      } else {
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        ctx.drawImage(imageData, 0, 0);
-      }
+      // Simple shape analysis based on aspect ratio
+      const { width, height } = imageData;
+      if (!width || !height) return null;
 
-      const aspectRatio = canvas.width / canvas.height;
+      const aspectRatio = width / height;
       
       // Simple shape-based classification
       let wasteType = 'plastic';
@@ -214,26 +187,12 @@ export class EnhancedAIWasteDetection {
     }
   }
 
-  private async textureBasedDetection(imageData: ImageData | HTMLImageElement): Promise<DetectionResult | null> {
+  private async textureBasedDetection(imageData: DetectionInput): Promise<DetectionResult | null> {
     try {
       // Simple texture analysis based on pixel variance
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) return null;
-
-      if (imageData instanceof ImageData) {
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        ctx.putImageData(imageData, 0, 0);
-      } else {
-        canvas.width = imageData.width;
-        canvas.height = imageData.height;
-        ctx.drawImage(imageData, 0, 0);
-      }
-
-      const imgData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = imgData.data;
+      const pixels = this.readPixels(imageData);
+      if (!pixels) return null;
+      const data = pixels.data;
 
       // Calculate texture variance
       let totalBrightness = 0;
@@ -286,6 +245,20 @@ export class EnhancedAIWasteDetection {
     }
   }
 
+  // Pixel input is used as-is; images are drawn onto a canvas first (browser only)
+  private readPixels(imageData: DetectionInput): ImagePixels | null {
+    if ('data' in imageData) return imageData;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    ctx.drawImage(imageData, 0, 0);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  }
+
   private analyzeColorDistribution(data: Uint8ClampedArray) {
     const colors = {
       red: 0, green: 0, blue: 0, yellow: 0, orange: 0,
@@ -507,7 +480,7 @@ export class EnhancedAIWasteDetection {
     const fallbackDetection: DetectionResult = {
       wasteType: 'plastic',
       confidence: 0.6,
-      modelUsed: 'Fallback-System',
+      modelUsed: FALLBACK_MODEL,
       detailedAnalysis: {
         recyclability: 0.7,
         contamination: 0.2,
@@ -0,0 +1,348 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { haversineKm } from './collectorRegistry';
+import { normalizeCategory, SCORING_POLICY } from './scoringPolicy';
+import type {
+  Campaign,
+  CampaignBanner,
+  CampaignContext,
+  CampaignGeofence,
+  CreateCampaignInput
+} from '@/types/campaign';
+import type { CampaignBonusCharge } from '@/types/points';
+import type { CampaignBonus, ScoringCategory } from '@/types/scoring';
+
+export type CampaignErrorCode =
+  | 'INVALID_CAMPAIGN'
+  | 'CAMPAIGN_NOT_FOUND'
+  | 'CAMPAIGN_ALREADY_STOPPED';
+
+export class CampaignError extends Error {
+  constructor(public code: CampaignErrorCode, message: string) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+function isKnownCategory(category: string): boolean {
+  const key = category.toLowerCase();
+  return key in SCORING_POLICY.categories || key in SCORING_POLICY.categoryAliases;
+}
+
+function isRunning(campaign: Campaign, at: Date): boolean {
+  if (campaign.status !== 'active') return false;
+  if (new Date(campaign.starts_at) > at || new Date(campaign.ends_at) <= at) return false;
+  return campaign.budget_points === null || campaign.spent_points < campaign.budget_points;
+}
+
+function coversLocation(geofence: CampaignGeofence | null, location?: { lat: number; lng: number } | null): boolean {
+  if (!geofence) return true;
+  if (!location) return false;
+  return haversineKm(geofence, location) <= geofence.radiusKm;
+}
+
+function describeBonus(campaign: Campaign): string {
+  const parts: string[] = [];
+  if (campaign.multiplier) parts.push(`${campaign.multiplier}x points`);
+  if (campaign.flat_bonus) parts.push(`+${campaign.flat_bonus} points`);
+  return parts.join(' and ');
+}
+
+/**
+ * Time-boxed bonus campaigns ("double points for e-waste this week", "glass drive
+ * in district X"). Matching campaigns become CampaignBonus inputs to the scoring
+ * policy; the bonus is charged to the campaign budget when the award settles.
+ */
+export class CampaignService {
+  // Demo fallback campaigns (used when Supabase is unreachable)
+  private demoCampaigns: Campaign[] = [];
+
+  async createCampaign(input: CreateCampaignInput): Promise<Campaign> {
+    const campaign = this.validate(input);
+
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .insert(campaign)
+        .select()
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.createDemoCampaign(campaign);
+        }
+        throw new Error(`Failed to create campaign: ${error.message}`);
+      }
+
+      return data as Campaign;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.createDemoCampaign(campaign);
+    }
+  }
+
+  async stopCampaign(id: string): Promise<Campaign> {
+    const stoppedAt = new Date().toISOString();
+
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .update({ status: 'stopped', stopped_at: stoppedAt })
+        .eq('id', id)
+        .eq('status', 'active')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.stopDemoCampaign(id, stoppedAt);
+        }
+        throw new Error(`Failed to stop campaign: ${error.message}`);
+      }
+
+      if (!data) {
+        const existing = await this.getCampaign(id);
+        throw existing
+          ? new CampaignError('CAMPAIGN_ALREADY_STOPPED', `Campaign ${id} is already stopped`)
+          : new CampaignError('CAMPAIGN_NOT_FOUND', `Campaign ${id} not found`);
+      }
+
+      return data as Campaign;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.stopDemoCampaign(id, stoppedAt);
+    }
+  }
+
+  async listCampaigns(includeStopped = true): Promise<Campaign[]> {
+    try {
+      let query = supabase
+        .from('campaigns')
+        .select('*')
+        .order('starts_at', { ascending: false })
+        .limit(100);
+
+      if (!includeStopped) query = query.eq('status', 'active');
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.listDemoCampaigns(includeStopped);
+        }
+        throw new Error(`Failed to fetch campaigns: ${error.message}`);
+      }
+
+      return (data || []) as Campaign[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.listDemoCampaigns(includeStopped);
+    }
+  }
+
+  async getCampaign(id: string): Promise<Campaign | null> {
+    const campaigns = await this.listCampaigns();
+    return campaigns.find(campaign => String(campaign.id) === String(id)) || null;
+  }
+
+  // Campaigns running at the given time with budget left
+  async getRunningCampaigns(at: Date = new Date()): Promise<Campaign[]> {
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('status', 'active')
+        .lte('starts_at', at.toISOString())
+        .gt('ends_at', at.toISOString());
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoCampaigns.filter(campaign => isRunning(campaign, at));
+        }
+        throw new Error(`Failed to fetch running campaigns: ${error.message}`);
+      }
+
+      return ((data || []) as Campaign[]).filter(campaign => isRunning(campaign, at));
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoCampaigns.filter(campaign => isRunning(campaign, at));
+    }
+  }
+
+  // Banner feed; without a location, district campaigns are listed too so people can find them
+  async getBanners(location?: { lat: number; lng: number } | null): Promise<CampaignBanner[]> {
+    const campaigns = await this.getRunningCampaigns();
+
+    return campaigns
+      .filter(campaign => !location || coversLocation(campaign.geofence, location))
+      .sort((a, b) => new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime())
+      .map(campaign => ({
+        id: String(campaign.id),
+        name: campaign.name,
+        description: campaign.description,
+        ends_at: campaign.ends_at,
+        waste_categories: campaign.waste_categories,
+        area: campaign.geofence?.label || (campaign.geofence ? `within ${campaign.geofence.radiusKm} km` : null),
+        bonus: describeBonus(campaign)
+      }));
+  }
+
+  // Bonuses to pass to the scoring policy for an award made at context.at (default now)
+  async getBonuses(context: CampaignContext): Promise<CampaignBonus[]> {
+    const at = context.at ? new Date(context.at) : new Date();
+    const category = normalizeCategory(context.wasteType);
+    const campaigns = await this.getRunningCampaigns(at);
+
+    return campaigns
+      .filter(campaign =>
+        (campaign.waste_categories.length === 0 || campaign.waste_categories.includes(category)) &&
+        coversLocation(campaign.geofence, context.location)
+      )
+      .map(campaign => ({
+        campaignId: String(campaign.id),
+        multiplier: campaign.multiplier ?? undefined,
+        flatPoints: campaign.flat_bonus ?? undefined
+      }));
+  }
+
+  /**
+   * Charges campaign bonuses to their budgets and returns how many of the requested
+   * points could not be granted. With Supabase this happens inside the settlement
+   * transaction (claim_campaign_bonuses); this is the demo-mode equivalent.
+   */
+  async claimBonuses(bonuses: CampaignBonusCharge[]): Promise<number> {
+    let shortfall = 0;
+    for (const bonus of bonuses) {
+      if (bonus.points > 0) {
+        shortfall += bonus.points - await this.claimBudget(bonus.campaignId, bonus.points);
+      }
+    }
+    return shortfall;
+  }
+
+  private async claimBudget(campaignId: string, points: number): Promise<number> {
+    try {
+      const { data, error } = await supabase.rpc('claim_campaign_budget', {
+        p_campaign_id: campaignId,
+        p_points: points
+      });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.claimDemoBudget(campaignId, points);
+        }
+        throw new Error(`Failed to claim campaign budget: ${error.message}`);
+      }
+
+      return Number(data) || 0;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.claimDemoBudget(campaignId, points);
+    }
+  }
+
+  private validate(input: CreateCampaignInput): Omit<Campaign, 'id' | 'created_at'> {
+    const invalid = (message: string) => new CampaignError('INVALID_CAMPAIGN', message);
+
+    if (!input.name?.trim()) throw invalid('name is required');
+
+    const startsAt = new Date(input.startsAt);
+    const endsAt = new Date(input.endsAt);
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      throw invalid('startsAt and endsAt must be valid dates');
+    }
+    if (startsAt >= endsAt) throw invalid('endsAt must be after startsAt');
+
+    const multiplier = input.multiplier ?? null;
+    const flatBonus = input.flatBonus ?? null;
+    if (multiplier === null && flatBonus === null) throw invalid('a multiplier or flatBonus is required');
+    if (multiplier !== null && !(multiplier > 1)) throw invalid('multiplier must be greater than 1');
+    if (flatBonus !== null && !(Number.isInteger(flatBonus) && flatBonus > 0)) {
+      throw invalid('flatBonus must be a positive integer');
+    }
+
+    const budgetPoints = input.budgetPoints ?? null;
+    if (budgetPoints !== null && !(Number.isInteger(budgetPoints) && budgetPoints > 0)) {
+      throw invalid('budgetPoints must be a positive integer');
+    }
+
+    const geofence = input.geofence ?? null;
+    if (geofence && (
+      typeof geofence.lat !== 'number' || typeof geofence.lng !== 'number' ||
+      typeof geofence.radiusKm !== 'number' || geofence.radiusKm <= 0
+    )) {
+      throw invalid('geofence needs numeric lat, lng and a positive radiusKm');
+    }
+
+    const categories = input.wasteCategories || [];
+    const unknown = categories.filter(category => !isKnownCategory(category));
+    if (unknown.length > 0) throw invalid(`Unknown waste categories: ${unknown.join(', ')}`);
+    const wasteCategories = Array.from(new Set(categories.map(category => normalizeCategory(category)))) as ScoringCategory[];
+
+    return {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      starts_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+      geofence,
+      waste_categories: wasteCategories,
+      multiplier,
+      flat_bonus: flatBonus,
+      budget_points: budgetPoints,
+      spent_points: 0,
+      status: 'active',
+      created_by: input.createdBy || null,
+      stopped_at: null
+    };
+  }
+
+  private createDemoCampaign(campaign: Omit<Campaign, 'id' | 'created_at'>): Campaign {
+    const created: Campaign = {
+      ...campaign,
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      created_at: new Date().toISOString()
+    };
+    this.demoCampaigns.push(created);
+    return created;
+  }
+
+  private stopDemoCampaign(id: string, stoppedAt: string): Campaign {
+    const campaign = this.demoCampaigns.find(c => c.id === id);
+    if (!campaign) throw new CampaignError('CAMPAIGN_NOT_FOUND', `Campaign ${id} not found`);
+    if (campaign.status === 'stopped') {
+      throw new CampaignError('CAMPAIGN_ALREADY_STOPPED', `Campaign ${id} is already stopped`);
+    }
+    campaign.status = 'stopped';
+    campaign.stopped_at = stoppedAt;
+    return campaign;
+  }
+
+  private listDemoCampaigns(includeStopped: boolean): Campaign[] {
+    return this.demoCampaigns
+      .filter(campaign => includeStopped || campaign.status === 'active')
+      .sort((a, b) => new Date(b.starts_at).getTime() - new Date(a.starts_at).getTime());
+  }
+
+  private claimDemoBudget(campaignId: string, points: number): number {
+    const campaign = this.demoCampaigns.find(c => c.id === campaignId);
+    if (!campaign || points <= 0) return 0;
+
+    const granted = campaign.budget_points === null
+      ? points
+      : Math.max(0, Math.min(points, campaign.budget_points - campaign.spent_points));
+    campaign.spent_points += granted;
+    return granted;
+  }
+}
+
+// Export singleton instance
+export const campaignService = new CampaignService();
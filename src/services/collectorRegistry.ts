@@ -0,0 +1,355 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import type {
+  Collector,
+  CollectorCandidate,
+  CollectorSearchCriteria,
+  CollectorStatus,
+  WorkingHours
+} from '@/types/collector';
+
+const DEFAULT_WORKING_HOURS: WorkingHours = { start: '08:00', end: '18:00', days: [1, 2, 3, 4, 5, 6] };
+const DEFAULT_TIMEZONE = 'UTC';
+const DEMO_TIMEZONE = 'America/New_York';
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DEFAULT_MAX_DISTANCE_KM = 25;
+const DEFAULT_CANDIDATE_LIMIT = 5;
+
+// Seed collectors used when Supabase is unreachable
+const DEMO_COLLECTORS: Collector[] = [
+  {
+    id: 'collector-ecopro',
+    name: 'EcoCollector Pro',
+    phone: '+1-555-0101',
+    status: 'AVAILABLE',
+    vehicle_type: 'truck',
+    capacity_kg: 1000,
+    current_load_kg: 250,
+    accepted_waste_types: ['plastic', 'paper', 'glass', 'metal', 'organic', 'mixed'],
+    working_hours: { start: '06:00', end: '20:00', days: [0, 1, 2, 3, 4, 5, 6] },
+    timezone: DEMO_TIMEZONE,
+    current_location: { lat: 40.7580, lng: -73.9855 },
+    last_active_at: new Date().toISOString()
+  },
+  {
+    id: 'collector-greenpickup',
+    name: 'Green Pickup Service',
+    phone: '+1-555-0102',
+    status: 'AVAILABLE',
+    vehicle_type: 'van',
+    capacity_kg: 400,
+    current_load_kg: 60,
+    accepted_waste_types: ['plastic', 'paper', 'metal', 'electronic'],
+    working_hours: DEFAULT_WORKING_HOURS,
+    timezone: DEMO_TIMEZONE,
+    current_location: { lat: 40.7484, lng: -73.9967 },
+    last_active_at: new Date().toISOString()
+  },
+  {
+    id: 'collector-cyclecycle',
+    name: 'CycleCycle Couriers',
+    phone: '+1-555-0103',
+    status: 'AVAILABLE',
+    vehicle_type: 'bike',
+    capacity_kg: 40,
+    current_load_kg: 5,
+    accepted_waste_types: ['plastic', 'paper', 'metal'],
+    working_hours: { start: '07:00', end: '19:00', days: [0, 1, 2, 3, 4, 5, 6] },
+    timezone: DEMO_TIMEZONE,
+    current_location: { lat: 40.7308, lng: -73.9973 },
+    last_active_at: new Date().toISOString()
+  },
+  {
+    id: 'collector-organicloop',
+    name: 'Organic Loop',
+    phone: '+1-555-0104',
+    status: 'OFFLINE',
+    vehicle_type: 'van',
+    capacity_kg: 600,
+    current_load_kg: 0,
+    accepted_waste_types: ['organic'],
+    working_hours: DEFAULT_WORKING_HOURS,
+    timezone: DEMO_TIMEZONE,
+    current_location: { lat: 40.7812, lng: -73.9665 },
+    last_active_at: new Date().toISOString()
+  }
+];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Weekday and minute of the day on the wall clock in timeZone
+function localTime(at: Date, timeZone: string): { day: number; minutes: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = formatter.formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  };
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isWithinWorkingHours(
+  hours: WorkingHours | null | undefined,
+  at = new Date(),
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
+  const schedule = hours || DEFAULT_WORKING_HOURS;
+  const { day, minutes: now } = localTime(at, isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE);
+  if (!schedule.days.includes(day)) return false;
+
+  const start = toMinutes(schedule.start);
+  const end = toMinutes(schedule.end);
+
+  // Shifts that cross midnight (e.g. 22:00-06:00)
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const R = 6371; // Earth's radius in km
+  const toRad = (value: number) => value * Math.PI / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export class CollectorRegistryService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoCollectors = DEMO_COLLECTORS.map(collector => ({ ...collector }));
+
+  async listCollectors(status?: CollectorStatus): Promise<Collector[]> {
+    try {
+      let query = supabase.from('collectors').select('*').order('name', { ascending: true });
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoCollectors.filter(c => !status || c.status === status);
+        }
+        throw new Error(`Failed to fetch collectors: ${error.message}`);
+      }
+
+      return (data || []) as Collector[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoCollectors.filter(c => !status || c.status === status);
+    }
+  }
+
+  async getCollector(collectorId: string): Promise<Collector | null> {
+    try {
+      const { data, error } = await supabase
+        .from('collectors')
+        .select('*')
+        .eq('id', collectorId)
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoCollectors.find(c => c.id === collectorId) || null;
+        }
+        throw new Error(`Failed to fetch collector: ${error.message}`);
+      }
+
+      return (data as Collector) || null;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoCollectors.find(c => c.id === collectorId) || null;
+    }
+  }
+
+  /**
+   * Registers a new collector or updates an existing one's profile. A new collector starts
+   * AVAILABLE and empty; an update leaves the live status and load alone unless given.
+   */
+  async registerCollector(input: Omit<Collector, 'last_active_at' | 'current_load_kg' | 'status' | 'timezone'> & Partial<Collector>): Promise<Collector> {
+    const { status, current_load_kg, ...profile } = input;
+    // Columns left out of the upsert take the table defaults on insert and are kept on update
+    const collector: Omit<Collector, 'status' | 'current_load_kg'> & Partial<Collector> = {
+      ...profile,
+      ...(status !== undefined && { status }),
+      ...(current_load_kg !== undefined && { current_load_kg }),
+      working_hours: input.working_hours || DEFAULT_WORKING_HOURS,
+      timezone: input.timezone || DEFAULT_TIMEZONE,
+      current_location: input.current_location ?? null,
+      last_active_at: new Date().toISOString()
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from('collectors')
+        .upsert(collector, { onConflict: 'id' })
+        .select()
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.upsertDemo(collector);
+        }
+        throw new Error(`Failed to register collector: ${error.message}`);
+      }
+
+      return data as Collector;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.upsertDemo(collector);
+    }
+  }
+
+  async updateLocation(collectorId: string, location: { lat: number; lng: number }): Promise<void> {
+    await this.updateCollector(collectorId, {
+      current_location: { lat: location.lat, lng: location.lng },
+      last_active_at: new Date().toISOString()
+    });
+  }
+
+  async setStatus(collectorId: string, status: CollectorStatus): Promise<void> {
+    await this.updateCollector(collectorId, { status, last_active_at: new Date().toISOString() });
+  }
+
+  // Applied in one statement so concurrent adjustments can't lose each other's change.
+  // Pickups adjust it through their status transitions (see pickupLifecycle).
+  async adjustLoad(collectorId: string, deltaKg: number): Promise<void> {
+    try {
+      const { error } = await supabase.rpc('adjust_collector_load', {
+        p_collector_id: collectorId,
+        p_delta_kg: deltaKg
+      });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          this.adjustDemoLoad(collectorId, deltaKg);
+          return;
+        }
+        throw new Error(`Failed to adjust collector load: ${error.message}`);
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      this.adjustDemoLoad(collectorId, deltaKg);
+    }
+  }
+
+  /**
+   * Available collectors that can take the pickup right now, nearest and
+   * least-loaded first. Distance is straight-line from the last reported location.
+   */
+  async findCandidates(criteria: CollectorSearchCriteria): Promise<CollectorCandidate[]> {
+    const at = criteria.at || new Date();
+    const maxDistanceKm = criteria.maxDistanceKm ?? DEFAULT_MAX_DISTANCE_KM;
+    const requiredKg = criteria.requiredCapacityKg ?? 0;
+    const wasteType = criteria.wasteType?.toLowerCase();
+
+    const available = await this.listCollectors('AVAILABLE');
+
+    return available
+      .filter(collector => collector.current_location)
+      .filter(collector => !criteria.vehicleType || collector.vehicle_type === criteria.vehicleType)
+      .filter(collector => !wasteType || wasteType === 'mixed' || collector.accepted_waste_types.includes(wasteType))
+      .filter(collector => isWithinWorkingHours(collector.working_hours, at, collector.timezone))
+      .map(collector => {
+        const remainingCapacityKg = collector.capacity_kg - collector.current_load_kg;
+        const loadRatio = collector.capacity_kg > 0 ? collector.current_load_kg / collector.capacity_kg : 1;
+        const distanceKm = haversineKm(
+          { lat: criteria.lat, lng: criteria.lng },
+          collector.current_location as { lat: number; lng: number }
+        );
+
+        return {
+          collector,
+          distanceKm,
+          remainingCapacityKg,
+          loadRatio,
+          // Prefer nearby collectors, penalising ones that are close to full
+          score: distanceKm * (1 + loadRatio)
+        };
+      })
+      .filter(candidate => candidate.remainingCapacityKg >= requiredKg && candidate.distanceKm <= maxDistanceKm)
+      .sort((a, b) => a.score - b.score)
+      .slice(0, criteria.limit ?? DEFAULT_CANDIDATE_LIMIT);
+  }
+
+  private async updateCollector(collectorId: string, changes: Partial<Collector>): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('collectors')
+        .update(changes)
+        .eq('id', collectorId);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          this.updateDemo(collectorId, changes);
+          return;
+        }
+        throw new Error(`Failed to update collector: ${error.message}`);
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      this.updateDemo(collectorId, changes);
+    }
+  }
+
+  private updateDemo(collectorId: string, changes: Partial<Collector>): void {
+    const collector = this.demoCollectors.find(c => c.id === collectorId);
+    if (collector) {
+      Object.assign(collector, changes);
+    }
+  }
+
+  private adjustDemoLoad(collectorId: string, deltaKg: number): void {
+    const collector = this.demoCollectors.find(c => c.id === collectorId);
+    if (collector) {
+      collector.current_load_kg = Math.max(0, Math.min(collector.capacity_kg, collector.current_load_kg + deltaKg));
+      if (collector.status !== 'OFFLINE') {
+        collector.status = collector.current_load_kg >= collector.capacity_kg ? 'BUSY' : 'AVAILABLE';
+      }
+    }
+  }
+
+  private upsertDemo(changes: Omit<Collector, 'status' | 'current_load_kg'> & Partial<Collector>): Collector {
+    const index = this.demoCollectors.findIndex(c => c.id === changes.id);
+    if (index >= 0) {
+      return Object.assign(this.demoCollectors[index], changes);
+    }
+    const collector: Collector = { status: 'AVAILABLE', current_load_kg: 0, ...changes };
+    this.demoCollectors.push(collector);
+    return collector;
+  }
+}
+
+// Export singleton instance
+export const collectorRegistry = new CollectorRegistryService();
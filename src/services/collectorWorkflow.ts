@@ -0,0 +1,465 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { collectorRegistry } from './collectorRegistry';
+import { campaignService } from './campaignService';
+import { calculateOptimalRoute } from './ospfRouting';
+import { pickupLifecycle, PickupTransitionError } from './pickupLifecycle';
+import { pickupService } from './pickupService';
+import { pointsLedger } from './pointsLedger';
+import { routeOptimization, type OptimizedRoute } from './routeOptimization';
+import { CONTAMINATION_GRADES, scoreMixedWeight } from './scoringPolicy';
+import type { CollectionRecord, Collector, ContaminationGrade, StopNavigation } from '@/types/collector';
+import type { ScoredDetectedItem } from '@/types/detection';
+import type { PickupActor, PickupStatus, PickupTicket } from '@/types/pickup';
+import type { MixedWeightScoringInput } from '@/types/scoring';
+
+export type CollectionErrorCode =
+  | 'COLLECTOR_NOT_FOUND'
+  | 'INVALID_COLLECTION'
+  | 'COLLECTION_NOT_FOUND'
+  | 'COLLECTION_ALREADY_RECORDED';
+
+export class CollectionError extends Error {
+  constructor(public code: CollectionErrorCode, message: string) {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+export interface CollectionInput {
+  actualWeightKg: number;
+  contaminationGrade: ContaminationGrade;
+  photoUrl: string;
+  notes?: string;
+}
+
+export interface CollectorDay {
+  collector: Collector;
+  route: OptimizedRoute | null;
+  stops: Array<{ pickup: PickupTicket; collection: CollectionRecord | null }>;
+}
+
+export interface CollectionSettlement {
+  collection: CollectionRecord;
+  points: number | null;  // null while the collection waits for ops verification
+  balance: number | null; // citizen's balance after crediting, when they could be credited
+}
+
+// Collections far heavier than the citizen's estimate, or with no estimate to compare against,
+// wait for ops instead of settling automatically
+const AUTO_VERIFY_MAX_WEIGHT_RATIO = 3;
+const ACTIVE_STATUSES: PickupStatus[] = ['ASSIGNED', 'EN_ROUTE', 'ARRIVED', 'COLLECTED'];
+
+
+/**
+ * The collector's side of a pickup: accept or decline the assignment, drive
+ * to the stop, record what was actually collected, and settle points from that
+ * record once it is verified (automatically when it looks plausible, by ops
+ * otherwise). Citizens are never credited from their own estimate here.
+ */
+export class CollectorWorkflowService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoCollections = new Map<number, CollectionRecord>();
+
+  async getToday(collectorId: string): Promise<CollectorDay> {
+    const collector = await this.getCollector(collectorId);
+    const pickups = await pickupService.getCollectorPickups(collectorId, ACTIVE_STATUSES);
+    const collections = await this.getCollections(pickups.map(pickup => pickup.id));
+
+    return {
+      collector,
+      route: await this.getTodaysRoute(collectorId, pickups),
+      stops: pickups.map(pickup => ({
+        pickup,
+        collection: collections.find(c => c.submission_id === pickup.id) || null
+      }))
+    };
+  }
+
+  async accept(submissionId: number, collectorId: string): Promise<PickupTicket> {
+    const pickup = await this.getAssignedPickup(submissionId, collectorId);
+    if (pickup.status !== 'ASSIGNED') {
+      throw new PickupTransitionError('INVALID_PICKUP_TRANSITION', `Pickup ${submissionId} is ${pickup.status}, not waiting for acceptance`);
+    }
+
+    if (!await pickupService.markAccepted(submissionId, collectorId)) {
+      throw new PickupTransitionError('PICKUP_STATUS_CONFLICT', `Pickup ${submissionId} changed while it was being accepted; reload and retry`);
+    }
+    return { ...pickup, accepted_at: new Date().toISOString() };
+  }
+
+  // Hands the pickup back to the ops queue
+  async decline(submissionId: number, collectorId: string, reason?: string): Promise<void> {
+    const pickup = await this.getAssignedPickup(submissionId, collectorId);
+    await pickupService.unassignPickup(pickup, {
+      actor: 'collector',
+      actorId: collectorId,
+      reason: reason?.trim() || 'Declined by collector'
+    });
+  }
+
+  async startStop(submissionId: number, collectorId: string): Promise<StopNavigation> {
+    const pickup = await this.getAssignedPickup(submissionId, collectorId);
+    if (pickup.status === 'ASSIGNED' && !pickup.accepted_at) {
+      throw new PickupTransitionError('INVALID_PICKUP_TRANSITION', `Accept pickup ${submissionId} before heading to it`);
+    }
+
+    await pickupLifecycle.transition(submissionId, 'EN_ROUTE', { actor: 'collector', actorId: collectorId });
+    return this.navigate(pickup, collectorId);
+  }
+
+  // Turn-by-turn directions from the collector's last reported position to the stop
+  async getNavigation(submissionId: number, collectorId: string): Promise<StopNavigation> {
+    const pickup = await this.getAssignedPickup(submissionId, collectorId);
+    return this.navigate(pickup, collectorId);
+  }
+
+  async arrive(submissionId: number, collectorId: string): Promise<void> {
+    const pickup = await this.getAssignedPickup(submissionId, collectorId);
+    await pickupLifecycle.transition(submissionId, 'ARRIVED', { actor: 'collector', actorId: collectorId });
+    await collectorRegistry.updateLocation(collectorId, pickup.location);
+  }
+
+  /**
+   * Records the weight, contamination grade and photo taken at the stop and
+   * marks the pickup COLLECTED. Plausible collections settle straight away.
+   * A retry after the status change failed replaces the saved record and carries on.
+   */
+  async recordCollection(submissionId: number, collectorId: string, input: CollectionInput): Promise<CollectionSettlement> {
+    if (!(input.actualWeightKg > 0)) {
+      throw new CollectionError('INVALID_COLLECTION', 'actualWeightKg must be a positive number');
+    }
+    if (!CONTAMINATION_GRADES.includes(input.contaminationGrade)) {
+      throw new CollectionError('INVALID_COLLECTION', `contaminationGrade must be one of: ${CONTAMINATION_GRADES.join(', ')}`);
+    }
+    if (!input.photoUrl) {
+      throw new CollectionError('INVALID_COLLECTION', 'A photo of the collected load is required');
+    }
+
+    const pickup = await this.getAssignedPickup(submissionId, collectorId);
+    if (pickup.status !== 'ARRIVED') {
+      throw new PickupTransitionError('INVALID_PICKUP_TRANSITION', `Mark pickup ${submissionId} as arrived before recording the collection`);
+    }
+    // Still ARRIVED with a record means the COLLECTED transition failed last time
+    const [previous] = await this.getCollections([submissionId]);
+
+    const collection = await this.saveCollection({
+      submission_id: submissionId,
+      collector_id: collectorId,
+      actual_weight_kg: input.actualWeightKg,
+      contamination_grade: input.contaminationGrade,
+      photo_url: input.photoUrl,
+      notes: input.notes?.trim() || null,
+      points_awarded: null,
+      policy_version: null,
+      recorded_at: new Date().toISOString(),
+      verified_at: null,
+      verified_by: null
+    }, Boolean(previous));
+
+    // The collector's load now reflects what is actually on the vehicle
+    await pickupLifecycle.transition(submissionId, 'COLLECTED', {
+      actor: 'collector',
+      actorId: collectorId,
+      loadKg: input.actualWeightKg
+    });
+
+    const plausible = Boolean(pickup.estimated_weight) &&
+      input.actualWeightKg <= pickup.estimated_weight! * AUTO_VERIFY_MAX_WEIGHT_RATIO;
+    if (!plausible) {
+      console.log(`⚖️ Pickup ${submissionId}: ${input.actualWeightKg} kg vs ${pickup.estimated_weight ?? 'no'} kg estimated, held for ops verification`);
+      return { collection, points: null, balance: null };
+    }
+
+    return this.verifyCollection(submissionId, 'system');
+  }
+
+  /**
+   * Verifies a recorded collection and settles the citizen's points from it:
+   * COLLECTED → VERIFIED, settle the provisional hold through the ledger, → COMPLETED.
+   * Every step after VERIFIED is idempotent, so a pickup left VERIFIED by a failed
+   * settlement is finished by calling this again.
+   */
+  async verifyCollection(submissionId: number, actor: Extract<PickupActor, 'ops' | 'system'>, actorId?: string): Promise<CollectionSettlement> {
+    const [collection] = await this.getCollections([submissionId]);
+    if (!collection) {
+      throw new CollectionError('COLLECTION_NOT_FOUND', `No collection recorded for pickup ${submissionId}`);
+    }
+    const [pickup] = await pickupService.getTickets([submissionId]);
+    if (!pickup) {
+      throw new PickupTransitionError('PICKUP_NOT_FOUND', `Pickup ${submissionId} not found`);
+    }
+
+    if (pickup.status !== 'VERIFIED') {
+      await pickupLifecycle.transition(submissionId, 'VERIFIED', { actor, actorId });
+    }
+
+    // Items of several categories are each paid for their share of the weight. Campaigns running
+    // when the citizen submitted apply; their budgets are charged in the same transaction that
+    // credits the points, so a held or rejected settlement spends nothing
+    const shares = await this.getCategoryShares(submissionId, pickup.waste_type);
+    const parts: MixedWeightScoringInput['parts'] = [];
+    for (const [wasteType, share] of Array.from(shares)) {
+      parts.push({
+        wasteType,
+        share,
+        bonuses: await campaignService.getBonuses({ wasteType, location: pickup.location, at: pickup.created_at })
+      });
+    }
+    const award = scoreMixedWeight({
+      weightKg: collection.actual_weight_kg,
+      contamination: collection.contamination_grade,
+      parts
+    });
+    const categories = parts.map(part => part.wasteType).join(', ');
+
+    // Settles the provisional hold taken at submission time; submissions without one get a hold first.
+    // The ledger also writes the credited amount onto the submission, once it is actually credited.
+    const userEmail = pickup.user_id ? await this.getUserEmail(pickup.user_id) : null;
+    const { hold, balance } = await pointsLedger.settleProvisional({
+      source: { type: 'submission', id: String(submissionId) },
+      finalPoints: award.points,
+      policyVersion: award.policyVersion,
+      campaignBonuses: award.campaigns,
+      userEmail: userEmail ?? undefined,
+      note: `Collected ${collection.actual_weight_kg} kg ${categories} (${collection.contamination_grade})` +
+        (award.campaignBonus > 0 ? `, +${award.campaignBonus} campaign bonus` : '')
+    });
+
+    // What was credited, after any campaign budget shortfall; a held hold has credited nothing yet
+    const points = hold?.status === 'settled' ? hold.settled_points ?? award.points : award.points;
+    const policyVersion = award.policyVersion;
+    const verified: CollectionRecord = {
+      ...collection,
+      points_awarded: points,
+      policy_version: policyVersion,
+      verified_at: collection.verified_at ?? new Date().toISOString(),
+      verified_by: collection.verified_by ?? (actorId || actor)
+    };
+    await this.saveSettlement(verified);
+
+    await pickupLifecycle.transition(submissionId, 'COMPLETED', { actor: 'system' });
+
+    console.log(`✅ Pickup ${submissionId} settled: ${points} points from ${collection.actual_weight_kg} kg (${collection.contamination_grade})`);
+
+    return { collection: verified, points, balance };
+  }
+
+  private async navigate(pickup: PickupTicket, collectorId: string): Promise<StopNavigation> {
+    const collector = await this.getCollector(collectorId);
+    const from = collector.current_location || pickup.location;
+    const result = await calculateOptimalRoute(from.lat, from.lng, pickup.location.lat, pickup.location.lng);
+
+    return {
+      submission_id: pickup.id,
+      from: { lat: from.lat, lng: from.lng },
+      to: pickup.location,
+      distanceKm: Math.round(result.totalDistance * 100) / 100,
+      durationMinutes: Math.round(result.estimatedTime),
+      instructions: result.route.instructions,
+      coordinates: result.route.coordinates
+    };
+  }
+
+  private async getCollector(collectorId: string): Promise<Collector> {
+    const collector = await collectorRegistry.getCollector(collectorId);
+    if (!collector) {
+      throw new CollectionError('COLLECTOR_NOT_FOUND', `Collector ${collectorId} not found`);
+    }
+    return collector;
+  }
+
+  private async getAssignedPickup(submissionId: number, collectorId: string): Promise<PickupTicket> {
+    const [pickup] = await pickupService.getTickets([submissionId]);
+    if (!pickup) {
+      throw new PickupTransitionError('PICKUP_NOT_FOUND', `Pickup ${submissionId} not found`);
+    }
+    if (pickup.collector_id !== collectorId) {
+      throw new PickupTransitionError('NOT_ASSIGNED_COLLECTOR', `Pickup ${submissionId} is not assigned to this collector`);
+    }
+    return pickup;
+  }
+
+  // The route the stops were planned on, else the collector's latest route from today
+  private async getTodaysRoute(collectorId: string, pickups: PickupTicket[]): Promise<OptimizedRoute | null> {
+    const routeIds = Array.from(new Set(pickups.map(p => p.optimized_route_id).filter((id): id is string => Boolean(id))));
+
+    if (routeIds.length === 0) {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+
+      try {
+        const { data, error } = await supabase
+          .from('optimized_routes')
+          .select('route_id')
+          .eq('collector_id', collectorId)
+          .eq('status', 'active')
+          .gte('created_at', startOfDay.toISOString())
+          .order('created_at', { ascending: false })
+          .limit(1);
+
+        if (error && !isFetchFailedError(error)) {
+          throw new Error(`Failed to fetch collector route: ${error.message}`);
+        }
+        if (data?.[0]) routeIds.push(data[0].route_id);
+      } catch (supabaseError) {
+        if (!isFetchFailedError(supabaseError)) {
+          throw supabaseError;
+        }
+      }
+    }
+
+    for (const routeId of routeIds) {
+      const route = await routeOptimization.getRouteById(routeId);
+      if (route) return route;
+    }
+    return null;
+  }
+
+  private async getCollections(submissionIds: number[]): Promise<CollectionRecord[]> {
+    if (submissionIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('pickup_collections')
+        .select('*')
+        .in('submission_id', submissionIds);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoCollections(submissionIds);
+        }
+        throw new Error(`Failed to fetch collections: ${error.message}`);
+      }
+
+      return (data || []) as CollectionRecord[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoCollections(submissionIds);
+    }
+  }
+
+  // replace overwrites an unverified record left by an attempt that failed before COLLECTED
+  private async saveCollection(collection: CollectionRecord, replace = false): Promise<CollectionRecord> {
+    try {
+      const { data, error } = await (replace
+        ? supabase
+            .from('pickup_collections')
+            .update(collection)
+            .eq('submission_id', collection.submission_id)
+            .is('verified_at', null)
+        : supabase
+            .from('pickup_collections')
+            .insert(collection))
+        .select()
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          this.demoCollections.set(collection.submission_id, collection);
+          return collection;
+        }
+        // 23505: another insert won; PGRST116: the record being replaced was verified meanwhile
+        if (error.code === '23505' || error.code === 'PGRST116') {
+          throw new CollectionError('COLLECTION_ALREADY_RECORDED', `Collection for pickup ${collection.submission_id} was already recorded`);
+        }
+        throw new Error(`Failed to record collection: ${error.message}`);
+      }
+
+      return data as CollectionRecord;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      this.demoCollections.set(collection.submission_id, collection);
+      return collection;
+    }
+  }
+
+  // Stores the settled points on the collection and the submission
+  private async saveSettlement(collection: CollectionRecord): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('pickup_collections')
+        .update({
+          points_awarded: collection.points_awarded,
+          policy_version: collection.policy_version,
+          verified_at: collection.verified_at,
+          verified_by: collection.verified_by
+        })
+        .eq('submission_id', collection.submission_id);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          this.demoCollections.set(collection.submission_id, collection);
+          return;
+        }
+        throw new Error(`Failed to settle collection: ${error.message}`);
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      this.demoCollections.set(collection.submission_id, collection);
+    }
+  }
+
+  // Each category's share of the weight, counted from the items the citizen kept. No item is
+  // weighed on its own, so every kept item counts the same; without items it is all the primary type.
+  private async getCategoryShares(submissionId: number, primaryType: string): Promise<Map<string, number>> {
+    const shares = new Map<string, number>();
+    try {
+      const { data, error } = await supabase
+        .from('waste_submissions')
+        .select('items')
+        .eq('id', submissionId)
+        .maybeSingle();
+
+      if (error && !isFetchFailedError(error)) {
+        throw new Error(`Failed to fetch submission items: ${error.message}`);
+      }
+      const items = ((data?.items || []) as ScoredDetectedItem[]).filter(item => item.confirmed);
+      for (const item of items) {
+        shares.set(item.wasteType, (shares.get(item.wasteType) || 0) + 1);
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+    }
+
+    if (shares.size === 0) shares.set(primaryType, 1);
+    return shares;
+  }
+
+  private async getUserEmail(userId: string): Promise<string | null> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('email')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) return null;
+        throw new Error(`Failed to fetch user: ${error.message}`);
+      }
+      return data?.email || null;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return null;
+    }
+  }
+
+  private getDemoCollections(submissionIds: number[]): CollectionRecord[] {
+    return submissionIds
+      .map(id => this.demoCollections.get(id))
+      .filter((collection): collection is CollectionRecord => Boolean(collection));
+  }
+}
+
+// Export singleton instance
+export const collectorWorkflow = new CollectorWorkflowService();
@@ -0,0 +1,395 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { FALLBACK_MODEL } from './aiWasteDetection';
+import { pointsLedger } from './pointsLedger';
+import { SCORING_POLICY, normalizeCategory, scoreDetectedItems } from './scoringPolicy';
+import type { ScoredDetectedItem, ServerWasteAnalysis } from '@/types/detection';
+import type { PointsSource } from '@/types/points';
+import type { ScoringCategory } from '@/types/scoring';
+import type {
+  DetectionReview,
+  DetectionReviewStatus,
+  ModerationEvaluation,
+  ModerationReason
+} from '@/types/moderation';
+
+export type ModerationErrorCode = 'REVIEW_NOT_FOUND' | 'REVIEW_ALREADY_RESOLVED' | 'INVALID_LABEL';
+
+export class ModerationError extends Error {
+  constructor(public code: ModerationErrorCode, message: string) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+// Overridable per deployment with MODERATION_MIN_CONFIDENCE (0-1)
+const DEFAULT_MIN_CONFIDENCE = 0.7;
+const EVALUATION_LIMIT = 10000;
+
+function minConfidence(): number {
+  const configured = parseFloat(process.env.MODERATION_MIN_CONFIDENCE || '');
+  return configured > 0 && configured <= 1 ? configured : DEFAULT_MIN_CONFIDENCE;
+}
+
+// Items that carried the predicted category take the moderator's label; the rest keep theirs
+function relabelItems(review: DetectionReview, label: ScoringCategory): { items: ScoredDetectedItem[]; points: number; policyVersion: string } {
+  const predicted = normalizeCategory(review.predicted_label);
+  // Reviews opened before items were recorded cover the photo as one item
+  const items: ScoredDetectedItem[] = review.items?.length
+    ? review.items
+    : [{
+        className: review.predicted_label,
+        clientWasteType: review.predicted_label,
+        wasteType: review.predicted_label,
+        confidence: review.confidence,
+        quality: review.quality,
+        bbox: { x: 0, y: 0, width: 0, height: 0 },
+        verified: true,
+        confirmed: true,
+        points: 0
+      }];
+
+  const relabeled = items.map(item =>
+    normalizeCategory(item.wasteType) === predicted ? { ...item, wasteType: label } : item
+  );
+  // Items the server's detector never found stay at zero; older reviews don't record it
+  const scored = relabeled.filter(item => item.confirmed !== false);
+  const award = scoreDetectedItems(scored.map(item => ({ wasteType: item.wasteType, quality: item.quality })));
+
+  return {
+    items: relabeled.map(item => ({ ...item, points: item.confirmed !== false ? award.items[scored.indexOf(item)].points : 0 })),
+    points: award.points,
+    policyVersion: award.policyVersion
+  };
+}
+
+/**
+ * Routes detections the classifier isn't sure about to a human: low ensemble confidence,
+ * detectors voting for different categories, the canned fallback result, or images the
+ * server couldn't decode. Their points stay 'held' until a moderator confirms or relabels
+ * the category, and the moderator's label is kept as ground truth for evaluating the models.
+ */
+export class DetectionModerationService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoReviews: DetectionReview[] = [];
+
+  // Why a detection needs a human label; empty when it can be scored automatically
+  triage(server: ServerWasteAnalysis): ModerationReason[] {
+    const reasons: ModerationReason[] = [];
+    const threshold = minConfidence();
+
+    if (!server.verified) {
+      reasons.push({ type: 'UNVERIFIED', detail: 'Image could not be decoded for classification' });
+    } else if (server.modelUsed === FALLBACK_MODEL) {
+      reasons.push({ type: 'FALLBACK_RESULT', detail: 'All detectors failed; fallback category was used' });
+    }
+
+    if (server.verified && server.confidence < threshold) {
+      reasons.push({
+        type: 'LOW_CONFIDENCE',
+        detail: `Confidence ${Math.round(server.confidence * 100)}% is below ${Math.round(threshold * 100)}%`
+      });
+    }
+
+    const votedCategories = new Set(server.modelVotes.map(vote => normalizeCategory(vote.wasteType)));
+    if (votedCategories.size > 1) {
+      reasons.push({
+        type: 'MODEL_DISAGREEMENT',
+        detail: server.modelVotes.map(vote => `${vote.model}: ${vote.wasteType}`).join(', ')
+      });
+    }
+
+    return reasons;
+  }
+
+  async openReview(input: {
+    userEmail: string;
+    detectionId: string | null;
+    source: Required<PointsSource>;
+    server: ServerWasteAnalysis;
+    items: ScoredDetectedItem[];
+    reasons: ModerationReason[];
+  }): Promise<DetectionReview> {
+    const review = {
+      user_email: input.userEmail,
+      detection_id: input.detectionId,
+      source_type: input.source.type,
+      source_id: input.source.id,
+      predicted_label: normalizeCategory(input.server.wasteType),
+      confidence: input.server.confidence,
+      quality: input.server.quality,
+      model_used: input.server.modelUsed,
+      model_votes: input.server.modelVotes,
+      items: input.items,
+      reasons: input.reasons,
+      status: 'open' as DetectionReviewStatus
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from('detection_reviews')
+        .insert(review)
+        .select()
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.openDemoReview(review);
+        }
+        throw new Error(`Failed to open detection review: ${error.message}`);
+      }
+
+      return data as DetectionReview;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.openDemoReview(review);
+    }
+  }
+
+  async getQueue(status: DetectionReviewStatus = 'open', limit = 100): Promise<DetectionReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('detection_reviews')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'open' })
+        .limit(limit);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoReviews.filter(review => review.status === status).slice(0, limit);
+        }
+        throw new Error(`Failed to fetch detection reviews: ${error.message}`);
+      }
+
+      return (data || []) as DetectionReview[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoReviews.filter(review => review.status === status).slice(0, limit);
+    }
+  }
+
+  /**
+   * Confirm the predicted category or relabel it. A relabel moves the items that carried the
+   * predicted category to the corrected one and re-estimates the held points; either way the points are released to the normal
+   * settlement flow and the label is stored as ground truth.
+   */
+  async resolveReview(id: string, label: string, reviewerId?: string, note?: string): Promise<DetectionReview> {
+    const key = (label || '').toLowerCase();
+    if (!(key in SCORING_POLICY.categories) && !(key in SCORING_POLICY.categoryAliases)) {
+      throw new ModerationError(
+        'INVALID_LABEL',
+        `label must be one of: ${Object.keys(SCORING_POLICY.categories).join(', ')}`
+      );
+    }
+    const actual = normalizeCategory(key);
+
+    const review = await this.getReview(id);
+    if (!review) {
+      throw new ModerationError('REVIEW_NOT_FOUND', `Detection review ${id} not found`);
+    }
+    if (review.status !== 'open') {
+      throw new ModerationError('REVIEW_ALREADY_RESOLVED', `Detection review ${id} was already ${review.status}`);
+    }
+
+    const relabeled = actual !== normalizeCategory(review.predicted_label);
+    const resolved = await this.closeReview(review, {
+      status: relabeled ? 'relabeled' : 'confirmed',
+      reviewed_label: actual,
+      reviewer_id: reviewerId || null,
+      review_note: note || null,
+      resolved_at: new Date().toISOString()
+    });
+
+    const source: Required<PointsSource> = { type: review.source_type, id: review.source_id };
+    const relabeledItems = relabeled ? relabelItems(review, actual) : null;
+    await this.recordGroundTruth(review, actual, relabeledItems?.items ?? null);
+
+    if (relabeledItems) {
+      await pointsLedger.reviseProvisional(source, relabeledItems.points, relabeledItems.policyVersion);
+    }
+
+    try {
+      await pointsLedger.resolveHold(
+        source,
+        true,
+        relabeled ? `Moderation: relabeled ${review.predicted_label} → ${actual}` : 'Moderation: category confirmed'
+      );
+    } catch (ledgerError) {
+      // Nothing to release when fraud review already rejected the points or no hold was recorded;
+      // the label still counts as ground truth
+      const message = ledgerError instanceof Error ? ledgerError.message : '';
+      if (!message.includes('PROVISIONAL_NOT_HELD') && !message.includes('PROVISIONAL_NOT_FOUND')) {
+        throw ledgerError;
+      }
+    }
+
+    return resolved;
+  }
+
+  // Classifier accuracy against every resolved review
+  async getEvaluation(): Promise<ModerationEvaluation> {
+    let labeled: Array<Pick<DetectionReview, 'predicted_label' | 'reviewed_label'>>;
+
+    try {
+      const { data, error } = await supabase
+        .from('detection_reviews')
+        .select('predicted_label, reviewed_label')
+        .neq('status', 'open')
+        .order('resolved_at', { ascending: false })
+        .limit(EVALUATION_LIMIT);
+
+      if (error) {
+        if (!isFetchFailedError(error)) {
+          throw new Error(`Failed to fetch resolved detection reviews: ${error.message}`);
+        }
+        labeled = this.demoReviews.filter(review => review.status !== 'open');
+      } else {
+        labeled = data || [];
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      labeled = this.demoReviews.filter(review => review.status !== 'open');
+    }
+
+    const byPredictedLabel: ModerationEvaluation['byPredictedLabel'] = {};
+    const confusionCounts = new Map<string, number>();
+    let correct = 0;
+
+    for (const { predicted_label: predicted, reviewed_label: actual } of labeled) {
+      if (!actual) continue;
+      const stats = byPredictedLabel[predicted] || (byPredictedLabel[predicted] = { reviewed: 0, correct: 0 });
+      stats.reviewed++;
+      if (predicted === actual) {
+        stats.correct++;
+        correct++;
+      } else {
+        const pair = `${predicted}→${actual}`;
+        confusionCounts.set(pair, (confusionCounts.get(pair) || 0) + 1);
+      }
+    }
+
+    const reviewed = Object.values(byPredictedLabel).reduce((sum, stats) => sum + stats.reviewed, 0);
+    const confusions = Array.from(confusionCounts.entries())
+      .map(([pair, count]) => {
+        const [predicted, actual] = pair.split('→');
+        return { predicted, actual, count };
+      })
+      .sort((a, b) => b.count - a.count);
+
+    return {
+      reviewed,
+      correct,
+      accuracy: reviewed > 0 ? Math.round((correct / reviewed) * 1000) / 1000 : null,
+      byPredictedLabel,
+      confusions
+    };
+  }
+
+  private async getReview(id: string): Promise<DetectionReview | null> {
+    try {
+      const { data, error } = await supabase
+        .from('detection_reviews')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoReviews.find(review => review.id === id) || null;
+        }
+        throw new Error(`Failed to fetch detection review: ${error.message}`);
+      }
+
+      return (data as DetectionReview) || null;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoReviews.find(review => review.id === id) || null;
+    }
+  }
+
+  private async closeReview(
+    review: DetectionReview,
+    resolution: Pick<DetectionReview, 'status' | 'reviewed_label' | 'reviewer_id' | 'review_note' | 'resolved_at'>
+  ): Promise<DetectionReview> {
+    try {
+      const { data, error } = await supabase
+        .from('detection_reviews')
+        .update(resolution)
+        .eq('id', review.id)
+        .eq('status', 'open')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return Object.assign(review, resolution);
+        }
+        throw new Error(`Failed to resolve detection review: ${error.message}`);
+      }
+      if (!data) {
+        throw new ModerationError('REVIEW_ALREADY_RESOLVED', `Detection review ${review.id} was resolved concurrently`);
+      }
+
+      return data as DetectionReview;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return Object.assign(review, resolution);
+    }
+  }
+
+  // Label the stored detection, and correct the submission's category so the pickup is scored right
+  private async recordGroundTruth(review: DetectionReview, label: ScoringCategory, relabeledItems: ScoredDetectedItem[] | null): Promise<void> {
+    try {
+      if (review.detection_id) {
+        const { error } = await supabase
+          .from('ai_detections')
+          .update({ ground_truth_label: label })
+          .eq('id', review.detection_id);
+        if (error && !isFetchFailedError(error)) {
+          throw new Error(`Failed to store ground truth: ${error.message}`);
+        }
+      }
+
+      if (relabeledItems && review.source_type === 'submission') {
+        const { error } = await supabase
+          .from('waste_submissions')
+          .update({ type: label, items: relabeledItems })
+          .eq('id', review.source_id);
+        if (error && !isFetchFailedError(error)) {
+          throw new Error(`Failed to relabel submission: ${error.message}`);
+        }
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+    }
+  }
+
+  private openDemoReview(review: Omit<DetectionReview, 'id' | 'reviewed_label' | 'reviewer_id' | 'review_note' | 'created_at' | 'resolved_at'>): DetectionReview {
+    const created: DetectionReview = {
+      ...review,
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      reviewed_label: null,
+      reviewer_id: null,
+      review_note: null,
+      created_at: new Date().toISOString(),
+      resolved_at: null
+    };
+    this.demoReviews.push(created);
+    return created;
+  }
+}
+
+// Export singleton instance
+export const detectionModeration = new DetectionModerationService();
@@ -0,0 +1,203 @@
+import { cropPixels, type ImagePixels } from '@/lib/imageDecoding';
+import { detectUpload, detectWithProviders, localizesObjects, visionImageFromBytes, visionImageFromPixels } from './visionProviders';
+import { getBasePoints, normalizeCategory } from './scoringPolicy';
+import type {
+  BoundingBox,
+  ClientDetectedItem,
+  ClientWasteAnalysis,
+  DetectionDisagreement,
+  ServerWasteAnalysis,
+  VerifiedDetectedItem
+} from '@/types/detection';
+
+const CONFIDENCE_DISAGREEMENT = 0.3;
+const POINTS_DISAGREEMENT_RATIO = 0.5;
+// Smaller crops (in decoded pixels) don't carry enough colour and texture to classify
+const MIN_ITEM_CROP = 16;
+// Kept boxes overlapping this much are the same object drawn twice
+const DUPLICATE_IOU = 0.5;
+// A kept box needs this much overlap with one of the server's own detections to earn points
+const CONFIRMATION_IOU = 0.3;
+
+// Used when the image can't be decoded: nothing is trusted, so score as the lowest category
+const UNVERIFIED_ANALYSIS: ServerWasteAnalysis = {
+  wasteType: 'other',
+  confidence: 0,
+  quality: 'poor',
+  recyclability: 0,
+  contamination: 1,
+  basePoints: getBasePoints('other'),
+  modelUsed: 'Unverified',
+  provider: null,
+  modelVotes: [],
+  verified: false
+};
+
+/**
+ * Re-runs waste classification on the uploaded image so scoring never depends on
+ * what the browser claims, and reports where the client's own analysis disagrees.
+ */
+export class DetectionVerificationService {
+  // pixels is null when the upload could not be decoded (see decodeImagePixels)
+  async classify(pixels: ImagePixels | null): Promise<ServerWasteAnalysis> {
+    if (!pixels) {
+      return { ...UNVERIFIED_ANALYSIS };
+    }
+
+    const result = await detectWithProviders(visionImageFromPixels(pixels), 'verify');
+    if (!result) {
+      return { ...UNVERIFIED_ANALYSIS };
+    }
+
+    const { classification } = result;
+    return {
+      wasteType: classification.wasteType,
+      confidence: classification.confidence,
+      quality: classification.quality,
+      recyclability: classification.recyclability,
+      contamination: classification.contamination,
+      basePoints: getBasePoints(classification.wasteType),
+      modelUsed: result.model,
+      provider: result.provider,
+      modelVotes: classification.votes,
+      verified: true
+    };
+  }
+
+  /**
+   * Boxes the server's detector chain finds in the upload itself, in its full resolution;
+   * the same detection the upload form already asked for when it is still cached. Null when
+   * no provider that finds individual objects answered (the heuristic and stub providers
+   * only report the whole image), so items can only be judged on their own crops.
+   */
+  async detectBoxes(bytes: Buffer): Promise<BoundingBox[] | null> {
+    const image = visionImageFromBytes(bytes);
+    if (!image) return null;
+
+    const result = await detectUpload(image);
+    if (!result || !localizesObjects(result.provider)) return null;
+    return result.detections.map(detection => detection.bbox);
+  }
+
+  /**
+   * Classifies every item the user kept from its own crop, so each one is scored on what
+   * the server sees in its box. Boxes are in the uploaded image's full resolution.
+   * Duplicate boxes are dropped, and an item is only confirmed when it matches one of
+   * serverBoxes (each server box confirms at most one item). Without serverBoxes an item
+   * is confirmed when its crop could be classified.
+   */
+  async classifyItems(
+    pixels: ImagePixels | null,
+    imageSize: { width: number; height: number },
+    items: ClientDetectedItem[],
+    serverBoxes: BoundingBox[] | null
+  ): Promise<VerifiedDetectedItem[]> {
+    const scale = pixels ? pixels.width / imageSize.width : 0;
+    const unmatched = (serverBoxes || []).map(box => clampBox(box, imageSize));
+    const verified: VerifiedDetectedItem[] = [];
+
+    // One at a time; the detector keeps running performance counters
+    for (const item of dedupeItems(items, imageSize)) {
+      const bbox = clampBox(item.bbox, imageSize);
+      const crop = pixels
+        ? cropPixels(pixels, { x: bbox.x * scale, y: bbox.y * scale, width: bbox.width * scale, height: bbox.height * scale })
+        : null;
+      const analysis = await this.classify(crop && Math.min(crop.width, crop.height) >= MIN_ITEM_CROP ? crop : null);
+
+      let match = -1;
+      let bestOverlap = CONFIRMATION_IOU;
+      unmatched.forEach((box, index) => {
+        const overlap = boxIoU(bbox, box);
+        if (overlap >= bestOverlap) {
+          match = index;
+          bestOverlap = overlap;
+        }
+      });
+      if (match >= 0) unmatched.splice(match, 1);
+
+      verified.push({
+        className: item.className,
+        clientWasteType: normalizeCategory(item.wasteType),
+        wasteType: analysis.wasteType,
+        confidence: analysis.confidence,
+        quality: analysis.quality,
+        bbox,
+        verified: analysis.verified,
+        confirmed: serverBoxes ? match >= 0 : analysis.verified
+      });
+    }
+
+    return verified;
+  }
+
+  // serverPoints is the submission's award; the client reports the total for the items it kept
+  compare(server: ServerWasteAnalysis, client: ClientWasteAnalysis, serverPoints: number): DetectionDisagreement {
+    const clientType = client.wasteType ? normalizeCategory(client.wasteType) : null;
+    const typeMismatch = clientType !== null && clientType !== normalizeCategory(server.wasteType);
+    const confidenceDelta = typeof client.confidence === 'number'
+      ? Math.round((client.confidence - server.confidence) * 100) / 100
+      : null;
+    const pointsDelta = typeof client.pointsEarned === 'number'
+      ? client.pointsEarned - serverPoints
+      : null;
+
+    const reasons: string[] = [];
+    if (typeMismatch) {
+      reasons.push(`client reported ${clientType}, server classified ${server.wasteType}`);
+    }
+    if (confidenceDelta !== null && confidenceDelta > CONFIDENCE_DISAGREEMENT) {
+      reasons.push(`client confidence exceeds server by ${confidenceDelta}`);
+    }
+    if (pointsDelta !== null && pointsDelta > serverPoints * POINTS_DISAGREEMENT_RATIO) {
+      reasons.push(`client claimed ${client.pointsEarned} points, server allows ${serverPoints}`);
+    }
+    if (!server.verified) {
+      reasons.push('image could not be decoded for server-side classification');
+    }
+
+    return {
+      clientWasteType: clientType,
+      serverWasteType: server.wasteType,
+      typeMismatch,
+      confidenceDelta,
+      pointsDelta,
+      significant: reasons.length > 0,
+      reasons
+    };
+  }
+
+}
+
+function clampBox(box: BoundingBox, imageSize: { width: number; height: number }): BoundingBox {
+  const x = Math.min(Math.max(0, Math.round(box.x)), imageSize.width);
+  const y = Math.min(Math.max(0, Math.round(box.y)), imageSize.height);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(Math.round(box.width), imageSize.width - x)),
+    height: Math.max(0, Math.min(Math.round(box.height), imageSize.height - y))
+  };
+}
+
+function boxIoU(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+// The most confident of each group of overlapping boxes survives; order is otherwise kept
+function dedupeItems(items: ClientDetectedItem[], imageSize: { width: number; height: number }): ClientDetectedItem[] {
+  const kept = new Set<ClientDetectedItem>();
+  for (const item of [...items].sort((a, b) => b.confidence - a.confidence)) {
+    const bbox = clampBox(item.bbox, imageSize);
+    if (Array.from(kept).every(other => boxIoU(bbox, clampBox(other.bbox, imageSize)) < DUPLICATE_IOU)) {
+      kept.add(item);
+    }
+  }
+  return items.filter(item => kept.has(item));
+}
+
+// Export singleton instance
+export const detectionVerification = new DetectionVerificationService();
@@ -0,0 +1,333 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { collectorRegistry } from './collectorRegistry';
+import { distanceMatrix } from './distanceMatrix';
+import { PickupTransitionError } from './pickupLifecycle';
+import { pickupService } from './pickupService';
+import type { Collector } from '@/types/collector';
+import type {
+  DispatchAction,
+  DispatchAuditEntry,
+  DispatchOutcome,
+  DispatchQueueItem,
+  DispatchRejection,
+  DispatchResult,
+  RoutePreview,
+  RoutePreviewStop
+} from '@/types/dispatch';
+import type { Location, PickupTicket } from '@/types/pickup';
+
+export type DispatchErrorCode =
+  | 'COLLECTOR_NOT_FOUND'
+  | 'COLLECTOR_OFFLINE'
+  | 'COLLECTOR_LOCATION_UNKNOWN'
+  | 'OVER_CAPACITY'
+  | 'PICKUPS_NOT_FOUND';
+
+export class DispatchError extends Error {
+  constructor(public code: DispatchErrorCode, message: string) {
+    super(message);
+    this.name = 'DispatchError';
+  }
+}
+
+export interface DispatchRequest {
+  collectorId: string;
+  dispatcherId?: string;
+  note?: string;
+  force?: boolean; // assign even if the pickups exceed the collector's remaining capacity
+}
+
+// Wider than auto-assignment: a dispatcher can judge whether a longer trip is worth it
+const QUEUE_SEARCH_RADIUS_KM = 50;
+const QUEUE_CANDIDATE_LIMIT = 3;
+const DEFAULT_PICKUP_WEIGHT_KG = 2.0;
+
+function weightOf(pickup: PickupTicket): number {
+  return pickup.estimated_weight ?? DEFAULT_PICKUP_WEIGHT_KG;
+}
+
+/**
+ * Dispatcher console backend: the manual-assignment queue with ranked
+ * candidates, assignment actions on top of the pickup lifecycle, and an audit
+ * entry in dispatch_audit_log for every action, successful or not.
+ */
+export class DispatchService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoAudit: DispatchAuditEntry[] = [];
+
+  async getQueue(now = new Date()): Promise<DispatchQueueItem[]> {
+    const pickups = await pickupService.getManualAssignmentQueue();
+
+    return Promise.all(pickups.map(async pickup => {
+      const queuedAt = new Date(pickup.status_updated_at || pickup.created_at);
+      const candidates = pickup.location
+        ? await collectorRegistry.findCandidates({
+            lat: pickup.location.lat,
+            lng: pickup.location.lng,
+            wasteType: pickup.waste_type,
+            requiredCapacityKg: weightOf(pickup),
+            maxDistanceKm: QUEUE_SEARCH_RADIUS_KM,
+            limit: QUEUE_CANDIDATE_LIMIT
+          })
+        : [];
+
+      return {
+        pickup,
+        ageMinutes: Math.max(0, Math.round((now.getTime() - queuedAt.getTime()) / 60000)),
+        candidates
+      };
+    }));
+  }
+
+  // Visiting order, distances and arrival times if the collector took these pickups
+  async previewRoute(submissionIds: number[], collectorId: string): Promise<RoutePreview> {
+    const collector = await this.getCollector(collectorId);
+    const pickups = await this.getPickups(submissionIds);
+    return this.buildPreview(collector, pickups);
+  }
+
+  async assign(submissionId: number, request: DispatchRequest): Promise<DispatchResult> {
+    return this.dispatch('assign', [submissionId], request);
+  }
+
+  async bulkAssign(submissionIds: number[], request: DispatchRequest): Promise<DispatchResult> {
+    return this.dispatch('bulk_assign', submissionIds, request);
+  }
+
+  // Moves an assigned pickup to another collector, releasing the previous one's capacity
+  async reassign(submissionId: number, request: DispatchRequest): Promise<DispatchResult> {
+    return this.dispatch('reassign', [submissionId], request);
+  }
+
+  async getAuditLog(options: { submissionId?: number; limit?: number } = {}): Promise<DispatchAuditEntry[]> {
+    const limit = options.limit ?? 50;
+
+    try {
+      let query = supabase
+        .from('dispatch_audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (options.submissionId !== undefined) {
+        query = query.contains('submission_ids', [options.submissionId]);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoAudit(options.submissionId, limit);
+        }
+        throw new Error(`Failed to fetch dispatch audit log: ${error.message}`);
+      }
+
+      return (data || []).map(row => ({ ...row, id: String(row.id) })) as DispatchAuditEntry[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoAudit(options.submissionId, limit);
+    }
+  }
+
+  private async dispatch(action: DispatchAction, submissionIds: number[], request: DispatchRequest): Promise<DispatchResult> {
+    const audit = (outcome: DispatchOutcome, previous: string[], details: Record<string, unknown>) =>
+      this.writeAudit({
+        action,
+        outcome,
+        submission_ids: submissionIds,
+        collector_id: request.collectorId,
+        previous_collector_ids: previous,
+        dispatcher_id: request.dispatcherId ?? null,
+        note: request.note?.trim() || null,
+        details
+      });
+
+    let collector: Collector;
+    let pickups: PickupTicket[];
+    let preview: RoutePreview;
+    try {
+      collector = await this.getCollector(request.collectorId);
+      if (collector.status === 'OFFLINE') {
+        throw new DispatchError('COLLECTOR_OFFLINE', `${collector.name} is offline`);
+      }
+      pickups = await this.getPickups(submissionIds);
+      preview = await this.buildPreview(collector, pickups);
+      if (preview.overCapacity && !request.force) {
+        throw new DispatchError(
+          'OVER_CAPACITY',
+          `${collector.name} has ${preview.remainingCapacityKg} kg left but these pickups need ${preview.totalWeightKg} kg`
+        );
+      }
+    } catch (error) {
+      if (error instanceof DispatchError) {
+        await audit('failed', [], { code: error.code, error: error.message });
+      }
+      throw error;
+    }
+
+    const assigned: number[] = [];
+    const rejected: DispatchRejection[] = [];
+    const previous: string[] = [];
+
+    // Visit order from the preview, so notifications go out in the order the collector will arrive
+    const byId = new Map(pickups.map(pickup => [pickup.id, pickup]));
+    for (const stop of preview.stops) {
+      const pickup = byId.get(stop.submission_id)!;
+      try {
+        if (action === 'reassign' && pickup.status === 'ASSIGNED') {
+          if (pickup.collector_id === collector.id) {
+            throw new PickupTransitionError('INVALID_PICKUP_TRANSITION', `Pickup ${pickup.id} is already assigned to ${collector.name}`);
+          }
+          await pickupService.unassignPickup(pickup, {
+            actor: 'ops',
+            actorId: request.dispatcherId,
+            reason: request.note?.trim() || 'Reassigned by dispatcher'
+          });
+          if (pickup.collector_id) previous.push(pickup.collector_id);
+        }
+
+        await pickupService.assignPickup(pickup.id, pickup.location, {
+          wasteType: pickup.waste_type,
+          weightKg: weightOf(pickup),
+          collectorId: collector.id,
+          actor: 'ops',
+          actorId: request.dispatcherId
+        });
+        assigned.push(pickup.id);
+      } catch (error) {
+        if (!(error instanceof PickupTransitionError)) throw error;
+        rejected.push({ submission_id: pickup.id, code: error.code, error: error.message });
+      }
+    }
+
+    const outcome: DispatchOutcome = rejected.length === 0 ? 'succeeded' : assigned.length > 0 ? 'partial' : 'failed';
+    const entry = await audit(outcome, previous, {
+      assigned,
+      rejected,
+      forced: Boolean(request.force && preview.overCapacity),
+      totalDistanceKm: preview.totalDistanceKm,
+      totalDurationMinutes: preview.totalDurationMinutes,
+      totalWeightKg: preview.totalWeightKg
+    });
+
+    console.log(`🧭 Dispatch ${action}: ${assigned.length}/${submissionIds.length} pickups to ${collector.name}`);
+
+    return { action, collector_id: collector.id, assigned, rejected, preview, audit_id: entry.id };
+  }
+
+  private async buildPreview(collector: Collector, pickups: PickupTicket[]): Promise<RoutePreview> {
+    if (!collector.current_location) {
+      throw new DispatchError('COLLECTOR_LOCATION_UNKNOWN', `${collector.name} has not reported a location yet`);
+    }
+
+    const start: Location = { ...collector.current_location, address: collector.name };
+    const points = [start, ...pickups.map(pickup => pickup.location)];
+    const { distances, durations } = await distanceMatrix.computeMatrix({
+      origins: points,
+      destinations: points,
+      vehicleType: collector.vehicle_type
+    });
+
+    // Nearest neighbour from the collector's position; good enough to eyeball a batch
+    const stops: RoutePreviewStop[] = [];
+    const remaining = new Set(pickups.map((_, i) => i + 1));
+    let current = 0;
+    let elapsedMinutes = 0;
+    let totalDistanceKm = 0;
+
+    while (remaining.size > 0) {
+      let next = -1;
+      remaining.forEach(index => {
+        if (next < 0 || durations[current][index] < durations[current][next]) next = index;
+      });
+      remaining.delete(next);
+
+      const pickup = pickups[next - 1];
+      elapsedMinutes += durations[current][next] * 60;
+      totalDistanceKm += distances[current][next];
+      stops.push({
+        submission_id: pickup.id,
+        location: pickup.location,
+        legDistanceKm: Math.round(distances[current][next] * 100) / 100,
+        arrivalMinutes: Math.round(elapsedMinutes)
+      });
+      elapsedMinutes += pickup.service_minutes;
+      current = next;
+    }
+
+    const totalWeightKg = pickups.reduce((sum, pickup) => sum + weightOf(pickup), 0);
+    const remainingCapacityKg = collector.capacity_kg - collector.current_load_kg;
+
+    return {
+      collector_id: collector.id,
+      start,
+      stops,
+      totalDistanceKm: Math.round(totalDistanceKm * 100) / 100,
+      totalDurationMinutes: Math.round(elapsedMinutes),
+      totalWeightKg,
+      remainingCapacityKg,
+      overCapacity: totalWeightKg > remainingCapacityKg
+    };
+  }
+
+  private async getCollector(collectorId: string): Promise<Collector> {
+    const collector = await collectorRegistry.getCollector(collectorId);
+    if (!collector) {
+      throw new DispatchError('COLLECTOR_NOT_FOUND', `Collector ${collectorId} not found`);
+    }
+    return collector;
+  }
+
+  private async getPickups(submissionIds: number[]): Promise<PickupTicket[]> {
+    const pickups = (await pickupService.getTickets(submissionIds)).filter(pickup => pickup.location);
+    const missing = submissionIds.filter(id => !pickups.some(pickup => pickup.id === id));
+    if (missing.length > 0) {
+      throw new DispatchError('PICKUPS_NOT_FOUND', `No pickup with a location for submission(s) ${missing.join(', ')}`);
+    }
+    return pickups;
+  }
+
+  private async writeAudit(entry: Omit<DispatchAuditEntry, 'id' | 'created_at'>): Promise<DispatchAuditEntry> {
+    try {
+      const { data, error } = await supabase
+        .from('dispatch_audit_log')
+        .insert(entry)
+        .select()
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.writeDemoAudit(entry);
+        }
+        throw new Error(`Failed to write dispatch audit entry: ${error.message}`);
+      }
+
+      return { ...data, id: String(data.id) } as DispatchAuditEntry;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.writeDemoAudit(entry);
+    }
+  }
+
+  private writeDemoAudit(entry: Omit<DispatchAuditEntry, 'id' | 'created_at'>): DispatchAuditEntry {
+    const saved: DispatchAuditEntry = {
+      ...entry,
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      created_at: new Date().toISOString()
+    };
+    this.demoAudit.unshift(saved);
+    return saved;
+  }
+
+  private getDemoAudit(submissionId: number | undefined, limit: number): DispatchAuditEntry[] {
+    return this.demoAudit
+      .filter(entry => submissionId === undefined || entry.submission_ids.includes(submissionId))
+      .slice(0, limit);
+  }
+}
+
+// Export singleton instance
+export const dispatchService = new DispatchService();
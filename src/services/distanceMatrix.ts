@@ -0,0 +1,87 @@
+// Many-to-many distance/duration matrices for the route optimizer.
+// Server-only: cells come from the routing providers' matrix support (local OSM
+// graph, OpenRouteService) and are cached per coordinate pair and vehicle profile
+// in the shared route cache (ROUTE_CACHE_STORE), so every instance reuses them.
+import { Cache, createCacheStore } from '@/lib/cache';
+import { getRoutingProviders } from './routingProviders';
+import { haversineKm } from './osmRoadGraph';
+import type { DistanceMatrix, LatLng, MatrixCell, MatrixRequest, RoutingProfile } from '@/types/routing';
+
+const CACHE_TTL_MS = 30 * 60 * 1000; // 30 minutes, same as the optimizer's segment cache
+const COORDINATE_PRECISION = 5; // ~1m; pickups closer than that share a cell
+
+// Straight-line fallback speeds (km/h), matching the single-route simulation
+const FALLBACK_SPEEDS: Record<RoutingProfile, number> = { truck: 40, van: 40, bike: 15 };
+
+function pointKey(point: LatLng): string {
+  return `${point.lat.toFixed(COORDINATE_PRECISION)},${point.lng.toFixed(COORDINATE_PRECISION)}`;
+}
+
+function cellKey(from: LatLng, to: LatLng, vehicleType: RoutingProfile): string {
+  return `${vehicleType}:${pointKey(from)}>${pointKey(to)}`;
+}
+
+export class DistanceMatrixService {
+  private cache = new Cache<MatrixCell>('matrix-cell', createCacheStore(), CACHE_TTL_MS);
+
+  async computeMatrix({ origins, destinations, vehicleType }: MatrixRequest): Promise<DistanceMatrix> {
+    // One batched lookup for the whole matrix rather than a round trip per cell
+    const cached = await this.cache.getMany(Array.from(new Set(
+      origins.flatMap(origin => destinations
+        .filter(destination => pointKey(origin) !== pointKey(destination))
+        .map(destination => cellKey(origin, destination, vehicleType)))
+    )));
+    const cells: Array<Array<MatrixCell | null>> = origins.map(origin =>
+      destinations.map(destination => {
+        if (pointKey(origin) === pointKey(destination)) return { distance: 0, duration: 0, source: 'identical' };
+        return cached.get(cellKey(origin, destination, vehicleType)) || null;
+      })
+    );
+    const cacheHits = cells.reduce((sum, row) => sum + row.filter(cell => cell && cell.source !== 'identical').length, 0);
+    const fetched = new Map<string, MatrixCell>();
+
+    for (const provider of getRoutingProviders()) {
+      if (!provider.matrix) continue;
+
+      // Only send the origins and destinations that still have gaps
+      const originIndexes = origins.map((_, i) => i).filter(i => cells[i].some(cell => !cell));
+      const destinationIndexes = destinations.map((_, j) => j).filter(j => originIndexes.some(i => !cells[i][j]));
+      if (originIndexes.length === 0) break;
+
+      const result = await provider.matrix({
+        origins: originIndexes.map(i => origins[i]),
+        destinations: destinationIndexes.map(j => destinations[j]),
+        vehicleType
+      });
+      if (!result) continue;
+
+      originIndexes.forEach((i, row) => {
+        destinationIndexes.forEach((j, column) => {
+          const cell = result[row]?.[column];
+          if (cells[i][j] || !cell) return;
+          cells[i][j] = cell;
+          fetched.set(cellKey(origins[i], destinations[j], vehicleType), cell);
+        });
+      });
+    }
+    if (fetched.size > 0) await this.cache.setMany(Array.from(fetched));
+
+    // Anything still missing gets a straight-line estimate (not cached, so a provider can fill it later)
+    const filled = cells.map((row, i) => row.map((cell, j) => cell || this.estimate(origins[i], destinations[j], vehicleType)));
+
+    return {
+      distances: filled.map(row => row.map(cell => cell.distance)),
+      durations: filled.map(row => row.map(cell => cell.duration)),
+      sources: filled.map(row => row.map(cell => cell.source)),
+      cacheHits
+    };
+  }
+
+  private estimate(from: LatLng, to: LatLng, vehicleType: RoutingProfile): MatrixCell {
+    const distance = haversineKm(from, to);
+    return { distance, duration: distance / FALLBACK_SPEEDS[vehicleType], source: 'haversine' };
+  }
+}
+
+// Export singleton instance
+export const distanceMatrix = new DistanceMatrixService();
@@ -0,0 +1,383 @@
+import { randomUUID } from 'crypto';
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { hammingDistance, hashBands } from '@/lib/perceptualHash';
+import { haversineKm } from './collectorRegistry';
+import { pointsLedger } from './pointsLedger';
+import type { PointsSource } from '@/types/points';
+import type {
+  FraudAssessment,
+  FraudCheckInput,
+  FraudReview,
+  FraudReviewStatus,
+  FraudSignal
+} from '@/types/fraud';
+
+export type FraudReviewErrorCode = 'REVIEW_NOT_FOUND' | 'REVIEW_ALREADY_RESOLVED';
+
+export class FraudReviewError extends Error {
+  constructor(public code: FraudReviewErrorCode, message: string) {
+    super(message);
+    this.name = 'FraudReviewError';
+  }
+}
+
+// Hashes within this many of 64 bits are the same photo (re-encoded, resized or lightly cropped)
+const DUPLICATE_MAX_DISTANCE = 5;
+
+const MAX_SUBMISSIONS_PER_HOUR = 10;
+const MAX_SUBMISSIONS_PER_DAY = 40;
+
+// Faster than this between two submissions is not someone walking their recycling to the kerb
+const MAX_PLAUSIBLE_SPEED_KMH = 150;
+const MIN_LOCATION_JUMP_KM = 5; // ignore GPS noise and moves around the neighbourhood
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// A row of upload_fingerprints
+export interface UploadFingerprint {
+  id: string;
+  user_email: string;
+  image_hashes: string[];
+  image_hash_bands: string[];
+  location: { lat: number; lng: number } | null;
+  source_type: Required<PointsSource>['type'] | null;
+  source_id: string | null;
+  created_at: string;
+}
+
+function closestMatch(hashes: string[], uploads: UploadFingerprint[]): { upload: UploadFingerprint; distance: number } | null {
+  let best: { upload: UploadFingerprint; distance: number } | null = null;
+  for (const upload of uploads) {
+    for (const earlier of upload.image_hashes) {
+      for (const hash of hashes) {
+        const distance = hammingDistance(hash, earlier);
+        if (distance <= DUPLICATE_MAX_DISTANCE && (!best || distance < best.distance)) {
+          best = { upload, distance };
+        }
+      }
+    }
+  }
+  return best;
+}
+
+function uploadSource(upload: UploadFingerprint): Required<PointsSource> | undefined {
+  return upload.source_type && upload.source_id ? { type: upload.source_type, id: upload.source_id } : undefined;
+}
+
+/**
+ * Flags suspicious uploads before their points are held: near-duplicate photos
+ * (the user's own or someone else's), too many submissions per hour or day, and
+ * location jumps no one could travel. Flagged submissions go to a review queue
+ * and their provisional points stay 'held' until a reviewer decides.
+ */
+export class FraudDetectionService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoUploads: UploadFingerprint[] = [];
+  private demoReviews: FraudReview[] = [];
+
+  // Records the upload and checks it against earlier ones in one step, so parallel
+  // uploads of the same photo cannot both pass. Every submission that earns points
+  // goes through here, so velocity counts photo and weight submissions alike.
+  async assess(input: FraudCheckInput): Promise<FraudAssessment> {
+    const at = input.at || new Date();
+    const since = new Date(at.getTime() - DAY_MS);
+    const upload: UploadFingerprint = {
+      id: randomUUID(),
+      user_email: input.userEmail,
+      image_hashes: input.imageHashes,
+      image_hash_bands: Array.from(new Set(input.imageHashes.flatMap(hash => hashBands(hash, DUPLICATE_MAX_DISTANCE)))),
+      location: input.location || null,
+      source_type: null,
+      source_id: null,
+      created_at: at.toISOString()
+    };
+    const earlier = await this.recordUpload(upload, since);
+    const own = earlier
+      .filter(candidate => candidate.user_email === input.userEmail)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    const others = earlier.filter(candidate => candidate.user_email !== input.userEmail);
+    const signals: FraudSignal[] = [];
+
+    const ownMatch = closestMatch(input.imageHashes, own);
+    if (ownMatch) {
+      signals.push({
+        type: 'DUPLICATE_OWN_IMAGE',
+        detail: `Same photo as your upload from ${ownMatch.upload.created_at}`,
+        matchedUploadId: ownMatch.upload.id,
+        matchedSource: uploadSource(ownMatch.upload),
+        distance: ownMatch.distance
+      });
+    }
+    const otherMatch = closestMatch(input.imageHashes, others);
+    if (otherMatch) {
+      signals.push({
+        type: 'DUPLICATE_OTHER_IMAGE',
+        detail: `Same photo as another user's upload from ${otherMatch.upload.created_at}`,
+        matchedUploadId: otherMatch.upload.id,
+        matchedSource: uploadSource(otherMatch.upload),
+        distance: otherMatch.distance
+      });
+    }
+
+    const recent = own.filter(candidate => new Date(candidate.created_at) >= since);
+    const lastHour = recent.filter(candidate => at.getTime() - new Date(candidate.created_at).getTime() < HOUR_MS).length;
+    if (lastHour >= MAX_SUBMISSIONS_PER_HOUR) {
+      signals.push({ type: 'HOURLY_VELOCITY', detail: `${lastHour} submissions in the last hour (limit ${MAX_SUBMISSIONS_PER_HOUR})` });
+    }
+    const lastDay = recent.filter(candidate => at.getTime() - new Date(candidate.created_at).getTime() < DAY_MS).length;
+    if (lastDay >= MAX_SUBMISSIONS_PER_DAY) {
+      signals.push({ type: 'DAILY_VELOCITY', detail: `${lastDay} submissions in the last day (limit ${MAX_SUBMISSIONS_PER_DAY})` });
+    }
+
+    const previous = recent.find(candidate => candidate.location);
+    if (input.location && previous?.location) {
+      const km = haversineKm(previous.location, input.location);
+      const hours = Math.max((at.getTime() - new Date(previous.created_at).getTime()) / HOUR_MS, 1 / 60);
+      if (km >= MIN_LOCATION_JUMP_KM && km / hours > MAX_PLAUSIBLE_SPEED_KMH) {
+        signals.push({
+          type: 'LOCATION_JUMP',
+          detail: `${Math.round(km)} km from the previous submission ${Math.round(hours * 60)} min earlier`,
+          matchedUploadId: previous.id,
+          matchedSource: uploadSource(previous),
+          distance: Math.round(km * 10) / 10
+        });
+      }
+    }
+
+    return { uploadId: upload.id, suspicious: signals.length > 0, signals };
+  }
+
+  // Points a recorded upload at the submission or detection it became, for reviewers
+  async linkUpload(uploadId: string, source: Required<PointsSource>): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('upload_fingerprints')
+        .update({ source_type: source.type, source_id: source.id })
+        .eq('id', uploadId);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          this.linkDemoUpload(uploadId, source);
+          return;
+        }
+        throw new Error(`Failed to link upload: ${error.message}`);
+      }
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      this.linkDemoUpload(uploadId, source);
+    }
+  }
+
+  async openReview(input: {
+    userEmail: string;
+    detectionId: string | null;
+    source: Required<PointsSource>;
+    imageHash: string | null;
+    signals: FraudSignal[];
+  }): Promise<FraudReview> {
+    const review = {
+      user_email: input.userEmail,
+      detection_id: input.detectionId,
+      source_type: input.source.type,
+      source_id: input.source.id,
+      image_hash: input.imageHash,
+      signals: input.signals,
+      status: 'open' as FraudReviewStatus
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from('fraud_reviews')
+        .insert(review)
+        .select()
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.openDemoReview(review);
+        }
+        throw new Error(`Failed to open fraud review: ${error.message}`);
+      }
+
+      return data as FraudReview;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.openDemoReview(review);
+    }
+  }
+
+  async getReviewQueue(status: FraudReviewStatus = 'open', limit = 100): Promise<FraudReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('fraud_reviews')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoReviews.filter(review => review.status === status).slice(0, limit);
+        }
+        throw new Error(`Failed to fetch fraud reviews: ${error.message}`);
+      }
+
+      return (data || []) as FraudReview[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoReviews.filter(review => review.status === status).slice(0, limit);
+    }
+  }
+
+  // Approve releases the held points (credited once the collection is verified); reject forfeits them.
+  // The review is closed first so the ledger can see whether any other review still holds the points.
+  async resolveReview(id: string, decision: 'approve' | 'reject', reviewerId?: string, note?: string): Promise<FraudReview> {
+    const review = await this.getReview(id);
+    if (!review) {
+      throw new FraudReviewError('REVIEW_NOT_FOUND', `Fraud review ${id} not found`);
+    }
+    if (review.status !== 'open') {
+      throw new FraudReviewError('REVIEW_ALREADY_RESOLVED', `Fraud review ${id} was already ${review.status}`);
+    }
+
+    const resolved = await this.closeReview(review, {
+      status: decision === 'approve' ? 'approved' : 'rejected',
+      reviewer_id: reviewerId || null,
+      resolution_note: note || null,
+      resolved_at: new Date().toISOString()
+    });
+
+    await pointsLedger.resolveHold(
+      { type: review.source_type, id: review.source_id },
+      decision === 'approve',
+      note ? `Fraud review: ${note}` : `Fraud review ${decision === 'approve' ? 'approved' : 'rejected'}`
+    );
+
+    return resolved;
+  }
+
+  private async closeReview(
+    review: FraudReview,
+    resolution: Pick<FraudReview, 'status' | 'reviewer_id' | 'resolution_note' | 'resolved_at'>
+  ): Promise<FraudReview> {
+    try {
+      const { data, error } = await supabase
+        .from('fraud_reviews')
+        .update(resolution)
+        .eq('id', review.id)
+        .eq('status', 'open')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return Object.assign(review, resolution);
+        }
+        throw new Error(`Failed to resolve fraud review: ${error.message}`);
+      }
+      if (!data) {
+        throw new FraudReviewError('REVIEW_ALREADY_RESOLVED', `Fraud review ${review.id} was resolved concurrently`);
+      }
+
+      return data as FraudReview;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return Object.assign(review, resolution);
+    }
+  }
+
+  private async getReview(id: string): Promise<FraudReview | null> {
+    try {
+      const { data, error } = await supabase
+        .from('fraud_reviews')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoReviews.find(review => review.id === id) || null;
+        }
+        throw new Error(`Failed to fetch fraud review: ${error.message}`);
+      }
+
+      return (data as FraudReview) || null;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoReviews.find(review => review.id === id) || null;
+    }
+  }
+
+  // Stores the upload and returns the earlier ones it must be compared with
+  private async recordUpload(upload: UploadFingerprint, since: Date): Promise<UploadFingerprint[]> {
+    try {
+      const { data, error } = await supabase.rpc('record_upload_fingerprint', {
+        p_id: upload.id,
+        p_user_email: upload.user_email,
+        p_image_hashes: upload.image_hashes,
+        p_image_hash_bands: upload.image_hash_bands,
+        p_location: upload.location,
+        p_since: since.toISOString(),
+        p_max_distance: DUPLICATE_MAX_DISTANCE
+      });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.recordDemoUpload(upload, since);
+        }
+        throw new Error(`Failed to record upload: ${error.message}`);
+      }
+
+      return (data || []) as UploadFingerprint[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.recordDemoUpload(upload, since);
+    }
+  }
+
+  private recordDemoUpload(upload: UploadFingerprint, since: Date): UploadFingerprint[] {
+    const earlier = this.demoUploads.filter(candidate =>
+      (candidate.user_email === upload.user_email && new Date(candidate.created_at) >= since) ||
+      closestMatch(upload.image_hashes, [candidate]) !== null
+    );
+    this.demoUploads.push(upload);
+    return earlier;
+  }
+
+  private linkDemoUpload(uploadId: string, source: Required<PointsSource>): void {
+    const upload = this.demoUploads.find(candidate => candidate.id === uploadId);
+    if (upload) {
+      upload.source_type = source.type;
+      upload.source_id = source.id;
+    }
+  }
+
+  private openDemoReview(review: Omit<FraudReview, 'id' | 'reviewer_id' | 'resolution_note' | 'created_at' | 'resolved_at'>): FraudReview {
+    const created: FraudReview = {
+      ...review,
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      reviewer_id: null,
+      resolution_note: null,
+      created_at: new Date().toISOString(),
+      resolved_at: null
+    };
+    this.demoReviews.push(created);
+    return created;
+  }
+}
+
+// Export singleton instance
+export const fraudDetection = new FraudDetectionService();
@@ -10,7 +10,7 @@ export class NotificationService {
   }
 
   async notifyOps(data: any) {
-    // Implement operations team notification
+    // Pickups needing a person show up in the dispatch console (/dispatch); this is the heads-up
     console.log('Ops team notified:', data);
   }
 }
@@ -0,0 +1,561 @@
+// Road graph built from a local OpenStreetMap extract, routed with A*.
+// Queries are accelerated with ALT (A*, landmarks, triangle inequality) once
+// a profile has been preprocessed with prepareLandmarks().
+// Server-only: loads the extract from disk (see OSM_GRAPH_PATH).
+import fs from 'fs';
+import path from 'path';
+import type { LatLng, RoutingProfile } from '@/types/routing';
+
+export interface RoadNode {
+  id: number;
+  lat: number;
+  lng: number;
+}
+
+export interface RoadEdge {
+  to: number;
+  distanceKm: number;
+  speedKmh: number;     // posted or inferred limit for the way
+  highway: string;
+  motorAllowed: boolean; // trucks and vans may use this direction
+  bikeAllowed: boolean;  // bikes may use this direction
+}
+
+export interface GraphPath {
+  nodeIds: number[];
+  distanceKm: number;
+  durationHours: number;
+  settledNodes: number; // nodes expanded by the search, for benchmarking
+}
+
+// Travel times (hours) between every node and each landmark for one profile
+export interface LandmarkIndex {
+  profile: RoutingProfile;
+  landmarks: number[];
+  fromLandmark: Float64Array[]; // fromLandmark[i][v] = time landmark i -> v
+  toLandmark: Float64Array[];   // toLandmark[i][v] = time v -> landmark i
+  preprocessingMs: number;
+}
+
+export interface ShortestPathOptions {
+  useLandmarks?: boolean; // default true; false forces plain A* (benchmarks)
+}
+
+interface IncomingEdge {
+  from: number;
+  edge: RoadEdge;
+}
+
+interface WayTags {
+  highway?: string;
+  maxspeed?: string;
+  oneway?: string;
+  junction?: string;
+  'oneway:bicycle'?: string;
+  [key: string]: string | undefined;
+}
+
+interface ProfileSpeed {
+  maxSpeedKmh: number;
+  speedFactor: number; // share of the posted limit the vehicle realistically holds
+}
+
+// Upper bounds also keep the A* heuristic admissible
+export const PROFILE_SPEEDS: Record<RoutingProfile, ProfileSpeed> = {
+  truck: { maxSpeedKmh: 80, speedFactor: 0.85 },
+  van: { maxSpeedKmh: 110, speedFactor: 0.95 },
+  bike: { maxSpeedKmh: 18, speedFactor: 1 }
+};
+
+// Fallback speeds (km/h) when a way has no usable maxspeed tag
+const DEFAULT_SPEEDS: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 40,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 30,
+  living_street: 10,
+  service: 20,
+  track: 15,
+  cycleway: 18,
+  path: 10
+};
+
+const MOTOR_FORBIDDEN = new Set(['footway', 'cycleway', 'path', 'pedestrian', 'steps', 'bridleway', 'corridor']);
+const BIKE_FORBIDDEN = new Set(['motorway', 'motorway_link', 'trunk', 'trunk_link', 'steps']);
+const NON_ROADS = new Set(['proposed', 'construction', 'abandoned', 'platform', 'bus_stop', 'elevator']);
+
+const GRID_CELL_DEG = 0.01; // ~1km spatial index cells
+export const DEFAULT_LANDMARK_COUNT = 8;
+
+function toRad(value: number): number {
+  return value * Math.PI / 180;
+}
+
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function parseMaxSpeed(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(mph|km\/h|kmh)?/i);
+  if (!match) return null;
+  const speed = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === 'mph' ? speed * 1.609 : speed;
+}
+
+// Returns [forward, backward] travel permission implied by the oneway tags
+function onewayDirections(tags: WayTags, forBike: boolean): [boolean, boolean] {
+  if (forBike && tags['oneway:bicycle'] === 'no') return [true, true];
+
+  const oneway = tags.oneway?.toLowerCase();
+  if (oneway === '-1' || oneway === 'reverse') return [false, true];
+  if (oneway === 'yes' || oneway === 'true' || oneway === '1') return [true, false];
+  if (oneway === 'no') return [true, true];
+
+  // Implied oneways
+  if (tags.junction === 'roundabout' || tags.highway === 'motorway') return [true, false];
+  return [true, true];
+}
+
+// Minimal binary heap keyed on priority
+class MinHeap {
+  private items: Array<{ id: number; priority: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(id: number, priority: number): void {
+    this.items.push({ id, priority });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.items[parent].priority <= this.items[i].priority) break;
+      [this.items[parent], this.items[i]] = [this.items[i], this.items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { id: number; priority: number } | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0];
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left;
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+export class RoadGraph {
+  readonly nodes: RoadNode[] = [];
+  readonly adjacency: RoadEdge[][] = [];
+  private nodeIndex = new Map<string, number>();
+  private grid = new Map<string, number[]>();
+  private incoming: IncomingEdge[][] | null = null;
+  private landmarkIndexes = new Map<RoutingProfile, LandmarkIndex>();
+
+  get edgeCount(): number {
+    return this.adjacency.reduce((sum, edges) => sum + edges.length, 0);
+  }
+
+  static fromGeoJSON(collection: any): RoadGraph {
+    const graph = new RoadGraph();
+
+    for (const feature of collection.features || []) {
+      const tags: WayTags = feature.properties || {};
+      const geometry = feature.geometry;
+      if (!geometry) continue;
+
+      const lines: number[][][] =
+        geometry.type === 'LineString' ? [geometry.coordinates] :
+        geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+
+      // GeoJSON positions are [lng, lat]
+      lines.forEach(line => graph.addWay(line.map(([lng, lat]) => ({ lat, lng })), tags));
+    }
+
+    return graph;
+  }
+
+  // Overpass API JSON with `out geom;`
+  static fromOverpass(json: any): RoadGraph {
+    const graph = new RoadGraph();
+
+    for (const element of json.elements || []) {
+      if (element.type !== 'way' || !Array.isArray(element.geometry)) continue;
+      graph.addWay(
+        element.geometry.map((point: { lat: number; lon: number }) => ({ lat: point.lat, lng: point.lon })),
+        element.tags || {}
+      );
+    }
+
+    return graph;
+  }
+
+  addWay(points: LatLng[], tags: WayTags): void {
+    const highway = tags.highway;
+    if (!highway || NON_ROADS.has(highway) || points.length < 2) return;
+
+    const speedKmh = parseMaxSpeed(tags.maxspeed) ?? DEFAULT_SPEEDS[highway] ?? 30;
+    const [motorForward, motorBackward] = onewayDirections(tags, false);
+    const [bikeForward, bikeBackward] = onewayDirections(tags, true);
+    const motorAccess = !MOTOR_FORBIDDEN.has(highway);
+    const bikeAccess = !BIKE_FORBIDDEN.has(highway);
+
+    // Preprocessing no longer matches the graph
+    this.incoming = null;
+    this.landmarkIndexes.clear();
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const a = this.getOrCreateNode(points[i]);
+      const b = this.getOrCreateNode(points[i + 1]);
+      if (a === b) continue;
+
+      const distanceKm = haversineKm(points[i], points[i + 1]);
+
+      this.adjacency[a].push({
+        to: b, distanceKm, speedKmh, highway,
+        motorAllowed: motorAccess && motorForward,
+        bikeAllowed: bikeAccess && bikeForward
+      });
+      this.adjacency[b].push({
+        to: a, distanceKm, speedKmh, highway,
+        motorAllowed: motorAccess && motorBackward,
+        bikeAllowed: bikeAccess && bikeBackward
+      });
+    }
+  }
+
+  // Hours to traverse the edge, or Infinity when the profile may not use it
+  edgeCost(edge: RoadEdge, profile: RoutingProfile): number {
+    const allowed = profile === 'bike' ? edge.bikeAllowed : edge.motorAllowed;
+    if (!allowed) return Infinity;
+
+    const { maxSpeedKmh, speedFactor } = PROFILE_SPEEDS[profile];
+    return edge.distanceKm / Math.min(edge.speedKmh * speedFactor, maxSpeedKmh);
+  }
+
+  nearestNode(point: LatLng, maxDistanceKm: number): { nodeId: number; distanceKm: number } | null {
+    const cellLat = Math.floor(point.lat / GRID_CELL_DEG);
+    const cellLng = Math.floor(point.lng / GRID_CELL_DEG);
+    const maxRing = Math.ceil(maxDistanceKm / (GRID_CELL_DEG * 111 * Math.max(Math.cos(toRad(point.lat)), 0.1))) + 1;
+
+    let bestId = -1;
+    let bestDistance = Infinity;
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let dLat = -ring; dLat <= ring; dLat++) {
+        for (let dLng = -ring; dLng <= ring; dLng++) {
+          if (Math.max(Math.abs(dLat), Math.abs(dLng)) !== ring) continue; // ring perimeter only
+          const cell = this.grid.get(`${cellLat + dLat}:${cellLng + dLng}`);
+          if (!cell) continue;
+
+          for (const nodeId of cell) {
+            const distanceKm = haversineKm(point, this.nodes[nodeId]);
+            if (distanceKm < bestDistance) {
+              bestId = nodeId;
+              bestDistance = distanceKm;
+            }
+          }
+        }
+      }
+
+      // Anything in a further ring is at least `ring` cells away
+      if (bestDistance < ring * GRID_CELL_DEG * 111 * Math.cos(toRad(point.lat))) break;
+    }
+
+    return bestDistance <= maxDistanceKm ? { nodeId: bestId, distanceKm: bestDistance } : null;
+  }
+
+  getLandmarkIndex(profile: RoutingProfile): LandmarkIndex | null {
+    return this.landmarkIndexes.get(profile) || null;
+  }
+
+  /**
+   * ALT preprocessing for one profile: picks landmarks spread across the
+   * graph and stores travel times to and from each of them. The result is
+   * cached on the graph, so only the first call per profile pays for it.
+   */
+  prepareLandmarks(profile: RoutingProfile, count = DEFAULT_LANDMARK_COUNT, rebuild = false): LandmarkIndex {
+    const cached = this.landmarkIndexes.get(profile);
+    if (cached && !rebuild && cached.landmarks.length === Math.min(count, this.nodes.length)) return cached;
+
+    const started = Date.now();
+    const landmarks = this.selectLandmarks(count);
+    const index: LandmarkIndex = {
+      profile,
+      landmarks,
+      fromLandmark: landmarks.map(id => this.travelTimesFrom(id, profile, false)),
+      toLandmark: landmarks.map(id => this.travelTimesFrom(id, profile, true)),
+      preprocessingMs: Date.now() - started
+    };
+
+    this.landmarkIndexes.set(profile, index);
+    console.log(`🧭 ALT preprocessing (${profile}): ${landmarks.length} landmarks in ${index.preprocessingMs}ms`);
+    return index;
+  }
+
+  // A* on travel time. The heuristic is the larger of the straight-line bound at the
+  // profile's top speed and, when preprocessed, the landmark bound; neither overestimates.
+  shortestPath(startId: number, goalId: number, profile: RoutingProfile, options: ShortestPathOptions = {}): GraphPath | null {
+    if (startId === goalId) return { nodeIds: [startId], distanceKm: 0, durationHours: 0, settledNodes: 0 };
+
+    const goal = this.nodes[goalId];
+    const topSpeed = PROFILE_SPEEDS[profile].maxSpeedKmh;
+    const landmarkIndex = options.useLandmarks === false ? null : this.landmarkIndexes.get(profile) || null;
+    const heuristic = (nodeId: number) => Math.max(
+      haversineKm(this.nodes[nodeId], goal) / topSpeed,
+      landmarkIndex ? this.landmarkBound(landmarkIndex, nodeId, goalId) : 0
+    );
+
+    const cost = new Map<number, number>([[startId, 0]]);
+    const previous = new Map<number, number>();
+    const closed = new Set<number>();
+    const open = new MinHeap();
+    open.push(startId, heuristic(startId));
+
+    while (open.size > 0) {
+      const { id: current } = open.pop()!;
+      if (current === goalId) break;
+      if (closed.has(current)) continue;
+      closed.add(current);
+
+      const currentCost = cost.get(current)!;
+      for (const edge of this.adjacency[current]) {
+        const edgeCost = this.edgeCost(edge, profile);
+        if (edgeCost === Infinity || closed.has(edge.to)) continue;
+
+        const candidate = currentCost + edgeCost;
+        if (candidate < (cost.get(edge.to) ?? Infinity)) {
+          cost.set(edge.to, candidate);
+          previous.set(edge.to, current);
+          open.push(edge.to, candidate + heuristic(edge.to));
+        }
+      }
+    }
+
+    if (!cost.has(goalId)) return null;
+    return this.buildPath(startId, goalId, previous, cost.get(goalId)!, closed.size);
+  }
+
+  /**
+   * One Dijkstra from `sourceId` that stops once every target is settled, so a
+   * distance-matrix row costs a single search instead of one per destination.
+   * Entries are null for targets the profile cannot reach.
+   */
+  travelCostsToMany(
+    sourceId: number,
+    targetIds: number[],
+    profile: RoutingProfile
+  ): Array<{ distanceKm: number; durationHours: number } | null> {
+    const times = new Map<number, number>([[sourceId, 0]]);
+    const distances = new Map<number, number>([[sourceId, 0]]);
+    const remaining = new Set(targetIds);
+    const closed = new Set<number>();
+    const open = new MinHeap();
+    open.push(sourceId, 0);
+
+    while (open.size > 0 && remaining.size > 0) {
+      const { id: current } = open.pop()!;
+      if (closed.has(current)) continue;
+      closed.add(current);
+      remaining.delete(current);
+
+      const currentTime = times.get(current)!;
+      const currentDistance = distances.get(current)!;
+      for (const edge of this.adjacency[current]) {
+        const edgeCost = this.edgeCost(edge, profile);
+        if (edgeCost === Infinity || closed.has(edge.to)) continue;
+
+        const candidate = currentTime + edgeCost;
+        if (candidate < (times.get(edge.to) ?? Infinity)) {
+          times.set(edge.to, candidate);
+          distances.set(edge.to, currentDistance + edge.distanceKm);
+          open.push(edge.to, candidate);
+        }
+      }
+    }
+
+    return targetIds.map(id => closed.has(id)
+      ? { distanceKm: distances.get(id)!, durationHours: times.get(id)! }
+      : null);
+  }
+
+  // Triangle inequality: d(v,t) >= d(L,t) - d(L,v) and d(v,t) >= d(v,L) - d(t,L)
+  private landmarkBound(index: LandmarkIndex, nodeId: number, goalId: number): number {
+    let bound = 0;
+    for (let i = 0; i < index.landmarks.length; i++) {
+      const forward = index.fromLandmark[i][goalId] - index.fromLandmark[i][nodeId];
+      const backward = index.toLandmark[i][nodeId] - index.toLandmark[i][goalId];
+      // Skip unreachable landmarks (Infinity/NaN) rather than pruning on them
+      if (forward > bound && forward !== Infinity) bound = forward;
+      if (backward > bound && backward !== Infinity) bound = backward;
+    }
+    return bound;
+  }
+
+  // Farthest-point selection: each landmark is as far as possible from those already chosen
+  private selectLandmarks(count: number): number[] {
+    const total = this.nodes.length;
+    const target = Math.min(count, total);
+    const landmarks: number[] = [];
+    if (target === 0) return landmarks;
+
+    const nearestLandmarkKm = new Float64Array(total).fill(Infinity);
+    let next = 0;
+    // Start from the node farthest from an arbitrary one so the first landmark sits on the edge
+    let farthestKm = -1;
+    for (let id = 0; id < total; id++) {
+      const distanceKm = haversineKm(this.nodes[0], this.nodes[id]);
+      if (distanceKm > farthestKm) {
+        farthestKm = distanceKm;
+        next = id;
+      }
+    }
+
+    while (landmarks.length < target) {
+      landmarks.push(next);
+      farthestKm = -1;
+      for (let id = 0; id < total; id++) {
+        nearestLandmarkKm[id] = Math.min(nearestLandmarkKm[id], haversineKm(this.nodes[next], this.nodes[id]));
+        if (nearestLandmarkKm[id] > farthestKm) {
+          farthestKm = nearestLandmarkKm[id];
+          next = id;
+        }
+      }
+      if (farthestKm <= 0) break; // every node is already a landmark
+    }
+
+    return landmarks;
+  }
+
+  // One-to-all Dijkstra; `reverse` follows edges backwards to get times *to* the source
+  private travelTimesFrom(sourceId: number, profile: RoutingProfile, reverse: boolean): Float64Array {
+    const times = new Float64Array(this.nodes.length).fill(Infinity);
+    const incoming = reverse ? this.getIncomingEdges() : null;
+    const open = new MinHeap();
+    times[sourceId] = 0;
+    open.push(sourceId, 0);
+
+    const relax = (id: number, edge: RoadEdge, baseTime: number) => {
+      const candidate = baseTime + this.edgeCost(edge, profile);
+      if (candidate < times[id]) {
+        times[id] = candidate;
+        open.push(id, candidate);
+      }
+    };
+
+    while (open.size > 0) {
+      const { id: current, priority } = open.pop()!;
+      if (priority > times[current]) continue; // stale heap entry
+
+      if (incoming) {
+        for (const { from, edge } of incoming[current]) relax(from, edge, priority);
+      } else {
+        for (const edge of this.adjacency[current]) relax(edge.to, edge, priority);
+      }
+    }
+
+    return times;
+  }
+
+  private getIncomingEdges(): IncomingEdge[][] {
+    if (this.incoming) return this.incoming;
+
+    const incoming: IncomingEdge[][] = this.nodes.map(() => []);
+    this.adjacency.forEach((edges, from) => {
+      edges.forEach(edge => incoming[edge.to].push({ from, edge }));
+    });
+    this.incoming = incoming;
+    return incoming;
+  }
+
+  private buildPath(
+    startId: number,
+    goalId: number,
+    previous: Map<number, number>,
+    durationHours: number,
+    settledNodes: number
+  ): GraphPath {
+    const nodeIds = [goalId];
+    let current = goalId;
+    while (current !== startId) {
+      current = previous.get(current)!;
+      nodeIds.unshift(current);
+    }
+
+    let distanceKm = 0;
+    for (let i = 0; i < nodeIds.length - 1; i++) {
+      distanceKm += haversineKm(this.nodes[nodeIds[i]], this.nodes[nodeIds[i + 1]]);
+    }
+
+    return { nodeIds, distanceKm, durationHours, settledNodes };
+  }
+
+  private getOrCreateNode(point: LatLng): number {
+    const key = `${point.lat.toFixed(7)},${point.lng.toFixed(7)}`;
+    const existing = this.nodeIndex.get(key);
+    if (existing !== undefined) return existing;
+
+    const id = this.nodes.length;
+    this.nodes.push({ id, lat: point.lat, lng: point.lng });
+    this.adjacency.push([]);
+    this.nodeIndex.set(key, id);
+
+    const cellKey = `${Math.floor(point.lat / GRID_CELL_DEG)}:${Math.floor(point.lng / GRID_CELL_DEG)}`;
+    const cell = this.grid.get(cellKey);
+    if (cell) cell.push(id);
+    else this.grid.set(cellKey, [id]);
+
+    return id;
+  }
+}
+
+// Load a road graph from GeoJSON (e.g. `osmium export extract.osm.pbf -o roads.geojson`)
+// or Overpass JSON. Binary .osm.pbf must be converted first.
+export function loadRoadGraph(filePath: string): RoadGraph {
+  const resolved = path.resolve(filePath);
+  const extension = path.extname(resolved).toLowerCase();
+
+  if (extension === '.pbf') {
+    throw new Error(
+      `Cannot read ${path.basename(resolved)} directly; convert it with ` +
+      '`osmium export <extract>.osm.pbf -o roads.geojson` and point OSM_GRAPH_PATH at the GeoJSON file'
+    );
+  }
+
+  const json = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  const graph = json.type === 'FeatureCollection' ? RoadGraph.fromGeoJSON(json) : RoadGraph.fromOverpass(json);
+
+  if (graph.nodes.length === 0) {
+    throw new Error(`No routable ways found in ${path.basename(resolved)}`);
+  }
+
+  console.log(`🗺️ Loaded OSM road graph: ${graph.nodes.length} nodes, ${graph.edgeCount} directed edges`);
+  return graph;
+}
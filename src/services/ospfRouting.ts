@@ -1,5 +1,6 @@
 // Dijkstra's Shortest Path Algorithm for Artificial Road Networks
 // Creates realistic road networks and finds optimal paths like Uber/Ola
+import { createSeededRandom, type RandomSource } from '@/lib/random';
 
 interface Node {
   id: string;
@@ -54,7 +55,7 @@ class DijkstraPathFinder {
     };
   }
 
-  public async findShortestPath(startLat: number, startLng: number, endLat: number, endLng: number): Promise<ShortestPathResult> {
+  public async findShortestPath(startLat: number, startLng: number, endLat: number, endLng: number, seed?: number): Promise<ShortestPathResult> {
     try {
       console.log('🗺️ Getting real road route using OpenRouteService API...');
       console.log(`🎯 Route from [${startLat}, ${startLng}] to [${endLat}, ${endLng}]`);
@@ -88,16 +89,16 @@ class DijkstraPathFinder {
       }
       
       console.log('⚠️ OpenRouteService unavailable, falling back to artificial network...');
-      return await this.findArtificialPath(startLat, startLng, endLat, endLng);
+      return await this.findArtificialPath(startLat, startLng, endLat, endLng, seed);
       
     } catch (error) {
       console.error('❌ Error in findShortestPath:', error);
       console.log('🔄 Using artificial network fallback...');
-      return await this.findArtificialPath(startLat, startLng, endLat, endLng);
+      return await this.findArtificialPath(startLat, startLng, endLat, endLng, seed);
     }
   }
   
-  // Get real road route from OpenRouteService API
+  // Get real road route from the server's routing provider (offline OSM graph or OpenRouteService)
   private async getRealRoadRoute(startLat: number, startLng: number, endLat: number, endLng: number): Promise<{ coordinates: [number, number][], distance: number, duration: number } | null> {
     try {
       console.log('🌐 Attempting OpenRouteService API call...');
@@ -161,7 +162,7 @@ class DijkstraPathFinder {
   }
   
   // Fallback to artificial network (original implementation)
-  private async findArtificialPath(startLat: number, startLng: number, endLat: number, endLng: number): Promise<ShortestPathResult> {
+  private async findArtificialPath(startLat: number, startLng: number, endLat: number, endLng: number, seed?: number): Promise<ShortestPathResult> {
     console.log('🏦 Creating artificial road network fallback...');
     
     // Clear any existing network
@@ -169,7 +170,8 @@ class DijkstraPathFinder {
     this.network.edges.clear();
     
     // Create artificial road network around the route area
-    this.createArtificialRoadNetwork(startLat, startLng, endLat, endLng);
+    const rng = seed !== undefined ? createSeededRandom(seed) : Math.random;
+    this.createArtificialRoadNetwork(startLat, startLng, endLat, endLng, rng);
     
     // Add start and end points to the network
     const startNodeId = this.addDynamicNode(startLat, startLng, 'start');
@@ -198,7 +200,7 @@ class DijkstraPathFinder {
   }
 
   // Creates an artificial road network like city streets
-  private createArtificialRoadNetwork(startLat: number, startLng: number, endLat: number, endLng: number): void {
+  private createArtificialRoadNetwork(startLat: number, startLng: number, endLat: number, endLng: number, rng: RandomSource): void {
     console.log('🏦 Building artificial city road network...');
     
     // Calculate network bounds with padding
@@ -252,7 +254,7 @@ class DijkstraPathFinder {
         }
         
         // Diagonal shortcuts (like diagonal streets)
-        if (i < latSteps && j < lngSteps && Math.random() > 0.7) {
+        if (i < latSteps && j < lngSteps && rng() > 0.7) {
           const diagonalId = `intersection_${i + 1}_${j + 1}`;
           this.addBidirectionalEdge(currentId, diagonalId, 'local', 30);
         }
@@ -712,9 +714,9 @@ export class OSPFRouter {
     this.dijkstraRouter = new DijkstraPathFinder();
   }
   
-  async findOptimalRoute(startLat: number, startLng: number, endLat: number, endLng: number): Promise<ShortestPathResult> {
+  async findOptimalRoute(startLat: number, startLng: number, endLat: number, endLng: number, seed?: number): Promise<ShortestPathResult> {
     console.log('🚗 OSPF Router: Finding optimal route using Dijkstra\'s algorithm...');
-    return await this.dijkstraRouter.findShortestPath(startLat, startLng, endLat, endLng);
+    return await this.dijkstraRouter.findShortestPath(startLat, startLng, endLat, endLng, seed);
   }
 }
 
@@ -724,14 +726,15 @@ export async function calculateOptimalRoute(
   traderLat: number, 
   traderLng: number, 
   userLat: number, 
-  userLng: number
+  userLng: number,
+  seed?: number // Fixes the artificial network's diagonal shortcuts for replay
 ): Promise<ShortestPathResult> {
   console.log('🗺️ Calculating optimal route using REAL ROADS (when API key available)...');
   console.log('🎯 Target: Follow actual OpenStreetMap roads like Uber/Ola!');
   
   try {
     console.log('🚀 Starting OSPF router...');
-    const result = await ospfRouter.findOptimalRoute(traderLat, traderLng, userLat, userLng);
+    const result = await ospfRouter.findOptimalRoute(traderLat, traderLng, userLat, userLng, seed);
     
     if (result.algorithm === 'dijkstra' && result.route.coordinates.length > 4) {
       console.log(`✅ SUCCESS: Real road route found with ${result.route.coordinates.length} GPS waypoints!`);
@@ -0,0 +1,321 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { collectorRegistry } from './collectorRegistry';
+import { pointsLedger } from './pointsLedger';
+import type {
+  PickupActor,
+  PickupStatus,
+  PickupTransition,
+  PickupTransitionContext
+} from '@/types/pickup';
+
+export type PickupTransitionErrorCode =
+  | 'PICKUP_NOT_FOUND'
+  | 'INVALID_PICKUP_TRANSITION'
+  | 'ACTOR_NOT_ALLOWED'
+  | 'NOT_PICKUP_OWNER'
+  | 'NOT_ASSIGNED_COLLECTOR'
+  | 'REASON_REQUIRED'
+  | 'COLLECTOR_REQUIRED'
+  | 'PICKUP_STATUS_CONFLICT'
+  | 'WORKFLOW_REQUIRED';
+
+export class PickupTransitionError extends Error {
+  constructor(public code: PickupTransitionErrorCode, message: string) {
+    super(message);
+    this.name = 'PickupTransitionError';
+  }
+}
+
+// Allowed moves and who may make them; anything not listed is rejected
+export const PICKUP_TRANSITIONS: Record<PickupStatus, Partial<Record<PickupStatus, PickupActor[]>>> = {
+  PENDING: {
+    ASSIGNED: ['system', 'ops'],
+    MANUAL_ASSIGNMENT_NEEDED: ['system', 'ops'],
+    CANCELLED: ['citizen', 'ops']
+  },
+  MANUAL_ASSIGNMENT_NEEDED: {
+    ASSIGNED: ['ops'],
+    CANCELLED: ['citizen', 'ops']
+  },
+  ASSIGNED: {
+    EN_ROUTE: ['collector'],
+    MANUAL_ASSIGNMENT_NEEDED: ['collector', 'ops', 'system'], // collector declined or was pulled off
+    RESCHEDULED: ['citizen', 'ops'],
+    CANCELLED: ['citizen', 'ops']
+  },
+  EN_ROUTE: {
+    ARRIVED: ['collector'],
+    FAILED: ['collector', 'ops'],
+    RESCHEDULED: ['ops'],
+    CANCELLED: ['ops']
+  },
+  ARRIVED: {
+    COLLECTED: ['collector'],
+    FAILED: ['collector', 'ops']
+  },
+  COLLECTED: {
+    VERIFIED: ['ops', 'system']
+  },
+  VERIFIED: {
+    COMPLETED: ['ops', 'system']
+  },
+  FAILED: {
+    RESCHEDULED: ['citizen', 'ops'],
+    CANCELLED: ['citizen', 'ops']
+  },
+  RESCHEDULED: {
+    ASSIGNED: ['system', 'ops'],
+    MANUAL_ASSIGNMENT_NEEDED: ['system', 'ops'],
+    CANCELLED: ['citizen', 'ops']
+  },
+  COMPLETED: {},
+  CANCELLED: {}
+};
+
+export const PICKUP_STATUSES = Object.keys(PICKUP_TRANSITIONS) as PickupStatus[];
+
+// Only reached through their own workflows, never set directly through the status APIs:
+// assignment through dispatch, which checks the collector and loads it, and collection,
+// verification and completion through collectorWorkflow, which records and settles them
+export const WORKFLOW_STATUSES: PickupStatus[] = ['ASSIGNED', 'COLLECTED', 'VERIFIED', 'COMPLETED'];
+
+const REASON_REQUIRED: PickupStatus[] = ['CANCELLED', 'FAILED', 'RESCHEDULED'];
+
+const ERROR_CODES: PickupTransitionErrorCode[] = ['PICKUP_NOT_FOUND', 'PICKUP_STATUS_CONFLICT'];
+
+// While a pickup is in one of these its weight counts against the collector's load
+const COLLECTOR_HELD_STATUSES: PickupStatus[] = ['ASSIGNED', 'EN_ROUTE', 'ARRIVED', 'COLLECTED', 'VERIFIED'];
+const DEFAULT_PICKUP_WEIGHT_KG = 2.0;
+
+// The pickup fields the state machine needs to authorise a move
+interface PickupState {
+  id: number;
+  status: PickupStatus;
+  user_id: string | null;
+  collector_id: string | null;
+  load_kg: number | null;        // weight currently on the collector's load for this pickup
+  estimated_weight: number | null;
+}
+
+export function isPickupStatus(value: unknown): value is PickupStatus {
+  return typeof value === 'string' && PICKUP_STATUSES.includes(value as PickupStatus);
+}
+
+// Statuses reachable from `from`, optionally only those the given actor may choose
+export function allowedNextStatuses(from: PickupStatus, actor?: PickupActor): PickupStatus[] {
+  const moves = PICKUP_TRANSITIONS[from] || {};
+  return (Object.keys(moves) as PickupStatus[]).filter(to => !actor || moves[to]!.includes(actor));
+}
+
+/**
+ * Pickup lifecycle on waste_submissions.pickup_status. Every change goes
+ * through transition(), which checks the move and the actor and records it in
+ * pickup_status_transitions via the `transition_pickup_status` function. The
+ * same call moves the pickup's weight on and off the collector's load.
+ */
+export class PickupLifecycleService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoPickups = new Map<number, PickupState>();
+  private demoTransitions: PickupTransition[] = [];
+
+  async transition(
+    submissionId: number,
+    toStatus: PickupStatus,
+    context: PickupTransitionContext
+  ): Promise<PickupTransition> {
+    const pickup = await this.getPickupState(submissionId);
+    if (!pickup) {
+      throw new PickupTransitionError('PICKUP_NOT_FOUND', `Pickup ${submissionId} not found`);
+    }
+
+    this.assertAllowed(pickup, toStatus, context);
+
+    try {
+      const { data, error } = await supabase.rpc('transition_pickup_status', {
+        p_submission_id: submissionId,
+        p_from_status: pickup.status,
+        p_to_status: toStatus,
+        p_actor: context.actor,
+        p_actor_id: context.actorId ?? null,
+        p_reason: context.reason?.trim() || null,
+        p_collector_id: context.collectorId ?? null,
+        p_load_kg: context.loadKg ?? null
+      });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.transitionDemo(pickup, toStatus, context);
+        }
+        const code = ERROR_CODES.find(c => error.message?.includes(c));
+        if (code === 'PICKUP_STATUS_CONFLICT') {
+          throw new PickupTransitionError(code, `Pickup ${submissionId} changed status while this request was in flight; reload and retry`);
+        }
+        if (code) throw new PickupTransitionError(code, `Pickup ${submissionId} not found`);
+        throw new Error(`Failed to update pickup status: ${error.message}`);
+      }
+
+      const transition = (Array.isArray(data) ? data[0] : data) as PickupTransition;
+      console.log(`📦 Pickup ${submissionId}: ${pickup.status} → ${toStatus} (${context.actor})`);
+      return transition;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.transitionDemo(pickup, toStatus, context);
+    }
+  }
+
+  // A status change asked for directly by a citizen, collector or ops through the status APIs
+  async requestTransition(
+    submissionId: number,
+    toStatus: PickupStatus,
+    context: PickupTransitionContext
+  ): Promise<PickupTransition> {
+    if (toStatus === 'ASSIGNED') {
+      throw new PickupTransitionError('WORKFLOW_REQUIRED', 'Assign pickups through the dispatch API, which checks the collector and its capacity');
+    }
+    if (WORKFLOW_STATUSES.includes(toStatus)) {
+      throw new PickupTransitionError('WORKFLOW_REQUIRED', `Pickups become ${toStatus} by recording and verifying the collection`);
+    }
+    return this.transition(submissionId, toStatus, context);
+  }
+
+  async getHistory(submissionId: number): Promise<PickupTransition[]> {
+    try {
+      const { data, error } = await supabase
+        .from('pickup_status_transitions')
+        .select('*')
+        .eq('submission_id', submissionId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoTransitions.filter(t => t.submission_id === submissionId);
+        }
+        throw new Error(`Failed to fetch pickup history: ${error.message}`);
+      }
+
+      return (data || []) as PickupTransition[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoTransitions.filter(t => t.submission_id === submissionId);
+    }
+  }
+
+  async getPickupState(submissionId: number): Promise<PickupState | null> {
+    try {
+      const { data, error } = await supabase
+        .from('waste_submissions')
+        .select('id, pickup_status, user_id, pickup_collector_id, pickup_load_kg, pickup_estimated_weight_kg')
+        .eq('id', submissionId)
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoPickup(submissionId);
+        }
+        throw new Error(`Failed to fetch pickup: ${error.message}`);
+      }
+      if (!data) return null;
+
+      return {
+        id: data.id,
+        status: data.pickup_status as PickupStatus,
+        user_id: data.user_id,
+        collector_id: data.pickup_collector_id,
+        load_kg: data.pickup_load_kg,
+        estimated_weight: data.pickup_estimated_weight_kg
+      };
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoPickup(submissionId);
+    }
+  }
+
+  private assertAllowed(pickup: PickupState, toStatus: PickupStatus, context: PickupTransitionContext): void {
+    const actors = PICKUP_TRANSITIONS[pickup.status]?.[toStatus];
+
+    if (!actors) {
+      const allowed = allowedNextStatuses(pickup.status);
+      throw new PickupTransitionError(
+        'INVALID_PICKUP_TRANSITION',
+        `Cannot move pickup ${pickup.id} from ${pickup.status} to ${toStatus}` +
+        (allowed.length ? ` (allowed: ${allowed.join(', ')})` : ` (${pickup.status} is final)`)
+      );
+    }
+    if (!actors.includes(context.actor)) {
+      throw new PickupTransitionError(
+        'ACTOR_NOT_ALLOWED',
+        `A ${context.actor} cannot move a pickup from ${pickup.status} to ${toStatus}`
+      );
+    }
+    if (context.actor === 'citizen' && (!context.actorId || context.actorId !== pickup.user_id)) {
+      throw new PickupTransitionError('NOT_PICKUP_OWNER', `Pickup ${pickup.id} belongs to another user`);
+    }
+    if (context.actor === 'collector' && (!context.actorId || context.actorId !== pickup.collector_id)) {
+      throw new PickupTransitionError('NOT_ASSIGNED_COLLECTOR', `Pickup ${pickup.id} is not assigned to this collector`);
+    }
+    if (REASON_REQUIRED.includes(toStatus) && !context.reason?.trim()) {
+      throw new PickupTransitionError('REASON_REQUIRED', `A reason is required to mark a pickup ${toStatus}`);
+    }
+    if (toStatus === 'ASSIGNED' && !context.collectorId) {
+      throw new PickupTransitionError('COLLECTOR_REQUIRED', 'A collector is required to assign a pickup');
+    }
+  }
+
+  // Unknown demo pickups start as PENDING with no owner, so citizens cannot act on them
+  private getDemoPickup(submissionId: number): PickupState {
+    let pickup = this.demoPickups.get(submissionId);
+    if (!pickup) {
+      pickup = { id: submissionId, status: 'PENDING', user_id: null, collector_id: null, load_kg: null, estimated_weight: null };
+      this.demoPickups.set(submissionId, pickup);
+    }
+    return pickup;
+  }
+
+  private async transitionDemo(pickup: PickupState, toStatus: PickupStatus, context: PickupTransitionContext): Promise<PickupTransition> {
+    const transition: PickupTransition = {
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      submission_id: pickup.id,
+      from_status: pickup.status,
+      to_status: toStatus,
+      actor: context.actor,
+      actor_id: context.actorId ?? null,
+      reason: context.reason?.trim() || null,
+      created_at: new Date().toISOString()
+    };
+
+    // Same load bookkeeping as transition_pickup_status()
+    if (toStatus === 'ASSIGNED') {
+      pickup.load_kg = context.loadKg ?? pickup.estimated_weight ?? DEFAULT_PICKUP_WEIGHT_KG;
+      await collectorRegistry.adjustLoad((context.collectorId ?? pickup.collector_id)!, pickup.load_kg);
+    } else if (toStatus === 'COLLECTED' && context.loadKg !== undefined) {
+      await collectorRegistry.adjustLoad(pickup.collector_id!, context.loadKg - (pickup.load_kg ?? 0));
+      pickup.load_kg = context.loadKg;
+    } else if (!COLLECTOR_HELD_STATUSES.includes(toStatus)) {
+      if (pickup.load_kg !== null && pickup.collector_id) {
+        await collectorRegistry.adjustLoad(pickup.collector_id, -pickup.load_kg);
+      }
+      pickup.load_kg = null;
+    }
+
+    pointsLedger.syncDemoHold(pickup.id, toStatus);
+
+    pickup.status = toStatus;
+    if (toStatus === 'MANUAL_ASSIGNMENT_NEEDED' || toStatus === 'RESCHEDULED') {
+      pickup.collector_id = null;
+    } else if (context.collectorId) {
+      pickup.collector_id = context.collectorId;
+    }
+
+    this.demoTransitions.push(transition);
+    return transition;
+  }
+}
+
+// Export singleton instance
+export const pickupLifecycle = new PickupLifecycleService();
@@ -1,100 +1,423 @@
-import { createClient } from '@supabase/supabase-js';
+import { supabase, isFetchFailedError } from '@/lib/supabase';
 import { NotificationService } from './notificationService';
-import { Location, PickupTicket, EstimationResult } from '@/types/pickup';
+import { collectorRegistry, haversineKm } from './collectorRegistry';
+import { pickupLifecycle, PickupTransitionError } from './pickupLifecycle';
+import type { Collector, CollectorCandidate, VehicleType } from '@/types/collector';
+import type {
+  Location,
+  PickupActor,
+  PickupAssignment,
+  PickupRequest,
+  PickupStatus,
+  PickupTicket,
+  PickupTransitionContext
+} from '@/types/pickup';
 
+const DEFAULT_PICKUP_WEIGHT_KG = 2.0; // same per-stop estimate the route optimizer uses
+const DEFAULT_SERVICE_MINUTES = 5;
+// Waiting for a dispatcher to pick a collector
+const QUEUED_STATUSES: PickupStatus[] = ['MANUAL_ASSIGNMENT_NEEDED', 'RESCHEDULED'];
+
+const TICKET_COLUMNS = `
+  id,
+  user_id,
+  type,
+  points,
+  created_at,
+  pickup_status,
+  pickup_collector_id,
+  pickup_location,
+  pickup_window_start,
+  pickup_window_end,
+  pickup_service_minutes,
+  pickup_estimated_weight_kg,
+  pickup_status_updated_at,
+  pickup_accepted_at,
+  optimized_route_id,
+  route_order
+`;
+
+export interface PickupMatchOptions {
+  wasteType?: string;
+  weightKg?: number;
+  vehicleType?: VehicleType;
+  collectorId?: string; // skip matching and give the pickup to this collector
+  actor?: PickupActor;  // who is assigning; defaults to 'system' (auto-assignment)
+  actorId?: string;
+}
+
+function toTicket(row: any): PickupTicket {
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    collector_id: row.pickup_collector_id,
+    location: row.pickup_location,
+    waste_type: row.type,
+    estimated_weight: row.pickup_estimated_weight_kg,
+    points: row.points,
+    status: row.pickup_status,
+    pickup_window_start: row.pickup_window_start,
+    pickup_window_end: row.pickup_window_end,
+    service_minutes: row.pickup_service_minutes ?? DEFAULT_SERVICE_MINUTES,
+    created_at: row.created_at,
+    status_updated_at: row.pickup_status_updated_at,
+    accepted_at: row.pickup_accepted_at ?? null,
+    optimized_route_id: row.optimized_route_id ?? null,
+    route_order: row.route_order ?? null
+  };
+}
+
+/**
+ * Pickups are waste submissions with a location attached. Creating one matches
+ * the nearest available collector with room for it; when nobody fits, the
+ * pickup goes to MANUAL_ASSIGNMENT_NEEDED and ops are notified. Status changes
+ * go through the pickup lifecycle.
+ */
 export class PickupService {
-  private supabase;
-  private notificationService: NotificationService;
+  private notificationService = new NotificationService();
 
-  constructor() {
-    this.supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key'
-    );
-    this.notificationService = new NotificationService();
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoTickets = new Map<number, PickupTicket>();
+
+  async createPickupRequest(request: PickupRequest, userId?: string): Promise<PickupAssignment> {
+    const ticket = await this.savePickupDetails(request, userId);
+    if (!ticket) {
+      throw new PickupTransitionError('PICKUP_NOT_FOUND', `Submission ${request.submission_id} not found`);
+    }
+
+    return this.assignPickup(ticket.id, ticket.location, {
+      wasteType: ticket.waste_type,
+      weightKg: ticket.estimated_weight ?? undefined,
+      vehicleType: request.vehicle_type
+    });
+  }
+
+  /**
+   * Assigns the pickup to the best-scoring collector near `location`, or to
+   * `options.collectorId` when the caller has already chosen one.
+   */
+  async assignPickup(submissionId: number, location: Location, options: PickupMatchOptions = {}): Promise<PickupAssignment> {
+    const weightKg = options.weightKg ?? DEFAULT_PICKUP_WEIGHT_KG;
+
+    let candidate: CollectorCandidate | null;
+    if (options.collectorId) {
+      const collector = await collectorRegistry.getCollector(options.collectorId);
+      if (!collector) {
+        throw new Error(`Collector ${options.collectorId} not found`);
+      }
+      candidate = this.toCandidate(collector, location);
+    } else {
+      const candidates = await collectorRegistry.findCandidates({
+        lat: location.lat,
+        lng: location.lng,
+        wasteType: options.wasteType,
+        requiredCapacityKg: weightKg,
+        vehicleType: options.vehicleType,
+        limit: 1
+      });
+      candidate = candidates[0] || null;
+    }
+
+    if (!candidate) {
+      const reason = `No available collector within range for ${options.wasteType || 'mixed'} waste (${weightKg} kg)`;
+      await this.requestManualAssignment(submissionId, reason);
+      return { submission_id: submissionId, status: 'MANUAL_ASSIGNMENT_NEEDED', collector: null, reason };
+    }
+
+    const { collector } = candidate;
+    await pickupLifecycle.transition(submissionId, 'ASSIGNED', {
+      actor: options.actor || 'system',
+      actorId: options.actorId,
+      collectorId: collector.id,
+      loadKg: weightKg
+    });
+
+    await this.sendConfirmations(submissionId, location, options.wasteType, collector);
+
+    console.log(`🚛 Pickup ${submissionId} assigned to ${collector.name} (${candidate.distanceKm.toFixed(1)} km away)`);
+
+    return { submission_id: submissionId, status: 'ASSIGNED', collector: candidate };
+  }
+
+  async requestManualAssignment(submissionId: number, reason: string): Promise<void> {
+    await pickupLifecycle.transition(submissionId, 'MANUAL_ASSIGNMENT_NEEDED', {
+      actor: 'system',
+      reason
+    });
+
+    await this.notificationService.notifyOps({
+      type: 'MANUAL_ASSIGNMENT_NEEDED',
+      submissionId,
+      reason
+    });
+  }
+
+  /**
+   * Takes an assigned pickup back from its collector (declined, or pulled off by
+   * a dispatcher); the transition frees the capacity it was holding. Ops are told
+   * unless they made the change themselves.
+   */
+  async unassignPickup(pickup: PickupTicket, context: PickupTransitionContext): Promise<void> {
+    await pickupLifecycle.transition(pickup.id, 'MANUAL_ASSIGNMENT_NEEDED', context);
+
+    if (context.actor !== 'ops') {
+      await this.notificationService.notifyOps({
+        type: 'MANUAL_ASSIGNMENT_NEEDED',
+        submissionId: pickup.id,
+        reason: context.reason
+      });
+    }
+  }
+
+  // Ops queue: pickups nobody could be matched to and rescheduled ones waiting for a new collector, oldest first
+  async getManualAssignmentQueue(): Promise<PickupTicket[]> {
+    try {
+      const { data, error } = await supabase
+        .from('waste_submissions')
+        .select(TICKET_COLUMNS)
+        .in('pickup_status', QUEUED_STATUSES)
+        .order('pickup_status_updated_at', { ascending: true });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoQueue();
+        }
+        throw new Error(`Failed to fetch manual assignment queue: ${error.message}`);
+      }
+
+      return (data || []).map(toTicket);
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoQueue();
+    }
+  }
+
+  async getTickets(submissionIds: number[]): Promise<PickupTicket[]> {
+    if (submissionIds.length === 0) return [];
+
+    try {
+      const { data, error } = await supabase
+        .from('waste_submissions')
+        .select(TICKET_COLUMNS)
+        .in('id', submissionIds);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoTickets(submissionIds);
+        }
+        throw new Error(`Failed to fetch pickups: ${error.message}`);
+      }
+
+      return (data || []).map(toTicket);
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoTickets(submissionIds);
+    }
   }
 
-  async createPickupRequest(estimation: EstimationResult): Promise<PickupTicket> {
+  // A collector's pickups in the given statuses, in route order (unplanned ones last, oldest first)
+  async getCollectorPickups(collectorId: string, statuses: PickupStatus[]): Promise<PickupTicket[]> {
     try {
-      // Create pickup ticket
-      const { data: ticket, error: ticketError } = await this.supabase
-        .from('pickup_tickets')
-        .insert({
-          user_id: estimation.user_id,
-          location: estimation.location,
-          waste_type: estimation.waste_type,
-          estimated_weight: estimation.weight,
-          points: estimation.points,
-          status: 'PENDING'
-        })
-        .select()
-        .single();
-
-      if (ticketError) throw new Error('Failed to create pickup ticket');
-
-      // Find nearest collector
-      const collector = await this._assignCollector(ticket);
-      
-      if (collector) {
-        await this._updateTicketStatus(ticket.id, 'ASSIGNED', collector.id);
-        await this._sendConfirmations(ticket, collector);
-      } else {
-        await this._initiateManualAssignment(ticket);
+      const { data, error } = await supabase
+        .from('waste_submissions')
+        .select(TICKET_COLUMNS)
+        .eq('pickup_collector_id', collectorId)
+        .in('pickup_status', statuses)
+        .order('route_order', { ascending: true, nullsFirst: false })
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoCollectorPickups(collectorId, statuses);
+        }
+        throw new Error(`Failed to fetch collector pickups: ${error.message}`);
+      }
+
+      return (data || []).map(toTicket);
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoCollectorPickups(collectorId, statuses);
+    }
+  }
+
+  async markAccepted(submissionId: number, collectorId: string): Promise<boolean> {
+    const acceptedAt = new Date().toISOString();
+
+    try {
+      const { data, error } = await supabase
+        .from('waste_submissions')
+        .update({ pickup_accepted_at: acceptedAt })
+        .eq('id', submissionId)
+        .eq('pickup_collector_id', collectorId)
+        .eq('pickup_status', 'ASSIGNED')
+        .select('id');
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.markDemoAccepted(submissionId, collectorId, acceptedAt);
+        }
+        throw new Error(`Failed to accept pickup: ${error.message}`);
+      }
+
+      return (data || []).length > 0;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.markDemoAccepted(submissionId, collectorId, acceptedAt);
+    }
+  }
+
+  // Stores location, window and weight on the submission; citizens may only update their own.
+  // Only pending pickups can change, so a repeat request can't move an assigned or collected one.
+  private async savePickupDetails(request: PickupRequest, userId?: string): Promise<PickupTicket | null> {
+    const details = {
+      pickup_location: request.location,
+      pickup_window_start: request.pickup_window_start ?? null,
+      pickup_window_end: request.pickup_window_end ?? null,
+      pickup_service_minutes: request.service_minutes ?? DEFAULT_SERVICE_MINUTES,
+      pickup_estimated_weight_kg: request.estimated_weight ?? null
+    };
+
+    try {
+      let query = supabase
+        .from('waste_submissions')
+        .update(details)
+        .eq('id', request.submission_id)
+        .eq('pickup_status', 'PENDING');
+      if (userId) {
+        query = query.eq('user_id', userId);
       }
 
+      const { data, error } = await query.select(TICKET_COLUMNS).maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.saveDemoTicket(request, userId);
+        }
+        throw new Error(`Failed to save pickup details: ${error.message}`);
+      }
+      if (!data) {
+        const state = await pickupLifecycle.getPickupState(request.submission_id);
+        if (state && (!userId || state.user_id === userId)) this.assertPending(state);
+        return null;
+      }
+
+      const ticket = toTicket(data);
+      if (request.waste_type) ticket.waste_type = request.waste_type;
       return ticket;
-    } catch (error) {
-      console.error('Pickup request failed:', error);
-      throw error;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.saveDemoTicket(request, userId);
     }
   }
 
-  private async _assignCollector(ticket: PickupTicket) {
-    const { data: collectors } = await this.supabase
-      .from('collectors')
-      .select('*')
-      .eq('status', 'AVAILABLE')
-      .order('last_active_at', { ascending: false })
-      .limit(1);
-
-    return collectors?.[0] || null;
-  }
-
-  private async _updateTicketStatus(
-    ticketId: string, 
-    status: string, 
-    collectorId?: string
-  ) {
-    await this.supabase
-      .from('pickup_tickets')
-      .update({ 
-        status,
-        collector_id: collectorId,
-        updated_at: new Date()
-      })
-      .eq('id', ticketId);
-  }
-
-  private async _sendConfirmations(ticket: PickupTicket, collector: any) {
-    await this.notificationService.sendPush(
-      ticket.user_id,
-      'Pickup Confirmed',
-      `Your pickup request has been confirmed. Collector will arrive shortly.`
-    );
+  private toCandidate(collector: Collector, location: Location): CollectorCandidate {
+    const remainingCapacityKg = collector.capacity_kg - collector.current_load_kg;
+    const loadRatio = collector.capacity_kg > 0 ? collector.current_load_kg / collector.capacity_kg : 1;
+    const distanceKm = collector.current_location ? haversineKm(location, collector.current_location) : 0;
+
+    return { collector, distanceKm, remainingCapacityKg, loadRatio, score: distanceKm * (1 + loadRatio) };
+  }
+
+  private async sendConfirmations(submissionId: number, location: Location, wasteType: string | undefined, collector: Collector) {
+    const pickup = await pickupLifecycle.getPickupState(submissionId);
+
+    if (pickup?.user_id) {
+      await this.notificationService.sendPush(
+        pickup.user_id,
+        'Pickup Confirmed',
+        `Your pickup request has been confirmed. ${collector.name} will arrive shortly.`
+      );
+    }
 
     await this.notificationService.sendSMS(
       collector.phone,
-      `New pickup assigned: ${ticket.waste_type} at ${ticket.location.address}`
+      `New pickup assigned: ${wasteType || 'mixed'} waste at ${location.address || `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`}`
     );
   }
 
-  private async _initiateManualAssignment(ticket: PickupTicket) {
-    await this._updateTicketStatus(ticket.id, 'MANUAL_ASSIGNMENT_NEEDED');
-    
-    // Notify operations team
-    await this.notificationService.notifyOps({
-      type: 'MANUAL_ASSIGNMENT_NEEDED',
-      ticketId: ticket.id
-    });
+  private assertPending(state: { id: number; status: PickupStatus }): void {
+    if (state.status !== 'PENDING') {
+      throw new PickupTransitionError(
+        'INVALID_PICKUP_TRANSITION',
+        `Pickup ${state.id} is already ${state.status}; its details can only change while it is PENDING`
+      );
+    }
+  }
+
+  private async saveDemoTicket(request: PickupRequest, userId?: string): Promise<PickupTicket> {
+    const state = await pickupLifecycle.getPickupState(request.submission_id);
+    if (state) this.assertPending(state);
+
+    const ticket: PickupTicket = {
+      id: request.submission_id,
+      user_id: userId ?? null,
+      collector_id: null,
+      location: request.location,
+      waste_type: request.waste_type || 'mixed',
+      estimated_weight: request.estimated_weight ?? null,
+      points: 0,
+      status: 'PENDING',
+      pickup_window_start: request.pickup_window_start ?? null,
+      pickup_window_end: request.pickup_window_end ?? null,
+      service_minutes: request.service_minutes ?? DEFAULT_SERVICE_MINUTES,
+      created_at: new Date().toISOString(),
+      status_updated_at: null,
+      accepted_at: null,
+      optimized_route_id: null,
+      route_order: null
+    };
+
+    this.demoTickets.set(ticket.id, ticket);
+    return ticket;
+  }
+
+  private async getDemoTickets(submissionIds: number[]): Promise<PickupTicket[]> {
+    const tickets: PickupTicket[] = [];
+    for (const id of submissionIds) {
+      const ticket = this.demoTickets.get(id);
+      const state = ticket && await pickupLifecycle.getPickupState(id);
+      if (ticket && state) {
+        tickets.push({ ...ticket, status: state.status, collector_id: state.collector_id });
+      }
+    }
+    return tickets;
+  }
+
+  private async getDemoCollectorPickups(collectorId: string, statuses: PickupStatus[]): Promise<PickupTicket[]> {
+    const tickets = await this.getDemoTickets(Array.from(this.demoTickets.keys()));
+    return tickets.filter(ticket => ticket.collector_id === collectorId && statuses.includes(ticket.status));
+  }
+
+  private async markDemoAccepted(submissionId: number, collectorId: string, acceptedAt: string): Promise<boolean> {
+    const ticket = this.demoTickets.get(submissionId);
+    const state = await pickupLifecycle.getPickupState(submissionId);
+    if (!ticket || state?.status !== 'ASSIGNED' || state.collector_id !== collectorId) return false;
+
+    ticket.accepted_at = acceptedAt;
+    return true;
+  }
+
+  private async getDemoQueue(): Promise<PickupTicket[]> {
+    const queue: PickupTicket[] = [];
+    for (const ticket of Array.from(this.demoTickets.values())) {
+      const state = await pickupLifecycle.getPickupState(ticket.id);
+      if (state && QUEUED_STATUSES.includes(state.status)) {
+        queue.push({ ...ticket, status: state.status, collector_id: null });
+      }
+    }
+    return queue;
   }
 }
+
+// Export singleton instance
+export const pickupService = new PickupService();
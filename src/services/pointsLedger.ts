@@ -0,0 +1,518 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { campaignService } from './campaignService';
+import type { PickupStatus } from '@/types/pickup';
+import type {
+  PointsHistoryPage,
+  PointsLedgerEntry,
+  PointsSource,
+  ProvisionalPointsHold,
+  RecordPointsEntryInput,
+  RecordPointsEntryResult,
+  RecordProvisionalInput,
+  SettleProvisionalInput,
+  SettleProvisionalResult
+} from '@/types/points';
+
+export class InsufficientPointsError extends Error {
+  constructor(public balance: number, public requested: number) {
+    super(`Insufficient points: balance ${balance}, requested ${requested}`);
+    this.name = 'InsufficientPointsError';
+  }
+}
+
+/**
+ * Append-only points ledger. Every balance change is an entry with a reason,
+ * a source reference and an idempotency key; `users.points` is only written
+ * by the `record_points_entry` database function, which locks the user row.
+ */
+export class PointsLedgerService {
+  // Demo fallback ledger (used when Supabase is unreachable)
+  private demoEntries = new Map<string, PointsLedgerEntry[]>();
+  private demoKeys = new Map<string, PointsLedgerEntry>(); // "<email>:<idempotency key>"
+  private demoHolds = new Map<string, ProvisionalPointsHold>();
+
+  async recordEntry(input: RecordPointsEntryInput): Promise<RecordPointsEntryResult> {
+    if (!Number.isInteger(input.delta) || input.delta === 0) {
+      throw new Error('Points delta must be a non-zero integer');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('record_points_entry', {
+        p_user_email: input.userEmail,
+        p_delta: input.delta,
+        p_reason_code: input.reasonCode,
+        p_source_type: input.source.type,
+        p_source_id: input.source.id ?? null,
+        p_idempotency_key: input.idempotencyKey,
+        p_note: input.note ?? null
+      });
+
+      if (error) {
+        if (error.message?.includes('INSUFFICIENT_POINTS')) {
+          const balance = await this.getBalance(input.userEmail);
+          throw new InsufficientPointsError(balance, -input.delta);
+        }
+        if (!isFetchFailedError(error)) {
+          throw new Error(`Failed to record points entry: ${error.message}`);
+        }
+        return this.recordDemoEntry(input);
+      }
+
+      const { duplicate, current_balance: currentBalance, ...row } = Array.isArray(data) ? data[0] : data;
+      return {
+        entry: row as PointsLedgerEntry,
+        balance: currentBalance,
+        duplicate: Boolean(duplicate),
+        source: 'supabase'
+      };
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.recordDemoEntry(input);
+    }
+  }
+
+  async getBalance(userEmail: string): Promise<number> {
+    try {
+      const { data: user, error } = await supabase
+        .from('users')
+        .select('points')
+        .eq('email', userEmail)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        if (isFetchFailedError(error)) {
+          return this.getDemoBalance(userEmail);
+        }
+        throw new Error(`Failed to fetch balance: ${error.message}`);
+      }
+
+      return user?.points || 0;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoBalance(userEmail);
+    }
+  }
+
+  async getHistory(userEmail: string, page = 1, limit = 20): Promise<PointsHistoryPage> {
+    const from = (page - 1) * limit;
+    const to = from + limit - 1;
+
+    try {
+      const { data, error, count } = await supabase
+        .from('points_ledger')
+        .select('*', { count: 'exact' })
+        .eq('user_email', userEmail)
+        .order('created_at', { ascending: false })
+        .range(from, to);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoHistory(userEmail, page, limit);
+        }
+        throw new Error(`Failed to fetch points history: ${error.message}`);
+      }
+
+      const total = count ?? data?.length ?? 0;
+      return {
+        entries: (data || []) as PointsLedgerEntry[],
+        page,
+        limit,
+        total,
+        hasNextPage: from + limit < total
+      };
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoHistory(userEmail, page, limit);
+    }
+  }
+
+  /**
+   * Hold points estimated at submission time. The hold does not touch the balance;
+   * settleProvisional credits the verified amount once the collection is weighed.
+   * Recording the same source twice keeps the first hold.
+   */
+  async recordProvisional(input: RecordProvisionalInput): Promise<ProvisionalPointsHold> {
+    const points = Math.max(0, Math.round(input.points));
+
+    try {
+      const { error } = await supabase
+        .from('provisional_points')
+        .upsert({
+          user_email: input.userEmail,
+          source_type: input.source.type,
+          source_id: input.source.id,
+          estimated_points: points,
+          policy_version: input.policyVersion,
+          status: input.held ? 'held' : 'pending',
+          basis: input.basis ?? null,
+          note: input.note ?? null
+        }, { onConflict: 'source_type,source_id', ignoreDuplicates: true });
+
+      if (error) {
+        if (!isFetchFailedError(error)) {
+          throw new Error(`Failed to record provisional points: ${error.message}`);
+        }
+        return this.recordDemoHold(input, points);
+      }
+
+      const { data, error: fetchError } = await supabase
+        .from('provisional_points')
+        .select('*')
+        .eq('source_type', input.source.type)
+        .eq('source_id', input.source.id)
+        .single();
+
+      if (fetchError) {
+        throw new Error(`Failed to fetch provisional points: ${fetchError.message}`);
+      }
+
+      return data as ProvisionalPointsHold;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.recordDemoHold(input, points);
+    }
+  }
+
+  /**
+   * Settle a provisional hold with the verified amount, crediting it through the ledger.
+   * Campaign bonuses are charged to their budgets in the same transaction as the credit,
+   * so a hold that is still under review or gets rejected never spends a budget.
+   * Sources that were never held (older submissions) get a hold for userEmail first.
+   */
+  async settleProvisional(input: SettleProvisionalInput): Promise<SettleProvisionalResult> {
+    const finalPoints = Math.max(0, Math.round(input.finalPoints));
+
+    try {
+      const { data, error } = await supabase.rpc('settle_provisional_points', {
+        p_source_type: input.source.type,
+        p_source_id: input.source.id,
+        p_final_points: finalPoints,
+        p_policy_version: input.policyVersion,
+        p_note: input.note ?? null,
+        p_campaign_bonuses: input.campaignBonuses ?? []
+      });
+
+      if (error) {
+        if (error.message?.includes('PROVISIONAL_NOT_FOUND')) {
+          return this.settleWithoutHold(input, finalPoints);
+        }
+        if (!isFetchFailedError(error)) {
+          throw new Error(`Failed to settle provisional points: ${error.message}`);
+        }
+        return this.settleDemoHold(input, finalPoints);
+      }
+
+      const hold = (Array.isArray(data) ? data[0] : data) as ProvisionalPointsHold;
+      return { hold, balance: await this.getBalance(hold.user_email) };
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.settleDemoHold(input, finalPoints);
+    }
+  }
+
+  /**
+   * Resolve a hold that a fraud or moderation review put on 'held'. Approving credits the
+   * verified amount if the collection already settled (otherwise the hold goes back to
+   * pending); rejecting means nothing is credited. Approval leaves the hold as it is while
+   * another review on the same source is still open.
+   */
+  async resolveHold(source: Required<PointsSource>, approve: boolean, note?: string): Promise<ProvisionalPointsHold> {
+    try {
+      const { data, error } = await supabase.rpc('resolve_provisional_hold', {
+        p_source_type: source.type,
+        p_source_id: source.id,
+        p_approve: approve,
+        p_note: note ?? null
+      });
+
+      if (error) {
+        if (!isFetchFailedError(error)) {
+          throw new Error(`Failed to resolve provisional hold: ${error.message}`);
+        }
+        return this.resolveDemoHold(source, approve, note);
+      }
+
+      return (Array.isArray(data) ? data[0] : data) as ProvisionalPointsHold;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.resolveDemoHold(source, approve, note);
+    }
+  }
+
+  // Re-estimate an unsettled hold, e.g. after a moderator corrects the detected category
+  async reviseProvisional(source: Required<PointsSource>, points: number, policyVersion: string): Promise<ProvisionalPointsHold | null> {
+    const estimated = Math.max(0, Math.round(points));
+
+    try {
+      const { data, error } = await supabase
+        .from('provisional_points')
+        .update({ estimated_points: estimated, policy_version: policyVersion })
+        .eq('source_type', source.type)
+        .eq('source_id', source.id)
+        .in('status', ['pending', 'held'])
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        if (!isFetchFailedError(error)) {
+          throw new Error(`Failed to revise provisional points: ${error.message}`);
+        }
+        return this.reviseDemoHold(source, estimated, policyVersion);
+      }
+
+      return (data as ProvisionalPointsHold) || null;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.reviseDemoHold(source, estimated, policyVersion);
+    }
+  }
+
+  async getProvisional(userEmail: string, limit = 20): Promise<ProvisionalPointsHold[]> {
+    try {
+      const { data, error } = await supabase
+        .from('provisional_points')
+        .select('*')
+        .eq('user_email', userEmail)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.getDemoHolds(userEmail, limit);
+        }
+        throw new Error(`Failed to fetch provisional points: ${error.message}`);
+      }
+
+      return (data || []) as ProvisionalPointsHold[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.getDemoHolds(userEmail, limit);
+    }
+  }
+
+  // Recompute users.points from the ledger and report any drift that was corrected
+  async reconcile(userEmail: string): Promise<{ storedBalance: number; ledgerBalance: number; drift: number }> {
+    const { data, error } = await supabase.rpc('reconcile_user_points', {
+      p_user_email: userEmail
+    });
+
+    if (error) {
+      throw new Error(`Failed to reconcile points: ${error.message}`);
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      storedBalance: row.stored_balance,
+      ledgerBalance: row.ledger_balance,
+      drift: row.stored_balance - row.ledger_balance
+    };
+  }
+
+  // Opens a pending hold for the source and settles it, so the credit and campaign charges stay atomic
+  // Demo counterpart of the hold changes transition_pickup_status() makes when a pickup fails,
+  // is cancelled or is rescheduled
+  syncDemoHold(submissionId: number, pickupStatus: PickupStatus): void {
+    const hold = this.demoHolds.get(`submission:${submissionId}`);
+    if (!hold) return;
+
+    if (pickupStatus === 'CANCELLED' && ['pending', 'held', 'void'].includes(hold.status)) {
+      hold.status = 'void';
+      hold.settled_at = new Date().toISOString();
+    } else if (pickupStatus === 'FAILED' && hold.status === 'pending') {
+      hold.status = 'void';
+    } else if (pickupStatus === 'RESCHEDULED' && hold.status === 'void') {
+      hold.status = 'pending';
+    }
+  }
+
+  private async settleWithoutHold(input: SettleProvisionalInput, finalPoints: number): Promise<SettleProvisionalResult> {
+    if (!input.userEmail || finalPoints <= 0) {
+      return { hold: null, balance: null };
+    }
+
+    await this.recordProvisional({
+      userEmail: input.userEmail,
+      points: finalPoints,
+      policyVersion: input.policyVersion,
+      source: input.source,
+      note: input.note
+    });
+    return this.settleProvisional({ ...input, userEmail: undefined });
+  }
+
+  private recordDemoHold(input: RecordProvisionalInput, points: number): ProvisionalPointsHold {
+    const key = `${input.source.type}:${input.source.id}`;
+    const existing = this.demoHolds.get(key);
+    if (existing) return existing;
+
+    const hold: ProvisionalPointsHold = {
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      user_email: input.userEmail,
+      source_type: input.source.type,
+      source_id: input.source.id,
+      estimated_points: points,
+      settled_points: null,
+      status: input.held ? 'held' : 'pending',
+      policy_version: input.policyVersion,
+      settled_policy_version: null,
+      basis: input.basis ?? null,
+      note: input.note ?? null,
+      ledger_entry_id: null,
+      created_at: new Date().toISOString(),
+      settled_at: null
+    };
+    this.demoHolds.set(key, hold);
+    return hold;
+  }
+
+  private async settleDemoHold(input: SettleProvisionalInput, finalPoints: number): Promise<SettleProvisionalResult> {
+    const hold = this.demoHolds.get(`${input.source.type}:${input.source.id}`);
+    if (!hold) {
+      return this.settleWithoutHold(input, finalPoints);
+    }
+    if (hold.status === 'settled' || hold.status === 'rejected' || hold.status === 'void') {
+      return { hold, balance: this.getDemoBalance(hold.user_email) };
+    }
+    if (hold.status === 'held') {
+      hold.settled_points = finalPoints;
+      hold.settled_policy_version = input.policyVersion;
+      hold.campaign_bonuses = input.campaignBonuses ?? [];
+      return { hold, balance: null };
+    }
+
+    const credited = Math.max(0, finalPoints - await campaignService.claimBonuses(input.campaignBonuses ?? []));
+    if (credited > 0) {
+      const { entry } = this.recordDemoEntry({
+        userEmail: hold.user_email,
+        delta: credited,
+        reasonCode: 'SUBMISSION_REWARD',
+        source: input.source,
+        idempotencyKey: `provisional-settlement-${hold.id}`,
+        note: input.note
+      });
+      hold.ledger_entry_id = entry.id;
+    }
+
+    hold.status = 'settled';
+    hold.settled_points = credited;
+    hold.settled_policy_version = input.policyVersion;
+    hold.campaign_bonuses = input.campaignBonuses ?? [];
+    hold.settled_at = new Date().toISOString();
+    return { hold, balance: this.getDemoBalance(hold.user_email) };
+  }
+
+  private async resolveDemoHold(source: Required<PointsSource>, approve: boolean, note?: string): Promise<ProvisionalPointsHold> {
+    const hold = this.demoHolds.get(`${source.type}:${source.id}`);
+    if (!hold) throw new Error('PROVISIONAL_NOT_FOUND');
+    if (hold.status === 'void') return hold;
+    if (hold.status !== 'held') throw new Error('PROVISIONAL_NOT_HELD');
+
+    if (!approve) {
+      hold.status = 'rejected';
+      hold.settled_at = new Date().toISOString();
+    } else if (hold.settled_points === null) {
+      hold.status = 'pending';
+    } else {
+      const credited = Math.max(0, hold.settled_points - await campaignService.claimBonuses(hold.campaign_bonuses ?? []));
+      hold.settled_points = credited;
+      if (credited > 0) {
+        const { entry } = this.recordDemoEntry({
+          userEmail: hold.user_email,
+          delta: credited,
+          reasonCode: 'SUBMISSION_REWARD',
+          source,
+          idempotencyKey: `provisional-settlement-${hold.id}`,
+          note
+        });
+        hold.ledger_entry_id = entry.id;
+      }
+      hold.status = 'settled';
+      hold.settled_at = new Date().toISOString();
+    }
+    return hold;
+  }
+
+  private reviseDemoHold(source: Required<PointsSource>, points: number, policyVersion: string): ProvisionalPointsHold | null {
+    const hold = this.demoHolds.get(`${source.type}:${source.id}`);
+    if (!hold || (hold.status !== 'pending' && hold.status !== 'held')) return null;
+    hold.estimated_points = points;
+    hold.policy_version = policyVersion;
+    return hold;
+  }
+
+  private getDemoHolds(userEmail: string, limit: number): ProvisionalPointsHold[] {
+    return Array.from(this.demoHolds.values())
+      .filter(hold => hold.user_email === userEmail)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  private recordDemoEntry(input: RecordPointsEntryInput): RecordPointsEntryResult {
+    const key = `${input.userEmail}:${input.idempotencyKey}`;
+    const existing = this.demoKeys.get(key);
+    if (existing) {
+      return { entry: existing, balance: this.getDemoBalance(input.userEmail), duplicate: true, source: 'demo' };
+    }
+
+    const balance = this.getDemoBalance(input.userEmail);
+    if (balance + input.delta < 0) {
+      throw new InsufficientPointsError(balance, -input.delta);
+    }
+
+    const entry: PointsLedgerEntry = {
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      user_email: input.userEmail,
+      delta: input.delta,
+      balance_after: balance + input.delta,
+      reason_code: input.reasonCode,
+      source_type: input.source.type,
+      source_id: input.source.id ?? null,
+      idempotency_key: input.idempotencyKey,
+      note: input.note ?? null,
+      created_at: new Date().toISOString()
+    };
+
+    const entries = this.demoEntries.get(input.userEmail) || [];
+    entries.push(entry);
+    this.demoEntries.set(input.userEmail, entries);
+    this.demoKeys.set(key, entry);
+
+    return { entry, balance: entry.balance_after, duplicate: false, source: 'demo' };
+  }
+
+  private getDemoBalance(userEmail: string): number {
+    const entries = this.demoEntries.get(userEmail) || [];
+    return entries.reduce((sum, entry) => sum + entry.delta, 0);
+  }
+
+  private getDemoHistory(userEmail: string, page: number, limit: number): PointsHistoryPage {
+    const entries = [...(this.demoEntries.get(userEmail) || [])].reverse();
+    const start = (page - 1) * limit;
+    return {
+      entries: entries.slice(start, start + limit),
+      page,
+      limit,
+      total: entries.length,
+      hasNextPage: start + limit < entries.length
+    };
+  }
+}
+
+// Export singleton instance
+export const pointsLedger = new PointsLedgerService();
@@ -0,0 +1,292 @@
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import { pointsLedger, InsufficientPointsError } from './pointsLedger';
+import type {
+  CatalogReward,
+  RedemptionAction,
+  RedemptionStatus,
+  RewardCategory,
+  RewardRedemption
+} from '@/types/rewards';
+
+export type RedemptionErrorCode =
+  | 'REWARD_NOT_FOUND'
+  | 'REWARD_NOT_AVAILABLE'
+  | 'REWARD_OUT_OF_STOCK'
+  | 'REWARD_LIMIT_REACHED'
+  | 'INSUFFICIENT_POINTS'
+  | 'REDEMPTION_NOT_FOUND'
+  | 'INVALID_REDEMPTION_TRANSITION';
+
+const REDEMPTION_ERROR_CODES: RedemptionErrorCode[] = [
+  'REWARD_NOT_FOUND',
+  'REWARD_NOT_AVAILABLE',
+  'REWARD_OUT_OF_STOCK',
+  'REWARD_LIMIT_REACHED',
+  'INSUFFICIENT_POINTS',
+  'REDEMPTION_NOT_FOUND',
+  'INVALID_REDEMPTION_TRANSITION'
+];
+
+export class RedemptionError extends Error {
+  constructor(public code: RedemptionErrorCode) {
+    super(code);
+    this.name = 'RedemptionError';
+  }
+}
+
+const ACTION_STATUS: Record<RedemptionAction, RedemptionStatus> = {
+  fulfill: 'fulfilled',
+  cancel: 'cancelled',
+  refund: 'refunded'
+};
+
+// Same rows as the seed in schema.sql; served when Supabase is unreachable
+const DEMO_CATALOG: CatalogReward[] = [
+  { id: 'amazon-gift-card-50', title: '$50 Amazon Gift Card', description: 'Redeem your points for an Amazon gift card.', category: 'gift-cards', points_cost: 5000, image_url: '/marketplace/amazon-card.svg', stock: 50, per_user_limit: null, featured: true, is_active: true },
+  { id: 'reusable-water-bottle', title: 'Reusable Water Bottle', description: 'High-quality stainless steel water bottle.', category: 'eco-products', points_cost: 2000, image_url: '/marketplace/water-bottle.svg', stock: 100, per_user_limit: null, featured: false, is_active: true },
+  { id: 'tree-planting', title: 'Tree Planting', description: 'Plant a tree in your name.', category: 'donations', points_cost: 1000, image_url: '/marketplace/tree-planting.svg', stock: null, per_user_limit: null, featured: false, is_active: true },
+  { id: 'eco-workshop', title: 'Eco Workshop', description: 'Join an exclusive eco-friendly workshop.', category: 'experiences', points_cost: 3000, image_url: '/marketplace/workshop.svg', stock: 20, per_user_limit: 1, featured: false, is_active: true },
+  { id: 'crypto-btc-testnet', title: 'Testnet BTC Reward', description: 'Demo crypto reward (no real blockchain).', category: 'crypto', points_cost: 500, stock: null, per_user_limit: null, featured: false, is_active: true },
+  { id: 'crypto-eth-testnet', title: 'Testnet ETH Reward', description: 'Demo crypto reward (no real blockchain).', category: 'crypto', points_cost: 750, stock: null, per_user_limit: null, featured: false, is_active: true },
+  { id: 'nft-eco-achiever', title: 'Eco Achiever NFT', description: 'Demo NFT reward (no minting).', category: 'nft', points_cost: 1200, stock: null, per_user_limit: 1, featured: false, is_active: true },
+  { id: 'voucher-10-off', title: '10% Partner Voucher', description: 'Partner discount with QR code verification.', category: 'vouchers', points_cost: 300, stock: null, per_user_limit: null, featured: false, is_active: true }
+];
+
+function toRedemptionError(err: { message?: string }): RedemptionError | null {
+  const code = REDEMPTION_ERROR_CODES.find(c => err.message?.includes(c));
+  return code ? new RedemptionError(code) : null;
+}
+
+function isAvailableNow(reward: CatalogReward, now = new Date()): boolean {
+  if (!reward.is_active) return false;
+  if (reward.starts_at && new Date(reward.starts_at) > now) return false;
+  if (reward.ends_at && new Date(reward.ends_at) < now) return false;
+  return true;
+}
+
+export class RewardCatalogService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoCatalog = DEMO_CATALOG.map(reward => ({ ...reward }));
+  private demoRedemptions: RewardRedemption[] = [];
+
+  async listRewards(category?: RewardCategory): Promise<CatalogReward[]> {
+    try {
+      let query = supabase
+        .from('reward_catalog')
+        .select('*')
+        .eq('is_active', true)
+        .order('points_cost', { ascending: true });
+
+      if (category) {
+        query = query.eq('category', category);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.listDemoRewards(category);
+        }
+        throw new Error(`Failed to fetch reward catalog: ${error.message}`);
+      }
+
+      return ((data || []) as CatalogReward[]).filter(reward => isAvailableNow(reward));
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.listDemoRewards(category);
+    }
+  }
+
+  async redeem(userEmail: string, rewardId: string, idempotencyKey: string): Promise<RewardRedemption> {
+    try {
+      const { data, error } = await supabase.rpc('redeem_reward', {
+        p_user_email: userEmail,
+        p_reward_id: rewardId,
+        p_idempotency_key: idempotencyKey
+      });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.redeemDemo(userEmail, rewardId, idempotencyKey);
+        }
+        // A concurrent request with the same key committed first; it rolled this one back
+        if (error.code === '23505') {
+          const existing = await this.findRedemption(userEmail, idempotencyKey);
+          if (existing) return existing;
+        }
+        throw toRedemptionError(error) || new Error(`Failed to redeem reward: ${error.message}`);
+      }
+
+      return (Array.isArray(data) ? data[0] : data) as RewardRedemption;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.redeemDemo(userEmail, rewardId, idempotencyKey);
+    }
+  }
+
+  private async findRedemption(userEmail: string, idempotencyKey: string): Promise<RewardRedemption | null> {
+    const { data, error } = await supabase
+      .from('reward_redemptions')
+      .select('*')
+      .eq('user_email', userEmail)
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch redemption: ${error.message}`);
+    }
+    return (data as RewardRedemption) || null;
+  }
+
+  async settleRedemption(redemptionId: string, action: RedemptionAction, note?: string): Promise<RewardRedemption> {
+    const status = ACTION_STATUS[action];
+
+    try {
+      const { data, error } = await supabase.rpc('settle_redemption', {
+        p_redemption_id: redemptionId,
+        p_status: status,
+        p_note: note ?? null
+      });
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.settleDemo(redemptionId, status, note);
+        }
+        throw toRedemptionError(error) || new Error(`Failed to update redemption: ${error.message}`);
+      }
+
+      return (Array.isArray(data) ? data[0] : data) as RewardRedemption;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.settleDemo(redemptionId, status, note);
+    }
+  }
+
+  async listRedemptions(filters: { userEmail?: string; status?: RedemptionStatus }): Promise<RewardRedemption[]> {
+    try {
+      let query = supabase
+        .from('reward_redemptions')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (filters.userEmail) query = query.eq('user_email', filters.userEmail);
+      if (filters.status) query = query.eq('status', filters.status);
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.listDemoRedemptions(filters);
+        }
+        throw new Error(`Failed to fetch redemptions: ${error.message}`);
+      }
+
+      return (data || []) as RewardRedemption[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.listDemoRedemptions(filters);
+    }
+  }
+
+  private listDemoRewards(category?: RewardCategory): CatalogReward[] {
+    return this.demoCatalog
+      .filter(reward => isAvailableNow(reward) && (!category || reward.category === category))
+      .sort((a, b) => a.points_cost - b.points_cost);
+  }
+
+  private listDemoRedemptions(filters: { userEmail?: string; status?: RedemptionStatus }): RewardRedemption[] {
+    return this.demoRedemptions
+      .filter(r => (!filters.userEmail || r.user_email === filters.userEmail) && (!filters.status || r.status === filters.status))
+      .reverse();
+  }
+
+  private async redeemDemo(userEmail: string, rewardId: string, idempotencyKey: string): Promise<RewardRedemption> {
+    const existing = this.demoRedemptions.find(r => r.user_email === userEmail && r.idempotency_key === idempotencyKey);
+    if (existing) return existing;
+
+    const reward = this.demoCatalog.find(r => r.id === rewardId);
+    if (!reward) throw new RedemptionError('REWARD_NOT_FOUND');
+    if (!isAvailableNow(reward)) throw new RedemptionError('REWARD_NOT_AVAILABLE');
+    if (reward.stock !== null && reward.stock <= 0) throw new RedemptionError('REWARD_OUT_OF_STOCK');
+
+    if (reward.per_user_limit !== null) {
+      const previous = this.demoRedemptions.filter(r =>
+        r.user_email === userEmail && r.reward_id === rewardId && (r.status === 'pending' || r.status === 'fulfilled')
+      ).length;
+      if (previous >= reward.per_user_limit) throw new RedemptionError('REWARD_LIMIT_REACHED');
+    }
+
+    const now = new Date().toISOString();
+    const redemption: RewardRedemption = {
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      reward_id: rewardId,
+      user_email: userEmail,
+      points_spent: reward.points_cost,
+      status: 'pending',
+      idempotency_key: idempotencyKey,
+      created_at: now,
+      updated_at: now
+    };
+
+    // Reserve stock before the debit and release it if the debit fails
+    if (reward.stock !== null) reward.stock--;
+    try {
+      await pointsLedger.recordEntry({
+        userEmail,
+        delta: -reward.points_cost,
+        reasonCode: 'REDEMPTION',
+        source: { type: 'redemption', id: redemption.id },
+        idempotencyKey: `redemption-${redemption.id}`,
+        note: `Redeemed ${reward.title}`
+      });
+    } catch (error) {
+      if (reward.stock !== null) reward.stock++;
+      if (error instanceof InsufficientPointsError) throw new RedemptionError('INSUFFICIENT_POINTS');
+      throw error;
+    }
+
+    this.demoRedemptions.push(redemption);
+    return redemption;
+  }
+
+  private async settleDemo(redemptionId: string, status: RedemptionStatus, note?: string): Promise<RewardRedemption> {
+    const redemption = this.demoRedemptions.find(r => r.id === redemptionId);
+    if (!redemption) throw new RedemptionError('REDEMPTION_NOT_FOUND');
+
+    const allowed =
+      (redemption.status === 'pending' && (status === 'fulfilled' || status === 'cancelled')) ||
+      (redemption.status === 'fulfilled' && status === 'refunded');
+    if (!allowed) throw new RedemptionError('INVALID_REDEMPTION_TRANSITION');
+
+    if (status === 'cancelled' || status === 'refunded') {
+      const reward = this.demoCatalog.find(r => r.id === redemption.reward_id);
+      if (reward && reward.stock !== null) reward.stock++;
+
+      await pointsLedger.recordEntry({
+        userEmail: redemption.user_email,
+        delta: redemption.points_spent,
+        reasonCode: 'REDEMPTION_REFUND',
+        source: { type: 'redemption', id: redemption.id },
+        idempotencyKey: `redemption-refund-${redemption.id}`,
+        note
+      });
+    }
+
+    redemption.status = status;
+    redemption.fulfillment_note = note ?? redemption.fulfillment_note;
+    redemption.updated_at = new Date().toISOString();
+    return redemption;
+  }
+}
+
+// Export singleton instance
+export const rewardCatalog = new RewardCatalogService();
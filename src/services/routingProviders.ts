@@ -0,0 +1,325 @@
+// Routing-engine providers used by /api/route-optimization/routing.
+// ROUTING_PROVIDER selects one explicitly; "auto" (default) prefers the
+// offline OSM graph, then OpenRouteService.
+import { DEFAULT_LANDMARK_COUNT, loadRoadGraph, type RoadGraph } from './osmRoadGraph';
+import type {
+  MatrixCell,
+  MatrixRequest,
+  RouteRequest,
+  RouteResult,
+  RoutingProvider,
+  RoutingProfile
+} from '@/types/routing';
+
+const ORS_PLACEHOLDER_KEY = 'your_openroute_api_key_here';
+const DEFAULT_SNAP_DISTANCE_KM = 1;
+const ACCESS_LEG_SPEED_KMH = 15; // off-graph hop from the pickup point to the nearest road
+
+// Decode polyline string to coordinates
+function decodePolyline(encoded: string): [number, number][] {
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    let b: number;
+    let shift = 0;
+    let result = 0;
+
+    // Decode latitude
+    do {
+      b = encoded.charCodeAt(index++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+
+    const deltaLat = ((result & 1) !== 0 ? ~(result >> 1) : (result >> 1));
+    lat += deltaLat;
+
+    shift = 0;
+    result = 0;
+
+    // Decode longitude
+    do {
+      b = encoded.charCodeAt(index++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+
+    const deltaLng = ((result & 1) !== 0 ? ~(result >> 1) : (result >> 1));
+    lng += deltaLng;
+
+    coordinates.push([lat / 1e5, lng / 1e5]);
+  }
+
+  return coordinates;
+}
+
+export class OpenRouteServiceProvider implements RoutingProvider {
+  readonly name = 'openrouteservice';
+
+  private get apiKey(): string | undefined {
+    return process.env.OPENROUTE_API_KEY || process.env.NEXT_PUBLIC_OPENROUTE_API_KEY;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey !== ORS_PLACEHOLDER_KEY;
+  }
+
+  async route({ from, to, vehicleType }: RouteRequest): Promise<RouteResult | null> {
+    if (!this.isConfigured()) return null;
+
+    try {
+      const profile = vehicleType === 'bike' ? 'cycling-regular' : 'driving-car';
+      const url = `https://api.openrouteservice.org/v2/directions/${profile}`;
+
+      console.log(`🗺️ Server-side routing request: ${from.lat.toFixed(4)},${from.lng.toFixed(4)} → ${to.lat.toFixed(4)},${to.lng.toFixed(4)}`);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 8000); // 8 second timeout
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json; charset=utf-8',
+          'Accept': 'application/json, application/geo+json, application/gpx+xml, img/png; charset=utf-8'
+        },
+        body: JSON.stringify({
+          coordinates: [[from.lng, from.lat], [to.lng, to.lat]],
+          geometry: true,
+          instructions: false,
+          elevation: false
+        }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          console.warn('⚠️ OpenRouteService rate limit hit, using fallback calculation');
+        } else {
+          const errorText = await response.text();
+          console.warn(`⚠️ OpenRouteService error: ${response.status} ${response.statusText}`, errorText);
+        }
+        return null;
+      }
+
+      const data = await response.json();
+      const route = data.routes?.[0];
+      if (!route) return null;
+
+      const distance = route.summary.distance / 1000; // Convert to km
+      const duration = route.summary.duration / 3600;  // Convert to hours
+
+      // OpenRouteService returns GeoJSON LineString geometry or encoded polyline
+      const geometry = route.geometry;
+      let routeCoordinates: [number, number][] = [];
+
+      if (geometry?.coordinates && Array.isArray(geometry.coordinates)) {
+        // Convert from [lng, lat] to [lat, lng] format for Leaflet
+        routeCoordinates = geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]] as [number, number]);
+      } else if (typeof geometry === 'string') {
+        try {
+          routeCoordinates = decodePolyline(geometry);
+        } catch (error) {
+          console.warn('⚠️ Failed to decode polyline, using fallback coordinates:', error);
+        }
+      }
+
+      // If no geometry or empty coordinates, fall back to straight line
+      if (routeCoordinates.length === 0) {
+        routeCoordinates = [[from.lat, from.lng], [to.lat, to.lng]];
+      }
+
+      console.log(`✅ OpenRouteService success: ${distance.toFixed(2)}km, ${(duration * 60).toFixed(1)}min, ${routeCoordinates.length} route points`);
+
+      return { distance, duration, routeCoordinates, source: this.name };
+    } catch (error) {
+      console.warn('⚠️ OpenRouteService request failed:', error instanceof Error ? error.message : 'Unknown error');
+      return null;
+    }
+  }
+
+  async matrix({ origins, destinations, vehicleType }: MatrixRequest): Promise<Array<Array<MatrixCell | null>> | null> {
+    if (!this.isConfigured()) return null;
+
+    try {
+      const profile = vehicleType === 'bike' ? 'cycling-regular' : 'driving-car';
+      const locations = [...origins, ...destinations].map(point => [point.lng, point.lat]);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 15000);
+
+      const response = await fetch(`https://api.openrouteservice.org/v2/matrix/${profile}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json; charset=utf-8',
+          'Accept': 'application/json; charset=utf-8'
+        },
+        body: JSON.stringify({
+          locations,
+          sources: origins.map((_, i) => i),
+          destinations: destinations.map((_, j) => origins.length + j),
+          metrics: ['distance', 'duration'],
+          units: 'km'
+        }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        console.warn(`⚠️ OpenRouteService matrix error: ${response.status} ${response.statusText}`);
+        return null;
+      }
+
+      const data = await response.json();
+      return origins.map((_, i) => destinations.map((_, j) => {
+        const distance = data.distances?.[i]?.[j];
+        const duration = data.durations?.[i]?.[j];
+        if (typeof distance !== 'number' || typeof duration !== 'number') return null;
+        return { distance, duration: duration / 3600, source: this.name };
+      }));
+    } catch (error) {
+      console.warn('⚠️ OpenRouteService matrix request failed:', error instanceof Error ? error.message : 'Unknown error');
+      return null;
+    }
+  }
+}
+
+export class LocalOsmRoutingProvider implements RoutingProvider {
+  readonly name = 'osm-local';
+  private graph: RoadGraph | null = null;
+  private loadError: Error | null = null;
+
+  constructor(private graphPath: string | undefined = process.env.OSM_GRAPH_PATH) {}
+
+  isConfigured(): boolean {
+    return !!this.graphPath;
+  }
+
+  // Loaded once per process and reused for every query
+  getGraph(): RoadGraph | null {
+    if (this.graph || this.loadError || !this.graphPath) return this.graph;
+
+    try {
+      this.graph = loadRoadGraph(this.graphPath);
+    } catch (error) {
+      this.loadError = error instanceof Error ? error : new Error(String(error));
+      console.error('❌ Failed to load OSM road graph:', this.loadError.message);
+    }
+    return this.graph;
+  }
+
+  get landmarkCount(): number {
+    return parseInt(process.env.OSM_LANDMARKS || '', 10) || DEFAULT_LANDMARK_COUNT;
+  }
+
+  async route({ from, to, vehicleType }: RouteRequest): Promise<RouteResult | null> {
+    const graph = this.getGraph();
+    if (!graph) return null;
+
+    // First query per profile pays for ALT preprocessing; later ones reuse it
+    graph.prepareLandmarks(vehicleType as RoutingProfile, this.landmarkCount);
+
+    const snapKm = parseFloat(process.env.OSM_SNAP_MAX_KM || '') || DEFAULT_SNAP_DISTANCE_KM;
+    const start = graph.nearestNode(from, snapKm);
+    const end = graph.nearestNode(to, snapKm);
+
+    if (!start || !end) {
+      console.warn('⚠️ Pickup is too far from any road in the local OSM graph');
+      return null;
+    }
+
+    const path = graph.shortestPath(start.nodeId, end.nodeId, vehicleType as RoutingProfile);
+    if (!path) {
+      console.warn(`⚠️ No ${vehicleType} route between the snapped nodes in the local OSM graph`);
+      return null;
+    }
+
+    const accessKm = start.distanceKm + end.distanceKm;
+    const routeCoordinates: [number, number][] = [
+      [from.lat, from.lng],
+      ...path.nodeIds.map(id => [graph.nodes[id].lat, graph.nodes[id].lng] as [number, number]),
+      [to.lat, to.lng]
+    ];
+
+    return {
+      distance: path.distanceKm + accessKm,
+      duration: path.durationHours + accessKm / ACCESS_LEG_SPEED_KMH,
+      routeCoordinates,
+      source: this.name
+    };
+  }
+
+  // One bounded Dijkstra per origin covers its whole row
+  async matrix({ origins, destinations, vehicleType }: MatrixRequest): Promise<Array<Array<MatrixCell | null>> | null> {
+    const graph = this.getGraph();
+    if (!graph) return null;
+
+    const profile = vehicleType as RoutingProfile;
+    const snapKm = parseFloat(process.env.OSM_SNAP_MAX_KM || '') || DEFAULT_SNAP_DISTANCE_KM;
+    const snappedDestinations = destinations.map(point => graph.nearestNode(point, snapKm));
+    const reachable = snappedDestinations.filter((snap): snap is NonNullable<typeof snap> => !!snap);
+
+    return origins.map(origin => {
+      const start = graph.nearestNode(origin, snapKm);
+      if (!start) return destinations.map(() => null);
+
+      const costs = graph.travelCostsToMany(start.nodeId, reachable.map(snap => snap.nodeId), profile);
+      let next = 0;
+
+      return snappedDestinations.map(end => {
+        if (!end) return null;
+        const cost = costs[next++];
+        if (!cost) return null;
+
+        const accessKm = start.distanceKm + end.distanceKm;
+        return {
+          distance: cost.distanceKm + accessKm,
+          duration: cost.durationHours + accessKm / ACCESS_LEG_SPEED_KMH,
+          source: this.name
+        };
+      });
+    });
+  }
+}
+
+let providers: RoutingProvider[] | null = null;
+let localProvider: LocalOsmRoutingProvider | null = null;
+
+// Shared so the graph and its preprocessing are loaded once per process
+export function getLocalOsmProvider(): LocalOsmRoutingProvider {
+  if (!localProvider) localProvider = new LocalOsmRoutingProvider();
+  return localProvider;
+}
+
+// Providers to try in order; empty when none is configured
+export function getRoutingProviders(): RoutingProvider[] {
+  if (providers) return providers;
+
+  const local = getLocalOsmProvider();
+  const ors = new OpenRouteServiceProvider();
+  const choice = (process.env.ROUTING_PROVIDER || 'auto').toLowerCase();
+
+  const candidates =
+    choice === 'osm-local' ? [local] :
+    choice === 'openrouteservice' ? [ors] :
+    [local, ors];
+
+  providers = candidates.filter(provider => provider.isConfigured());
+  console.log(`🧭 Routing providers: ${providers.map(p => p.name).join(', ') || 'none (straight-line fallback)'}`);
+  return providers;
+}
+
+export async function routeWithProviders(request: RouteRequest): Promise<RouteResult | null> {
+  for (const provider of getRoutingProviders()) {
+    const result = await provider.route(request);
+    if (result) return result;
+  }
+  return null;
+}
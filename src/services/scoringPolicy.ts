@@ -0,0 +1,210 @@
+import type { ContaminationGrade } from '@/types/collector';
+import type {
+  CampaignBonus,
+  DetectionScoringInput,
+  ItemizedAward,
+  MixedWeightScoringInput,
+  PointsAward,
+  ScoringCategory,
+  ScoringPolicy,
+  WeightScoringInput
+} from '@/types/scoring';
+
+/**
+ * The one points-scoring policy. Image estimates, self-reported weights and
+ * collector-verified weights are all scored here, and every award records the
+ * policy version it was computed with. Change the rules by bumping the version.
+ */
+export const SCORING_POLICY: ScoringPolicy = {
+  version: '2026-10.1',
+  categories: {
+    plastic: { basePoints: 10, pointsPerKg: 10, subcategories: { pet: 1.2, hdpe: 1.3 } },
+    paper: { basePoints: 8, pointsPerKg: 8 },
+    metal: { basePoints: 15, pointsPerKg: 15, subcategories: { aluminum: 1.5, copper: 2.0 } },
+    glass: { basePoints: 12, pointsPerKg: 12 },
+    electronics: { basePoints: 25, pointsPerKg: 20, subcategories: { phones: 3.0, computers: 4.0 } },
+    organic: { basePoints: 5, pointsPerKg: 5 },
+    textile: { basePoints: 6, pointsPerKg: 6 },
+    other: { basePoints: 3, pointsPerKg: 5 }
+  },
+  categoryAliases: {
+    electronic: 'electronics',
+    cardboard: 'paper',
+    mixed: 'other'
+  },
+  qualityModifiers: {
+    excellent: 1.2,
+    good: 1.0,
+    fair: 0.8,
+    poor: 0.5
+  },
+  contaminationModifiers: {
+    clean: 1.0,
+    light: 0.85,
+    moderate: 0.6,
+    heavy: 0 // rejected at the depot, nothing to reward
+  },
+  weightCurve: { fullRateKg: 50, taperRate: 0.5 },
+  caps: { perDetection: 100, perSubmission: 2500, campaignBonus: 500 }
+};
+
+export const SCORING_POLICY_VERSION = SCORING_POLICY.version;
+
+export const CONTAMINATION_GRADES = Object.keys(SCORING_POLICY.contaminationModifiers) as ContaminationGrade[];
+
+export function normalizeCategory(wasteType: string | null | undefined, policy = SCORING_POLICY): ScoringCategory {
+  const key = (wasteType || '').toLowerCase();
+  if (key in policy.categories) return key as ScoringCategory;
+  return policy.categoryAliases[key] || 'other';
+}
+
+export function getBasePoints(wasteType: string, policy = SCORING_POLICY): number {
+  return policy.categories[normalizeCategory(wasteType, policy)].basePoints;
+}
+
+// Points for an image-only estimate (no weight): the category's per-item points, adjusted for quality
+export function scoreDetection(input: DetectionScoringInput, policy = SCORING_POLICY): PointsAward {
+  const category = normalizeCategory(input.wasteType, policy);
+  const basePoints = policy.categories[category].basePoints;
+  const qualityModifier = qualityModifierFor(input.quality, policy);
+
+  return finalizeAward(policy, category, basePoints * qualityModifier, policy.caps.perDetection, input.bonuses, {
+    basePoints,
+    subcategoryMultiplier: 1,
+    qualityModifier,
+    contaminationModifier: 1
+  });
+}
+
+// Image estimate for several items in one photo
+export function scoreDetectedItems(items: DetectionScoringInput[], policy = SCORING_POLICY): ItemizedAward {
+  const awards = items.map(item => scoreDetection({ ...item, bonuses: undefined }, policy));
+  return itemizeAward(policy, items, awards);
+}
+
+// Points for weighed material, estimated by the citizen or verified by a collector
+export function scoreByWeight(input: WeightScoringInput, policy = SCORING_POLICY): PointsAward {
+  return weighedAward(input, effectiveWeight(Math.max(0, input.weightKg), policy), input.bonuses, policy);
+}
+
+// Verified weight of a load with several categories: the weight curve applies to the whole
+// load, each category is paid for its share at its own rate, and campaigns apply once
+export function scoreMixedWeight(input: MixedWeightScoringInput, policy = SCORING_POLICY): ItemizedAward {
+  const effectiveWeightKg = effectiveWeight(Math.max(0, input.weightKg), policy);
+  const totalShare = input.parts.reduce((sum, part) => sum + Math.max(0, part.share), 0);
+  const awards = input.parts.map(part => weighedAward(
+    { wasteType: part.wasteType, contamination: input.contamination },
+    totalShare > 0 ? (effectiveWeightKg * Math.max(0, part.share)) / totalShare : 0,
+    undefined,
+    policy
+  ));
+  return itemizeAward(policy, input.parts, awards);
+}
+
+// Scores an already-curved weight
+function weighedAward(
+  input: Omit<WeightScoringInput, 'weightKg' | 'bonuses'>,
+  effectiveWeightKg: number,
+  bonuses: CampaignBonus[] | undefined,
+  policy: ScoringPolicy
+): PointsAward {
+  const category = normalizeCategory(input.wasteType, policy);
+  const rules = policy.categories[category];
+  const subcategoryMultiplier = (input.subType && rules.subcategories?.[input.subType.toLowerCase()]) || 1;
+  const qualityModifier = qualityModifierFor(input.quality, policy);
+  const contaminationModifier = input.contamination ? policy.contaminationModifiers[input.contamination] : 1;
+
+  const raw = rules.pointsPerKg * effectiveWeightKg * subcategoryMultiplier * qualityModifier * contaminationModifier;
+  return finalizeAward(policy, category, raw, policy.caps.perSubmission, bonuses, {
+    basePoints: rules.pointsPerKg,
+    effectiveWeightKg,
+    subcategoryMultiplier,
+    qualityModifier,
+    contaminationModifier
+  });
+}
+
+/**
+ * Per-item points, the submission cap on their total, then each campaign once: its
+ * multiplier on the capped points of the items it covers and its flat points a single
+ * time, within one campaign bonus cap for the whole submission.
+ */
+function itemizeAward(policy: ScoringPolicy, inputs: Array<{ bonuses?: CampaignBonus[] }>, awards: PointsAward[]): ItemizedAward {
+  const total = awards.reduce((sum, award) => sum + award.points, 0);
+  const base = Math.min(total, policy.caps.perSubmission);
+  const share = total > 0 ? base / total : 0;
+
+  const covered = new Map<string, { bonus: CampaignBonus; basePoints: number }>();
+  inputs.forEach((input, index) => {
+    for (const bonus of input.bonuses || []) {
+      const entry = covered.get(bonus.campaignId) || { bonus, basePoints: 0 };
+      entry.basePoints += awards[index].points * share;
+      covered.set(bonus.campaignId, entry);
+    }
+  });
+  const campaigns = grantCampaignBonuses(policy, Array.from(covered.values()));
+  const campaignBonus = campaigns.reduce((sum, campaign) => sum + campaign.points, 0);
+
+  return {
+    points: base + campaignBonus,
+    policyVersion: policy.version,
+    items: awards,
+    capped: total > policy.caps.perSubmission,
+    campaignBonus,
+    campaigns
+  };
+}
+
+// Granted in order until the campaign bonus cap is used up. Nothing earned means nothing
+// to boost (e.g. a rejected, heavily contaminated load).
+function grantCampaignBonuses(
+  policy: ScoringPolicy,
+  targets: Array<{ bonus: CampaignBonus; basePoints: number }>
+): Array<{ campaignId: string; points: number }> {
+  let remaining = policy.caps.campaignBonus;
+  return targets.map(({ bonus, basePoints }) => {
+    const wanted = basePoints > 0
+      ? Math.max(0, Math.round(basePoints * ((bonus.multiplier ?? 1) - 1) + (bonus.flatPoints ?? 0)))
+      : 0;
+    const points = Math.min(wanted, remaining);
+    remaining -= points;
+    return { campaignId: bonus.campaignId, points };
+  }).filter(campaign => campaign.points > 0);
+}
+
+function effectiveWeight(weightKg: number, policy: ScoringPolicy): number {
+  const { fullRateKg, taperRate } = policy.weightCurve;
+  if (weightKg <= fullRateKg) return weightKg;
+  return fullRateKg + (weightKg - fullRateKg) * taperRate;
+}
+
+function qualityModifierFor(quality: string | undefined, policy: ScoringPolicy): number {
+  if (!quality) return 1;
+  return policy.qualityModifiers[quality.toLowerCase() as keyof ScoringPolicy['qualityModifiers']] ?? 1;
+}
+
+function finalizeAward(
+  policy: ScoringPolicy,
+  category: ScoringCategory,
+  raw: number,
+  cap: number,
+  bonuses: CampaignBonus[] = [],
+  factors: Omit<PointsAward['breakdown'], 'category' | 'capped' | 'campaignBonus' | 'campaigns'>
+): PointsAward {
+  const base = Math.min(Math.round(raw), cap);
+
+  const campaigns = grantCampaignBonuses(policy, bonuses.map(bonus => ({ bonus, basePoints: base })));
+  const campaignBonus = campaigns.reduce((sum, campaign) => sum + campaign.points, 0);
+
+  return {
+    points: base + campaignBonus,
+    policyVersion: policy.version,
+    breakdown: {
+      ...factors,
+      category,
+      capped: Math.round(raw) > cap,
+      campaignBonus,
+      campaigns
+    }
+  };
+}
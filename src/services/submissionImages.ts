@@ -0,0 +1,131 @@
+import { randomUUID } from 'crypto';
+import { createImageStore, type ImageStore } from '@/lib/imageStorage';
+import { IMAGE_MIME_TYPES, readImageDimensions, sniffImageFormat, stripLocationMetadata, type ImageFormat } from '@/lib/imageMetadata';
+import { renderThumbnail } from '@/lib/imageDecoding';
+import type { StoredImage } from '@/types/images';
+
+export type ImageUploadErrorCode = 'UNSUPPORTED_TYPE' | 'TOO_LARGE' | 'INVALID_DIMENSIONS' | 'CORRUPT_IMAGE';
+
+export class ImageUploadError extends Error {
+  constructor(public code: ImageUploadErrorCode, message: string) {
+    super(message);
+    this.name = 'ImageUploadError';
+  }
+}
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const MIN_DIMENSION = 64; // smaller than this can't be classified
+const MAX_DIMENSION = 8192;
+const MAX_PIXELS = 40_000_000; // guards the decoder against decompression bombs
+const THUMBNAIL_DIMENSION = 320;
+
+const FILE_EXTENSIONS: Record<ImageFormat, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  webp: 'webp'
+};
+
+function maxUploadBytes(): number {
+  return parseInt(process.env.IMAGE_MAX_BYTES || '', 10) || DEFAULT_MAX_BYTES;
+}
+
+function tooLarge(maxBytes: number): ImageUploadError {
+  return new ImageUploadError('TOO_LARGE', `Images must be at most ${Math.round(maxBytes / (1024 * 1024))} MB`);
+}
+
+export interface ValidatedImage {
+  format: ImageFormat;
+  width: number;
+  height: number;
+}
+
+/**
+ * The upload limits every image path applies before anything decodes it: size, a
+ * supported format matching any declared type, and sane dimensions.
+ */
+export function validateImageBytes(bytes: Buffer, declaredType?: string): ValidatedImage {
+  const maxBytes = maxUploadBytes();
+  if (bytes.length > maxBytes) {
+    throw tooLarge(maxBytes);
+  }
+
+  const format = sniffImageFormat(bytes);
+  const allowedTypes = Object.values(IMAGE_MIME_TYPES);
+  if (!format) {
+    throw new ImageUploadError('UNSUPPORTED_TYPE', `Images must be one of: ${allowedTypes.join(', ')}`);
+  }
+  // Browsers send an empty or generic type for some blobs; anything specific must match the content
+  if (declaredType && declaredType !== 'application/octet-stream' && declaredType !== IMAGE_MIME_TYPES[format]) {
+    throw new ImageUploadError('UNSUPPORTED_TYPE', `Declared type ${declaredType} does not match the image content`);
+  }
+
+  const dimensions = readImageDimensions(bytes, format);
+  if (!dimensions) {
+    throw new ImageUploadError('CORRUPT_IMAGE', 'Could not read the image dimensions');
+  }
+  const { width, height } = dimensions;
+  if (Math.min(width, height) < MIN_DIMENSION || Math.max(width, height) > MAX_DIMENSION || width * height > MAX_PIXELS) {
+    throw new ImageUploadError(
+      'INVALID_DIMENSIONS',
+      `Images must be between ${MIN_DIMENSION} and ${MAX_DIMENSION} pixels per side (got ${width}x${height})`
+    );
+  }
+
+  return { format, width, height };
+}
+
+/**
+ * Validates submission photos and persists them with a thumbnail. The stored copy
+ * has its GPS metadata removed; the submission's own location field is the only
+ * place coordinates are kept.
+ */
+export class SubmissionImageService {
+  constructor(private store: ImageStore = createImageStore()) {}
+
+  async save(file: Blob): Promise<StoredImage> {
+    // Checked before the upload is buffered
+    if (file.size > maxUploadBytes()) {
+      throw tooLarge(maxUploadBytes());
+    }
+
+    const bytes = Buffer.from(await file.arrayBuffer());
+    const { format, width, height } = validateImageBytes(bytes, file.type);
+
+    let sanitized: Buffer;
+    try {
+      sanitized = stripLocationMetadata(bytes, format);
+    } catch {
+      throw new ImageUploadError('CORRUPT_IMAGE', 'The image file is damaged');
+    }
+
+    const now = new Date();
+    const baseKey = `submissions/${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, '0')}/${randomUUID()}`;
+    const key = `${baseKey}.${FILE_EXTENSIONS[format]}`;
+    await this.store.put(key, sanitized, IMAGE_MIME_TYPES[format]);
+
+    const thumbnail = await renderThumbnail(sanitized, THUMBNAIL_DIMENSION);
+    let thumbnailUrl: string | null = null;
+    if (thumbnail) {
+      const thumbnailKey = `${baseKey}_thumb.jpg`;
+      await this.store.put(thumbnailKey, thumbnail, IMAGE_MIME_TYPES.jpeg);
+      thumbnailUrl = this.store.urlFor(thumbnailKey);
+    }
+
+    return {
+      key,
+      url: this.store.urlFor(key),
+      thumbnailUrl,
+      contentType: IMAGE_MIME_TYPES[format],
+      size: sanitized.length,
+      width,
+      height
+    };
+  }
+
+  async read(key: string): Promise<{ bytes: Buffer; contentType: string } | null> {
+    return this.store.get(key);
+  }
+}
+
+// Export singleton instance
+export const submissionImages = new SubmissionImageService();
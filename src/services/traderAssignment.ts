@@ -1,11 +1,10 @@
-// TODO: Convert to Supabase - MongoDB models not available
-// import dbConnect from '@/lib/mongodb';
-// import Trader from '@/models/Trader';
+import { collectorRegistry } from './collectorRegistry';
 import { routeOptimization } from './routeOptimization';
+import type { CollectorCandidate, VehicleType } from '@/types/collector';
 
 interface Location {
   type: string;
-  coordinates: [number, number];
+  coordinates: [number, number]; // GeoJSON order: [lng, lat]
 }
 
 interface TraderWithDistance {
@@ -13,114 +12,72 @@ interface TraderWithDistance {
   name: string;
   location: Location;
   distance: number;
+  vehicleType: VehicleType;
+  remainingCapacityKg: number;
+  acceptedWasteTypes: string[];
 }
 
-export class TraderAssignmentService {
-  private static calculateDistance(
-    loc1: [number, number],
-    loc2: [number, number]
-  ): number {
-    const R = 6371; // Earth's radius in km
-    const dLat = this.toRad(loc2[0] - loc1[0]);
-    const dLon = this.toRad(loc2[1] - loc1[1]);
-    const lat1 = this.toRad(loc1[0]);
-    const lat2 = this.toRad(loc2[0]);
-
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.sin(dLon/2) * Math.sin(dLon/2) * Math.cos(lat1) * Math.cos(lat2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  }
+export interface TraderSearchOptions {
+  wasteType?: string;
+  requiredCapacityKg?: number;
+  vehicleType?: VehicleType;
+  maxDistanceKm?: number;
+  limit?: number;
+}
 
-  private static toRad(value: number): number {
-    return value * Math.PI / 180;
+export class TraderAssignmentService {
+  private static toTrader(candidate: CollectorCandidate): TraderWithDistance {
+    const { collector } = candidate;
+    const position = collector.current_location as { lat: number; lng: number };
+
+    return {
+      _id: collector.id,
+      name: collector.name,
+      location: {
+        type: 'Point',
+        coordinates: [position.lng, position.lat]
+      },
+      distance: candidate.distanceKm,
+      vehicleType: collector.vehicle_type,
+      remainingCapacityKg: candidate.remainingCapacityKg,
+      acceptedWasteTypes: collector.accepted_waste_types
+    };
   }
 
-  static async findNearestTrader(userLocation: Location): Promise<TraderWithDistance | null> {
-    // TODO: Implement with Supabase
-    // await dbConnect();
-
+  // Ranked candidates that are available, on shift, accept the waste type and have room for it
+  static async findNearestTraders(userLocation: Location, options: TraderSearchOptions = {}): Promise<TraderWithDistance[]> {
     try {
-      // Temporary mock data for deployment
-      const mockTraders = [
-        {
-          _id: 'trader1',
-          name: 'EcoCollector Pro',
-          location: {
-            type: 'Point',
-            coordinates: [userLocation.coordinates[0] + 0.01, userLocation.coordinates[1] + 0.01] as [number, number]
-          }
-        },
-        {
-          _id: 'trader2',
-          name: 'Green Pickup Service',
-          location: {
-            type: 'Point',
-            coordinates: [userLocation.coordinates[0] + 0.02, userLocation.coordinates[1] + 0.02] as [number, number]
-          }
-        }
-      ];
-
-      // Calculate distance for each trader
-      const tradersWithDistance = mockTraders.map(trader => ({
-        _id: trader._id,
-        name: trader.name,
-        location: trader.location,
-        distance: this.calculateDistance(
-          userLocation.coordinates as [number, number],
-          trader.location.coordinates as [number, number]
-        )
-      }));
-
-      // Sort by distance and get the nearest trader
-      tradersWithDistance.sort((a, b) => a.distance - b.distance);
+      const candidates = await collectorRegistry.findCandidates({
+        lng: userLocation.coordinates[0],
+        lat: userLocation.coordinates[1],
+        ...options
+      });
 
-      return tradersWithDistance[0];
+      return candidates.map(candidate => this.toTrader(candidate));
     } catch (error) {
-      console.error('Error finding nearest trader:', error);
+      console.error('Error finding nearest traders:', error);
       throw new Error('Failed to find nearest trader');
     }
   }
 
-  static async assignTrader(submissionId: string, location: Location) {
-    try {
-      const nearestTrader = await this.findNearestTrader(location);
-
-      if (!nearestTrader) {
-        throw new Error('No available traders found');
-      }
-
-      // TODO: Implement with Supabase
-      // Update the waste submission with the assigned trader
-      // await WasteSubmission.findByIdAndUpdate(submissionId, {
-      //   assignedTrader: nearestTrader._id,
-      //   status: 'Assigned'
-      // });
-
-      // Update trader status
-      // await Trader.findByIdAndUpdate(nearestTrader._id, {
-      //   status: 'Busy'
-      // });
-
-      console.log(`Assigned trader ${nearestTrader.name} to submission ${submissionId}`);
-
-      return nearestTrader;
-    } catch (error) {
-      console.error('Error assigning trader:', error);
-      throw new Error('Failed to assign trader');
-    }
+  static async findNearestTrader(userLocation: Location, options: TraderSearchOptions = {}): Promise<TraderWithDistance | null> {
+    const traders = await this.findNearestTraders(userLocation, { ...options, limit: 1 });
+    return traders[0] || null;
   }
 
   // Enhanced method for optimized multi-pickup assignment
   static async assignTraderWithRouteOptimization(
     submissionIds: string[],
     locations: Location[],
-    vehicleType: 'truck' | 'van' | 'bike' = 'truck'
+    vehicleType: VehicleType = 'truck'
   ) {
     try {
       console.log('🚛 Assigning trader with AI route optimization...');
 
-      const nearestTrader = await this.findNearestTrader(locations[0]);
+      const nearestTrader = await this.findNearestTrader(locations[0], {
+        vehicleType,
+        requiredCapacityKg: locations.length * 2.0
+      });
 
       if (!nearestTrader) {
         throw new Error('No available traders found');
@@ -153,26 +110,9 @@ export class TraderAssignmentService {
 
       console.log(`✅ Route optimized with ${optimizedRoute.estimatedSavings.cost.toFixed(1)}% cost reduction`);
 
-      // TODO: Implement with Supabase
-      // Update all waste submissions with the assigned trader and optimized route
-      for (let i = 0; i < submissionIds.length; i++) {
-        console.log(`Assigning submission ${submissionIds[i]} to trader ${nearestTrader._id} with route order ${i + 1}`);
-        // await WasteSubmission.findByIdAndUpdate(submissionIds[i], {
-        //   assignedTrader: nearestTrader._id,
-        //   status: 'Assigned',
-        //   optimizedRoute: optimizedRoute.id,
-        //   routeOrder: i + 1,
-        //   estimatedArrival: new Date(Date.now() + optimizedRoute.totalDuration * 60 * 60 * 1000)
-        // });
-      }
-
-      // Update trader status with route information
+      // Submission rows are updated by the caller with route order and ETA
       console.log(`Updating trader ${nearestTrader._id} status to busy with route ${optimizedRoute.id}`);
-      // await Trader.findByIdAndUpdate(nearestTrader._id, {
-      //   status: 'Busy',
-      //   currentRoute: optimizedRoute.id,
-      //   estimatedCompletionTime: new Date(Date.now() + optimizedRoute.totalDuration * 60 * 60 * 1000)
-      // });
+      await collectorRegistry.setStatus(nearestTrader._id, 'BUSY');
 
       return {
         trader: nearestTrader,
@@ -212,17 +152,9 @@ export class TraderAssignmentService {
 
   // Update collector location for real-time tracking
   static async updateCollectorLocation(collectorId: string, location: { lat: number; lng: number }) {
-    // TODO: Implement with Supabase
-    // await dbConnect();
-
     try {
-      // Temporary implementation for deployment
+      await collectorRegistry.updateLocation(collectorId, location);
       console.log(`📍 Updated collector ${collectorId} location to [${location.lat}, ${location.lng}]`);
-
-      // await Trader.findByIdAndUpdate(collectorId, {
-      //   'location.coordinates': [location.lng, location.lat],
-      //   lastActiveAt: new Date()
-      // });
     } catch (error) {
       console.error('Error updating collector location:', error);
       throw new Error('Failed to update collector location');
@@ -0,0 +1,254 @@
+import bcrypt from 'bcryptjs';
+import { supabase, isFetchFailedError } from '@/lib/supabase';
+import type { SessionUser, UserAccount, UserRole } from '@/types/auth';
+
+export type AccountErrorCode = 'INVALID_ACCOUNT' | 'EMAIL_TAKEN' | 'ACCOUNT_NOT_FOUND';
+
+export class AccountError extends Error {
+  constructor(public code: AccountErrorCode, message: string) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+export const USER_ROLES: UserRole[] = ['citizen', 'collector', 'trader', 'ops', 'admin'];
+
+const PASSWORD_MIN_LENGTH = 8;
+const BCRYPT_ROUNDS = 10;
+
+interface AccountRow extends UserAccount {
+  password_hash: string | null;
+}
+
+// One account per role for demo mode; all share DEMO_PASSWORD and only log in when demo logins are enabled
+const DEMO_ACCOUNTS: AccountRow[] = [
+  { id: 'demo-citizen', email: 'demo@ecoearn.com', name: 'Demo Citizen', role: 'citizen', collector_id: null },
+  { id: 'demo-collector', email: 'collector@ecoearn.com', name: 'EcoCollector Pro', role: 'collector', collector_id: 'collector-ecopro' },
+  { id: 'demo-trader', email: 'trader@ecoearn.com', name: 'Demo Trader', role: 'trader', collector_id: null },
+  { id: 'demo-ops', email: 'ops@ecoearn.com', name: 'Demo Ops', role: 'ops', collector_id: null },
+  { id: 'demo-admin', email: 'admin@ecoearn.com', name: 'Demo Admin', role: 'admin', collector_id: null }
+].map(account => ({ ...account, role: account.role as UserRole, password_hash: null, created_at: new Date(0).toISOString() }));
+
+// Demo logins need DEMO_MODE=true and a DEMO_PASSWORD of their own, and are never allowed in production
+function demoPassword(): string | null {
+  if (process.env.NODE_ENV === 'production' || process.env.DEMO_MODE !== 'true') return null;
+  return process.env.DEMO_PASSWORD || null;
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function toSessionUser(account: UserAccount): SessionUser {
+  return {
+    id: account.id,
+    email: account.email,
+    name: account.name,
+    role: account.role,
+    collectorId: account.collector_id
+  };
+}
+
+function toAccount({ password_hash, ...account }: AccountRow): UserAccount {
+  return account;
+}
+
+/**
+ * Email/password accounts and their roles. Everyone registers as a citizen; collector,
+ * trader, ops and admin roles are granted by an admin.
+ */
+export class UserAccountService {
+  // Demo fallback state (used when Supabase is unreachable)
+  private demoAccounts = new Map<string, AccountRow>(DEMO_ACCOUNTS.map(account => [account.email, { ...account }]));
+
+  async verifyCredentials(email: string | undefined, password: string | undefined): Promise<SessionUser | null> {
+    if (!email || !password) return null;
+
+    const account = await this.findAccount(normalizeEmail(email));
+    if (!account) return null;
+
+    if (account.password_hash === null) {
+      // Seeded demo accounts have no hash of their own
+      const isDemoAccount = DEMO_ACCOUNTS.some(demo => demo.email === account.email);
+      const expected = demoPassword();
+      return isDemoAccount && expected !== null && password === expected
+        ? toSessionUser(account)
+        : null;
+    }
+
+    return (await bcrypt.compare(password, account.password_hash)) ? toSessionUser(account) : null;
+  }
+
+  async register(input: { email: string; password: string; name?: string }): Promise<UserAccount> {
+    const email = normalizeEmail(input.email || '');
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new AccountError('INVALID_ACCOUNT', 'A valid email is required');
+    }
+    if (typeof input.password !== 'string' || input.password.length < PASSWORD_MIN_LENGTH) {
+      throw new AccountError('INVALID_ACCOUNT', `Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+    }
+
+    const row = {
+      email,
+      name: input.name?.trim() || email.split('@')[0],
+      role: 'citizen' as UserRole,
+      provider: 'credentials',
+      password_hash: await bcrypt.hash(input.password, BCRYPT_ROUNDS)
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .insert(row)
+        .select('id, email, name, role, collector_id, created_at')
+        .single();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.registerDemoAccount(row);
+        }
+        if (error.code === '23505') {
+          throw new AccountError('EMAIL_TAKEN', `An account for ${email} already exists`);
+        }
+        throw new Error(`Failed to create account: ${error.message}`);
+      }
+
+      return data as UserAccount;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.registerDemoAccount(row);
+    }
+  }
+
+  // Collector accounts must be linked to their collectors row so stop routes can check ownership
+  async setRole(email: string, role: UserRole, collectorId?: string | null): Promise<UserAccount> {
+    if (!USER_ROLES.includes(role)) {
+      throw new AccountError('INVALID_ACCOUNT', `role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    if (role === 'collector' && !collectorId) {
+      throw new AccountError('INVALID_ACCOUNT', 'collectorId is required for collector accounts');
+    }
+
+    const update = {
+      role,
+      collector_id: role === 'collector' ? collectorId : null,
+      updated_at: new Date().toISOString()
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .update(update)
+        .eq('email', normalizeEmail(email))
+        .select('id, email, name, role, collector_id, created_at')
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.setDemoRole(email, update.role, update.collector_id ?? null);
+        }
+        throw new Error(`Failed to update role: ${error.message}`);
+      }
+      if (!data) {
+        throw new AccountError('ACCOUNT_NOT_FOUND', `No account for ${email}`);
+      }
+
+      return data as UserAccount;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.setDemoRole(email, update.role, update.collector_id ?? null);
+    }
+  }
+
+  async listAccounts(role?: UserRole, limit = 100): Promise<UserAccount[]> {
+    try {
+      let query = supabase
+        .from('users')
+        .select('id, email, name, role, collector_id, created_at')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (role) query = query.eq('role', role);
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.listDemoAccounts(role, limit);
+        }
+        throw new Error(`Failed to fetch accounts: ${error.message}`);
+      }
+
+      return (data || []) as UserAccount[];
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.listDemoAccounts(role, limit);
+    }
+  }
+
+  private async findAccount(email: string): Promise<AccountRow | null> {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, email, name, role, collector_id, created_at, password_hash')
+        .eq('email', email)
+        .maybeSingle();
+
+      if (error) {
+        if (isFetchFailedError(error)) {
+          return this.demoAccounts.get(email) || null;
+        }
+        throw new Error(`Failed to fetch account: ${error.message}`);
+      }
+
+      return (data as AccountRow) || null;
+    } catch (supabaseError) {
+      if (!isFetchFailedError(supabaseError)) {
+        throw supabaseError;
+      }
+      return this.demoAccounts.get(email) || null;
+    }
+  }
+
+  private registerDemoAccount(row: { email: string; name: string; role: UserRole; password_hash: string }): UserAccount {
+    if (this.demoAccounts.has(row.email)) {
+      throw new AccountError('EMAIL_TAKEN', `An account for ${row.email} already exists`);
+    }
+    const account: AccountRow = {
+      id: `demo-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      email: row.email,
+      name: row.name,
+      role: row.role,
+      collector_id: null,
+      password_hash: row.password_hash,
+      created_at: new Date().toISOString()
+    };
+    this.demoAccounts.set(account.email, account);
+    return toAccount(account);
+  }
+
+  private setDemoRole(email: string, role: UserRole, collectorId: string | null): UserAccount {
+    const account = this.demoAccounts.get(normalizeEmail(email));
+    if (!account) {
+      throw new AccountError('ACCOUNT_NOT_FOUND', `No account for ${email}`);
+    }
+    account.role = role;
+    account.collector_id = collectorId;
+    return toAccount(account);
+  }
+
+  private listDemoAccounts(role: UserRole | undefined, limit: number): UserAccount[] {
+    return Array.from(this.demoAccounts.values())
+      .filter(account => !role || account.role === role)
+      .slice(0, limit)
+      .map(toAccount);
+  }
+}
+
+// Export singleton instance
+export const userAccounts = new UserAccountService();
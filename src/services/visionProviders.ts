@@ -0,0 +1,547 @@
+// Vision providers behind waste detection and server-side verification.
+// VISION_PROVIDERS orders the chain used to find objects in an upload
+// (default "gemini,coco-ssd,heuristic"); VISION_VERIFY_PROVIDERS orders the
+// one that re-classifies submissions and their crops (default "heuristic").
+// Verification works on decoded pixels, so Gemini never answers there.
+// Providers that aren't configured are skipped, and "stub" is only used when
+// listed explicitly.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Cache, createCacheStore } from '@/lib/cache';
+import { decodeImagePixels, type ImagePixels } from '@/lib/imageDecoding';
+import { readImageDimensions, sniffImageFormat, IMAGE_MIME_TYPES } from '@/lib/imageMetadata';
+import { aiWasteDetection } from './aiWasteDetection';
+import { normalizeCategory } from './scoringPolicy';
+import type { BoundingBox, DetectionQuality } from '@/types/detection';
+import type {
+  VisionClassification,
+  VisionDetection,
+  VisionImage,
+  VisionProvider,
+  VisionProviderName,
+  VisionResult
+} from '@/types/vision';
+
+const GEMINI_PLACEHOLDER_KEY = 'your_gemini_api_key_here';
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash-exp';
+const GEMINI_TIMEOUT_MS = 15000;
+const GEMINI_BOX_SCALE = 1000; // Gemini reports boxes normalized to 0-1000
+const COCO_SSD_MIN_SCORE = 0.4;
+const COCO_SSD_MAX_BOXES = 20;
+const DEFAULT_DETECT_PROVIDERS = 'gemini,coco-ssd,heuristic';
+const DEFAULT_VERIFY_PROVIDERS = 'heuristic';
+const UPLOAD_DETECTION_TTL_MS = 60 * 60 * 1000;
+
+// Same per-category figures the heuristic ensemble uses
+const RECYCLABILITY: Record<string, number> = {
+  plastic: 0.8,
+  paper: 0.9,
+  metal: 0.95,
+  glass: 0.85,
+  electronics: 0.7,
+  organic: 1.0
+};
+
+// COCO classes that are plausibly waste; everything else (people, cars, animals) is ignored
+const COCO_WASTE_CLASSES: Record<string, string> = {
+  'bottle': 'plastic',
+  'cup': 'plastic',
+  'bowl': 'plastic',
+  'wine glass': 'glass',
+  'vase': 'glass',
+  'fork': 'metal',
+  'knife': 'metal',
+  'spoon': 'metal',
+  'scissors': 'metal',
+  'book': 'paper',
+  'cell phone': 'electronics',
+  'laptop': 'electronics',
+  'keyboard': 'electronics',
+  'mouse': 'electronics',
+  'remote': 'electronics',
+  'tv': 'electronics',
+  'banana': 'organic',
+  'apple': 'organic',
+  'orange': 'organic',
+  'broccoli': 'organic',
+  'carrot': 'organic',
+  'sandwich': 'organic',
+  'pizza': 'organic',
+  'donut': 'organic',
+  'cake': 'organic',
+  'hot dog': 'organic',
+  'potted plant': 'organic'
+};
+
+const STUB_CATEGORIES = ['plastic', 'paper', 'glass', 'metal', 'organic', 'electronics', 'other'];
+
+function qualityFromConfidence(confidence: number): DetectionQuality {
+  return confidence > 0.8 ? 'excellent' :
+    confidence > 0.6 ? 'good' :
+    confidence > 0.4 ? 'fair' : 'poor';
+}
+
+// Detector boxes can overshoot the frame; keep them inside the image's pixel space
+function clampBox(box: BoundingBox, image: { width: number; height: number }): BoundingBox {
+  const x = Math.min(Math.max(0, box.x), image.width - 1);
+  const y = Math.min(Math.max(0, box.y), image.height - 1);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(box.width, image.width - x)),
+    height: Math.max(1, Math.min(box.height, image.height - y))
+  };
+}
+
+// Whole-image verdict for providers that only report objects: the category with the most
+// confidence across its detections wins, scored by its most confident detection
+function classifyFromDetections(model: string, detections: VisionDetection[]): VisionClassification {
+  const totals = new Map<string, { sum: number; best: number }>();
+  for (const detection of detections) {
+    const entry = totals.get(detection.wasteType) || { sum: 0, best: 0 };
+    entry.sum += detection.confidence;
+    entry.best = Math.max(entry.best, detection.confidence);
+    totals.set(detection.wasteType, entry);
+  }
+
+  let wasteType = 'other';
+  let confidence = 0;
+  let leading = -1;
+  totals.forEach((entry, category) => {
+    if (entry.sum > leading) {
+      leading = entry.sum;
+      wasteType = category;
+      confidence = entry.best;
+    }
+  });
+
+  return {
+    wasteType,
+    confidence,
+    quality: qualityFromConfidence(confidence),
+    recyclability: RECYCLABILITY[wasteType] ?? 0.5,
+    contamination: Math.min(0.1 + (1 - confidence) * 0.2, 0.3),
+    votes: detections.map(detection => ({
+      model,
+      wasteType: detection.wasteType,
+      confidence: detection.confidence
+    }))
+  };
+}
+
+function wholeImage(image: { width: number; height: number }): BoundingBox {
+  return { x: 0, y: 0, width: image.width, height: image.height };
+}
+
+export class GeminiVisionProvider implements VisionProvider {
+  readonly name = 'gemini' as const;
+  readonly localizesObjects = true;
+
+  private get apiKey(): string | undefined {
+    return process.env.GEMINI_API_KEY;
+  }
+
+  private get model(): string {
+    return process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey !== GEMINI_PLACEHOLDER_KEY;
+  }
+
+  async detect(image: VisionImage): Promise<VisionResult | null> {
+    // Gemini needs the encoded file; crops of decoded pixels go to the next provider
+    if (!this.isConfigured() || !image.bytes) return null;
+
+    const prompt = `
+Analyze this image for waste and recyclable items. Provide a JSON response with detected objects in this exact format:
+
+{
+  "detections": [
+    {
+      "class": "object_name",
+      "confidence": 0.85,
+      "bbox": [x, y, width, height],
+      "wasteType": "plastic|glass|metal|paper|electronic|organic|other"
+    }
+  ]
+}
+
+Focus on these waste categories:
+- Plastic: bottles, cups, bags, containers, toys
+- Glass: bottles, jars, glasses
+- Metal: cans, utensils, foil, electronics parts
+- Paper: books, newspapers, cardboard, documents
+- Electronic: phones, computers, cables, batteries
+- Organic: food waste, plants, biodegradable items
+
+Be accurate with confidence scores (0.0-1.0). Give each bounding box as the top-left corner, width and height, normalized to 0-${GEMINI_BOX_SCALE} of the image's width and height.
+`;
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), GEMINI_TIMEOUT_MS);
+
+      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent?key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [
+                { text: prompt },
+                {
+                  inline_data: {
+                    mime_type: image.mimeType || IMAGE_MIME_TYPES.jpeg,
+                    data: image.bytes.toString('base64')
+                  }
+                }
+              ]
+            }
+          ],
+          generationConfig: {
+            temperature: 0.4,
+            topK: 32,
+            topP: 1,
+            maxOutputTokens: 2048,
+          }
+        }),
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.warn(`⚠️ Gemini API error: ${response.status} ${response.statusText}`, errorBody);
+        return null;
+      }
+
+      const data = await response.json();
+      const responseText: string = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+      if (!Array.isArray(parsed?.detections)) {
+        console.warn('⚠️ Gemini response had no detections list');
+        return null;
+      }
+
+      const detections: VisionDetection[] = parsed.detections
+        .filter((detection: any) => Array.isArray(detection?.bbox) && detection.bbox.length === 4)
+        .map((detection: any) => {
+          const [x, y, width, height] = detection.bbox.map((value: unknown) => Number(value) || 0);
+          return {
+            className: String(detection.class || 'unknown'),
+            wasteType: normalizeCategory(detection.wasteType),
+            confidence: Math.min(1, Math.max(0, Number(detection.confidence) || 0.5)),
+            bbox: clampBox({
+              x: (x / GEMINI_BOX_SCALE) * image.width,
+              y: (y / GEMINI_BOX_SCALE) * image.height,
+              width: (width / GEMINI_BOX_SCALE) * image.width,
+              height: (height / GEMINI_BOX_SCALE) * image.height
+            }, image)
+          };
+        });
+
+      return {
+        provider: this.name,
+        model: this.model,
+        detections,
+        classification: classifyFromDetections(this.model, detections)
+      };
+    } catch (error) {
+      console.warn('⚠️ Gemini request failed:', error instanceof Error ? error.message : 'Unknown error');
+      return null;
+    }
+  }
+}
+
+/**
+ * COCO-SSD on the server's CPU backend. COCO_SSD_MODEL is either a URL or a local
+ * directory holding model.json and its weight shards, so it can run fully offline.
+ */
+export class CocoSsdVisionProvider implements VisionProvider {
+  readonly name = 'coco-ssd' as const;
+  readonly localizesObjects = true;
+  private detector: Promise<import('@tensorflow-models/coco-ssd').ObjectDetection> | null = null;
+
+  private get modelLocation(): string | undefined {
+    return process.env.COCO_SSD_MODEL;
+  }
+
+  isConfigured(): boolean {
+    return !!this.modelLocation;
+  }
+
+  private async loadDetector() {
+    const location = this.modelLocation!;
+    const tf = await import('@tensorflow/tfjs');
+    const cocoSsd = await import('@tensorflow-models/coco-ssd');
+    await tf.setBackend('cpu');
+
+    if (/^https?:\/\//.test(location)) {
+      return cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl: location });
+    }
+
+    // Without tfjs-node there is no file:// loader, so read the artifacts ourselves
+    const modelJson = JSON.parse(await fs.readFile(path.join(location, 'model.json'), 'utf8'));
+    const artifacts = await tf.io.getModelArtifactsForJSON(modelJson, async (manifest) => {
+      const shards = await Promise.all(
+        manifest.flatMap(group => group.paths).map(async shard => {
+          const bytes = await fs.readFile(path.join(location, shard));
+          return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+        })
+      );
+      return [tf.io.getWeightSpecs(manifest), tf.io.concatenateArrayBuffers(shards)];
+    });
+    // load() hands modelUrl straight to loadGraphModel, which also accepts an IOHandler
+    return cocoSsd.load({ base: 'lite_mobilenet_v2', modelUrl: tf.io.fromMemory(artifacts) as unknown as string });
+  }
+
+  async detect(image: VisionImage): Promise<VisionResult | null> {
+    if (!this.isConfigured()) return null;
+
+    const pixels = await image.pixels();
+    if (!pixels) return null;
+
+    try {
+      if (!this.detector) {
+        this.detector = this.loadDetector();
+        // Let a failed load be retried on the next request
+        this.detector.catch(() => { this.detector = null; });
+      }
+      const detector = await this.detector;
+      const tf = await import('@tensorflow/tfjs');
+
+      // fromPixels takes plain RGBA data too, so this needs no DOM
+      const input = tf.browser.fromPixels({
+        width: pixels.width,
+        height: pixels.height,
+        data: new Uint8Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength)
+      });
+      let objects;
+      try {
+        objects = await detector.detect(input, COCO_SSD_MAX_BOXES, COCO_SSD_MIN_SCORE);
+      } finally {
+        input.dispose();
+      }
+
+      // Boxes come back in decoded pixels; report them at the image's full resolution
+      const scale = image.width / pixels.width;
+      const detections: VisionDetection[] = objects
+        .filter(object => object.class in COCO_WASTE_CLASSES)
+        .map(object => ({
+          className: object.class,
+          wasteType: COCO_WASTE_CLASSES[object.class],
+          confidence: object.score,
+          bbox: clampBox({
+            x: object.bbox[0] * scale,
+            y: object.bbox[1] * scale,
+            width: object.bbox[2] * scale,
+            height: object.bbox[3] * scale
+          }, image)
+        }));
+
+      return {
+        provider: this.name,
+        model: 'coco-ssd/lite_mobilenet_v2',
+        detections,
+        classification: classifyFromDetections('coco-ssd', detections)
+      };
+    } catch (error) {
+      console.warn('⚠️ COCO-SSD detection failed:', error instanceof Error ? error.message : 'Unknown error');
+      return null;
+    }
+  }
+}
+
+// The colour/shape/texture ensemble; one whole-image detection, but always available
+export class HeuristicVisionProvider implements VisionProvider {
+  readonly name = 'heuristic' as const;
+  readonly localizesObjects = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async detect(image: VisionImage): Promise<VisionResult | null> {
+    const pixels = await image.pixels();
+    if (!pixels) return null;
+
+    const { finalPrediction, modelResults } = await aiWasteDetection.detectWaste(pixels);
+    const wasteType = normalizeCategory(finalPrediction.wasteType);
+
+    return {
+      provider: this.name,
+      model: finalPrediction.modelUsed,
+      detections: [{
+        className: wasteType,
+        wasteType,
+        confidence: finalPrediction.confidence,
+        bbox: wholeImage(image)
+      }],
+      classification: {
+        wasteType,
+        confidence: finalPrediction.confidence,
+        quality: finalPrediction.detailedAnalysis.quality,
+        recyclability: finalPrediction.detailedAnalysis.recyclability,
+        contamination: finalPrediction.detailedAnalysis.contamination,
+        votes: modelResults.map(result => ({
+          model: result.modelUsed,
+          wasteType: result.wasteType,
+          confidence: result.confidence
+        }))
+      }
+    };
+  }
+}
+
+// Deterministic results for tests and offline demos: the same image always gets the same answer
+export class StubVisionProvider implements VisionProvider {
+  readonly name = 'stub' as const;
+  readonly localizesObjects = false;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async detect(image: VisionImage): Promise<VisionResult | null> {
+    const source = image.bytes ?? (await image.pixels())?.data;
+    if (!source) return null;
+
+    // FNV-1a over the content
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < source.length; i++) {
+      hash ^= source[i];
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+
+    const wasteType = STUB_CATEGORIES[hash % STUB_CATEGORIES.length];
+    const detections: VisionDetection[] = [{
+      className: wasteType,
+      wasteType,
+      confidence: 0.85,
+      bbox: clampBox({
+        x: image.width * 0.1,
+        y: image.height * 0.1,
+        width: image.width * 0.8,
+        height: image.height * 0.8
+      }, image)
+    }];
+
+    return {
+      provider: this.name,
+      model: 'stub',
+      detections,
+      classification: classifyFromDetections('stub', detections)
+    };
+  }
+}
+
+export function visionImageFromBytes(bytes: Buffer): VisionImage | null {
+  const format = sniffImageFormat(bytes);
+  const dimensions = format ? readImageDimensions(bytes, format) : null;
+  if (!format || !dimensions) return null;
+
+  let decoded: Promise<ImagePixels | null> | null = null;
+  return {
+    bytes,
+    mimeType: IMAGE_MIME_TYPES[format],
+    width: dimensions.width,
+    height: dimensions.height,
+    pixels: () => (decoded ??= decodeImagePixels(new Blob([bytes])))
+  };
+}
+
+export function visionImageFromPixels(pixels: ImagePixels): VisionImage {
+  return {
+    bytes: null,
+    mimeType: null,
+    width: pixels.width,
+    height: pixels.height,
+    pixels: async () => pixels
+  };
+}
+
+export type VisionPurpose = 'detect' | 'verify';
+
+const PROVIDER_FACTORIES: Record<VisionProviderName, () => VisionProvider> = {
+  'gemini': () => new GeminiVisionProvider(),
+  'coco-ssd': () => new CocoSsdVisionProvider(),
+  'heuristic': () => new HeuristicVisionProvider(),
+  'stub': () => new StubVisionProvider()
+};
+
+const providerInstances = new Map<VisionProviderName, VisionProvider>();
+const chains = new Map<VisionPurpose, VisionProvider[]>();
+
+// Shared so a loaded model is reused across both chains
+function getProvider(name: VisionProviderName): VisionProvider {
+  let provider = providerInstances.get(name);
+  if (!provider) {
+    provider = PROVIDER_FACTORIES[name]();
+    providerInstances.set(name, provider);
+  }
+  return provider;
+}
+
+// Providers to try in order; empty when none is configured
+export function getVisionProviders(purpose: VisionPurpose): VisionProvider[] {
+  const cached = chains.get(purpose);
+  if (cached) return cached;
+
+  const setting = purpose === 'detect'
+    ? process.env.VISION_PROVIDERS || DEFAULT_DETECT_PROVIDERS
+    : process.env.VISION_VERIFY_PROVIDERS || DEFAULT_VERIFY_PROVIDERS;
+
+  const names = setting.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const unknown = names.filter(name => !(name in PROVIDER_FACTORIES));
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Unknown vision providers ignored: ${unknown.join(', ')}`);
+  }
+
+  const providers = names
+    .filter((name): name is VisionProviderName => name in PROVIDER_FACTORIES)
+    .map(getProvider)
+    .filter(provider => provider.isConfigured());
+
+  chains.set(purpose, providers);
+  console.log(`👁️ Vision providers (${purpose}): ${providers.map(p => p.name).join(', ') || 'none'}`);
+  return providers;
+}
+
+// First provider that finds something wins; null when none could handle the image
+export async function detectWithProviders(image: VisionImage, purpose: VisionPurpose = 'detect'): Promise<VisionResult | null> {
+  for (const provider of getVisionProviders(purpose)) {
+    const result = await provider.detect(image);
+    if (result && result.detections.length > 0) return result;
+  }
+  return null;
+}
+
+export function localizesObjects(name: VisionProviderName): boolean {
+  return getProvider(name).localizesObjects;
+}
+
+let uploadDetections: Cache<VisionResult> | null = null;
+
+/**
+ * The detect chain's result for a whole upload, cached by content hash so the
+ * detection the browser asked for before submitting is reused when the same
+ * photo is submitted, instead of paying for a second provider call.
+ */
+export async function detectUpload(image: VisionImage): Promise<VisionResult | null> {
+  if (!image.bytes) return detectWithProviders(image);
+
+  uploadDetections ??= new Cache<VisionResult>('vision-detect', createCacheStore(), UPLOAD_DETECTION_TTL_MS);
+  const key = createHash('sha256').update(image.bytes).digest('hex');
+  const cached = await uploadDetections.get(key);
+  if (cached) return cached;
+
+  const result = await detectWithProviders(image);
+  if (result) await uploadDetections.set(key, result);
+  return result;
+}
@@ -1,4 +1,5 @@
 import * as tf from '@tensorflow/tfjs';
+import { scoreByWeight } from './scoringPolicy';
 
 export interface WasteAnalysisResult {
   wasteType: string;
@@ -33,23 +34,7 @@ export class WasteAnalysisService {
   }
 
   calculatePoints(wasteType: string, quality: string, quantity: number): number {
-    // Points calculation logic based on waste type, quality, and quantity
-    const basePoints = {
-      'Plastic': 10,
-      'Paper': 5,
-      'Glass': 15,
-      'Metal': 20,
-      'Other': 5
-    }[wasteType] || 5;
-
-    const qualityMultiplier = {
-      'Excellent': 2.0,
-      'Good': 1.5,
-      'Fair': 1.0,
-      'Poor': 0.5
-    }[quality] || 1.0;
-
-    return Math.round(basePoints * qualityMultiplier * quantity);
+    return scoreByWeight({ wasteType, quality, weightKg: quantity }).points;
   }
 
   async analyzeWaste(imageData: ImageData): Promise<WasteAnalysisResult> {
@@ -0,0 +1,20 @@
+export type UserRole = 'citizen' | 'collector' | 'trader' | 'ops' | 'admin';
+
+// The signed-in user as API handlers see it
+export interface SessionUser {
+  id: string;                 // users.id
+  email: string;
+  name: string | null;
+  role: UserRole;
+  collectorId: string | null; // collectors.id for collector accounts
+  system?: boolean;           // service calls authenticated with the admin key, not a person
+}
+
+export interface UserAccount {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  collector_id: string | null;
+  created_at: string;
+}
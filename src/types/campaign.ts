@@ -0,0 +1,59 @@
+import type { ScoringCategory } from './scoring';
+
+export type CampaignStatus = 'active' | 'stopped';
+
+export interface CampaignGeofence {
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  label?: string; // e.g. "District X", shown on the banner
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description: string | null;
+  starts_at: string;
+  ends_at: string;
+  geofence: CampaignGeofence | null; // null = citywide
+  waste_categories: ScoringCategory[]; // empty = every category
+  multiplier: number | null;
+  flat_bonus: number | null;
+  budget_points: number | null; // null = unlimited
+  spent_points: number;
+  status: CampaignStatus;
+  created_by: string | null;
+  created_at: string;
+  stopped_at: string | null;
+}
+
+export interface CreateCampaignInput {
+  name: string;
+  description?: string;
+  startsAt: string;
+  endsAt: string;
+  geofence?: CampaignGeofence | null;
+  wasteCategories?: string[];
+  multiplier?: number | null;
+  flatBonus?: number | null;
+  budgetPoints?: number | null;
+  createdBy?: string;
+}
+
+// Where and when an award is being scored
+export interface CampaignContext {
+  wasteType: string;
+  location?: { lat: number; lng: number } | null;
+  at?: string | Date;
+}
+
+// What the home and submit pages show for a running campaign
+export interface CampaignBanner {
+  id: string;
+  name: string;
+  description: string | null;
+  ends_at: string;
+  waste_categories: ScoringCategory[];
+  area: string | null;
+  bonus: string; // e.g. "2x points" or "+20 points"
+}
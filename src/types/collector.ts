@@ -0,0 +1,71 @@
+export type VehicleType = 'truck' | 'van' | 'bike';
+
+export type CollectorStatus = 'AVAILABLE' | 'BUSY' | 'OFFLINE';
+
+export interface WorkingHours {
+  start: string; // "HH:MM", in the collector's timezone
+  end: string;   // "HH:MM", in the collector's timezone
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface Collector {
+  id: string;
+  name: string;
+  phone: string;
+  status: CollectorStatus;
+  vehicle_type: VehicleType;
+  capacity_kg: number;
+  current_load_kg: number;
+  accepted_waste_types: string[];
+  working_hours: WorkingHours;
+  timezone: string; // IANA name, e.g. "America/New_York"
+  current_location: { lat: number; lng: number } | null;
+  last_active_at: string;
+}
+
+export interface CollectorSearchCriteria {
+  lat: number;
+  lng: number;
+  wasteType?: string;
+  requiredCapacityKg?: number;
+  vehicleType?: VehicleType;
+  maxDistanceKm?: number;
+  at?: Date;
+  limit?: number;
+}
+
+export interface CollectorCandidate {
+  collector: Collector;
+  distanceKm: number;
+  remainingCapacityKg: number;
+  loadRatio: number;
+  score: number; // lower is better
+}
+
+// How much non-recyclable material was mixed into a collected load
+export type ContaminationGrade = 'clean' | 'light' | 'moderate' | 'heavy';
+
+// What the collector recorded at the stop; points are settled from this, not the citizen's estimate
+export interface CollectionRecord {
+  submission_id: number;
+  collector_id: string;
+  actual_weight_kg: number;
+  contamination_grade: ContaminationGrade;
+  photo_url: string;
+  notes: string | null;
+  points_awarded: number | null; // set once the collection is verified
+  policy_version: string | null;  // scoring policy used for points_awarded
+  recorded_at: string;
+  verified_at: string | null;
+  verified_by: string | null;
+}
+
+export interface StopNavigation {
+  submission_id: number;
+  from: { lat: number; lng: number };
+  to: { lat: number; lng: number; address?: string };
+  distanceKm: number;
+  durationMinutes: number;
+  instructions: string[];
+  coordinates: [number, number][];
+}
@@ -0,0 +1,78 @@
+import type { VisionProviderName } from './vision';
+
+export type DetectionQuality = 'excellent' | 'good' | 'fair' | 'poor';
+
+// What the browser reports about its own analysis; never used for scoring
+export interface ClientWasteAnalysis {
+  wasteType?: string;
+  detailedType?: string;
+  confidence?: number;
+  quality?: string;
+  pointsEarned?: number;
+  recyclable?: boolean;
+  provider?: string; // vision provider behind the browser's detections
+}
+
+// One detector's vote within the ensemble
+export interface ModelVote {
+  model: string;
+  wasteType: string;
+  confidence: number;
+}
+
+// Classification the server ran itself on the uploaded image
+export interface ServerWasteAnalysis {
+  wasteType: string;
+  confidence: number;
+  quality: DetectionQuality;
+  recyclability: number;
+  contamination: number;
+  basePoints: number;
+  modelUsed: string;
+  provider: VisionProviderName | null; // null when no vision provider could classify the image
+  modelVotes: ModelVote[]; // empty when the image could not be decoded
+  verified: boolean; // false when the image could not be decoded and a conservative default was used
+}
+
+// Pixel rectangle in the uploaded image's full resolution
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// An object the user kept in their photo, as the browser's detector reported it
+export interface ClientDetectedItem {
+  className: string;
+  wasteType: string;
+  confidence: number;
+  bbox: BoundingBox;
+}
+
+// A kept object after the server classified its own crop of the image
+export interface VerifiedDetectedItem {
+  className: string;
+  clientWasteType: string;
+  wasteType: string;
+  confidence: number;
+  quality: DetectionQuality;
+  bbox: BoundingBox;
+  verified: boolean; // false when the crop could not be classified
+  confirmed: boolean; // false when no server detection matched the box or its crop couldn't be classified; earns no points
+}
+
+// What submissions store per item
+export interface ScoredDetectedItem extends VerifiedDetectedItem {
+  points: number;
+}
+
+export interface DetectionDisagreement {
+  clientWasteType: string | null;
+  serverWasteType: string;
+  typeMismatch: boolean;
+  confidenceDelta: number | null;
+  pointsDelta: number | null;
+  significant: boolean;
+  reasons: string[];
+}
@@ -0,0 +1,60 @@
+import type { CollectorCandidate } from './collector';
+import type { Location, PickupTicket } from './pickup';
+
+export type DispatchAction = 'assign' | 'reassign' | 'bulk_assign';
+
+export type DispatchOutcome = 'succeeded' | 'partial' | 'failed';
+
+// A pickup waiting in the manual-assignment queue, with collectors that could take it
+export interface DispatchQueueItem {
+  pickup: PickupTicket;
+  ageMinutes: number; // since it entered the queue
+  candidates: CollectorCandidate[];
+}
+
+export interface RoutePreviewStop {
+  submission_id: number;
+  location: Location;
+  legDistanceKm: number;
+  arrivalMinutes: number; // from departure, including time spent at earlier stops
+}
+
+// Nearest-neighbour visiting order for a collector taking a set of pickups
+export interface RoutePreview {
+  collector_id: string;
+  start: Location;
+  stops: RoutePreviewStop[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  totalWeightKg: number;
+  remainingCapacityKg: number;
+  overCapacity: boolean;
+}
+
+export interface DispatchRejection {
+  submission_id: number;
+  code: string;
+  error: string;
+}
+
+export interface DispatchResult {
+  action: DispatchAction;
+  collector_id: string;
+  assigned: number[];
+  rejected: DispatchRejection[];
+  preview: RoutePreview | null;
+  audit_id: string;
+}
+
+export interface DispatchAuditEntry {
+  id: string;
+  action: DispatchAction;
+  outcome: DispatchOutcome;
+  submission_ids: number[];
+  collector_id: string;
+  previous_collector_ids: string[];
+  dispatcher_id: string | null;
+  note: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+}
@@ -0,0 +1,46 @@
+import type { PointsSource } from './points';
+
+export type FraudSignalType =
+  | 'DUPLICATE_OWN_IMAGE'   // near-identical to one of the user's earlier uploads
+  | 'DUPLICATE_OTHER_IMAGE' // near-identical to another user's upload
+  | 'HOURLY_VELOCITY'
+  | 'DAILY_VELOCITY'
+  | 'LOCATION_JUMP';        // too far from the previous submission for the time elapsed
+
+export interface FraudSignal {
+  type: FraudSignalType;
+  detail: string;
+  matchedUploadId?: string; // upload_fingerprints row of the earlier upload
+  matchedSource?: Required<PointsSource>; // the submission or detection it became, when known
+  distance?: number; // Hamming distance for duplicates, km for location jumps
+}
+
+export interface FraudAssessment {
+  uploadId: string; // the fingerprint recorded for this upload; link it to its source once stored
+  suspicious: boolean;
+  signals: FraudSignal[];
+}
+
+export interface FraudCheckInput {
+  userEmail: string;
+  imageHashes: string[]; // dHash of every photo in the submission
+  location?: { lat: number; lng: number } | null;
+  at?: Date;
+}
+
+export type FraudReviewStatus = 'open' | 'approved' | 'rejected';
+
+export interface FraudReview {
+  id: string;
+  user_email: string;
+  detection_id: string | null;
+  source_type: Required<PointsSource>['type'];
+  source_id: string;
+  image_hash: string | null;
+  signals: FraudSignal[];
+  status: FraudReviewStatus;
+  reviewer_id: string | null;
+  resolution_note: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
@@ -0,0 +1,9 @@
+export interface StoredImage {
+  key: string;
+  url: string;
+  thumbnailUrl: string | null; // null when the server couldn't decode the image
+  contentType: string;
+  size: number; // bytes, after metadata stripping
+  width: number;
+  height: number;
+}
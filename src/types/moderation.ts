@@ -0,0 +1,45 @@
+import type { PointsSource } from './points';
+import type { DetectionQuality, ModelVote, ScoredDetectedItem } from './detection';
+
+export type ModerationReasonType =
+  | 'LOW_CONFIDENCE'     // ensemble confidence below the configured threshold
+  | 'MODEL_DISAGREEMENT' // color, shape and texture detectors voted for different categories
+  | 'FALLBACK_RESULT'    // every detector failed and the canned fallback was returned
+  | 'UNVERIFIED';        // the image could not be decoded on the server
+
+export interface ModerationReason {
+  type: ModerationReasonType;
+  detail: string;
+}
+
+export type DetectionReviewStatus = 'open' | 'confirmed' | 'relabeled';
+
+export interface DetectionReview {
+  id: string;
+  user_email: string;
+  detection_id: string | null;
+  source_type: Required<PointsSource>['type'];
+  source_id: string;
+  predicted_label: string;
+  confidence: number;
+  quality: DetectionQuality;
+  model_used: string;
+  model_votes: ModelVote[];
+  items: ScoredDetectedItem[]; // the submission's items when the review was opened
+  reasons: ModerationReason[];
+  status: DetectionReviewStatus;
+  reviewed_label: string | null; // ground truth once resolved
+  reviewer_id: string | null;
+  review_note: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+// How the classifier did against moderator labels
+export interface ModerationEvaluation {
+  reviewed: number;
+  correct: number;
+  accuracy: number | null;
+  byPredictedLabel: Record<string, { reviewed: number; correct: number }>;
+  confusions: Array<{ predicted: string; actual: string; count: number }>;
+}
@@ -1,4 +1,5 @@
 import NextAuth from "next-auth";
+import type { UserRole } from "./auth";
 
 declare module "next-auth" {
   interface Session {
@@ -8,6 +9,21 @@ declare module "next-auth" {
       email?: string | null;
       image?: string | null;
       points?: number;
+      role: UserRole;
+      collectorId: string | null;
     }
   }
-} 
\ No newline at end of file
+
+  interface User {
+    role: UserRole;
+    collectorId: string | null;
+  }
+}
+
+declare module "next-auth/jwt" {
+  interface JWT {
+    id?: string;
+    role?: UserRole;
+    collectorId?: string | null;
+  }
+}
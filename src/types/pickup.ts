@@ -1,125 +1,81 @@
+import type { CollectorCandidate, VehicleType } from './collector';
+
 export interface Location {
   lat: number;
   lng: number;
   address?: string;
 }
 
-export interface EstimationResult {
-  user_id: string;
+export type PickupStatus =
+  | 'PENDING'
+  | 'ASSIGNED'
+  | 'MANUAL_ASSIGNMENT_NEEDED'
+  | 'EN_ROUTE'
+  | 'ARRIVED'
+  | 'COLLECTED'
+  | 'VERIFIED'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'FAILED'
+  | 'RESCHEDULED';
+
+// Who is asking for a status change; 'system' is server-side automation (auto-assignment, settlement)
+export type PickupActor = 'citizen' | 'collector' | 'ops' | 'system';
+
+export interface PickupTransitionContext {
+  actor: PickupActor;
+  actorId?: string;     // user id for citizens, collector id for collectors
+  reason?: string;
+  collectorId?: string; // collector taking the pickup (ASSIGNED)
+  loadKg?: number;      // weight the collector carries for it: the estimate on ASSIGNED, the weighed load on COLLECTED
+}
+
+export interface PickupTransition {
+  id: string;
+  submission_id: number;
+  from_status: PickupStatus;
+  to_status: PickupStatus;
+  actor: PickupActor;
+  actor_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// Pickup details added to an existing waste submission
+export interface PickupRequest {
+  submission_id: number;
   location: Location;
-  waste_type: string;
-  weight: number;
-  points: number;
+  waste_type?: string;        // defaults to the submission's type
+  estimated_weight?: number;  // kg
+  vehicle_type?: VehicleType; // only match collectors with this vehicle
+  pickup_window_start?: string; // ISO timestamp; earliest time the collector may arrive
+  pickup_window_end?: string;   // ISO timestamp; latest time the collector may arrive
+  service_minutes?: number;     // expected time on site
 }
 
+// A waste submission seen as a pickup
 export interface PickupTicket {
-  id: string;
-  user_id: string;
-  collector_id?: string;
+  id: number; // waste_submissions.id
+  user_id: string | null;
+  collector_id: string | null;
   location: Location;
   waste_type: string;
-  estimated_weight: number;
+  estimated_weight: number | null;
   points: number;
-  status: 'PENDING' | 'ASSIGNED' | 'MANUAL_ASSIGNMENT_NEEDED' | 'COMPLETED';
-  created_at: Date;
-  updated_at: Date;
+  status: PickupStatus;
+  pickup_window_start: string | null;
+  pickup_window_end: string | null;
+  service_minutes: number;
+  created_at: string;
+  status_updated_at: string | null;
+  accepted_at: string | null;        // when the assigned collector accepted it
+  optimized_route_id: string | null; // route the pickup was planned on, if any
+  route_order: number | null;        // 1-based stop number on that route
 }
 
-// Update src/services/pickupService.ts
-
-export class PickupService {
-  private supabase;
-  private notificationService: NotificationService;
-
-  constructor() {
-    this.supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL || 'https://placeholder.supabase.co',
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || 'placeholder-key'
-    );
-    this.notificationService = new NotificationService();
-  }
-
-  async createPickupRequest(submissionId: number, location: Location): Promise<void> {
-    try {
-      // Update waste submission with pickup details
-      const { error: updateError } = await this.supabase
-        .from('waste_submissions')
-        .update({ 
-          pickup_status: 'PENDING',
-          pickup_location: location
-        })
-        .eq('id', submissionId);
-
-      if (updateError) throw new Error('Failed to update submission with pickup details');
-
-      // Find and assign collector
-      const collector = await this._findNearestCollector(location);
-      if (collector) {
-        await this._assignCollector(submissionId, collector);
-      } else {
-        await this._initiateManualAssignment(submissionId);
-      }
-    } catch (error) {
-      console.error('Pickup request failed:', error);
-      throw error;
-    }
-  }
-
-  private async _findNearestCollector(location: Location) {
-    const { data: collectors } = await this.supabase
-      .from('collectors')
-      .select('*')
-      .eq('status', 'AVAILABLE')
-      .order('last_active_at', { ascending: false })
-      .limit(1);
-
-    return collectors?.[0] || null;
-  }
-
-  private async _assignCollector(submissionId: number, collector: any) {
-    const { error } = await this.supabase
-      .rpc('assign_collector', {
-        submission_id: submissionId,
-        collector_id: collector.id
-      });
-
-    if (error) throw new Error('Failed to assign collector');
-
-    await this._sendConfirmations(submissionId, collector);
-  }
-
-  private async _initiateManualAssignment(submissionId: number) {
-    const { error } = await this.supabase
-      .from('waste_submissions')
-      .update({ pickup_status: 'MANUAL_ASSIGNMENT_NEEDED' })
-      .eq('id', submissionId);
-
-    if (error) throw new Error('Failed to update pickup status');
-
-    await this.notificationService.notifyOps({
-      type: 'MANUAL_ASSIGNMENT_NEEDED',
-      submissionId
-    });
-  }
-
-  private async _sendConfirmations(submissionId: number, collector: any) {
-    const { data: submission } = await this.supabase
-      .from('waste_submissions')
-      .select('*')
-      .eq('id', submissionId)
-      .single();
-
-    if (submission) {
-      await this.notificationService.sendPush(
-        submission.user_id,
-        'Pickup Confirmed',
-        `Your waste pickup request has been confirmed. Collector will arrive shortly.`
-      );
-
-      await this.notificationService.sendSMS(
-        collector.phone,
-        `New pickup assigned: ${submission.type} waste at ${JSON.stringify(submission.pickup_location)}`
-      );
-    }
-  }
-}
\ No newline at end of file
+export interface PickupAssignment {
+  submission_id: number;
+  status: 'ASSIGNED' | 'MANUAL_ASSIGNMENT_NEEDED';
+  collector: CollectorCandidate | null;
+  reason?: string; // why no collector could be matched
+}
@@ -0,0 +1,104 @@
+export type PointsReasonCode =
+  | 'SUBMISSION_REWARD'
+  | 'AI_DETECTION_REWARD'
+  | 'REDEMPTION'
+  | 'REDEMPTION_REFUND'
+  | 'MANUAL_ADJUSTMENT';
+
+export type PointsSourceType = 'submission' | 'detection' | 'redemption' | 'manual';
+
+export interface PointsSource {
+  type: PointsSourceType;
+  id?: string;
+}
+
+export interface PointsLedgerEntry {
+  id: string;
+  user_email: string;
+  delta: number;
+  balance_after: number;
+  reason_code: PointsReasonCode;
+  source_type: PointsSourceType;
+  source_id?: string | null;
+  idempotency_key: string;
+  note?: string | null;
+  created_at: string;
+}
+
+export interface RecordPointsEntryInput {
+  userEmail: string;
+  delta: number;
+  reasonCode: PointsReasonCode;
+  source: PointsSource;
+  idempotencyKey: string;
+  note?: string;
+}
+
+export interface RecordPointsEntryResult {
+  entry: PointsLedgerEntry;
+  balance: number;
+  duplicate: boolean;
+  source: 'supabase' | 'demo';
+}
+
+export interface PointsHistoryPage {
+  entries: PointsLedgerEntry[];
+  page: number;
+  limit: number;
+  total: number;
+  hasNextPage: boolean;
+}
+
+// held = flagged for fraud review; rejected = review decided nothing is credited;
+// void = the pickup failed (until it is rescheduled) or was cancelled
+export type ProvisionalPointsStatus = 'pending' | 'held' | 'settled' | 'rejected' | 'void';
+
+// Points estimated at submission time; they only reach the ledger once settled
+export interface ProvisionalPointsHold {
+  id: string;
+  user_email: string;
+  source_type: PointsSourceType;
+  source_id: string;
+  estimated_points: number;
+  settled_points: number | null;
+  status: ProvisionalPointsStatus;
+  policy_version: string;                 // scoring policy used for the estimate
+  settled_policy_version?: string | null; // scoring policy used for the settled amount
+  basis?: Record<string, unknown> | null;
+  note?: string | null;
+  campaign_bonuses?: CampaignBonusCharge[]; // requested at settlement; budgets are charged when credited
+  ledger_entry_id?: string | null;
+  created_at: string;
+  settled_at?: string | null;
+}
+
+export interface RecordProvisionalInput {
+  userEmail: string;
+  points: number;
+  policyVersion: string;
+  source: Required<PointsSource>;
+  basis?: Record<string, unknown>;
+  note?: string;
+  held?: boolean; // start under fraud review instead of pending
+}
+
+// A campaign's share of an award, charged to its budget when the points are credited
+export interface CampaignBonusCharge {
+  campaignId: string;
+  points: number;
+}
+
+export interface SettleProvisionalInput {
+  source: Required<PointsSource>;
+  finalPoints: number; // includes campaignBonuses; reduced by whatever their budgets can't grant
+  policyVersion: string;
+  campaignBonuses?: CampaignBonusCharge[];
+  // Owner of a hold opened at settlement when the source never had one
+  userEmail?: string;
+  note?: string;
+}
+
+export interface SettleProvisionalResult {
+  hold: ProvisionalPointsHold | null;
+  balance: number | null;
+}
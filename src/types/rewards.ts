@@ -0,0 +1,39 @@
+export type RewardCategory =
+  | 'gift-cards'
+  | 'eco-products'
+  | 'experiences'
+  | 'donations'
+  | 'crypto'
+  | 'nft'
+  | 'vouchers';
+
+export type RedemptionStatus = 'pending' | 'fulfilled' | 'cancelled' | 'refunded';
+
+export type RedemptionAction = 'fulfill' | 'cancel' | 'refund';
+
+export interface CatalogReward {
+  id: string;
+  title: string;
+  description: string;
+  category: RewardCategory;
+  points_cost: number;
+  image_url?: string | null;
+  stock: number | null; // null = unlimited
+  per_user_limit: number | null; // null = no limit
+  starts_at?: string | null;
+  ends_at?: string | null;
+  featured: boolean;
+  is_active: boolean;
+}
+
+export interface RewardRedemption {
+  id: string;
+  reward_id: string;
+  user_email: string;
+  points_spent: number;
+  status: RedemptionStatus;
+  idempotency_key: string;
+  fulfillment_note?: string | null;
+  created_at: string;
+  updated_at: string;
+}
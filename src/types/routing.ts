@@ -0,0 +1,48 @@
+export type RoutingProfile = 'truck' | 'van' | 'bike';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface RouteRequest {
+  from: LatLng;
+  to: LatLng;
+  vehicleType: RoutingProfile;
+}
+
+export interface RouteResult {
+  distance: number; // km
+  duration: number; // hours
+  routeCoordinates: [number, number][]; // [lat, lng] pairs for Leaflet
+  source: string;
+}
+
+export interface RoutingProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  // Resolves to null when the provider cannot route this pair (no key, off-graph, rate limited)
+  route(request: RouteRequest): Promise<RouteResult | null>;
+  // Many-to-many travel costs in one call; cells the provider cannot route are null
+  matrix?(request: MatrixRequest): Promise<Array<Array<MatrixCell | null>> | null>;
+}
+
+export interface MatrixRequest {
+  origins: LatLng[];
+  destinations: LatLng[];
+  vehicleType: RoutingProfile;
+}
+
+export interface MatrixCell {
+  distance: number; // km
+  duration: number; // hours
+  source: string;
+}
+
+// Row i, column j is origin i -> destination j
+export interface DistanceMatrix {
+  distances: number[][]; // km
+  durations: number[][]; // hours
+  sources: string[][];
+  cacheHits: number;
+}
@@ -0,0 +1,85 @@
+import type { ContaminationGrade } from './collector';
+import type { DetectionQuality } from './detection';
+
+export type ScoringCategory =
+  | 'plastic'
+  | 'paper'
+  | 'metal'
+  | 'glass'
+  | 'electronics'
+  | 'organic'
+  | 'textile'
+  | 'other';
+
+export interface CategoryScoring {
+  basePoints: number;  // per detected item, used for image-only estimates
+  pointsPerKg: number; // per kg of weighed material
+  subcategories?: Record<string, number>; // multiplier on top of the category rate
+}
+
+export interface ScoringPolicy {
+  version: string;
+  categories: Record<ScoringCategory, CategoryScoring>;
+  categoryAliases: Record<string, ScoringCategory>;
+  qualityModifiers: Record<DetectionQuality, number>;
+  contaminationModifiers: Record<ContaminationGrade, number>;
+  // Full rate up to fullRateKg, then taperRate per extra kg so bulk drops don't dominate
+  weightCurve: { fullRateKg: number; taperRate: number };
+  caps: { perDetection: number; perSubmission: number; campaignBonus: number };
+}
+
+// A bonus from an active campaign; applied after the base award is capped
+export interface CampaignBonus {
+  campaignId: string;
+  multiplier?: number; // e.g. 1.5 adds 50% of the base award
+  flatPoints?: number;
+}
+
+export interface DetectionScoringInput {
+  wasteType: string;
+  quality?: DetectionQuality | string;
+  bonuses?: CampaignBonus[];
+}
+
+export interface WeightScoringInput {
+  wasteType: string;
+  subType?: string;
+  weightKg: number;
+  quality?: DetectionQuality | string;
+  contamination?: ContaminationGrade;
+  bonuses?: CampaignBonus[];
+}
+
+// A weighed load of several categories; the weight is split between them by share
+export interface MixedWeightScoringInput {
+  weightKg: number;
+  contamination?: ContaminationGrade;
+  parts: Array<{ wasteType: string; share: number; bonuses?: CampaignBonus[] }>;
+}
+
+// Award for a submission with several items; each is scored on its own (without campaign
+// bonuses) and campaigns are applied once on top of the total
+export interface ItemizedAward {
+  points: number;
+  policyVersion: string;
+  items: PointsAward[];
+  capped: boolean; // the submission cap cut the total
+  campaignBonus: number;
+  campaigns: Array<{ campaignId: string; points: number }>;
+}
+
+export interface PointsAward {
+  points: number;
+  policyVersion: string;
+  breakdown: {
+    category: ScoringCategory;
+    basePoints: number;
+    effectiveWeightKg?: number;
+    subcategoryMultiplier: number;
+    qualityModifier: number;
+    contaminationModifier: number;
+    capped: boolean;
+    campaignBonus: number;
+    campaigns: Array<{ campaignId: string; points: number }>;
+  };
+}
@@ -0,0 +1,48 @@
+import type { ImagePixels } from '@/lib/imageDecoding';
+import type { BoundingBox, DetectionQuality, ModelVote } from './detection';
+
+export type VisionProviderName = 'gemini' | 'coco-ssd' | 'heuristic' | 'stub';
+
+// An image handed to a provider. Whole uploads carry their encoded bytes; crops of
+// already-decoded pixels don't, so providers that need the file skip them.
+export interface VisionImage {
+  bytes: Buffer | null;
+  mimeType: string | null;
+  width: number; // full resolution; detection boxes are in this pixel space
+  height: number;
+  // Decoded lazily (and once) for providers that work on pixels
+  pixels(): Promise<ImagePixels | null>;
+}
+
+export interface VisionDetection {
+  className: string;
+  wasteType: string; // scoring category (see normalizeCategory)
+  confidence: number;
+  bbox: BoundingBox;
+}
+
+// Whole-image verdict, used by server-side verification and moderation
+export interface VisionClassification {
+  wasteType: string;
+  confidence: number;
+  quality: DetectionQuality;
+  recyclability: number;
+  contamination: number;
+  votes: ModelVote[];
+}
+
+export interface VisionResult {
+  provider: VisionProviderName;
+  model: string;
+  detections: VisionDetection[];
+  classification: VisionClassification;
+}
+
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  // Reports a box per object it finds; false for providers that give one whole-image verdict
+  readonly localizesObjects: boolean;
+  isConfigured(): boolean;
+  // Resolves to null when the provider cannot handle this image (no key, no model, not decodable)
+  detect(image: VisionImage): Promise<VisionResult | null>;
+}
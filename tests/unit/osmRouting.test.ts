@@ -0,0 +1,69 @@
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { LocalOsmRoutingProvider } from '@/services/routingProviders';
+import { haversineKm } from '@/services/osmRoadGraph';
+
+// A one-block square: South Street is one-way eastbound and a footpath cuts across the park
+const GRAPH_PATH = path.resolve(__dirname, '../fixtures/roads.geojson');
+const SOUTH_WEST = { lat: 40.75, lng: -73.99 };
+const SOUTH_EAST = { lat: 40.75, lng: -73.98 };
+const NORTH_EAST = { lat: 40.76, lng: -73.98 };
+
+describe('LocalOsmRoutingProvider', () => {
+  const provider = new LocalOsmRoutingProvider(GRAPH_PATH);
+
+  it('routes over the road graph without any network access', async () => {
+    const result = await provider.route({ from: SOUTH_WEST, to: NORTH_EAST, vehicleType: 'truck' });
+
+    expect(result).not.toBeNull();
+    expect(result!.source).toBe('osm-local');
+    // Around the corner, not across the park
+    const expected = haversineKm(SOUTH_WEST, SOUTH_EAST) + haversineKm(SOUTH_EAST, NORTH_EAST);
+    expect(result!.distance).toBeCloseTo(expected, 3);
+    expect(result!.duration).toBeGreaterThan(0);
+    expect(result!.routeCoordinates[0]).toEqual([SOUTH_WEST.lat, SOUTH_WEST.lng]);
+    expect(result!.routeCoordinates[result!.routeCoordinates.length - 1]).toEqual([NORTH_EAST.lat, NORTH_EAST.lng]);
+  });
+
+  it('keeps trucks off one-way streets against the flow', async () => {
+    const result = await provider.route({ from: SOUTH_EAST, to: SOUTH_WEST, vehicleType: 'truck' });
+
+    expect(result).not.toBeNull();
+    expect(result!.distance).toBeGreaterThan(2 * haversineKm(SOUTH_EAST, SOUTH_WEST));
+  });
+
+  it('lets bikes use footpaths that trucks cannot', async () => {
+    const bike = await provider.route({ from: SOUTH_WEST, to: NORTH_EAST, vehicleType: 'bike' });
+    const truck = await provider.route({ from: SOUTH_WEST, to: NORTH_EAST, vehicleType: 'truck' });
+
+    expect(bike!.distance).toBeCloseTo(haversineKm(SOUTH_WEST, NORTH_EAST), 3);
+    expect(bike!.distance).toBeLessThan(truck!.distance);
+  });
+
+  it('fills a matrix that agrees with single routes', async () => {
+    const points = [SOUTH_WEST, SOUTH_EAST, NORTH_EAST];
+    const matrix = await provider.matrix({ origins: points, destinations: points, vehicleType: 'truck' });
+
+    expect(matrix).not.toBeNull();
+    for (let i = 0; i < points.length; i++) {
+      expect(matrix![i][i]!.distance).toBeCloseTo(0, 6);
+      for (let j = 0; j < points.length; j++) {
+        if (i === j) continue;
+        const route = await provider.route({ from: points[i], to: points[j], vehicleType: 'truck' });
+        expect(matrix![i][j]!.distance).toBeCloseTo(route!.distance, 6);
+      }
+    }
+  });
+
+  it('leaves pickups far from every road to the next provider', async () => {
+    const result = await provider.route({ from: SOUTH_WEST, to: { lat: 41.5, lng: -73.98 }, vehicleType: 'truck' });
+    expect(result).toBeNull();
+  });
+
+  it('is skipped when no graph is configured', async () => {
+    const unconfigured = new LocalOsmRoutingProvider(undefined);
+
+    expect(unconfigured.isConfigured()).toBe(false);
+    expect(await unconfigured.route({ from: SOUTH_WEST, to: NORTH_EAST, vehicleType: 'truck' })).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  PICKUP_STATUSES,
+  PICKUP_TRANSITIONS,
+  PickupLifecycleService,
+  PickupTransitionError,
+  WORKFLOW_STATUSES,
+  allowedNextStatuses
+} from '@/services/pickupLifecycle';
+import { collectorRegistry } from '@/services/collectorRegistry';
+import type { PickupStatus } from '@/types/pickup';
+
+// Supabase unreachable, so every service runs on its demo fallback
+vi.mock('@/lib/supabase', () => {
+  const unreachable = () => {
+    throw new TypeError('fetch failed');
+  };
+  return {
+    supabase: { from: unreachable, rpc: unreachable },
+    isFetchFailedError: (error: unknown) => String((error as Error)?.message).includes('fetch failed')
+  };
+});
+
+const COLLECTOR_ID = 'collector-ecopro';
+
+async function expectCode(promise: Promise<unknown>, code: string) {
+  const error = await promise.then(() => null, (caught: unknown) => caught);
+  expect(error).toBeInstanceOf(PickupTransitionError);
+  expect((error as PickupTransitionError).code).toBe(code);
+}
+
+async function collectorLoad(): Promise<number> {
+  return (await collectorRegistry.getCollector(COLLECTOR_ID))!.current_load_kg;
+}
+
+describe('pickup state machine', () => {
+  it('only moves to known statuses and ends in COMPLETED or CANCELLED', () => {
+    for (const from of PICKUP_STATUSES) {
+      for (const to of Object.keys(PICKUP_TRANSITIONS[from]) as PickupStatus[]) {
+        expect(PICKUP_STATUSES).toContain(to);
+      }
+    }
+    expect(allowedNextStatuses('COMPLETED')).toEqual([]);
+    expect(allowedNextStatuses('CANCELLED')).toEqual([]);
+  });
+
+  it('limits each move to the actors that may make it', () => {
+    expect(allowedNextStatuses('ARRIVED', 'collector')).toEqual(['COLLECTED', 'FAILED']);
+    expect(allowedNextStatuses('ARRIVED', 'citizen')).toEqual([]);
+    expect(allowedNextStatuses('COLLECTED', 'collector')).toEqual([]);
+    expect(allowedNextStatuses('RESCHEDULED', 'ops')).toContain('ASSIGNED');
+  });
+
+  it('walks a pickup from PENDING to COMPLETED', async () => {
+    const lifecycle = new PickupLifecycleService();
+    await lifecycle.transition(101, 'ASSIGNED', { actor: 'system', collectorId: COLLECTOR_ID, loadKg: 5 });
+    await lifecycle.transition(101, 'EN_ROUTE', { actor: 'collector', actorId: COLLECTOR_ID });
+    await lifecycle.transition(101, 'ARRIVED', { actor: 'collector', actorId: COLLECTOR_ID });
+    await lifecycle.transition(101, 'COLLECTED', { actor: 'collector', actorId: COLLECTOR_ID, loadKg: 6 });
+    await lifecycle.transition(101, 'VERIFIED', { actor: 'system' });
+    await lifecycle.transition(101, 'COMPLETED', { actor: 'system' });
+
+    const history = await lifecycle.getHistory(101);
+    expect(history.map(step => step.to_status)).toEqual(['ASSIGNED', 'EN_ROUTE', 'ARRIVED', 'COLLECTED', 'VERIFIED', 'COMPLETED']);
+    expect((await lifecycle.getPickupState(101))!.status).toBe('COMPLETED');
+  });
+
+  it('rejects moves the table does not list', async () => {
+    const lifecycle = new PickupLifecycleService();
+    await expectCode(lifecycle.transition(102, 'COLLECTED', { actor: 'collector', actorId: COLLECTOR_ID }), 'INVALID_PICKUP_TRANSITION');
+  });
+
+  it('checks who is asking', async () => {
+    const lifecycle = new PickupLifecycleService();
+    await expectCode(lifecycle.transition(103, 'ASSIGNED', { actor: 'citizen', actorId: 'user-1', collectorId: COLLECTOR_ID }), 'ACTOR_NOT_ALLOWED');
+    await expectCode(lifecycle.transition(103, 'CANCELLED', { actor: 'citizen', actorId: 'user-1', reason: 'moved' }), 'NOT_PICKUP_OWNER');
+
+    await lifecycle.transition(103, 'ASSIGNED', { actor: 'system', collectorId: COLLECTOR_ID });
+    await expectCode(lifecycle.transition(103, 'EN_ROUTE', { actor: 'collector', actorId: 'collector-other' }), 'NOT_ASSIGNED_COLLECTOR');
+  });
+
+  it('needs a reason to cancel, fail or reschedule and a collector to assign', async () => {
+    const lifecycle = new PickupLifecycleService();
+    await expectCode(lifecycle.transition(104, 'CANCELLED', { actor: 'ops', reason: '  ' }), 'REASON_REQUIRED');
+    await expectCode(lifecycle.transition(104, 'ASSIGNED', { actor: 'ops' }), 'COLLECTOR_REQUIRED');
+  });
+
+  it('keeps assignment and collection out of the status APIs', async () => {
+    const lifecycle = new PickupLifecycleService();
+    for (const status of WORKFLOW_STATUSES) {
+      await expectCode(lifecycle.requestTransition(105, status, { actor: 'ops', collectorId: COLLECTOR_ID }), 'WORKFLOW_REQUIRED');
+    }
+    await lifecycle.requestTransition(105, 'CANCELLED', { actor: 'ops', reason: 'duplicate request' });
+    expect((await lifecycle.getPickupState(105))!.status).toBe('CANCELLED');
+  });
+
+  it('puts the pickup on the collector while it holds it and takes it off when it leaves', async () => {
+    const lifecycle = new PickupLifecycleService();
+    const before = await collectorLoad();
+
+    await lifecycle.transition(106, 'ASSIGNED', { actor: 'system', collectorId: COLLECTOR_ID, loadKg: 10 });
+    expect(await collectorLoad()).toBe(before + 10);
+
+    await lifecycle.transition(106, 'EN_ROUTE', { actor: 'collector', actorId: COLLECTOR_ID });
+    await lifecycle.transition(106, 'FAILED', { actor: 'collector', actorId: COLLECTOR_ID, reason: 'nobody home' });
+    expect(await collectorLoad()).toBe(before);
+
+    await lifecycle.transition(106, 'RESCHEDULED', { actor: 'ops', reason: 'tomorrow morning' });
+    expect((await lifecycle.getPickupState(106))!.collector_id).toBeNull();
+  });
+});
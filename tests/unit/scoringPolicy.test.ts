@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SCORING_POLICY,
+  normalizeCategory,
+  scoreByWeight,
+  scoreDetectedItems,
+  scoreDetection,
+  scoreMixedWeight
+} from '@/services/scoringPolicy';
+
+const FLAT_BONUS = { campaignId: 'spring-cleanup', flatPoints: 50 };
+const DOUBLE_POINTS = { campaignId: 'double-points', multiplier: 2 };
+
+describe('scoring policy', () => {
+  it('maps aliases and unknown types onto policy categories', () => {
+    expect(normalizeCategory('Cardboard')).toBe('paper');
+    expect(normalizeCategory('electronic')).toBe('electronics');
+    expect(normalizeCategory('styrofoam')).toBe('other');
+    expect(normalizeCategory(null)).toBe('other');
+  });
+
+  it('scores a detection from its category and quality', () => {
+    expect(scoreDetection({ wasteType: 'plastic', quality: 'good' }).points).toBe(10);
+    expect(scoreDetection({ wasteType: 'plastic', quality: 'excellent' }).points).toBe(12);
+    expect(scoreDetection({ wasteType: 'metal', quality: 'poor' }).points).toBe(8);
+  });
+
+  it('scores weight with subcategory, contamination and the taper past the full-rate weight', () => {
+    expect(scoreByWeight({ wasteType: 'plastic', weightKg: 10 }).points).toBe(100);
+    expect(scoreByWeight({ wasteType: 'plastic', subType: 'PET', weightKg: 10 }).points).toBe(120);
+    expect(scoreByWeight({ wasteType: 'plastic', weightKg: 10, contamination: 'moderate' }).points).toBe(60);
+    expect(scoreByWeight({ wasteType: 'plastic', weightKg: 10, contamination: 'heavy' }).points).toBe(0);
+    // 50 kg at full rate, the next 30 kg at half
+    expect(scoreByWeight({ wasteType: 'plastic', weightKg: 80 }).points).toBe(650);
+  });
+
+  it('caps a single submission', () => {
+    const award = scoreByWeight({ wasteType: 'electronics', subType: 'computers', weightKg: 100 });
+
+    expect(award.points).toBe(SCORING_POLICY.caps.perSubmission);
+    expect(award.breakdown.capped).toBe(true);
+  });
+
+  it('records the policy version on every award', () => {
+    expect(scoreByWeight({ wasteType: 'glass', weightKg: 1 }).policyVersion).toBe(SCORING_POLICY.version);
+    expect(scoreDetectedItems([{ wasteType: 'glass' }]).policyVersion).toBe(SCORING_POLICY.version);
+  });
+
+  describe('campaign bonuses', () => {
+    it('grants a flat bonus once per submission, however many items it covers', () => {
+      const items = Array.from({ length: 5 }, () => ({ wasteType: 'plastic', quality: 'good', bonuses: [FLAT_BONUS] }));
+      const award = scoreDetectedItems(items);
+
+      expect(award.items.map(item => item.points)).toEqual([10, 10, 10, 10, 10]);
+      expect(award.campaignBonus).toBe(50);
+      expect(award.campaigns).toEqual([{ campaignId: 'spring-cleanup', points: 50 }]);
+      expect(award.points).toBe(100);
+    });
+
+    it('applies a multiplier only to the items its campaign covers', () => {
+      const award = scoreDetectedItems([
+        { wasteType: 'plastic', bonuses: [DOUBLE_POINTS] },
+        { wasteType: 'metal' }
+      ]);
+
+      expect(award.campaignBonus).toBe(10);
+      expect(award.points).toBe(10 + 15 + 10);
+    });
+
+    it('keeps all campaigns on a submission within one bonus cap', () => {
+      const award = scoreByWeight({
+        wasteType: 'metal',
+        weightKg: 40,
+        bonuses: [{ campaignId: 'triple', multiplier: 3 }, FLAT_BONUS]
+      });
+
+      expect(award.breakdown.campaignBonus).toBe(SCORING_POLICY.caps.campaignBonus);
+      expect(award.points).toBe(600 + SCORING_POLICY.caps.campaignBonus);
+    });
+
+    it('boosts nothing when nothing was earned', () => {
+      const award = scoreByWeight({ wasteType: 'plastic', weightKg: 10, contamination: 'heavy', bonuses: [FLAT_BONUS] });
+
+      expect(award.points).toBe(0);
+      expect(award.breakdown.campaigns).toEqual([]);
+    });
+  });
+
+  describe('mixed weighed loads', () => {
+    it('pays each category for its share of the weight at its own rate', () => {
+      const award = scoreMixedWeight({
+        weightKg: 10,
+        parts: [{ wasteType: 'plastic', share: 1 }, { wasteType: 'metal', share: 1 }]
+      });
+
+      expect(award.items.map(item => item.points)).toEqual([50, 75]);
+      expect(award.points).toBe(125);
+    });
+
+    it('tapers the whole load, not each share', () => {
+      const mixed = scoreMixedWeight({
+        weightKg: 80,
+        parts: [{ wasteType: 'plastic', share: 1 }, { wasteType: 'plastic', share: 1 }]
+      });
+
+      expect(mixed.points).toBe(scoreByWeight({ wasteType: 'plastic', weightKg: 80 }).points);
+    });
+
+    it('grants a campaign once across the categories it covers', () => {
+      const award = scoreMixedWeight({
+        weightKg: 10,
+        parts: [
+          { wasteType: 'plastic', share: 1, bonuses: [FLAT_BONUS] },
+          { wasteType: 'metal', share: 1, bonuses: [FLAT_BONUS] }
+        ]
+      });
+
+      expect(award.campaignBonus).toBe(50);
+      expect(award.points).toBe(175);
+    });
+  });
+});
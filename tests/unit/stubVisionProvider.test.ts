@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { StubVisionProvider, detectWithProviders, getVisionProviders, visionImageFromPixels } from '@/services/visionProviders';
+import type { VisionImage } from '@/types/vision';
+
+function imageFromBytes(bytes: number[], width = 640, height = 480): VisionImage {
+  return { bytes: Buffer.from(bytes), mimeType: 'image/jpeg', width, height, pixels: async () => null };
+}
+
+function solidPixels(value: number, width = 32, height = 24) {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4).fill(value) };
+}
+
+describe('StubVisionProvider', () => {
+  const stub = new StubVisionProvider();
+
+  it('gives the same answer for the same image every time', async () => {
+    const first = await stub.detect(imageFromBytes([1, 2, 3, 4, 5]));
+    const again = await new StubVisionProvider().detect(imageFromBytes([1, 2, 3, 4, 5]));
+
+    expect(first).not.toBeNull();
+    expect(again).toEqual(first);
+  });
+
+  it('spreads different images across categories', async () => {
+    const categories = new Set<string>();
+    for (let i = 0; i < 50; i++) {
+      const result = await stub.detect(imageFromBytes([i, i * 7, i * 13]));
+      categories.add(result!.detections[0].wasteType);
+    }
+    expect(categories.size).toBeGreaterThan(1);
+  });
+
+  it('reports one box inside the image, as a whole-image verdict', async () => {
+    const result = await stub.detect(imageFromBytes([9, 9, 9], 200, 100));
+    const { bbox } = result!.detections[0];
+
+    expect(stub.localizesObjects).toBe(false);
+    expect(result!.provider).toBe('stub');
+    expect(result!.detections).toHaveLength(1);
+    expect(bbox.x).toBeGreaterThanOrEqual(0);
+    expect(bbox.y).toBeGreaterThanOrEqual(0);
+    expect(bbox.x + bbox.width).toBeLessThanOrEqual(200);
+    expect(bbox.y + bbox.height).toBeLessThanOrEqual(100);
+    expect(result!.classification.wasteType).toBe(result!.detections[0].wasteType);
+  });
+
+  it('works from decoded pixels when there are no bytes', async () => {
+    const first = await stub.detect(visionImageFromPixels(solidPixels(120)));
+    const again = await stub.detect(visionImageFromPixels(solidPixels(120)));
+
+    expect(first).not.toBeNull();
+    expect(again).toEqual(first);
+  });
+
+  it('declines images it cannot read', async () => {
+    const unreadable: VisionImage = { bytes: null, mimeType: null, width: 10, height: 10, pixels: async () => null };
+    expect(await stub.detect(unreadable)).toBeNull();
+  });
+
+  it('is used when listed in VISION_PROVIDERS', async () => {
+    const previous = process.env.VISION_PROVIDERS;
+    process.env.VISION_PROVIDERS = 'stub';
+    try {
+      expect(getVisionProviders('detect').map(provider => provider.name)).toEqual(['stub']);
+      const result = await detectWithProviders(imageFromBytes([1, 2, 3, 4, 5]));
+      expect(result).toEqual(await stub.detect(imageFromBytes([1, 2, 3, 4, 5])));
+    } finally {
+      if (previous === undefined) delete process.env.VISION_PROVIDERS;
+      else process.env.VISION_PROVIDERS = previous;
+    }
+  });
+});